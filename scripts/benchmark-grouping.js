@@ -0,0 +1,299 @@
+/**
+ * Grouping performance test for Tab Groups Manager extension
+ *
+ * This script runs src/groupingEngine.ts against an in-memory fake of the chrome.tabs,
+ * chrome.tabGroups and chrome.windows APIs, where every call takes a little while as a
+ * real extension API call does. It groups a few hundred to a thousand tabs with the batch
+ * engine and with the old approach of one lookup and one chrome.tabs.group call per tab,
+ * checks that both end with every tab in the right group, and reports the API calls made
+ * and the time taken.
+ *
+ * Usage:
+ *   node scripts/benchmark-grouping.js [latencyMs]
+ */
+
+const path = require('path');
+const { requireTs } = require('./load-ts');
+
+// Paths
+const rootDir = path.resolve(__dirname, '..');
+const sourcePath = path.join(rootDir, 'src', 'groupingEngine.ts');
+
+const latencyMs = Number(process.argv[2] ?? 1);
+const tabCounts = [300, 1000];
+const siteCount = 40;
+const windowCount = 2;
+const TAB_GROUP_ID_NONE = -1;
+
+/**
+ * An in-memory browser: windows holding tabs in tab strip order, and tab groups
+ * Only the parts of the APIs the grouping code uses are faked.
+ */
+class FakeBrowser {
+  constructor() {
+    this.windows = new Map();   // Window ID -> { id, incognito, type, tabs: [tab] }
+    this.groups = new Map();    // Group ID -> { id, windowId, title, color, collapsed }
+    this.nextId = 1;
+    this.calls = {};
+  }
+  
+  addWindow() {
+    const window = { id: this.nextId++, incognito: false, type: 'normal', tabs: [] };
+    this.windows.set(window.id, window);
+    return window.id;
+  }
+  
+  addTab(windowId, url) {
+    const tab = { id: this.nextId++, windowId, url, title: url, groupId: TAB_GROUP_ID_NONE, incognito: false, pinned: false };
+    this.windows.get(windowId).tabs.push(tab);
+    return tab.id;
+  }
+  
+  /**
+   * Counts a call and waits as long as a real API call might
+   */
+  async call(name) {
+    this.calls[name] = (this.calls[name] || 0) + 1;
+    await new Promise(resolve => setTimeout(resolve, latencyMs));
+  }
+  
+  findTab(tabId) {
+    for (const window of this.windows.values()) {
+      const index = window.tabs.findIndex(tab => tab.id === tabId);
+      if (index !== -1) {
+        return { window, index, tab: window.tabs[index] };
+      }
+    }
+    throw new Error(`No tab with id: ${tabId}`);
+  }
+  
+  snapshot(tab) {
+    const index = this.windows.get(tab.windowId).tabs.indexOf(tab);
+    return { ...tab, index };
+  }
+  
+  /**
+   * Moves tabs next to each other into a group, at the end of the group if it has tabs already
+   */
+  moveIntoGroup(tabIds, groupId, windowId) {
+    const window = this.windows.get(windowId);
+    const moving = tabIds.map((tabId) => {
+      const found = this.findTab(tabId);
+      found.window.tabs.splice(found.index, 1);
+      return found.tab;
+    });
+    
+    const lastInGroup = window.tabs.map(tab => tab.groupId).lastIndexOf(groupId);
+    const position = lastInGroup === -1 ? window.tabs.length : lastInGroup + 1;
+    moving.forEach((tab) => {
+      tab.windowId = windowId;
+      tab.groupId = groupId;
+    });
+    window.tabs.splice(position, 0, ...moving);
+    this.removeEmptyGroups();
+  }
+  
+  removeEmptyGroups() {
+    const used = new Set([...this.windows.values()].flatMap(window => window.tabs.map(tab => tab.groupId)));
+    [...this.groups.keys()].filter(groupId => !used.has(groupId)).forEach(groupId => this.groups.delete(groupId));
+  }
+  
+  /**
+   * Builds the chrome object the extension code sees
+   */
+  createChrome() {
+    const browser = this;
+    return {
+      tabs: {
+        async query(queryInfo = {}) {
+          await browser.call('tabs.query');
+          return [...browser.windows.values()]
+            .flatMap(window => window.tabs)
+            .filter(tab => queryInfo.windowId === undefined || tab.windowId === queryInfo.windowId)
+            .filter(tab => queryInfo.groupId === undefined || tab.groupId === queryInfo.groupId)
+            .map(tab => browser.snapshot(tab));
+        },
+        async get(tabId) {
+          await browser.call('tabs.get');
+          return browser.snapshot(browser.findTab(tabId).tab);
+        },
+        async group(options) {
+          await browser.call('tabs.group');
+          const tabIds = Array.isArray(options.tabIds) ? options.tabIds : [options.tabIds];
+          tabIds.forEach(tabId => browser.findTab(tabId));
+          
+          if (options.groupId !== undefined) {
+            const group = browser.groups.get(options.groupId);
+            if (!group) {
+              throw new Error(`No group with id: ${options.groupId}`);
+            }
+            browser.moveIntoGroup(tabIds, group.id, group.windowId);
+            return group.id;
+          }
+          
+          const windowId = options.createProperties?.windowId ?? browser.findTab(tabIds[0]).window.id;
+          const group = { id: browser.nextId++, windowId, title: '', color: 'grey', collapsed: false };
+          browser.groups.set(group.id, group);
+          browser.moveIntoGroup(tabIds, group.id, windowId);
+          return group.id;
+        }
+      },
+      tabGroups: {
+        TAB_GROUP_ID_NONE,
+        async query(queryInfo = {}) {
+          await browser.call('tabGroups.query');
+          return [...browser.groups.values()]
+            .filter(group => queryInfo.windowId === undefined || group.windowId === queryInfo.windowId)
+            .filter(group => queryInfo.title === undefined || group.title === queryInfo.title)
+            .map(group => ({ ...group }));
+        },
+        async get(groupId) {
+          await browser.call('tabGroups.get');
+          return { ...browser.groups.get(groupId) };
+        },
+        async update(groupId, properties) {
+          await browser.call('tabGroups.update');
+          Object.assign(browser.groups.get(groupId), properties);
+          return { ...browser.groups.get(groupId) };
+        }
+      },
+      windows: {
+        async getAll() {
+          await browser.call('windows.getAll');
+          return [...browser.windows.values()].map(({ tabs, ...window }) => window);
+        },
+        async get(windowId) {
+          await browser.call('windows.get');
+          const { tabs, ...window } = browser.windows.get(windowId);
+          return window;
+        },
+        async create({ tabId }) {
+          await browser.call('windows.create');
+          const windowId = browser.addWindow();
+          const found = browser.findTab(tabId);
+          found.window.tabs.splice(found.index, 1);
+          found.tab.windowId = windowId;
+          browser.windows.get(windowId).tabs.push(found.tab);
+          return { id: windowId };
+        }
+      }
+    };
+  }
+}
+
+/**
+ * Opens tabs on a number of sites, spread over a few windows, and plans a group per site
+ * @returns The browser and the plan entries
+ */
+function setUp(tabCount) {
+  const browser = new FakeBrowser();
+  const windowIds = Array.from({ length: windowCount }, () => browser.addWindow());
+  const entries = [];
+  
+  for (let i = 0; i < tabCount; i++) {
+    const site = `site${(i * 7) % siteCount}`;
+    const url = `https://${site}.example.com/page${i}`;
+    const windowId = windowIds[Math.floor(i / siteCount) % windowCount];
+    const tabId = browser.addTab(windowId, url);
+    entries.push({ tabId, windowId, title: url, url, groupName: site, color: 'blue', ruleType: 'auto', rule: ':name.example.com' });
+  }
+  
+  global.chrome = browser.createChrome();
+  return { browser, entries };
+}
+
+/**
+ * The grouping the engine replaces: for each tab, look the tab and its group up, then group it
+ * (mirrors the per-tab path with the "sameWindow" window strategy)
+ */
+async function groupOneByOne(entries) {
+  for (const entry of entries) {
+    const tab = await chrome.tabs.get(entry.tabId);
+    const groups = await chrome.tabGroups.query({ windowId: tab.windowId, title: entry.groupName });
+    
+    if (groups.length > 0) {
+      await chrome.tabs.group({ groupId: groups[0].id, tabIds: entry.tabId });
+    } else {
+      const groupId = await chrome.tabs.group({ tabIds: entry.tabId, createProperties: { windowId: tab.windowId } });
+      await chrome.tabGroups.update(groupId, { title: entry.groupName, color: entry.color || 'grey' });
+    }
+  }
+}
+
+/**
+ * Checks that every tab ended up in a group named after its site, with one such group per window,
+ * or only one in all, for the "consolidate" window strategy
+ * @returns A description of the first problem, or null if the tabs were grouped right
+ */
+function verify(browser, entries, strategy) {
+  for (const entry of entries) {
+    const { tab } = browser.findTab(entry.tabId);
+    const group = browser.groups.get(tab.groupId);
+    if (!group || group.title !== entry.groupName) {
+      return `tab ${entry.tabId} is in ${group ? `"${group.title}"` : 'no group'}, not "${entry.groupName}"`;
+    }
+  }
+  
+  const expected = (strategy === 'consolidate' ? 1 : windowCount) * new Set(entries.map(entry => entry.groupName)).size;
+  if (browser.groups.size !== expected) {
+    return `${browser.groups.size} groups were made, not ${expected}`;
+  }
+  return null;
+}
+
+/**
+ * Times one way of grouping
+ */
+async function measure(tabCount, approach, strategy, group) {
+  const { browser, entries } = setUp(tabCount);
+  const start = process.hrtime.bigint();
+  await group(entries);
+  const elapsed = Number(process.hrtime.bigint() - start) / 1e6;
+  
+  const calls = Object.values(browser.calls).reduce((total, count) => total + count, 0);
+  return {
+    tabs: tabCount,
+    approach,
+    apiCalls: calls,
+    groupCalls: browser.calls['tabs.group'] || 0,
+    ms: Math.round(elapsed),
+    result: verify(browser, entries, strategy) || 'ok'
+  };
+}
+
+async function main() {
+  const { GroupingEngine } = requireTs(sourcePath);
+  const log = () => {};
+  
+  console.log(`Grouping tabs on ${siteCount} sites in ${windowCount} windows, ${latencyMs} ms per API call\n`);
+  
+  const results = [];
+  for (const tabCount of tabCounts) {
+    results.push(await measure(tabCount, 'one tab at a time', 'sameWindow', groupOneByOne));
+    
+    for (const strategy of ['sameWindow', 'consolidate']) {
+      let progress = null;
+      results.push(await measure(tabCount, `batch engine, ${strategy}`, strategy, async (entries) => {
+        const engine = new GroupingEngine({ getWindowStrategy: () => strategy, log });
+        await engine.run('Benchmark', entries);
+        progress = engine.getProgress();
+      }));
+      
+      if (!progress || progress.phase !== 'done' || progress.tabsDone !== tabCount || progress.groupsDone !== progress.groupsTotal) {
+        console.error(`Progress for ${tabCount} tabs didn't reach the end: ${JSON.stringify(progress)}`);
+        process.exitCode = 1;
+      }
+    }
+  }
+  
+  console.table(results);
+  
+  if (results.some(result => result.result !== 'ok')) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(`Benchmark failed: ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,255 @@
+/**
+ * Match cache benchmark for Tab Groups Manager extension
+ *
+ * This script runs src/matchCache.ts outside the browser, with chrome.storage.session
+ * kept in memory, and compares it with an unbounded Map keyed on the full URL. It visits
+ * tens of thousands of distinct URLs spread over a few thousand sites and reports the
+ * heap used, the number of entries and the time per lookup, and how each cache compares
+ * with running the rules on every visit. It also times how long updating the rules takes
+ * compared with clearing the cache.
+ *
+ * Usage:
+ *   node --expose-gc scripts/benchmark-match-cache.js [urlCount] [siteCount]
+ */
+
+const path = require('path');
+const { requireTs } = require('./load-ts');
+
+// Paths
+const rootDir = path.resolve(__dirname, '..');
+const sourcePath = path.join(rootDir, 'src', 'matchCache.ts');
+
+const urlCount = parseInt(process.argv[2], 10) || 50000;
+const siteCount = parseInt(process.argv[3], 10) || 2000;
+const lookupRounds = 3;
+
+/**
+ * Stands in for chrome.storage.session, keeping everything in memory
+ */
+function installFakeChrome() {
+  const data = {};
+  global.chrome = {
+    storage: {
+      session: {
+        get: async (key) => (key in data ? { [key]: data[key] } : {}),
+        set: async (items) => { Object.assign(data, items); },
+        remove: async (key) => { delete data[key]; }
+      }
+    }
+  };
+  return data;
+}
+
+/**
+ * Builds the URLs to visit: a few pages on each site, with query strings that make every URL distinct
+ * Some sites are visited far more often than others, as in real browsing.
+ */
+function buildUrls() {
+  // A fixed seed, so every run visits the same URLs
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+  
+  const urls = [];
+  for (let i = 0; i < urlCount; i++) {
+    const site = Math.floor(siteCount * random() ** 3);
+    urls.push(`https://www${site % 3}.site${site}.example.com/section${i % 7}/page${Math.floor(i / siteCount) % 10}?ref=${i}`);
+  }
+  return urls;
+}
+
+/**
+ * Builds rules like the ones people write: hostname patterns and a few paths
+ */
+function buildRules(count, withPaths) {
+  const rules = [];
+  for (let i = 0; i < count; i++) {
+    const regex = new RegExp(`site${i * 37}\\.example\\.com$`);
+    rules.push({
+      id: `manual:${regex.source}`,
+      subject: 'hostname',
+      matches: (url) => regex.test(url.hostname),
+      groupName: `Group ${i}`
+    });
+  }
+  if (withPaths) {
+    const regex = /\/section3$/;
+    rules.push({
+      id: `manual:${regex.source}`,
+      subject: 'hostPath',
+      matches: (url) => regex.test(url.hostname + url.pathname),
+      groupName: 'Section 3'
+    });
+  }
+  return rules;
+}
+
+/**
+ * Runs the rules against a URL, the way the cache saves having to
+ */
+function resolve(rules, url) {
+  const rule = rules.find(r => r.matches(url));
+  return rule ? { ruleId: rule.id, value: { groupName: rule.groupName } } : { ruleId: null, value: null };
+}
+
+/**
+ * Measures the heap, after collecting garbage if node was started with --expose-gc
+ */
+function heapUsed() {
+  if (global.gc) {
+    global.gc();
+    global.gc();
+  }
+  return process.memoryUsage().heapUsed;
+}
+
+/**
+ * Formats a number of bytes
+ */
+function formatBytes(bytes) {
+  return `${(bytes / 1024 / 1024).toFixed(2)} MiB`;
+}
+
+/**
+ * Visits every URL a few times through a cache, resolving and caching on a miss
+ * @returns The time per visit, the hit rate and the memory the cache holds
+ */
+function visitAll(urls, rules, cache) {
+  let hits = 0;
+  const start = process.hrtime.bigint();
+  
+  for (let round = 0; round < lookupRounds; round++) {
+    for (const href of urls) {
+      const url = new URL(href);
+      if (cache.get(url)) {
+        hits++;
+      } else {
+        const { ruleId, value } = resolve(rules, url);
+        cache.set(url, ruleId, value);
+      }
+    }
+  }
+  
+  const elapsed = Number(process.hrtime.bigint() - start);
+  const visits = urls.length * lookupRounds;
+  return {
+    microsPerVisit: (elapsed / visits / 1000).toFixed(2),
+    hitRate: `${((hits / visits) * 100).toFixed(1)}%`,
+    skipped: `${(((cache.getStats().skipped || 0) / visits) * 100).toFixed(1)}%`,
+    entries: cache.getStats().size
+  };
+}
+
+/**
+ * Runs a benchmark and measures the memory the cache holds afterwards
+ * @param createCache Builds the cache
+ */
+async function measure(urls, rules, createCache) {
+  const heapBefore = heapUsed();
+  const cache = await createCache();
+  const result = visitAll(urls, rules, cache);
+  const heap = formatBytes(heapUsed() - heapBefore);
+  return { ...result, entries: cache.getStats().size, heap };
+}
+
+/**
+ * The old cache: a Map keyed on the full URL, with nothing ever dropped
+ */
+class UnboundedUrlCache {
+  constructor() {
+    this.entries = new Map();
+  }
+  
+  get(url) {
+    return this.entries.get(url.href);
+  }
+  
+  set(url, ruleId, value) {
+    this.entries.set(url.href, { url: url.href, ruleId, value });
+  }
+  
+  getStats() {
+    return { size: this.entries.size };
+  }
+}
+
+async function main() {
+  const storage = installFakeChrome();
+  const { MatchCache } = requireTs(sourcePath);
+  const log = () => {};
+  
+  const urls = buildUrls();
+  const hostRules = buildRules(50, false);
+  const pathRules = buildRules(50, true);
+  
+  console.log(`Visiting ${urls.length} distinct URLs on ${siteCount} sites, ${lookupRounds} times each`);
+  console.log(`Node ${process.version}${global.gc ? '' : ', run with --expose-gc for steadier memory figures'}\n`);
+  
+  const noCache = { get: () => undefined, set: () => {}, getStats: () => ({ size: 0 }) };
+  const withoutCache = () => noCache;
+  
+  const matchCache = (rules, capacity) => async () => {
+    const cache = new MatchCache({ log, capacity, delayMs: 60000 });
+    await cache.setRules(rules);
+    return cache;
+  };
+  
+  // Each cache is compared with running the same rules on every visit
+  const runs = [
+    ['No cache, hostname rules', hostRules, withoutCache],
+    ['Unbounded Map, full URL keys (before)', hostRules, () => new UnboundedUrlCache()],
+    ['MatchCache(1000), hostname rules', hostRules, matchCache(hostRules, 1000)],
+    ['MatchCache(5000), hostname rules', hostRules, matchCache(hostRules, 5000)],
+    ['No cache, a host + path rule too', pathRules, withoutCache],
+    ['MatchCache(5000), a host + path rule too', pathRules, matchCache(pathRules, 5000)]
+  ];
+  
+  // A first pass compiles the code being measured, so its garbage doesn't skew the results
+  for (const [, rules, createCache] of runs) {
+    await measure(urls, rules, createCache);
+  }
+  
+  const results = {};
+  const uncached = new Map();
+  for (const [name, rules, createCache] of runs) {
+    const result = await measure(urls, rules, createCache);
+    if (createCache === withoutCache) {
+      uncached.set(rules, parseFloat(result.microsPerVisit));
+    }
+    result.vsNoCache = `${((parseFloat(result.microsPerVisit) / uncached.get(rules)) * 100).toFixed(0)}%`;
+    results[name] = result;
+  }
+  
+  console.table(results);
+  console.log('vsNoCache is the time per visit against running the same rules on every visit.');
+  console.log('A lookup that misses costs more than no cache at all, so a full cache that rarely hits, as with');
+  console.log('the host + path rule, is skipped for most lookups and only tried again now and then. The lookups');
+  console.log('made while it is tried again still leave it slightly slower than no cache with these cheap rules.');
+  
+  // Rule changes: a full cache with a new rule added at the top, compared with starting over
+  const cache = new MatchCache({ log, capacity: 5000, delayMs: 0 });
+  await cache.setRules(pathRules);
+  visitAll(urls, pathRules, cache);
+  const sizeBefore = cache.getStats().size;
+  
+  const added = buildRules(1, false).map(rule => ({ ...rule, id: 'manual:new', groupName: 'New' }));
+  const start = process.hrtime.bigint();
+  const dropped = await cache.setRules([...added, ...pathRules]);
+  const elapsed = Number(process.hrtime.bigint() - start) / 1e6;
+  
+  console.log(`\nAdding a rule in front of ${pathRules.length} others took ${elapsed.toFixed(1)} ms and dropped ${dropped} of ${sizeBefore} entries,`);
+  console.log('where clearing the cache would have dropped all of them');
+  
+  // What is written to chrome.storage.session, once the throttled write has run
+  await new Promise(resolve => setTimeout(resolve, 10));
+  const stored = JSON.stringify(storage.matchCache || {});
+  console.log(`A full cache takes ${formatBytes(stored.length)} of session storage\n`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error(`Benchmark failed: ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,31 @@
+/**
+ * TypeScript loader for the Tab Groups Manager scripts
+ *
+ * Compiles a module from src/ on the fly, so scripts such as the benchmarks can run
+ * the extension's own code in node without a separate build.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const Module = require('module');
+const ts = require('typescript');
+
+/**
+ * Compiles a TypeScript module and loads it
+ * Imports that are only used as types are dropped by the compiler, so modules that
+ * import nothing else from the extension load on their own.
+ */
+function requireTs(filePath) {
+  const source = fs.readFileSync(filePath, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 }
+  });
+  
+  const mod = new Module(filePath, module);
+  mod.filename = filePath;
+  mod.paths = Module._nodeModulePaths(path.dirname(filePath));
+  mod._compile(outputText, filePath);
+  return mod.exports;
+}
+
+module.exports = { requireTs };
@@ -0,0 +1,129 @@
+/**
+ * Update Public Suffix List script for Tab Groups Manager extension
+ *
+ * This script downloads the Public Suffix List and regenerates
+ * src/publicSuffixData.ts, which is bundled into the background script.
+ *
+ * Usage:
+ *   node scripts/update-psl.js              Download the latest list
+ *   node scripts/update-psl.js <file.dat>   Use a local copy of the list
+ */
+
+const fs = require('fs');
+const path = require('path');
+const https = require('https');
+const url = require('url');
+
+// Paths
+const rootDir = path.resolve(__dirname, '..');
+const outputPath = path.join(rootDir, 'src', 'publicSuffixData.ts');
+const listUrl = 'https://publicsuffix.org/list/public_suffix_list.dat';
+
+/**
+ * Downloads the list from publicsuffix.org
+ */
+function download() {
+  return new Promise((resolve, reject) => {
+    https.get(listUrl, (res) => {
+      if (res.statusCode !== 200) {
+        reject(new Error(`Unexpected status code ${res.statusCode}`));
+        return;
+      }
+      
+      let data = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => data += chunk);
+      res.on('end', () => resolve(data));
+    }).on('error', reject);
+  });
+}
+
+/**
+ * Converts a rule to its ASCII (punycode) form, keeping any wildcard or exception marker,
+ * since URL hostnames are always reported in ASCII
+ */
+function toAsciiRule(rule) {
+  const exception = rule.startsWith('!') ? '!' : '';
+  const body = exception ? rule.slice(1) : rule;
+  const labels = body.split('.').map(label => label === '*' ? label : url.domainToASCII(label));
+  
+  if (labels.some(label => !label)) {
+    throw new Error(`Invalid rule: ${rule}`);
+  }
+  
+  return exception + labels.join('.');
+}
+
+/**
+ * Splits the list into its ICANN and private sections
+ */
+function parse(contents) {
+  const sections = { ICANN: new Set(), PRIVATE: new Set() };
+  let section = null;
+  
+  for (const rawLine of contents.split('\n')) {
+    const line = rawLine.trim();
+    
+    const marker = line.match(/^\/\/\s*===(BEGIN|END) (ICANN|PRIVATE) DOMAINS===/);
+    if (marker) {
+      section = marker[1] === 'BEGIN' ? marker[2] : null;
+      continue;
+    }
+    
+    // Skip comments, blank lines and anything outside a section
+    if (!section || !line || line.startsWith('//')) continue;
+    
+    // Rules end at the first whitespace
+    sections[section].add(toAsciiRule(line.split(/\s/)[0]));
+  }
+  
+  return {
+    icann: [...sections.ICANN],
+    private: [...sections.PRIVATE]
+  };
+}
+
+/**
+ * Writes the rules out as a TypeScript module
+ */
+function write(rules) {
+  const contents = [
+    '/**',
+    ' * Public Suffix List data, generated by scripts/update-psl.js - do not edit by hand.',
+    ' * ',
+    ' * Source: https://publicsuffix.org/ (Mozilla Public License 2.0)',
+    ` * Generated: ${new Date().toISOString().slice(0, 10)}`,
+    ' * ',
+    ' * One rule per line, in ASCII (punycode) form.',
+    ' */',
+    '',
+    `export const ICANN_SUFFIX_RULES = \`\n${rules.icann.join('\n')}\n\`;`,
+    '',
+    `export const PRIVATE_SUFFIX_RULES = \`\n${rules.private.join('\n')}\n\`;`,
+    ''
+  ].join('\n');
+  
+  fs.writeFileSync(outputPath, contents);
+}
+
+async function main() {
+  const sourcePath = process.argv[2];
+  
+  try {
+    console.log(sourcePath ? `Reading ${sourcePath}...` : `Downloading ${listUrl}...`);
+    const contents = sourcePath ? fs.readFileSync(sourcePath, 'utf8') : await download();
+    
+    const rules = parse(contents);
+    if (rules.icann.length === 0 || rules.private.length === 0) {
+      throw new Error('No ICANN or private section found, is this a Public Suffix List file?');
+    }
+    
+    write(rules);
+    console.log(`Wrote ${rules.icann.length} ICANN and ${rules.private.length} private rules to ${path.relative(rootDir, outputPath)}`);
+  } catch (error) {
+    console.error(`\nError updating the Public Suffix List: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+main();
@@ -5,28 +5,193 @@
  * then automatically organizing tabs into groups based on domain patterns.
  */
 
+import { PublicSuffixList } from './publicSuffix';
+import { RuleSync } from './ruleSync';
+import { TabUpdateQueue } from './tabQueue';
+import { GroupHousekeeper } from './housekeeping';
+import { ManagedTabRegistry } from './managedTabs';
+import { ExclusionList, validateExclusionRule } from './exclusions';
+import { TabOrderer, GroupPlacement } from './tabOrdering';
+import { WorkspaceManager, findWorkspace } from './workspaces';
+import { ContextMenuBuilder } from './contextMenus';
+import { OmniboxController } from './omnibox';
+import { LogStore, formatLogEntry } from './logStore';
+import { RuleStatsTracker } from './ruleStats';
+import { UndoJournal } from './undoJournal';
+import { MatchCache, CacheRule } from './matchCache';
+import { GroupingEngine } from './groupingEngine';
+import {
+  MatchTarget,
+  MATCH_TARGETS,
+  GROUP_COLORS,
+  AutoPatternColor,
+  AUTO_PATTERN_COLORS,
+  StoredPattern,
+  StoredAutoPattern,
+  WindowStrategy,
+  WINDOW_STRATEGIES,
+  RegistrableDomainMode,
+  REGISTRABLE_DOMAIN_MODES,
+  NavigationMode,
+  NAVIGATION_MODES,
+  RuleType,
+  ExclusionRule,
+  ExclusionSettings,
+  HousekeepingPolicy,
+  IDLE_GROUP_ACTIONS,
+  OrderingPolicy,
+  GROUP_SORT_ORDERS,
+  TAB_SORT_ORDERS,
+  SavedGroup,
+  Workspace,
+  WorkspaceGroup,
+  RuleTestResult,
+  DraftRuleCount,
+  GroupingPlanEntry,
+  TabExplanation,
+  ImportStrategy,
+  IMPORT_STRATEGIES,
+  RuleSet,
+  RuleTombstone,
+  ImportResult,
+  SyncStatus,
+  LogLevel,
+  LogEntry,
+  RuleUsageReport,
+  GroupingOperation,
+  GroupingMove,
+  GroupingProgress
+} from './types';
+import {
+  PROTOCOL_VERSION,
+  MessageAction,
+  MessageMap,
+  MessageRequest,
+  MessageResponse,
+  MessageError,
+  validateRequest
+} from './messages';
+
 interface DomainPattern {
   pattern: RegExp;
   groupName: string;
   color?: chrome.tabGroups.ColorEnum;
+  matchTarget: MatchTarget;
+  queryParam?: string;    // The query parameter name when matchTarget is 'queryParam'
+  priority: number;       // Evaluation order, lower numbers are checked first
+  housekeeping?: HousekeepingPolicy;  // Overrides the global housekeeping policy for its groups
+  navigationMode?: NavigationMode;    // Overrides the global navigation mode for its tabs
+  ordering?: OrderingPolicy;          // Overrides how its groups are placed and their tabs sorted
+}
+
+interface AutoPattern {
+  template: string;           // The original template pattern (e.g., ":name.*.example.com")
+  groupNameTemplate: string;  // How captures are combined into a group name (e.g., "{name} ({env})")
+  regex: RegExp;              // The compiled regex, with a named group for each placeholder
+  placeholders: string[];     // The placeholder names in the template, in order
+  matchesPath: boolean;       // Whether the template has a path part, so it is tested against host + path
+  color?: AutoPatternColor;   // The color of the groups it creates, grey when unset
+  priority: number;           // Evaluation order, lower numbers are checked first
+  housekeeping?: HousekeepingPolicy;  // Overrides the global housekeeping policy for its groups
+  navigationMode?: NavigationMode;    // Overrides the global navigation mode for its tabs
+  ordering?: OrderingPolicy;          // Overrides how its groups are placed and their tabs sorted
 }
 
-interface StoredPattern {
-  patternStr: string;
+/**
+ * The group a tab is put in, with the color to give the group if it has to be created
+ */
+interface GroupSpec {
   groupName: string;
   color?: chrome.tabGroups.ColorEnum;
 }
 
-interface AutoPattern {
-  template: string;       // The original template pattern (e.g., ":name.*.example.com")
-  regex: RegExp;          // The compiled regex to test against domains
-  namePosition: number;   // The position of the capturing group for the name
+/**
+ * A group chosen by a rule, along with the rule that chose it
+ */
+interface GroupTarget extends GroupSpec {
+  ruleType: RuleType;
+  rule: string;   // The pattern source, auto-pattern template or registrable domain
+}
+
+/**
+ * The rule that wins for a URL, and the part of the URL it matched
+ */
+interface RuleMatch {
+  target: GroupTarget;
+  draft: boolean;       // Whether the winner is a draft manual pattern being tested
+  subject: string;      // The part of the URL the rule was tested against
+  matchStart: number;   // Where the match starts in the subject
+  matchEnd: number;     // Where the match ends in the subject
+}
+
+/**
+ * Transforms that can be applied to captures in a group name template, e.g. "{name|uppercase}"
+ */
+const NAME_TRANSFORMS = ['capitalize', 'uppercase', 'lowercase', 'strip-prefix', 'strip-suffix'];
+
+/**
+ * Escapes the characters that have a special meaning in a regular expression
+ * @param text The literal text to match
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Checks whether a URL is an internal browser page, which is never grouped
+ * @param url The URL to check
+ */
+function isInternalUrl(url: URL): boolean {
+  return url.protocol === 'chrome:' || url.protocol === 'brave:';
 }
 
+/**
+ * Builds a hostname pattern matching a host and its subdomains, e.g. "(^|\.)github\.com$"
+ * @param hostname The host to match
+ */
+function getHostPattern(hostname: string): string {
+  return `(^|\\.)${escapeRegExp(hostname)}$`;
+}
+
+/**
+ * Version of the exported rule set format, bumped whenever the format changes
+ */
+const RULE_SET_VERSION = 1;
+
+/**
+ * How many deleted rules are remembered for sync, the oldest are dropped first
+ */
+const MAX_RULE_TOMBSTONES = 200;
+
+/**
+ * How many groups closed by housekeeping are kept for restoring, the oldest are dropped first
+ */
+const MAX_SAVED_GROUPS = 50;
+
 interface UserSettings {
   enableAutoPatterns: boolean;
   autoPatterns: AutoPattern[];
   domainPatterns: StoredPattern[];
+  windowStrategy: WindowStrategy;
+  registrableDomainMode: RegistrableDomainMode;
+}
+
+/**
+ * What a log entry is about, on top of its message
+ */
+interface LogContext {
+  category?: string;  // Defaults to the "Category: " prefix of the message
+  tabId?: number;
+  ruleId?: string;
+}
+
+/**
+ * Identifies a rule in log entries
+ * @param ruleType The kind of rule
+ * @param rule The pattern source, auto-pattern template or registrable domain
+ */
+function getRuleId(ruleType: RuleType, rule: string): string {
+  return `${ruleType}:${rule}`;
 }
 
 /**
@@ -34,18 +199,26 @@ interface UserSettings {
  * and allows retrieving logs from the popup
  */
 class LogManager {
-  private static logs: string[] = [];
-  private static maxLogs: number = 100;
+  private static store: LogStore = new LogStore();
   
   /**
    * Logs a message with an optional level
-   * @param message The message to log
+   * @param message The message to log, usually starting with "Category: "
    * @param level The log level (log, error, warn)
+   * @param context The tab and rule the message is about
    */
-  public static log(message: string, level: 'log' | 'error' | 'warn' = 'log'): void {
-    // Add timestamp to message
-    const timestamp = new Date().toISOString();
-    const logMessage = `[${timestamp}] ${message}`;
+  public static log(message: string, level: LogLevel = 'log', context: LogContext = {}): void {
+    // Split the category off the message, unless it is given
+    const prefix = message.match(/^(\w+): ([\s\S]*)$/);
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      category: context.category || (prefix ? prefix[1] : 'General'),
+      tabId: context.tabId,
+      ruleId: context.ruleId,
+      message: !context.category && prefix ? prefix[2] : message
+    };
+    const logMessage = formatLogEntry(entry);
     
     // Log to console
     if (level === 'error') {
@@ -56,28 +229,22 @@ class LogManager {
       console.log(logMessage);
     }
     
-    // Store in log array
-    this.logs.unshift(logMessage);
-    
-    // Trim logs if they exceed max length
-    if (this.logs.length > this.maxLogs) {
-      this.logs.pop();
-    }
+    this.store.append(entry);
   }
   
   /**
-   * Gets all stored logs
-   * @returns Array of log messages
+   * Gets all stored logs, including those logged before the service worker was last stopped
+   * @returns The log entries, oldest first
    */
-  public static getLogs(): string[] {
-    return [...this.logs];
+  public static getLogs(): Promise<LogEntry[]> {
+    return this.store.getEntries();
   }
   
   /**
    * Clears all stored logs
    */
-  public static clearLogs(): void {
-    this.logs = [];
+  public static clearLogs(): Promise<void> {
+    return this.store.clear();
   }
 }
 
@@ -88,15 +255,82 @@ class LogManager {
 class TabGroupManager {
   private domainPatterns: DomainPattern[] = [];
   private enableAutoPatterns: boolean = true;
+  private windowStrategy: WindowStrategy = 'sameWindow';
+  private registrableDomainMode: RegistrableDomainMode = 'off';
+  private processBackgroundTabs: boolean = false;
+  private navigationMode: NavigationMode = 'sticky';
+  private managedTabs: ManagedTabRegistry = new ManagedTabRegistry((message, level) => LogManager.log(message, level));
+  private exclusions: ExclusionList = new ExclusionList((message, level) => LogManager.log(message, level));
+  private housekeeping: HousekeepingPolicy = {};
+  private housekeeper: GroupHousekeeper = new GroupHousekeeper({
+    getPolicy: (group, tabs) => this.getGroupHousekeepingPolicy(group, tabs),
+    saveGroup: (group, tabs) => this.saveGroup(group, tabs),
+    log: (message, level) => LogManager.log(message, level)
+  });
+  private ordering: OrderingPolicy = {};
+  private tabOrderer: TabOrderer = new TabOrderer({
+    getPolicy: () => this.ordering,
+    getPlacement: (group, tabs) => this.getGroupPlacement(group, tabs),
+    log: (message, level) => LogManager.log(message, level)
+  });
+  private workspaces: WorkspaceManager = new WorkspaceManager({
+    groupTabs: (tabIds, group, windowId, operation) => this.groupRestoredTabs(tabIds, group, windowId, operation),
+    setRestoring: (tabId, restoring) => restoring ? this.restoringTabs.add(tabId) : this.restoringTabs.delete(tabId),
+    log: (message, level) => LogManager.log(message, level)
+  });
+  private restoringTabs: Set<number> = new Set();   // Tabs a workspace restore has opened but not grouped yet
+  private contextMenus: ContextMenuBuilder = new ContextMenuBuilder({
+    getGroupNames: () => this.getGroupNames(),
+    addToGroup: (hostname, groupName) => this.addPatternForHost(hostname, groupName),
+    draftRule: (hostname) => this.draftPatternForHost(hostname),
+    exclude: (hostname) => this.addExclusion({ type: 'domain', value: hostname }),
+    log: (message, level) => LogManager.log(message, level)
+  });
+  private omnibox: OmniboxController = new OmniboxController({
+    addTabToGroup: (tabId, groupName, windowId) =>
+      this.addTabToGroup(tabId, { groupName, color: this.getGroupNameColor(groupName) }, windowId),
+    log: (message, level) => LogManager.log(message, level)
+  });
+  private ruleStats: RuleStatsTracker = new RuleStatsTracker({
+    log: (message, level) => LogManager.log(message, level)
+  });
+  private journal: UndoJournal = new UndoJournal({
+    releaseTab: (tabId) => this.housekeeper.release(tabId),
+    log: (message, level) => LogManager.log(message, level)
+  });
+  private groupingEngine: GroupingEngine = new GroupingEngine({
+    getWindowStrategy: () => this.windowStrategy,
+    log: (message, level) => LogManager.log(message, level)
+  });
+  private ruleDraft: StoredPattern | null = null;   // A pattern drafted from the context menu, waiting for the popup
+  private syncEnabled: boolean = false;
+  private ruleTombstones: RuleTombstone[] = [];
+  private savedRuleKeys: Set<string> = new Set();   // The rules as of the last save, to notice deletions
+  private ruleSync: RuleSync<RuleSet> = new RuleSync<RuleSet>({
+    getLocalData: () => ({ ...this.exportRules(), deletedRules: [...this.ruleTombstones] }),
+    merge: (local, remote) => this.mergeRuleSets(local, remote),
+    onRemoteChange: (ruleSet) => this.applySyncedRules(ruleSet),
+    log: (message, level) => LogManager.log(message, level)
+  });
+  private tabQueue: TabUpdateQueue = new TabUpdateQueue({
+    process: (tabIds) => this.processQueuedTabs(tabIds),
+    log: (message, level) => LogManager.log(message, level)
+  });
   private autoPatterns: AutoPattern[] = [];
-  private autoPatternCache: Map<string, string> = new Map(); // Cache for domain -> group name mapping
-  private processedUrls: Map<string, string> = new Map(); // Cache for urls -> group name mapping
+  private matchCache: MatchCache<GroupTarget> = new MatchCache<GroupTarget>({
+    log: (message, level) => LogManager.log(message, level)
+  });
+  private groupColorOverrides: Record<string, chrome.tabGroups.ColorEnum> = {}; // Lowercase group name -> color
   
   constructor() {
     LogManager.log("TabGroupManager: Initializing...");
     
-    // Load initial patterns from storage
-    this.loadPatternsFromStorage();
+    // Load initial patterns from storage, then catch up with other devices if sync is on
+    this.loadPatternsFromStorage(() => {
+      if (this.syncEnabled) {
+        this.ruleSync.enable();
+      }
+    });
     
     // Set up event listeners
     this.setupEventListeners();
@@ -104,8 +338,9 @@ class TabGroupManager {
   
   /**
    * Loads saved domain patterns from Chrome storage
+   * @param onLoaded Called once the patterns and settings are loaded
    */
-  private loadPatternsFromStorage(): void {
+  private loadPatternsFromStorage(onLoaded?: () => void): void {
     LogManager.log("TabGroupManager: Loading patterns from storage...");
     
     // Default patterns (will be replaced with stored patterns if available)
@@ -117,16 +352,22 @@ class TabGroupManager {
     ];
     
     // Load patterns and settings from storage
-    chrome.storage.local.get(['domainPatterns', 'enableAutoPatterns', 'autoPatterns'], (result) => {
+    chrome.storage.local.get(['domainPatterns', 'enableAutoPatterns', 'autoPatterns', 'windowStrategy', 'registrableDomainMode', 'processBackgroundTabs', 'navigationMode', 'exclusions', 'housekeeping', 'ordering', 'groupColorOverrides', 'syncEnabled', 'ruleTombstones'], (result) => {
       LogManager.log("TabGroupManager: Storage data retrieved: " + JSON.stringify(result));
       
       if (result.domainPatterns) {
         // Convert stored string patterns back to RegExp objects
-        this.domainPatterns = result.domainPatterns.map((p: StoredPattern) => ({
+        this.domainPatterns = this.sortByPriority(result.domainPatterns.map((p: StoredPattern, index: number) => ({
           pattern: new RegExp(p.patternStr),
           groupName: p.groupName,
-          color: p.color
-        }));
+          color: p.color,
+          matchTarget: p.matchTarget || 'hostname',
+          queryParam: p.queryParam,
+          priority: p.priority ?? index,
+          housekeeping: p.housekeeping,
+          navigationMode: p.navigationMode,
+          ordering: p.ordering
+        })));
         
         LogManager.log(`TabGroupManager: Loaded ${this.domainPatterns.length} domain patterns`);
       }
@@ -136,14 +377,67 @@ class TabGroupManager {
         LogManager.log(`TabGroupManager: Auto-patterns enabled: ${this.enableAutoPatterns}`);
       }
       
+      if (WINDOW_STRATEGIES.includes(result.windowStrategy)) {
+        this.windowStrategy = result.windowStrategy;
+        LogManager.log(`TabGroupManager: Window strategy: ${this.windowStrategy}`);
+      }
+      
+      if (REGISTRABLE_DOMAIN_MODES.includes(result.registrableDomainMode)) {
+        this.registrableDomainMode = result.registrableDomainMode;
+        LogManager.log(`TabGroupManager: Registrable domain mode: ${this.registrableDomainMode}`);
+      }
+      
+      if (result.processBackgroundTabs !== undefined) {
+        this.processBackgroundTabs = result.processBackgroundTabs;
+        LogManager.log(`TabGroupManager: Background tab processing: ${this.processBackgroundTabs}`);
+      }
+      
+      if (NAVIGATION_MODES.includes(result.navigationMode)) {
+        this.navigationMode = result.navigationMode;
+        LogManager.log(`TabGroupManager: Navigation mode: ${this.navigationMode}`);
+      }
+      
+      if (result.exclusions && Array.isArray(result.exclusions.rules)) {
+        try {
+          this.exclusions.setSettings(result.exclusions);
+          LogManager.log(`TabGroupManager: Loaded ${result.exclusions.rules.length} exclusion rules`);
+        } catch (error: any) {
+          LogManager.log(`TabGroupManager: Error loading exclusion rules: ${error.message}`, "error");
+        }
+      }
+      
+      if (result.housekeeping && typeof result.housekeeping === 'object') {
+        this.housekeeping = result.housekeeping;
+        LogManager.log("TabGroupManager: Housekeeping: " + JSON.stringify(this.housekeeping));
+      }
+      
+      if (result.ordering && typeof result.ordering === 'object') {
+        this.ordering = result.ordering;
+        LogManager.log("TabGroupManager: Ordering: " + JSON.stringify(this.ordering));
+      }
+      
+      if (result.groupColorOverrides && typeof result.groupColorOverrides === 'object') {
+        this.groupColorOverrides = result.groupColorOverrides;
+        LogManager.log(`TabGroupManager: Loaded ${Object.keys(this.groupColorOverrides).length} group color overrides`);
+      }
+      
+      this.syncEnabled = result.syncEnabled === true;
+      if (Array.isArray(result.ruleTombstones)) {
+        this.ruleTombstones = result.ruleTombstones;
+      }
+      
       if (result.autoPatterns && Array.isArray(result.autoPatterns) && result.autoPatterns.length > 0) {
-        // Convert stored auto patterns back to functional patterns
+        // Recompile stored templates, so patterns saved with an older template syntax
+        // (a stored regexStr and namePosition) pick up the current compiler
         try {
-          this.autoPatterns = result.autoPatterns.map((p: any) => ({
-            template: p.template,
-            regex: new RegExp(p.regexStr),
-            namePosition: p.namePosition
-          }));
+          this.autoPatterns = this.sortByPriority(result.autoPatterns.map((p: StoredAutoPattern, index: number) => ({
+            ...this.createAutoPattern(p.template, p.groupNameTemplate),
+            color: p.color,
+            priority: p.priority ?? index,
+            housekeeping: p.housekeeping,
+            navigationMode: p.navigationMode,
+            ordering: p.ordering
+          })));
           
           LogManager.log(`TabGroupManager: Loaded ${this.autoPatterns.length} auto-patterns`);
           LogManager.log("TabGroupManager: Auto-patterns loaded: " + JSON.stringify(this.autoPatterns.map(p => p.template)));
@@ -160,86 +454,449 @@ class TabGroupManager {
       if (this.enableAutoPatterns) {
         this.applyAutoPatternToExistingTabs();
       }
+      
+      // Registrable domain grouping runs after auto-patterns, so it only picks up what they missed
+      if (this.registrableDomainMode !== 'off') {
+        this.applyPatternsToExistingTabs();
+      }
+      
+      this.updateHousekeepingSchedule();
+      this.updateTrackedRules();
+      this.updateMatchCache();
+      this.savedRuleKeys = this.getRuleKeys();
+      
+      onLoaded?.();
     });
   }
   
   /**
    * Creates an AutoPattern object from a template string
-   * @param template The template string with placeholders (e.g., ":name.*.example.com")
+   * 
+   * Template syntax:
+   * - `:placeholder` captures one label of the hostname (or one path segment) under that name
+   * - `*` matches one label (or one path segment), `**` matches one or more labels
+   * - Anything after the first `/` is matched against the path
+   * - A path segment ending in `?` is optional, and a trailing `/**` matches any remaining path
+   * 
+   * @param template The template string with placeholders (e.g., ":env-:name.*.corp.com")
+   * @param groupNameTemplate How the captures are combined into a group name (e.g., "{name} ({env})")
    * @returns The compiled AutoPattern object
    */
-  private createAutoPattern(template: string): AutoPattern {
+  private createAutoPattern(template: string, groupNameTemplate?: string): AutoPattern {
     LogManager.log(`TabGroupManager: Creating auto-pattern from template: ${template}`);
     
-    // Find the position of :name in the template
-    const nameIdx = template.indexOf(':name');
-    if (nameIdx === -1) {
-      throw new Error('Template must contain a :name placeholder');
+    const placeholders: string[] = [];
+    const slashIdx = template.indexOf('/');
+    const hostPart = slashIdx === -1 ? template : template.slice(0, slashIdx);
+    const pathPart = slashIdx === -1 ? '' : template.slice(slashIdx + 1);
+    
+    if (!hostPart) {
+      throw new Error('Template must start with a hostname');
+    }
+    
+    let regexStr = this.compileTemplatePart(hostPart, 'host', placeholders);
+    
+    if (slashIdx !== -1) {
+      const segments = pathPart.split('/');
+      segments.forEach((segment, index) => {
+        if (segment === '**') {
+          if (index !== segments.length - 1) {
+            throw new Error('** must be the last path segment');
+          }
+          regexStr += '(?:/.*)?';
+        } else if (segment.endsWith('?')) {
+          regexStr += `(?:/${this.compileTemplatePart(segment.slice(0, -1), 'path', placeholders)})?`;
+        } else {
+          regexStr += `/${this.compileTemplatePart(segment, 'path', placeholders)}`;
+        }
+      });
     }
     
-    // Replace placeholders with appropriate regex patterns
-    let regexStr = template
-      // Escape dots for regex
-      .replace(/\./g, '\\.')
-      // Replace * with regex wildcard
-      .replace(/\*/g, '[^.]+')
-      // Replace :name with named capture group
-      .replace(/:name/g, '([^.]+)');
+    if (placeholders.length === 0) {
+      throw new Error('Template must contain at least one placeholder (e.g. :name)');
+    }
+    
+    // Default to the original behaviour of a capitalized :name
+    const nameTemplate = groupNameTemplate?.trim() ||
+      `{${placeholders.includes('name') ? 'name' : placeholders[0]}|capitalize}`;
+    this.validateGroupNameTemplate(nameTemplate, placeholders);
     
     // Create the regex object - the ^ and $ ensure we match the whole domain
     const regex = new RegExp(`^${regexStr}$`);
     LogManager.log(`TabGroupManager: Created regex: ${regex.source}`);
     
-    // In our approach, it's always the first capturing group because we just have one
-    const namePosition = 1;
-    
     return {
       template,
+      groupNameTemplate: nameTemplate,
       regex,
-      namePosition
+      placeholders,
+      matchesPath: slashIdx !== -1,
+      priority: 0
     };
   }
   
+  /**
+   * Compiles one hostname or path segment of a template into a regex fragment
+   * @param part The template text to compile
+   * @param kind Whether the text is a hostname or a single path segment
+   * @param placeholders Collects the placeholder names found, in order
+   * @returns The regex source for the part
+   */
+  private compileTemplatePart(part: string, kind: 'host' | 'path', placeholders: string[]): string {
+    // A hostname label can't contain dots, a path segment can't contain slashes
+    const unit = kind === 'host' ? '[^./]+' : '[^/]+';
+    let regexStr = '';
+    let i = 0;
+    
+    while (i < part.length) {
+      if (part.startsWith('**', i)) {
+        if (kind === 'path') {
+          throw new Error('** must be a whole path segment');
+        }
+        regexStr += `${unit}(?:\\.${unit})*`;
+        i += 2;
+      } else if (part[i] === '*') {
+        regexStr += unit;
+        i += 1;
+      } else if (part[i] === ':') {
+        const nameMatch = part.slice(i + 1).match(/^[a-zA-Z][a-zA-Z0-9_]*/);
+        if (!nameMatch) {
+          throw new Error(`Placeholder at position ${i} must have a name (e.g. :name)`);
+        }
+        const name = nameMatch[0];
+        if (placeholders.includes(name)) {
+          throw new Error(`Placeholder :${name} is used more than once`);
+        }
+        placeholders.push(name);
+        // Lazy so neighbouring placeholders in one label (e.g. :env-:name) split on the literal between them
+        regexStr += `(?<${name}>${unit}?)`;
+        i += 1 + name.length;
+      } else {
+        regexStr += part[i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+        i += 1;
+      }
+    }
+    
+    return regexStr;
+  }
+  
+  /**
+   * Checks that a group name template only uses known placeholders and transforms
+   * @param groupNameTemplate The group name template (e.g., "{name|uppercase} ({env})")
+   * @param placeholders The placeholder names available from the pattern template
+   */
+  private validateGroupNameTemplate(groupNameTemplate: string, placeholders: string[]): void {
+    const references = groupNameTemplate.match(/\{[^}]*\}/g) || [];
+    if (references.length === 0) {
+      throw new Error('Group name template must reference at least one placeholder (e.g. {name})');
+    }
+    
+    for (const reference of references) {
+      const [name, ...transforms] = reference.slice(1, -1).split('|').map(t => t.trim());
+      if (!placeholders.includes(name)) {
+        throw new Error(`Group name template uses unknown placeholder {${name}}`);
+      }
+      
+      for (const transform of transforms) {
+        const transformName = transform.split(':')[0];
+        if (!NAME_TRANSFORMS.includes(transformName)) {
+          throw new Error(`Unknown name transform "${transformName}" (use ${NAME_TRANSFORMS.join(', ')})`);
+        }
+      }
+    }
+  }
+  
+  /**
+   * Builds a group name from an auto-pattern's captures
+   * @param groupNameTemplate The group name template (e.g., "{name|uppercase} ({env})")
+   * @param captures The captured placeholder values; optional placeholders may be missing
+   * @returns The rendered group name
+   */
+  private renderGroupName(groupNameTemplate: string, captures: Record<string, string | undefined>): string {
+    return groupNameTemplate.replace(/\{([^}]*)\}/g, (_, reference: string) => {
+      const [name, ...transforms] = reference.split('|').map(t => t.trim());
+      return transforms.reduce(
+        (value, transform) => this.applyNameTransform(value, transform),
+        captures[name] || ''
+      );
+    }).trim();
+  }
+  
+  /**
+   * Applies a single name transform to a captured value
+   * @param value The captured value
+   * @param transform The transform with an optional argument (e.g., "strip-prefix:app-")
+   * @returns The transformed value
+   */
+  private applyNameTransform(value: string, transform: string): string {
+    const argIdx = transform.indexOf(':');
+    const name = argIdx === -1 ? transform : transform.slice(0, argIdx);
+    const arg = argIdx === -1 ? '' : transform.slice(argIdx + 1);
+    
+    switch (name) {
+      case 'capitalize':
+        return value.charAt(0).toUpperCase() + value.slice(1);
+      case 'uppercase':
+        return value.toUpperCase();
+      case 'lowercase':
+        return value.toLowerCase();
+      case 'strip-prefix':
+        return arg && value.startsWith(arg) ? value.slice(arg.length) : value;
+      case 'strip-suffix':
+        return arg && value.endsWith(arg) ? value.slice(0, -arg.length) : value;
+      default:
+        return value;
+    }
+  }
+  
+  /**
+   * Sorts rules into evaluation order
+   * The sort is stable, so rules with equal priority keep their stored order
+   * @param rules The rules to sort
+   * @returns A new array sorted by ascending priority
+   */
+  private sortByPriority<T extends { priority: number }>(rules: T[]): T[] {
+    return [...rules].sort((a, b) => a.priority - b.priority);
+  }
+  
+  /**
+   * Gets the priority to give a newly added rule so it is evaluated last
+   * @param rules The existing rules of the same kind
+   * @returns One more than the current highest priority, or 0 if there are no rules
+   */
+  private getNextPriority(rules: { priority: number }[]): number {
+    return rules.reduce((max, rule) => Math.max(max, rule.priority + 1), 0);
+  }
+  
   /**
    * Sets up event listeners for tab events
    */
   private setupEventListeners(): void {
+    // Tab events go through the update queue, which merges repeated events for the same tab
+    // and groups the tabs in batches once the events settle down
+    
     // Listen for tab creation
     chrome.tabs.onCreated.addListener((tab) => {
-      // Only handle the tab if it's not already in a group
-      if (tab.groupId === chrome.tabGroups.TAB_GROUP_ID_NONE) {
-        this.handleTabUpdate(tab);
+      // Only handle the tab if it's not already in a group, and like URL changes,
+      // background tabs only when background tab processing is on
+      if (tab.id !== undefined && tab.groupId === chrome.tabGroups.TAB_GROUP_ID_NONE && (tab.active || this.processBackgroundTabs)) {
+        this.tabQueue.enqueue(tab.id);
       }
     });
     
     // Listen for tab updates (e.g., when URL changes)
     chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
-      // Only process URL changes for tabs not already in a group
-      if (changeInfo.url && tab.groupId === chrome.tabGroups.TAB_GROUP_ID_NONE) {
-        // Check if this is the active tab
-        if (tab.active) {
-          LogManager.log(`TabGroupManager: URL changed on active tab ${tabId}: ${changeInfo.url}`);
-          this.handleTabUpdate(tab);
+      // Grouped tabs are queued too, so follow mode can move them when they navigate away
+      if (changeInfo.url) {
+        // Background tabs are only processed when background tab processing is on
+        if (tab.active || this.processBackgroundTabs) {
+          LogManager.log(`TabGroupManager: URL changed on ${tab.active ? 'active' : 'background'} tab ${tabId}: ${changeInfo.url}`, "log", { tabId });
+          this.tabQueue.enqueue(tabId);
         } else {
-          // For background tabs, just log but don't process
-          LogManager.log(`TabGroupManager: URL changed on background tab ${tabId} (not processing)`, "log");
+          LogManager.log(`TabGroupManager: URL changed on background tab ${tabId} (not processing)`, "log", { tabId });
         }
       }
     });
-      
+    
     // Listen for tab activation (when a tab becomes the active/focused tab)
-    chrome.tabs.onActivated.addListener(async (activeInfo) => {
-      try {
-        const tab = await chrome.tabs.get(activeInfo.tabId);
-        // Only handle the tab if it's not already in a group
-        if (tab.groupId === chrome.tabGroups.TAB_GROUP_ID_NONE) {
-          LogManager.log(`TabGroupManager: Tab activated: ${tab.id}`);
-          this.handleTabUpdate(tab);
-        }
-      } catch (error: any) {
-        LogManager.log(`TabGroupManager: Error handling tab activation: ${error.message}`, "error");
-      }
+    chrome.tabs.onActivated.addListener((activeInfo) => {
+      LogManager.log(`TabGroupManager: Tab activated: ${activeInfo.tabId}`, "log", { tabId: activeInfo.tabId });
+      this.tabQueue.enqueue(activeInfo.tabId);
     });
+    
+    // Closed tabs no longer need grouping
+    chrome.tabs.onRemoved.addListener((tabId) => {
+      this.tabQueue.remove(tabId);
+    });
+    
+    // Keyboard shortcuts declared under "commands" in the manifest
+    chrome.commands.onCommand.addListener((command, tab) => {
+      this.handleCommand(command, tab);
+    });
+  }
+  
+  /**
+   * Runs a keyboard shortcut
+   * @param command The command name from the manifest
+   * @param tab The active tab when the shortcut was pressed, if the browser passed it
+   */
+  private async handleCommand(command: string, tab?: chrome.tabs.Tab): Promise<void> {
+    LogManager.log(`TabGroupManager: Running command ${command}`);
+    
+    try {
+      if (command === 'toggle-auto-patterns') {
+        this.setAutoPatterns(!this.enableAutoPatterns);
+        return;
+      }
+      if (command === 'undo-last-operation') {
+        await this.undoLastOperation();
+        return;
+      }
+      
+      const activeTab = tab ?? (await chrome.tabs.query({ active: true, lastFocusedWindow: true }))[0];
+      if (!activeTab?.id) {
+        LogManager.log(`TabGroupManager: No active tab for command ${command}`, "warn");
+        return;
+      }
+      
+      switch (command) {
+        case 'group-current-tab':
+          await this.groupTabNow(activeTab);
+          break;
+        case 'regroup-window':
+          await this.groupAllExistingTabs(activeTab.windowId);
+          break;
+        case 'ungroup-current-tab':
+          await this.ungroupTab(activeTab);
+          break;
+        case 'add-rule-for-domain':
+          this.addPatternForTab(activeTab);
+          break;
+        default:
+          LogManager.log(`TabGroupManager: Unknown command ${command}`, "warn");
+      }
+    } catch (error: any) {
+      LogManager.log(`TabGroupManager: Error running command ${command}: ${error.message}`, "error");
+    }
+  }
+  
+  /**
+   * Groups a tab right away by the first rule that matches it, even if it is grouped or excluded
+   * @param tab The tab to group
+   */
+  private async groupTabNow(tab: chrome.tabs.Tab): Promise<void> {
+    if (!tab.id || !tab.url) return;
+    
+    const match = this.resolveGroupTarget(new URL(tab.url));
+    if (!match) {
+      LogManager.log(`TabGroupManager: No rule matches tab ${tab.id} (${tab.url})`, "warn", { tabId: tab.id });
+      return;
+    }
+    
+    await this.addTabToGroup(tab.id, match.target);
+  }
+  
+  /**
+   * Ungroups a tab and leaves it ungrouped until it navigates somewhere else
+   * @param tab The tab to ungroup
+   */
+  private async ungroupTab(tab: chrome.tabs.Tab): Promise<void> {
+    if (!tab.id || tab.groupId === chrome.tabGroups.TAB_GROUP_ID_NONE) return;
+    
+    LogManager.log(`TabGroupManager: Ungrouping tab ${tab.id}`, "log", { tabId: tab.id });
+    await chrome.tabs.ungroup(tab.id);
+    this.housekeeper.release(tab.id);
+  }
+  
+  /**
+   * Adds a manual pattern for the registrable domain of a tab and its subdomains, named after the domain
+   * @param tab The tab to make a rule for
+   * @returns Whether a pattern was added
+   */
+  private addPatternForTab(tab: chrome.tabs.Tab): boolean {
+    const hostname = tab.url ? new URL(tab.url).hostname : '';
+    if (!hostname) {
+      LogManager.log(`TabGroupManager: Tab ${tab.id} has no domain to make a rule for`, "warn");
+      return false;
+    }
+    
+    const domain = PublicSuffixList.getRegistrableDomain(hostname, false) || hostname;
+    return this.addPatternForHost(domain, this.getDomainGroupName(domain));
+  }
+  
+  /**
+   * Adds a manual pattern that always puts a host and its subdomains in a group
+   * @param hostname The host to match
+   * @param groupName The group to put it in
+   * @returns Whether a pattern was added, false if the host already has one
+   */
+  private addPatternForHost(hostname: string, groupName: string): boolean {
+    const patternStr = getHostPattern(hostname);
+    if (this.domainPatterns.some(p => p.matchTarget === 'hostname' && p.pattern.source === patternStr)) {
+      LogManager.log(`TabGroupManager: A pattern for ${hostname} already exists`, "warn");
+      return false;
+    }
+    
+    return this.addPattern(patternStr, groupName, this.getGroupNameColor(groupName));
+  }
+  
+  /**
+   * Picks the color for a group that isn't created by a rule of its own
+   * @param groupName The name of the group
+   * @returns The color of a manual pattern for the same group, or else the group's override or hashed color
+   */
+  private getGroupNameColor(groupName: string): chrome.tabGroups.ColorEnum | undefined {
+    const sameGroup = this.domainPatterns.find(p => p.groupName.toLowerCase() === groupName.toLowerCase());
+    return sameGroup?.color ?? this.resolveGroupColor(groupName, 'hash');
+  }
+  
+  /**
+   * Gets the names offered by the "Add to group" context menu: open groups and manual pattern groups
+   * @returns The names without duplicates, alphabetically
+   */
+  private async getGroupNames(): Promise<string[]> {
+    const groups = await chrome.tabGroups.query({});
+    const names: Map<string, string> = new Map();   // Lowercase name -> name
+    
+    [...groups.map(group => group.title || ''), ...this.domainPatterns.map(p => p.groupName)]
+      .filter(name => name && !names.has(name.toLowerCase()))
+      .forEach(name => names.set(name.toLowerCase(), name));
+    
+    return [...names.values()].sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' }));
+  }
+  
+  /**
+   * Opens the popup with the manual pattern form filled in for a host
+   * Opening the popup needs the user's click, so the draft is kept in memory rather than
+   * stored first, and the popup is opened straight away.
+   * @param hostname The host to make a rule for
+   */
+  private async draftPatternForHost(hostname: string): Promise<void> {
+    const domain = PublicSuffixList.getRegistrableDomain(hostname, false) || hostname;
+    const groupName = this.getDomainGroupName(domain);
+    this.ruleDraft = {
+      patternStr: getHostPattern(hostname),
+      groupName,
+      color: this.resolveGroupColor(groupName, 'hash'),
+      matchTarget: 'hostname'
+    };
+    LogManager.log(`TabGroupManager: Drafting a pattern for ${hostname}`);
+    
+    try {
+      await chrome.action.openPopup();
+    } catch (error: any) {
+      // Not every browser lets extensions open their popup, fall back to a popup window
+      LogManager.log(`TabGroupManager: Could not open the popup (${error.message}), opening a window instead`, "warn");
+      await chrome.windows.create({ url: chrome.runtime.getURL('popup.html'), type: 'popup', width: 420, height: 640 });
+    }
+  }
+  
+  /**
+   * Hands the drafted manual pattern to the popup, once
+   * @returns The draft, or null if there is none
+   */
+  public takeRuleDraft(): StoredPattern | null {
+    const draft = this.ruleDraft;
+    this.ruleDraft = null;
+    return draft;
+  }
+  
+  /**
+   * Groups a batch of tabs from the update queue
+   * The tabs are looked up again, since they may have changed or been closed since they were queued.
+   * @param tabIds The IDs of the queued tabs, in the order they were queued
+   */
+  private async processQueuedTabs(tabIds: number[]): Promise<void> {
+    const tabs = await chrome.tabs.query({});
+    const tabsById = new Map(tabs.map(tab => [tab.id, tab]));
+    
+    for (const tabId of tabIds) {
+      const tab = tabsById.get(tabId);
+      // Skip tabs that were closed while they waited
+      if (tab) {
+        await this.handleTabUpdate(tab);
+      }
+    }
   }
   
   /**
@@ -253,19 +910,48 @@ class TabGroupManager {
     return templates;
   }
   
+  /**
+   * Gets the auto patterns with their group name templates, colors and per-pattern policies
+   * @returns The stored form of each auto pattern
+   */
+  public getAutoPatternDetails(): {
+    template: string;
+    groupNameTemplate: string;
+    color?: AutoPatternColor;
+    housekeeping?: HousekeepingPolicy;
+    navigationMode?: NavigationMode;
+    ordering?: OrderingPolicy;
+  }[] {
+    return this.autoPatterns.map(p => ({
+      template: p.template,
+      groupNameTemplate: p.groupNameTemplate,
+      color: p.color,
+      housekeeping: p.housekeeping,
+      navigationMode: p.navigationMode,
+      ordering: p.ordering
+    }));
+  }
+  
   /**
    * Handles tab URL updates, applying patterns to organize tabs
    */
   private async handleTabUpdate(tab: chrome.tabs.Tab): Promise<void> {
-    // Skip if tab is already in a group
+    // Excluded tabs are never grouped or moved
+    const exclusion = await this.exclusions.getExclusionReason(tab);
+    if (exclusion) {
+      LogManager.log(`TabGroupManager: Skipping tab ${tab.id} - ${exclusion}`, "log", { tabId: tab.id });
+      return;
+    }
+    
+    // Grouped tabs are only moved when the extension grouped them and their rule follows navigation
     if (tab.groupId !== chrome.tabGroups.TAB_GROUP_ID_NONE) {
-      LogManager.log(`TabGroupManager: Skipping tab ${tab.id} - already in group ${tab.groupId}`);
+      await this.followNavigation(tab);
       return;
     }
     
     // Skip if no URL or ID
     if (!tab.url || !tab.id) {
-      LogManager.log(`TabGroupManager: Skipping tab ${tab.id} - no URL or ID`);
+      LogManager.log(`TabGroupManager: Skipping tab ${tab.id} - no URL or ID`, "log", { tabId: tab.id });
       return;
     }
     
@@ -275,95 +961,388 @@ class TabGroupManager {
       return;
     }
     
+    // Skip tabs a workspace restore is about to put in their group
+    if (this.restoringTabs.has(tab.id)) {
+      LogManager.log(`TabGroupManager: Skipping tab ${tab.id} - being restored from a workspace`, "log", { tabId: tab.id });
+      return;
+    }
+    
+    // Skip tabs that housekeeping or the ungroup shortcut ungrouped, until they navigate somewhere else
+    if (await this.housekeeper.isReleased(tab.id)) {
+      LogManager.log(`TabGroupManager: Skipping tab ${tab.id} - ungrouped by housekeeping or the ungroup shortcut`, "log", { tabId: tab.id });
+      return;
+    }
+    
     try {
-      // Check the processedUrls cache first for fast lookup
-      if (this.processedUrls.has(tab.url)) {
-        const cachedGroupName = this.processedUrls.get(tab.url);
-        LogManager.log(`TabGroupManager: Cache hit for ${tab.url} -> group: ${cachedGroupName}`);
-        
-        // If we have a cached group name, use it directly
-        if (cachedGroupName) {
-          await this.addTabToGroup(tab.id, cachedGroupName);
+      const url = new URL(tab.url);
+      
+      // Tabs on a site that was seen before skip the rules
+      const cached = this.matchCache.get(url);
+      if (cached) {
+        LogManager.log(`TabGroupManager: Cache hit for ${tab.url} -> group: ${cached.value ? cached.value.groupName : 'none'}`, "log", { tabId: tab.id });
+        if (cached.value) {
+          await this.addTabToGroup(tab.id, cached.value);
         }
-        // If cached as null/undefined, we know it doesn't match any patterns
         return;
       }
       
-      const domain = new URL(tab.url).hostname;
-      
-      // Check for manual pattern match
-      for (const pattern of this.domainPatterns) {
-        if (pattern.pattern.test(domain)) {
-          LogManager.log(`TabGroupManager: Domain ${domain} matches pattern ${pattern.pattern}`);
-          await this.addTabToGroup(tab.id, pattern.groupName, pattern.color);
-          // Cache the result
-          this.processedUrls.set(tab.url, pattern.groupName);
-          return;
-        }
+      const target = this.resolveGroupTarget(url)?.target ?? null;
+      if (target) {
+        LogManager.log(`TabGroupManager: ${url.href} matches ${target.ruleType} rule ${target.rule}, group: ${target.groupName}`, "log", { tabId: tab.id });
       }
       
-      // Check for auto-pattern match if enabled
-      if (this.enableAutoPatterns) {
-        // Try to match with auto-patterns
-        const groupName = this.matchAutoPattern(domain);
-        if (groupName) {
-          LogManager.log(`TabGroupManager: Domain ${domain} matches auto-pattern, group: ${groupName}`);
-          // Cache both in the domain cache and URL cache
-          this.autoPatternCache.set(domain, groupName);
-          this.processedUrls.set(tab.url, groupName);
-          await this.addTabToGroup(tab.id, groupName);
-          return;
-        }
-      }
+      // Cache the result, or null if nothing matched to avoid rechecking
+      const ruleId = target ? this.getCacheRuleId(target, url) : null;
+      this.matchCache.set(url, ruleId, target);
       
-      // If no match was found, cache it as empty string to avoid rechecking
-      this.processedUrls.set(tab.url, "");
-      LogManager.log(`TabGroupManager: No pattern match for ${domain}`);
+      if (target) {
+        await this.addTabToGroup(tab.id, target);
+      } else {
+        LogManager.log(`TabGroupManager: No pattern match for ${url.hostname}`, "log", { tabId: tab.id });
+      }
     } catch (error: any) {
-      LogManager.log(`TabGroupManager: Error processing tab update: ${error.message}`, "error");
+      LogManager.log(`TabGroupManager: Error processing tab update: ${error.message}`, "error", { tabId: tab.id });
     }
   }
   
   /**
-   * Clears the URL cache to force reprocessing of all tabs
+   * Works out which group a URL belongs in: manual patterns first, then auto-patterns, then registrable domain
+   * Grouping, the grouping preview and the rule tester all go through here, so they always agree.
+   * @param url The parsed tab URL
+   * @param draft A draft manual pattern to check after the saved ones, when testing rules
+   * @returns The group, the rule that chose it and the part of the URL it matched, or null if no rule matches
    */
-  private clearUrlCache(): void {
-    LogManager.log("TabGroupManager: Clearing URL cache");
-    this.processedUrls.clear();
+  private resolveGroupTarget(url: URL, draft?: DomainPattern): RuleMatch | null {
+    if (isInternalUrl(url)) {
+      return null;
+    }
+    
+    // Manual patterns are always checked before auto-patterns
+    for (const pattern of draft ? [...this.domainPatterns, draft] : this.domainPatterns) {
+      const subject = this.getMatchSubject(url, pattern);
+      const match = subject === null ? null : pattern.pattern.exec(subject);
+      if (subject !== null && match) {
+        return {
+          target: { groupName: pattern.groupName, color: this.resolveGroupColor(pattern.groupName, pattern.color), ruleType: 'manual', rule: pattern.pattern.source },
+          draft: pattern === draft,
+          subject,
+          matchStart: match.index,
+          matchEnd: match.index + match[0].length
+        };
+      }
+    }
+    
+    // Check for auto-pattern match if enabled
+    if (this.enableAutoPatterns) {
+      for (const pattern of this.autoPatterns) {
+        const subject = this.getAutoPatternSubject(url, pattern);
+        const match = subject.match(pattern.regex);
+        const groupName = match ? this.renderGroupName(pattern.groupNameTemplate, match.groups || {}) : '';
+        if (match && groupName) {
+          return {
+            target: { groupName, color: this.resolveGroupColor(groupName, pattern.color), ruleType: 'auto', rule: pattern.template },
+            draft: false,
+            subject,
+            matchStart: match.index!,
+            matchEnd: match.index! + match[0].length
+          };
+        }
+      }
+    }
+    
+    // Fall back to grouping by registrable domain if enabled
+    const domainMatch = this.matchRegistrableDomain(url);
+    if (domainMatch) {
+      return {
+        target: {
+          groupName: domainMatch.groupName,
+          color: this.resolveGroupColor(domainMatch.groupName),
+          ruleType: 'domain',
+          rule: domainMatch.domain
+        },
+        draft: false,
+        subject: url.hostname,
+        matchStart: url.hostname.length - domainMatch.domain.length,
+        matchEnd: url.hostname.length
+      };
+    }
+    
+    return null;
   }
   
   /**
-   * Adds a new domain pattern for tab grouping
+   * Re-evaluates a grouped tab after it navigates, moving it when its rule follows navigation
+   * and the rule no longer matches. Tabs the extension didn't group, or that the user has
+   * moved since, are never touched.
+   * @param tab The grouped tab
    */
-  public addPattern(patternStr: string, groupName: string, color?: chrome.tabGroups.ColorEnum): void {
-    try {
-      LogManager.log(`TabGroupManager: Adding pattern ${patternStr} -> ${groupName}`);
-      const pattern = new RegExp(patternStr);
-      this.domainPatterns.push({ pattern, groupName, color });
-      this.savePatterns();
+  private async followNavigation(tab: chrome.tabs.Tab): Promise<void> {
+    if (!tab.id || !tab.url) return;
+    
+    const managed = await this.managedTabs.get(tab.id);
+    if (!managed || managed.groupId !== tab.groupId) {
+      LogManager.log(`TabGroupManager: Skipping tab ${tab.id} - already in group ${tab.groupId}`, "log", { tabId: tab.id });
+      return;
+    }
+    
+    if (this.getNavigationModeFor(managed.ruleType, managed.rule) === 'sticky') {
+      return;
+    }
+    
+    const context = { tabId: tab.id, ruleId: getRuleId(managed.ruleType, managed.rule) };
+    try {
+      const url = new URL(tab.url);
+      const group = await chrome.tabGroups.get(tab.groupId);
+      
+      if (this.ruleStillMatches(managed.ruleType, managed.rule, url, group.title)) {
+        this.recordRuleMatch(managed.ruleType, managed.rule, false);
+        return;
+      }
       
-      // Clear URL cache since patterns have changed
-      this.clearUrlCache();
+      const target = this.resolveGroupTarget(url)?.target;
+      if (target && target.groupName === group.title) {
+        // Another rule puts it in the same group, it now belongs to that rule
+        await this.managedTabs.beginMove(tab.id, target.ruleType, target.rule);
+        await this.managedTabs.endMove(tab.id, tab.groupId);
+        this.recordRuleMatch(target.ruleType, target.rule, false);
+        return;
+      }
+      
+      if (target) {
+        LogManager.log(`TabGroupManager: Tab ${tab.id} navigated away from "${group.title}", following it to "${target.groupName}"`, "log", context);
+        await this.addTabToGroup(tab.id, target);
+      } else {
+        LogManager.log(`TabGroupManager: Tab ${tab.id} navigated away from "${group.title}", ungrouping it`, "log", context);
+        await this.managedTabs.beginMove(tab.id, managed.ruleType, managed.rule);
+        await chrome.tabs.ungroup(tab.id);
+        this.managedTabs.forget(tab.id);
+      }
+    } catch (error: any) {
+      LogManager.log(`TabGroupManager: Error following navigation of tab ${tab.id}: ${error.message}`, "error", context);
+    }
+  }
+  
+  /**
+   * Checks whether a rule still puts a URL in a group
+   * @param ruleType The kind of rule
+   * @param rule The pattern source, auto-pattern template or registrable domain
+   * @param url The tab's new URL
+   * @param groupName The title of the tab's group
+   */
+  private ruleStillMatches(ruleType: RuleType, rule: string, url: URL, groupName?: string): boolean {
+    switch (ruleType) {
+      case 'manual':
+        return this.domainPatterns.some(p => {
+          if (p.pattern.source !== rule || p.groupName !== groupName) return false;
+          const subject = this.getMatchSubject(url, p);
+          return subject !== null && p.pattern.test(subject);
+        });
+      case 'auto': {
+        const pattern = this.autoPatterns.find(p => p.template === rule);
+        return !!pattern && this.extractAutoPatternName(pattern, url) === groupName;
+      }
+      default:
+        return this.matchRegistrableDomain(url)?.domain === rule;
+    }
+  }
+  
+  /**
+   * Gets the navigation mode of a rule, falling back to the global mode
+   * @param ruleType The kind of rule
+   * @param rule The pattern source or auto-pattern template
+   */
+  private getNavigationModeFor(ruleType: RuleType, rule: string): NavigationMode {
+    const ruleMode = ruleType === 'manual'
+      ? this.domainPatterns.find(p => p.pattern.source === rule)?.navigationMode
+      : ruleType === 'auto'
+        ? this.autoPatterns.find(p => p.template === rule)?.navigationMode
+        : undefined;
+    return ruleMode ?? this.navigationMode;
+  }
+  
+  /**
+   * Gets the part of a URL that a manual pattern should be tested against
+   * @param url The parsed tab URL
+   * @param pattern The manual pattern being tested
+   * @returns The string to test, or null if the URL has nothing to match
+   */
+  private getMatchSubject(url: URL, pattern: DomainPattern): string | null {
+    switch (pattern.matchTarget) {
+      case 'hostPath':
+        return url.hostname + url.pathname;
+      case 'url':
+        return url.href;
+      case 'queryParam':
+        return pattern.queryParam ? url.searchParams.get(pattern.queryParam) : null;
+      default:
+        return url.hostname;
+    }
+  }
+  
+  /**
+   * Finds the first manual pattern that matches a URL
+   * @param url The parsed tab URL
+   * @returns The matching pattern or undefined if none match
+   */
+  private findMatchingPattern(url: URL): DomainPattern | undefined {
+    return this.domainPatterns.find(p => {
+      const subject = this.getMatchSubject(url, p);
+      return subject !== null && p.pattern.test(subject);
+    });
+  }
+  
+  /**
+   * Describes the rules to the match cache in the order they are tried, with IDs that change
+   * whenever anything that decides a rule's group changes
+   */
+  private getCacheRules(): CacheRule[] {
+    const rules: CacheRule[] = this.domainPatterns.map(p => ({
+      id: this.getManualCacheRuleId(p),
+      subject: p.matchTarget === 'queryParam' ? `query:${p.queryParam}` : p.matchTarget,
+      matches: (url: URL) => {
+        const subject = this.getMatchSubject(url, p);
+        return subject !== null && p.pattern.test(subject);
+      }
+    }));
+    
+    if (this.enableAutoPatterns) {
+      this.autoPatterns.forEach(p => rules.push({
+        id: this.getAutoCacheRuleId(p),
+        subject: p.matchesPath ? 'hostPath' : 'hostname',
+        matches: (url: URL) => this.extractAutoPatternName(p, url) !== null
+      }));
+    }
+    
+    if (this.registrableDomainMode !== 'off') {
+      rules.push({
+        id: `domain:${this.registrableDomainMode}`,
+        subject: 'hostname',
+        matches: (url: URL) => this.matchRegistrableDomain(url) !== null
+      });
+    }
+    
+    return rules;
+  }
+  
+  /**
+   * Gets the match cache ID of a manual pattern
+   * @param pattern The manual pattern
+   */
+  private getManualCacheRuleId(pattern: DomainPattern): string {
+    return `manual:${JSON.stringify([pattern.pattern.source, pattern.matchTarget, pattern.queryParam, pattern.groupName, pattern.color])}`;
+  }
+  
+  /**
+   * Gets the match cache ID of an auto-pattern
+   * @param pattern The auto-pattern
+   */
+  private getAutoCacheRuleId(pattern: AutoPattern): string {
+    return `auto:${JSON.stringify([pattern.template, pattern.groupNameTemplate, pattern.color])}`;
+  }
+  
+  /**
+   * Gets the match cache ID of the rule that chose a target
+   * @param target The target the URL resolved to
+   * @param url The URL
+   */
+  private getCacheRuleId(target: GroupTarget, url: URL): string {
+    switch (target.ruleType) {
+      case 'manual':
+        return this.getManualCacheRuleId(this.findMatchingPattern(url)!);
+      case 'auto':
+        return this.getAutoCacheRuleId(this.autoPatterns.find(p => p.template === target.rule)!);
+      default:
+        return `domain:${this.registrableDomainMode}`;
+    }
+  }
+  
+  /**
+   * Brings the match cache in step with the rules, so only the cached matches the change affects are dropped
+   */
+  private updateMatchCache(): void {
+    this.matchCache.setRules(this.getCacheRules()).catch((error: any) => {
+      LogManager.log(`TabGroupManager: Error updating the match cache: ${error.message}`, "error");
+    });
+  }
+  
+  /**
+   * Adds a new domain pattern for tab grouping
+   */
+  public addPattern(
+    patternStr: string,
+    groupName: string,
+    color?: chrome.tabGroups.ColorEnum,
+    matchTarget: MatchTarget = 'hostname',
+    queryParam?: string
+  ): boolean {
+    try {
+      LogManager.log(`TabGroupManager: Adding pattern ${patternStr} (${matchTarget}) -> ${groupName}`);
+      if (matchTarget === 'queryParam' && !queryParam) {
+        throw new Error('A query parameter name is required for the queryParam match target');
+      }
+      const pattern = new RegExp(patternStr);
+      this.domainPatterns.push({
+        pattern,
+        groupName,
+        color,
+        matchTarget,
+        queryParam: matchTarget === 'queryParam' ? queryParam : undefined,
+        priority: this.getNextPriority(this.domainPatterns)
+      });
+      this.savePatterns();
       
       // Apply to existing tabs
       this.applyPatternsToExistingTabs();
+      
+      return true;
     } catch (error: any) {
       LogManager.log(`TabGroupManager: Error adding pattern: ${error.message}`, "error");
+      return false;
     }
   }
   
   /**
-   * Adds a new auto-pattern template
+   * Removes a manual pattern
+   * @param index The pattern's position in priority order
+   * @returns Whether a pattern was removed
    */
-  public addAutoPattern(template: string): boolean {
-    LogManager.log(`TabGroupManager: Adding auto-pattern template: ${template}`);
-    
-    // Validate the template
-    if (!template.includes(':name')) {
-      LogManager.log(`TabGroupManager: Invalid template, missing :name placeholder: ${template}`, "error");
+  public removePattern(index: number): boolean {
+    if (!Number.isInteger(index) || index < 0 || index >= this.domainPatterns.length) {
+      LogManager.log(`TabGroupManager: No manual pattern at index ${index}`, "warn");
       return false;
     }
     
+    const [removed] = this.domainPatterns.splice(index, 1);
+    LogManager.log(`TabGroupManager: Removed pattern ${removed.pattern.source} -> ${removed.groupName}`);
+    this.savePatterns();
+    
+    return true;
+  }
+  
+  /**
+   * Checks whether an auto-pattern template and group name template compile
+   * @param template The pattern template
+   * @param groupNameTemplate The optional group name template
+   * @returns The error message, or null if the templates are valid
+   */
+  public validateAutoPattern(template: string, groupNameTemplate?: string): string | null {
+    try {
+      this.createAutoPattern(template, groupNameTemplate);
+      return null;
+    } catch (error: any) {
+      return error.message;
+    }
+  }
+  
+  /**
+   * Adds a new auto-pattern template
+   * @param template The pattern template (e.g., ":env-:name.*.corp.com")
+   * @param groupNameTemplate How captures are combined into a group name, defaults to "{name|capitalize}"
+   * @param color The color of the groups it creates, or 'hash' for a stable color per group name
+   */
+  public addAutoPattern(template: string, groupNameTemplate?: string, color?: AutoPatternColor): boolean {
+    LogManager.log(`TabGroupManager: Adding auto-pattern template: ${template}`);
+    
     try {
       // Check if this template already exists
       if (this.autoPatterns.some(p => p.template === template)) {
@@ -372,15 +1351,14 @@ class TabGroupManager {
       }
       
       // Create and add the auto-pattern
-      const autoPattern = this.createAutoPattern(template);
+      const autoPattern = this.createAutoPattern(template, groupNameTemplate);
+      autoPattern.color = color;
+      autoPattern.priority = this.getNextPriority(this.autoPatterns);
       this.autoPatterns.push(autoPattern);
       
       // Save settings
       this.saveSettings();
       
-      // Clear URL cache since patterns have changed
-      this.clearUrlCache();
-      
       // Apply to existing tabs if auto-patterns are enabled
       if (this.enableAutoPatterns) {
         this.applyAutoPatternToExistingTabs();
@@ -407,10 +1385,6 @@ class TabGroupManager {
         // Pattern was removed, save settings
         this.saveSettings();
         
-        // Clear the URL and auto-pattern caches
-        this.clearUrlCache();
-        this.autoPatternCache.clear();
-        
         return true;
       }
       
@@ -433,9 +1407,6 @@ class TabGroupManager {
     // Save settings
     this.saveSettings();
     
-    // Clear URL cache since behavior has changed
-    this.clearUrlCache();
-    
     // Apply to existing tabs if enabling
     if (enabled) {
       this.applyAutoPatternToExistingTabs();
@@ -451,286 +1422,2232 @@ class TabGroupManager {
   }
   
   /**
-   * Applies current patterns to all existing tabs
+   * Sets how grouped tabs are placed across windows
+   * @param strategy The window strategy to use
+   * @returns Whether the strategy was valid and saved
    */
-  private async applyPatternsToExistingTabs(): Promise<void> {
-    const tabs = await chrome.tabs.query({});
-    
-    LogManager.log(`TabGroupManager: Applying patterns to ${tabs.length} existing tabs`);
-    
-    for (const tab of tabs) {
-      this.handleTabUpdate(tab);
+  public setWindowStrategy(strategy: WindowStrategy): boolean {
+    if (!WINDOW_STRATEGIES.includes(strategy)) {
+      LogManager.log(`TabGroupManager: Unknown window strategy: ${strategy}`, "error");
+      return false;
     }
+    
+    LogManager.log(`TabGroupManager: Setting window strategy: ${strategy}`);
+    this.windowStrategy = strategy;
+    this.saveSettings();
+    return true;
   }
   
   /**
-   * Applies auto-pattern grouping to all existing tabs
+   * Gets how grouped tabs are placed across windows
+   * @returns The current window strategy
    */
-  private async applyAutoPatternToExistingTabs(): Promise<void> {
-    if (!this.enableAutoPatterns) return;
-    
-    LogManager.log("TabGroupManager: Applying auto-patterns to existing tabs");
+  public getWindowStrategy(): WindowStrategy {
+    return this.windowStrategy;
+  }
+  
+  /**
+   * Sets how tabs are grouped by registrable domain
+   * @param mode The registrable domain mode to use
+   * @returns Whether the mode was valid and saved
+   */
+  public setRegistrableDomainMode(mode: RegistrableDomainMode): boolean {
+    if (!REGISTRABLE_DOMAIN_MODES.includes(mode)) {
+      LogManager.log(`TabGroupManager: Unknown registrable domain mode: ${mode}`, "error");
+      return false;
+    }
     
-    const tabs = await chrome.tabs.query({});
-    LogManager.log(`TabGroupManager: Found ${tabs.length} tabs to process`);
+    LogManager.log(`TabGroupManager: Setting registrable domain mode: ${mode}`);
+    this.registrableDomainMode = mode;
+    this.saveSettings();
     
-    for (const tab of tabs) {
-      if (!tab.url || !tab.id) continue;
-      
-      const domain = new URL(tab.url).hostname;
-      
-      // Skip if the tab already matches a manual pattern
-      const matchingPattern = this.domainPatterns.find(p => p.pattern.test(domain));
-      if (matchingPattern) continue;
-      
-      // Try to match with auto patterns
-      const groupName = this.matchAutoPattern(domain);
-      if (groupName) {
-        LogManager.log(`TabGroupManager: Auto-grouped tab ${tab.id} (${domain}) to ${groupName}`);
-        this.autoPatternCache.set(domain, groupName);
-        await this.addTabToGroup(tab.id, groupName);
-      }
+    if (mode !== 'off') {
+      this.applyPatternsToExistingTabs();
     }
+    
+    return true;
   }
   
   /**
-   * Matches a domain against the auto-patterns
-   * @param domain The domain to match
-   * @returns The extracted group name or null if no match
+   * Gets how tabs are grouped by registrable domain
+   * @returns The current registrable domain mode
    */
-  private matchAutoPattern(domain: string): string | null {
-    for (const pattern of this.autoPatterns) {
-      const match = domain.match(pattern.regex);
-      if (match && match[pattern.namePosition]) {
-        // Extract the matched name and capitalize it
-        const name = match[pattern.namePosition];
-        return name.charAt(0).toUpperCase() + name.slice(1);
-      }
-    }
-    
-    return null;
+  public getRegistrableDomainMode(): RegistrableDomainMode {
+    return this.registrableDomainMode;
   }
   
   /**
-   * Saves all settings to Chrome storage
-   * This includes both auto-patterns and the enableAutoPatterns flag
+   * Sets whether URL changes in background tabs are grouped, instead of waiting until the tab is activated
+   * @param enabled Whether background tabs should be processed
    */
-  private saveSettings(): void {
-    LogManager.log("TabGroupManager: Saving settings to storage...");
-    
-    // Save auto patterns
-    const autoPatternsToSave = this.autoPatterns.map(p => ({
-      template: p.template,
-      regexStr: p.regex.source,
-      namePosition: p.namePosition
-    }));
-    
-    LogManager.log(`TabGroupManager: Saving ${this.autoPatterns.length} auto-patterns`);
-    LogManager.log("TabGroupManager: Auto-patterns to save: " + JSON.stringify(autoPatternsToSave));
+  public setBackgroundTabProcessing(enabled: boolean): void {
+    LogManager.log(`TabGroupManager: Setting background tab processing: ${enabled}`);
+    this.processBackgroundTabs = enabled;
+    this.saveSettings();
     
-    // Save all settings
-    chrome.storage.local.set({
-      autoPatterns: autoPatternsToSave,
-      enableAutoPatterns: this.enableAutoPatterns
-    }, () => {
-      if (chrome.runtime.lastError) {
-        LogManager.log("TabGroupManager: Error saving settings: " + chrome.runtime.lastError.message, "error");
-      } else {
-        LogManager.log("TabGroupManager: Auto-pattern settings saved successfully");
-      }
-    });
+    // Pick up background tabs that were skipped while it was off
+    if (enabled) {
+      this.applyPatternsToExistingTabs();
+    }
   }
   
   /**
-   * Applies auto patterns to all existing tabs
-   * Public method that can be called from message handlers
+   * Gets whether URL changes in background tabs are grouped
    */
-  public applyAutoPatternsToTabs(): void {
-    LogManager.log("TabGroupManager: Public method - applying auto patterns to tabs");
-    if (!this.enableAutoPatterns) {
-      LogManager.log("TabGroupManager: Auto patterns are disabled, skipping application");
-      return;
-    }
-    
-    // Call the internal implementation via setTimeout to prevent blocking
-    setTimeout(async () => {
-      try {
-        const tabs = await chrome.tabs.query({});
-        LogManager.log(`TabGroupManager: Found ${tabs.length} tabs to process`);
-        
-        for (const tab of tabs) {
-          if (!tab.url || !tab.id) continue;
-          
-          const domain = new URL(tab.url).hostname;
-          
-          // Skip if the tab already matches a manual pattern
-          const matchingPattern = this.domainPatterns.find(p => p.pattern.test(domain));
-          if (matchingPattern) continue;
-          
-          // Try to match with auto patterns
-          const groupName = this.matchAutoPattern(domain);
-          if (groupName) {
-            LogManager.log(`TabGroupManager: Auto-grouped tab ${tab.id} (${domain}) to ${groupName}`);
-            this.autoPatternCache.set(domain, groupName);
-            await this.addTabToGroup(tab.id, groupName);
-          }
-        }
-      } catch (error: any) {
-        LogManager.log(`TabGroupManager: Error applying auto patterns: ${error.message}`, "error");
-      }
-    }, 0);
+  public getBackgroundTabProcessing(): boolean {
+    return this.processBackgroundTabs;
   }
   
   /**
-   * Groups all existing ungrouped tabs using the defined patterns
-   * Optimized to avoid grouping tabs that are already in groups
+   * Gets the global housekeeping policy
    */
-  public async groupAllExistingTabs(): Promise<number> {
-    LogManager.log("TabGroupManager: Grouping all existing ungrouped tabs");
-    
-    try {
-      // Get all tabs in all windows
-      const tabs = await chrome.tabs.query({});
-      
-      // Filter only ungrouped tabs
-      const ungroupedTabs = tabs.filter(tab => 
-        tab.groupId === chrome.tabGroups.TAB_GROUP_ID_NONE && 
-        tab.url && 
-        !tab.url.includes('chrome://') && 
-        !tab.url.includes('brave://')
-      );
-      
-      LogManager.log(`TabGroupManager: Found ${ungroupedTabs.length} ungrouped tabs to process`);
-      
-      let groupedCount = 0;
-      
-      // Process each tab
-      for (const tab of ungroupedTabs) {
-        try {
-          if (!tab.url || !tab.id) continue;
-          
-          const domain = new URL(tab.url).hostname;
-          if (!domain) continue;
-          
-          // Check for manual pattern match
-          const matchingPattern = this.domainPatterns.find(p => p.pattern.test(domain));
-          if (matchingPattern) {
-            LogManager.log(`TabGroupManager: Grouping tab ${tab.id} to ${matchingPattern.groupName} (manual pattern)`);
-            await this.addTabToGroup(tab.id, matchingPattern.groupName, matchingPattern.color);
-            groupedCount++;
-            continue;
-          }
-          
-          // Check for auto-pattern match if enabled
-          if (this.enableAutoPatterns) {
-            // Check cache first
-            if (this.autoPatternCache.has(domain)) {
-              const groupName = this.autoPatternCache.get(domain);
-              if (groupName) {
-                LogManager.log(`TabGroupManager: Grouping tab ${tab.id} to ${groupName} (from cache)`);
-                await this.addTabToGroup(tab.id, groupName);
-                groupedCount++;
-                continue;
-              }
-            }
-            
-            // Try to match with auto-patterns
-            const groupName = this.matchAutoPattern(domain);
-            if (groupName) {
-              LogManager.log(`TabGroupManager: Grouping tab ${tab.id} to ${groupName} (auto-pattern)`);
-              this.autoPatternCache.set(domain, groupName);
-              await this.addTabToGroup(tab.id, groupName);
-              groupedCount++;
-            }
-          }
-        } catch (error: any) {
-          LogManager.log(`TabGroupManager: Error processing tab ${tab.id}: ${error.message}`, "error");
-        }
-      }
-      
-      LogManager.log(`TabGroupManager: Successfully grouped ${groupedCount} tabs`);
-      return groupedCount;
-    } catch (error: any) {
-      LogManager.log(`TabGroupManager: Error grouping tabs: ${error.message}`, "error");
-      return 0;
+  public getHousekeeping(): HousekeepingPolicy {
+    return { ...this.housekeeping };
+  }
+  
+  /**
+   * Sets the global housekeeping policy, used for groups whose rule doesn't set its own
+   * @param policy A validated policy
+   */
+  public setHousekeeping(policy: HousekeepingPolicy): void {
+    LogManager.log("TabGroupManager: Setting housekeeping: " + JSON.stringify(policy));
+    this.housekeeping = this.compactPolicy(policy);
+    this.saveSettings();
+  }
+  
+  /**
+   * Sets the housekeeping policy of a manual pattern's groups
+   * @param index The pattern's position in priority order
+   * @param policy A validated policy, empty to use the global policy
+   * @returns Whether the pattern exists
+   */
+  public setPatternHousekeeping(index: number, policy: HousekeepingPolicy): boolean {
+    const pattern = this.domainPatterns[index];
+    if (!Number.isInteger(index) || !pattern) {
+      LogManager.log(`TabGroupManager: No manual pattern at index ${index}`, "warn");
+      return false;
     }
+    
+    LogManager.log(`TabGroupManager: Setting housekeeping for pattern ${pattern.pattern.source}: ` + JSON.stringify(policy));
+    pattern.housekeeping = this.compactPolicy(policy);
+    this.savePatterns();
+    return true;
   }
   
   /**
-   * Adds a tab to a group, creating the group if it doesn't exist
-   * @param tabId ID of the tab to group
-   * @param groupName Name for the group
-   * @param color Color for the group
+   * Sets the housekeeping policy of an auto-pattern's groups
+   * @param template The auto-pattern template
+   * @param policy A validated policy, empty to use the global policy
+   * @returns Whether the auto-pattern exists
    */
-  private async addTabToGroup(tabId: number, groupName: string, color?: chrome.tabGroups.ColorEnum): Promise<void> {
-    try {
-      // Get current window
-      const currentWindow = await this.getCurrentWindow();
-      if (!currentWindow.id) return;
-      
-      // Check if a group with this name already exists
-      const groups = await chrome.tabGroups.query({
-        windowId: currentWindow.id,
-        title: groupName
-      });
-      
-      let groupId: number;
-      
-      if (groups.length > 0) {
-        // Group exists, add tab to it
-        groupId = groups[0].id;
-        await chrome.tabs.group({
-          groupId,
-          tabIds: tabId
-        });
-      } else {
-        // Create new group
-        groupId = await chrome.tabs.group({
-          tabIds: tabId
-        });
-        
-        // Set title and color for the new group
-        await chrome.tabGroups.update(groupId, {
-          title: groupName,
-          color: color || "grey"
-        });
-      }
-    } catch (error) {
-      console.error("Error grouping tab:", error);
+  public setAutoPatternHousekeeping(template: string, policy: HousekeepingPolicy): boolean {
+    const pattern = this.autoPatterns.find(p => p.template === template);
+    if (!pattern) {
+      LogManager.log(`TabGroupManager: Auto-pattern template not found: ${template}`, "warn");
+      return false;
     }
+    
+    LogManager.log(`TabGroupManager: Setting housekeeping for auto-pattern ${template}: ` + JSON.stringify(policy));
+    pattern.housekeeping = this.compactPolicy(policy);
+    this.saveSettings();
+    return true;
   }
   
   /**
-   * Gets the current browser window
-   * @returns Promise resolving to the current window
+   * Gets what happens to a grouped tab that navigates to a URL its rule no longer matches
    */
-  private async getCurrentWindow(): Promise<chrome.windows.Window> {
-    return new Promise((resolve) => {
-      chrome.windows.getCurrent((window) => {
-        resolve(window);
-      });
-    });
+  public getNavigationMode(): NavigationMode {
+    return this.navigationMode;
   }
   
   /**
-   * Refreshes patterns from storage
+   * Sets the global navigation mode, used for rules that don't set their own
+   * @param mode 'sticky' to leave the tab in its group, 'follow' to regroup or ungroup it
    */
-  public refreshPatterns(): void {
-    this.loadPatternsFromStorage();
+  public setNavigationMode(mode: NavigationMode): void {
+    LogManager.log(`TabGroupManager: Setting navigation mode: ${mode}`);
+    this.navigationMode = mode;
+    this.saveSettings();
   }
   
   /**
-   * Saves current patterns to Chrome storage
+   * Sets the navigation mode of a manual pattern's tabs
+   * @param index The pattern's position in priority order
+   * @param mode The navigation mode, or undefined to use the global mode
+   * @returns Whether the pattern exists
    */
-  private savePatterns(): void {
-    const patternsToSave = this.domainPatterns.map(p => ({
-      patternStr: p.pattern.source,
+  public setPatternNavigationMode(index: number, mode?: NavigationMode): boolean {
+    const pattern = this.domainPatterns[index];
+    if (!Number.isInteger(index) || !pattern) {
+      LogManager.log(`TabGroupManager: No manual pattern at index ${index}`, "warn");
+      return false;
+    }
+    
+    LogManager.log(`TabGroupManager: Setting navigation mode for pattern ${pattern.pattern.source}: ${mode ?? 'default'}`);
+    pattern.navigationMode = mode;
+    this.savePatterns();
+    return true;
+  }
+  
+  /**
+   * Sets the navigation mode of an auto-pattern's tabs
+   * @param template The auto-pattern template
+   * @param mode The navigation mode, or undefined to use the global mode
+   * @returns Whether the auto-pattern exists
+   */
+  public setAutoPatternNavigationMode(template: string, mode?: NavigationMode): boolean {
+    const pattern = this.autoPatterns.find(p => p.template === template);
+    if (!pattern) {
+      LogManager.log(`TabGroupManager: Auto-pattern template not found: ${template}`, "warn");
+      return false;
+    }
+    
+    LogManager.log(`TabGroupManager: Setting navigation mode for auto-pattern ${template}: ${mode ?? 'default'}`);
+    pattern.navigationMode = mode;
+    this.saveSettings();
+    return true;
+  }
+  
+  /**
+   * Gets the exclusion rules and options
+   */
+  public getExclusions(): ExclusionSettings {
+    return this.exclusions.getSettings();
+  }
+  
+  /**
+   * Adds an exclusion rule, so matching tabs are never grouped automatically
+   * @param rule A validated rule
+   * @returns Whether the rule was added, false if it already exists
+   */
+  public addExclusion(rule: ExclusionRule): boolean {
+    if (!this.exclusions.addRule(rule)) {
+      LogManager.log(`TabGroupManager: Exclusion already exists: ${rule.type} ${rule.value}`, "warn");
+      return false;
+    }
+    
+    LogManager.log(`TabGroupManager: Added exclusion: ${rule.type} ${rule.value}`);
+    this.saveSettings();
+    return true;
+  }
+  
+  /**
+   * Removes an exclusion rule
+   * Tabs it excluded are grouped the next time they are updated, or with "Group Existing Tabs".
+   * @param index The rule's position in the list
+   * @returns Whether the rule existed
+   */
+  public removeExclusion(index: number): boolean {
+    if (!this.exclusions.removeRule(index)) {
+      LogManager.log(`TabGroupManager: No exclusion at index ${index}`, "warn");
+      return false;
+    }
+    
+    LogManager.log(`TabGroupManager: Removed exclusion at index ${index}`);
+    this.saveSettings();
+    return true;
+  }
+  
+  /**
+   * Sets whether pinned and incognito tabs are excluded from grouping
+   * @param excludePinned Whether pinned tabs are left alone
+   * @param excludeIncognito Whether incognito tabs are left alone
+   */
+  public setExclusionOptions(excludePinned: boolean, excludeIncognito: boolean): void {
+    LogManager.log(`TabGroupManager: Setting exclusion options: pinned ${excludePinned}, incognito ${excludeIncognito}`);
+    this.exclusions.setSettings({ ...this.exclusions.getSettings(), excludePinned, excludeIncognito });
+    this.saveSettings();
+  }
+  
+  /**
+   * Gets whether grouping is switched off in a window
+   * @param windowId The ID of the window
+   */
+  public isWindowGroupingDisabled(windowId: number): Promise<boolean> {
+    return this.exclusions.isWindowDisabled(windowId);
+  }
+  
+  /**
+   * Switches automatic grouping off or back on in a window
+   * Switching it back on groups the window's tabs straight away.
+   * @param windowId The ID of the window
+   * @param disabled Whether tabs in the window should be left alone
+   */
+  public async setWindowGroupingDisabled(windowId: number, disabled: boolean): Promise<void> {
+    LogManager.log(`TabGroupManager: ${disabled ? 'Switching off' : 'Switching on'} grouping in window ${windowId}`);
+    await this.exclusions.setWindowDisabled(windowId, disabled);
+    
+    if (!disabled) {
+      const tabs = await chrome.tabs.query({ windowId });
+      tabs.forEach(tab => this.tabQueue.enqueue(tab.id!));
+    }
+  }
+  
+  /**
+   * Checks a housekeeping policy
+   * @param policy The policy to check
+   * @param label Where the policy came from, to prefix error messages with
+   * @param errors Receives one message per problem
+   */
+  public validateHousekeepingPolicy(policy: any, label: string, errors: string[]): void {
+    if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+      errors.push(`${label}: "housekeeping" must be an object`);
+      return;
+    }
+    
+    for (const field of ['collapseAfterMinutes', 'closeAfterMinutes']) {
+      const value = policy[field];
+      if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+        errors.push(`${label}: "${field}" must be a number of minutes, or 0 for never`);
+      }
+    }
+    if (policy.ungroupSingletons !== undefined && typeof policy.ungroupSingletons !== 'boolean') {
+      errors.push(`${label}: "ungroupSingletons" must be true or false`);
+    }
+    if (policy.closeAction !== undefined && !IDLE_GROUP_ACTIONS.includes(policy.closeAction)) {
+      errors.push(`${label}: unknown close action "${policy.closeAction}"`);
+    }
+  }
+  
+  /**
+   * Drops the unset fields of a policy, so they fall through to the global policy
+   */
+  private compactPolicy<T extends object>(policy: T): T {
+    return Object.fromEntries(Object.entries(policy).filter(([, value]) => value !== undefined)) as T;
+  }
+  
+  /**
+   * Finds the rule that creates a group, from the rule its tabs match that produces the group's title
+   * @param group The group
+   * @param tabs The tabs in the group
+   * @returns The manual pattern or auto-pattern, or null for groups no rule would create, such as ones made by hand
+   */
+  private findGroupRule(group: chrome.tabGroups.TabGroup, tabs: chrome.tabs.Tab[]): DomainPattern | AutoPattern | null {
+    for (const tab of tabs) {
+      if (!tab.url) continue;
+      
+      let url: URL;
+      try {
+        url = new URL(tab.url);
+      } catch (error) {
+        continue;  // Tabs without a valid URL can't tell which rule made the group
+      }
+      
+      const manual = this.findMatchingPattern(url);
+      if (manual) {
+        if (manual.groupName === group.title) {
+          return manual;
+        }
+        continue;
+      }
+      
+      const autoMatch = this.enableAutoPatterns ? this.findAutoPatternMatch(url) : null;
+      if (autoMatch && autoMatch.groupName === group.title) {
+        return autoMatch.pattern;
+      }
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Works out the housekeeping policy of a group
+   * A group gets the policy of the rule that put its tabs there, on top of the global policy.
+   * Groups no rule would create, such as ones made by hand, get the global policy.
+   * @param group The group
+   * @param tabs The tabs in the group
+   */
+  private getGroupHousekeepingPolicy(group: chrome.tabGroups.TabGroup, tabs: chrome.tabs.Tab[]): HousekeepingPolicy {
+    const rule = this.findGroupRule(group, tabs);
+    return { ...this.housekeeping, ...rule?.housekeeping };
+  }
+  
+  /**
+   * Runs housekeeping on a schedule while any policy has something turned on
+   */
+  private updateHousekeepingSchedule(): void {
+    const policies = [
+      this.housekeeping,
+      ...this.domainPatterns.map(p => p.housekeeping),
+      ...this.autoPatterns.map(p => p.housekeeping)
+    ];
+    const active = policies.some(p => p && (p.collapseAfterMinutes || p.closeAfterMinutes || p.ungroupSingletons));
+    
+    this.housekeeper.setScheduled(active).catch((error: any) => {
+      LogManager.log(`TabGroupManager: Error scheduling housekeeping: ${error.message}`, "error");
+    });
+  }
+  
+  /**
+   * Keeps a group that housekeeping is about to close, so it can be restored later
+   * @param group The group
+   * @param tabs The tabs in the group
+   */
+  private async saveGroup(group: chrome.tabGroups.TabGroup, tabs: chrome.tabs.Tab[]): Promise<void> {
+    const savedGroups = await this.getSavedGroups();
+    savedGroups.unshift({
+      title: group.title || '',
+      color: group.color,
+      urls: tabs.map(tab => tab.url).filter((url): url is string => !!url),
+      savedAt: new Date().toISOString()
+    });
+    
+    await chrome.storage.local.set({ savedGroups: savedGroups.slice(0, MAX_SAVED_GROUPS) });
+    LogManager.log(`TabGroupManager: Saved group "${group.title}" with ${tabs.length} tab(s)`);
+  }
+  
+  /**
+   * Gets the groups closed by housekeeping, most recent first
+   */
+  public async getSavedGroups(): Promise<SavedGroup[]> {
+    const result = await chrome.storage.local.get('savedGroups');
+    return Array.isArray(result.savedGroups) ? result.savedGroups : [];
+  }
+  
+  /**
+   * Reopens a saved group in the last focused window and forgets it
+   * The tabs are reopened the same way a workspace is restored, under one undo operation. The saved
+   * group is kept if none of its tabs could be reopened, so a retry doesn't open duplicates otherwise.
+   * @param index The saved group's position in the list
+   * @returns Whether the saved group exists
+   */
+  public async restoreSavedGroup(index: number): Promise<boolean> {
+    const savedGroups = await this.getSavedGroups();
+    const saved = savedGroups[index];
+    if (!saved) {
+      LogManager.log(`TabGroupManager: No saved group at index ${index}`, "warn");
+      return false;
+    }
+    
+    LogManager.log(`TabGroupManager: Restoring saved group "${saved.title}" with ${saved.urls.length} tab(s)`);
+    
+    if (saved.urls.length > 0) {
+      const window = await chrome.windows.getLastFocused({ windowTypes: ['normal'] });
+      const group: WorkspaceGroup = { title: saved.title, color: saved.color, collapsed: false, urls: saved.urls };
+      const operation = this.journal.begin(`Restore saved group "${saved.title}"`);
+      let tabCount: number;
+      try {
+        tabCount = await this.workspaces.restoreGroups(saved.title, [group], operation, window.id);
+      } finally {
+        this.journal.end(operation);
+      }
+      
+      if (tabCount === 0) {
+        LogManager.log(`TabGroupManager: None of the tabs of saved group "${saved.title}" could be reopened`, "warn");
+        return true;
+      }
+    }
+    
+    // Read again, as the list may have changed while the tabs were opening
+    const current = await this.getSavedGroups();
+    const position = current.findIndex(entry => entry.savedAt === saved.savedAt && entry.title === saved.title);
+    if (position !== -1) {
+      current.splice(position, 1);
+      await chrome.storage.local.set({ savedGroups: current });
+    }
+    return true;
+  }
+  
+  /**
+   * Forgets a saved group without restoring it
+   * @param index The saved group's position in the list
+   * @returns Whether the saved group existed
+   */
+  public async removeSavedGroup(index: number): Promise<boolean> {
+    const savedGroups = await this.getSavedGroups();
+    if (!savedGroups[index]) {
+      LogManager.log(`TabGroupManager: No saved group at index ${index}`, "warn");
+      return false;
+    }
+    
+    const [removed] = savedGroups.splice(index, 1);
+    LogManager.log(`TabGroupManager: Removed saved group "${removed.title}"`);
+    await chrome.storage.local.set({ savedGroups });
+    return true;
+  }
+  
+  /**
+   * Gets the saved workspaces
+   */
+  public getWorkspaces(): Promise<Workspace[]> {
+    return this.workspaces.getWorkspaces();
+  }
+  
+  /**
+   * Saves the groups of a window as a new workspace
+   * @param name The workspace's name, which must not be taken
+   * @param windowId The ID of the window
+   * @returns Whether the workspace was saved, false if the window has no groups
+   */
+  public saveWorkspace(name: string, windowId: number): Promise<boolean> {
+    return this.workspaces.save(name, windowId);
+  }
+  
+  /**
+   * Replaces the groups of a workspace with the groups of a window
+   * @param index The workspace's position in the list, which must exist
+   * @param windowId The ID of the window
+   * @returns Whether the workspace was updated, false if the window has no groups
+   */
+  public updateWorkspace(index: number, windowId: number): Promise<boolean> {
+    return this.workspaces.update(index, windowId);
+  }
+  
+  /**
+   * Renames a workspace
+   * @param index The workspace's position in the list, which must exist
+   * @param name The new name, which must not be taken
+   */
+  public renameWorkspace(index: number, name: string): Promise<void> {
+    return this.workspaces.rename(index, name);
+  }
+  
+  /**
+   * Deletes a workspace
+   * @param index The workspace's position in the list
+   * @returns Whether the workspace existed
+   */
+  public removeWorkspace(index: number): Promise<boolean> {
+    return this.workspaces.remove(index);
+  }
+  
+  /**
+   * Reopens a workspace, rebuilding its groups in the given window rather than where the window strategy would put them
+   * @param index The workspace's position in the list
+   * @param windowId The window to restore into, or undefined for a new window
+   * @returns Whether the workspace exists
+   */
+  public async restoreWorkspace(index: number, windowId?: number): Promise<boolean> {
+    const workspace = (await this.workspaces.getWorkspaces())[index];
+    const operation = this.journal.begin(`Restore workspace "${workspace?.name ?? index}"`);
+    try {
+      return await this.workspaces.restore(index, operation, windowId);
+    } finally {
+      this.journal.end(operation);
+    }
+  }
+  
+  /**
+   * Puts the reopened tabs of a workspace group in their group with one chrome.tabs.group call
+   * A group with the same title already in the window is reused.
+   * @param tabIds The reopened tabs, in tab strip order
+   * @param group The workspace group
+   * @param windowId The window being restored into
+   * @param operation The restore's operation in the undo journal
+   * @returns The ID of the group
+   */
+  private async groupRestoredTabs(tabIds: number[], group: WorkspaceGroup, windowId: number, operation: GroupingOperation): Promise<number> {
+    const tabs = (await chrome.tabs.query({ windowId })).filter(tab => tabIds.includes(tab.id!));
+    const moves = await Promise.all(tabs.map(tab => this.journal.capture(tab)));
+    
+    const groupId = await this.findOrCreateGroup(tabIds, group.title, group.color, windowId, operation);
+    
+    // Undoing goes through the moves backwards, so tabs go back from the leftmost
+    moves.sort((a, b) => b.index - a.index).forEach(move => this.journal.recordMove(operation, move));
+    LogManager.log(`TabGroupManager: Grouped ${tabIds.length} restored tab(s) into "${group.title}"`);
+    
+    // Put the window in order once grouping settles down
+    if (this.isOrderingActive()) {
+      this.tabOrderer.requestWindow(windowId);
+    }
+    return groupId;
+  }
+  
+  /**
+   * Gets the global ordering policy
+   */
+  public getOrdering(): OrderingPolicy {
+    return { ...this.ordering };
+  }
+  
+  /**
+   * Sets the global ordering policy and puts every window in order
+   * @param policy A validated policy
+   */
+  public async setOrdering(policy: OrderingPolicy): Promise<void> {
+    LogManager.log("TabGroupManager: Setting ordering: " + JSON.stringify(policy));
+    this.ordering = this.compactPolicy({
+      ...policy,
+      pinnedGroups: policy.pinnedGroups?.map(name => name.trim()).filter(name => name)
+    });
+    this.saveSettings();
+    await this.orderAllWindows();
+  }
+  
+  /**
+   * Sets how a manual pattern's groups are placed and their tabs sorted
+   * @param index The pattern's position in priority order
+   * @param policy A validated rule policy, empty to use the global policy
+   * @returns Whether the pattern exists
+   */
+  public async setPatternOrdering(index: number, policy: OrderingPolicy): Promise<boolean> {
+    const pattern = this.domainPatterns[index];
+    if (!Number.isInteger(index) || !pattern) {
+      LogManager.log(`TabGroupManager: No manual pattern at index ${index}`, "warn");
+      return false;
+    }
+    
+    LogManager.log(`TabGroupManager: Setting ordering for pattern ${pattern.pattern.source}: ` + JSON.stringify(policy));
+    pattern.ordering = this.compactPolicy(policy);
+    this.savePatterns();
+    await this.orderAllWindows();
+    return true;
+  }
+  
+  /**
+   * Sets how an auto-pattern's groups are placed and their tabs sorted
+   * @param template The auto-pattern template
+   * @param policy A validated rule policy, empty to use the global policy
+   * @returns Whether the auto-pattern exists
+   */
+  public async setAutoPatternOrdering(template: string, policy: OrderingPolicy): Promise<boolean> {
+    const pattern = this.autoPatterns.find(p => p.template === template);
+    if (!pattern) {
+      LogManager.log(`TabGroupManager: Auto-pattern template not found: ${template}`, "warn");
+      return false;
+    }
+    
+    LogManager.log(`TabGroupManager: Setting ordering for auto-pattern ${template}: ` + JSON.stringify(policy));
+    pattern.ordering = this.compactPolicy(policy);
+    this.saveSettings();
+    await this.orderAllWindows();
+    return true;
+  }
+  
+  /**
+   * Checks an ordering policy
+   * @param policy The policy to check
+   * @param label Where the policy came from, to prefix error messages with
+   * @param forRule Whether it is a rule's policy, which can only set tabOrder and pinLeft
+   * @param errors Receives one message per problem
+   */
+  public validateOrderingPolicy(policy: any, label: string, forRule: boolean, errors: string[]): void {
+    if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+      errors.push(`${label}: "ordering" must be an object`);
+      return;
+    }
+    
+    const scopedFields = forRule ? ['groupOrder', 'ungroupedAtEnd', 'pinnedGroups'] : ['pinLeft'];
+    scopedFields
+      .filter(field => policy[field] !== undefined)
+      .forEach(field => errors.push(`${label}: "${field}" can only be set ${forRule ? 'in the global ordering' : 'on a rule'}`));
+    
+    if (policy.groupOrder !== undefined && !GROUP_SORT_ORDERS.includes(policy.groupOrder)) {
+      errors.push(`${label}: unknown group order "${policy.groupOrder}"`);
+    }
+    if (policy.tabOrder !== undefined && !TAB_SORT_ORDERS.includes(policy.tabOrder)) {
+      errors.push(`${label}: unknown tab order "${policy.tabOrder}"`);
+    }
+    for (const field of ['ungroupedAtEnd', 'pinLeft']) {
+      if (policy[field] !== undefined && typeof policy[field] !== 'boolean') {
+        errors.push(`${label}: "${field}" must be true or false`);
+      }
+    }
+    if (policy.pinnedGroups !== undefined &&
+        (!Array.isArray(policy.pinnedGroups) || policy.pinnedGroups.some((name: unknown) => typeof name !== 'string'))) {
+      errors.push(`${label}: "pinnedGroups" must be a list of group names`);
+    }
+  }
+  
+  /**
+   * Checks whether any ordering policy asks for tabs to be moved
+   */
+  private isOrderingActive(): boolean {
+    const { groupOrder, ungroupedAtEnd, tabOrder, pinnedGroups } = this.ordering;
+    if ((groupOrder && groupOrder !== 'none') || ungroupedAtEnd || (tabOrder && tabOrder !== 'none') || pinnedGroups?.length) {
+      return true;
+    }
+    
+    return [...this.domainPatterns, ...this.autoPatterns]
+      .some(p => p.ordering && (p.ordering.pinLeft || (p.ordering.tabOrder && p.ordering.tabOrder !== 'none')));
+  }
+  
+  /**
+   * Works out where a group goes, from the rule that creates it and the global policy
+   * @param group The group
+   * @param tabs The tabs in the group
+   */
+  private getGroupPlacement(group: chrome.tabGroups.TabGroup, tabs: chrome.tabs.Tab[]): GroupPlacement {
+    const rule = this.findGroupRule(group, tabs);
+    
+    // Manual patterns come before auto-patterns, each in priority order
+    let rank = Infinity;
+    if (rule) {
+      const manualIndex = this.domainPatterns.indexOf(rule as DomainPattern);
+      rank = manualIndex !== -1
+        ? manualIndex
+        : this.domainPatterns.length + this.autoPatterns.indexOf(rule as AutoPattern);
+    }
+    
+    const pinnedGroups = (this.ordering.pinnedGroups || []).map(name => name.toLowerCase());
+    const pinIndex = pinnedGroups.indexOf((group.title || '').toLowerCase());
+    const pinnedByRule = rule?.ordering?.pinLeft === true;
+    
+    return {
+      pinned: pinIndex !== -1 || pinnedByRule,
+      pinRank: pinIndex !== -1 ? pinIndex : pinnedGroups.length + rank,
+      rank,
+      tabOrder: rule?.ordering?.tabOrder ?? this.ordering.tabOrder ?? 'none'
+    };
+  }
+  
+  /**
+   * Puts every normal window in order, if any ordering policy is set
+   */
+  private async orderAllWindows(): Promise<void> {
+    if (!this.isOrderingActive()) {
+      return;
+    }
+    
+    const windows = await chrome.windows.getAll({ windowTypes: ['normal'] });
+    await this.tabOrderer.orderWindows(windows.map(window => window.id!));
+  }
+  
+  /**
+   * Gets the group color overrides
+   * @returns The color of each overridden group, keyed by lowercase group name
+   */
+  public getColorOverrides(): Record<string, chrome.tabGroups.ColorEnum> {
+    return { ...this.groupColorOverrides };
+  }
+  
+  /**
+   * Sets the color that groups with a given name always get, whichever rule creates them
+   * Existing groups with that name are recolored, as are the ones manual patterns, auto-patterns and registrable domains create from then on.
+   * @param groupName The group name, matched case-insensitively
+   * @param color The color for the group
+   */
+  public async setColorOverride(groupName: string, color: chrome.tabGroups.ColorEnum): Promise<boolean> {
+    const name = groupName.trim().toLowerCase();
+    if (!name || !GROUP_COLORS.includes(color)) {
+      LogManager.log(`TabGroupManager: Invalid color override ${groupName} -> ${color}`, "error");
+      return false;
+    }
+    
+    LogManager.log(`TabGroupManager: Setting color override ${name} -> ${color}`);
+    this.groupColorOverrides[name] = color;
+    this.saveSettings();
+    
+    // Cached matches for the group hold its old color
+    this.matchCache.invalidate(match => match.value?.groupName.toLowerCase() === name);
+    
+    const groups = await chrome.tabGroups.query({});
+    for (const group of groups) {
+      if (group.title?.toLowerCase() === name && group.color !== color) {
+        await chrome.tabGroups.update(group.id, { color });
+      }
+    }
+    
+    return true;
+  }
+  
+  /**
+   * Removes the color override for a group name
+   * @param groupName The group name, matched case-insensitively
+   * @returns Whether an override was removed
+   */
+  public removeColorOverride(groupName: string): boolean {
+    const name = groupName.trim().toLowerCase();
+    if (!(name in this.groupColorOverrides)) {
+      LogManager.log(`TabGroupManager: No color override for ${name}`, "warn");
+      return false;
+    }
+    
+    LogManager.log(`TabGroupManager: Removing color override for ${name}`);
+    delete this.groupColorOverrides[name];
+    this.saveSettings();
+    
+    // Cached matches for the group hold its old color
+    this.matchCache.invalidate(match => match.value?.groupName.toLowerCase() === name);
+    
+    return true;
+  }
+  
+  /**
+   * Reorders the manual patterns, renumbering their priorities to match
+   * @param order The current indices of the patterns in their new order
+   * @returns Whether the patterns were reordered
+   */
+  public reorderPatterns(order: number[]): boolean {
+    LogManager.log(`TabGroupManager: Reordering manual patterns: ${JSON.stringify(order)}`);
+    
+    if (!this.isPermutation(order, this.domainPatterns.length)) {
+      LogManager.log("TabGroupManager: Invalid manual pattern order", "error");
+      return false;
+    }
+    
+    this.domainPatterns = order.map((oldIndex, priority) => ({
+      ...this.domainPatterns[oldIndex],
+      priority
+    }));
+    this.savePatterns();
+    
+    return true;
+  }
+  
+  /**
+   * Reorders the auto-pattern templates, renumbering their priorities to match
+   * @param templates Every template in its new order
+   * @returns Whether the templates were reordered
+   */
+  public reorderAutoPatterns(templates: string[]): boolean {
+    LogManager.log(`TabGroupManager: Reordering auto-patterns: ${JSON.stringify(templates)}`);
+    
+    const order = templates.map(template => this.autoPatterns.findIndex(p => p.template === template));
+    if (!this.isPermutation(order, this.autoPatterns.length)) {
+      LogManager.log("TabGroupManager: Invalid auto-pattern order", "error");
+      return false;
+    }
+    
+    this.autoPatterns = order.map((oldIndex, priority) => ({
+      ...this.autoPatterns[oldIndex],
+      priority
+    }));
+    this.saveSettings();
+    
+    return true;
+  }
+  
+  /**
+   * Checks that an order contains every index from 0 to length - 1 exactly once
+   */
+  private isPermutation(order: number[], length: number): boolean {
+    if (!Array.isArray(order) || order.length !== length) return false;
+    const seen = new Set(order);
+    return seen.size === length && order.every(index => Number.isInteger(index) && index >= 0 && index < length);
+  }
+  
+  /**
+   * Explains which rules match a tab and why the winning rule wins
+   * Every rule is evaluated, even after a match, so overlapping rules are visible
+   * @param tabId The ID of the tab to explain
+   * @returns The explanation of the rule evaluation
+   */
+  public async explainTab(tabId: number): Promise<TabExplanation> {
+    const tab = await chrome.tabs.get(tabId);
+    const tabUrl = tab.url || '';
+    LogManager.log(`TabGroupManager: Explaining rules for tab ${tabId} (${tabUrl})`);
+    
+    const explanation: TabExplanation = {
+      tabId,
+      url: tabUrl,
+      evaluations: [],
+      winner: null,
+      summary: ''
+    };
+    
+    if (!tabUrl) {
+      explanation.summary = 'The tab has no URL yet, so no rules were evaluated.';
+      return explanation;
+    }
+    
+    if (tabUrl.startsWith('chrome://') || tabUrl.startsWith('brave://')) {
+      explanation.summary = 'Internal browser pages are never grouped, so no rules were evaluated.';
+      return explanation;
+    }
+    
+    const url = new URL(tabUrl);
+    
+    // Manual patterns are always checked before auto-patterns
+    for (const pattern of this.domainPatterns) {
+      const subject = this.getMatchSubject(url, pattern);
+      const matched = subject !== null && pattern.pattern.test(subject);
+      let reason: string;
+      if (subject === null) {
+        reason = `URL has no "${pattern.queryParam}" query parameter`;
+      } else {
+        reason = `${matched ? 'Matched' : 'Did not match'} ${pattern.matchTarget} "${subject}"`;
+      }
+      
+      explanation.evaluations.push({
+        ruleType: 'manual',
+        rule: pattern.pattern.source,
+        priority: pattern.priority,
+        subject,
+        evaluated: true,
+        matched,
+        groupName: matched ? pattern.groupName : undefined,
+        reason
+      });
+    }
+    
+    for (const pattern of this.autoPatterns) {
+      const autoSubject = this.getAutoPatternSubject(url, pattern);
+      const subjectLabel = pattern.matchesPath ? 'host + path' : 'hostname';
+      
+      if (!this.enableAutoPatterns) {
+        explanation.evaluations.push({
+          ruleType: 'auto',
+          rule: pattern.template,
+          priority: pattern.priority,
+          subject: autoSubject,
+          evaluated: false,
+          matched: false,
+          reason: 'Not evaluated, auto-patterns are disabled'
+        });
+        continue;
+      }
+      
+      const groupName = this.extractAutoPatternName(pattern, url);
+      explanation.evaluations.push({
+        ruleType: 'auto',
+        rule: pattern.template,
+        priority: pattern.priority,
+        subject: autoSubject,
+        evaluated: true,
+        matched: groupName !== null,
+        groupName: groupName || undefined,
+        reason: groupName
+          ? `Matched ${subjectLabel} "${autoSubject}", group name template ${pattern.groupNameTemplate} gave "${groupName}"`
+          : `Did not match ${subjectLabel} "${autoSubject}"`
+      });
+    }
+    
+    const registrableDomain = this.registrableDomainMode === 'off'
+      ? null
+      : PublicSuffixList.getRegistrableDomain(url.hostname, this.registrableDomainMode === 'private');
+    const domainMatch = this.matchRegistrableDomain(url);
+    explanation.evaluations.push({
+      ruleType: 'domain',
+      rule: registrableDomain || url.hostname,
+      priority: null,
+      subject: url.hostname,
+      evaluated: this.registrableDomainMode !== 'off',
+      matched: domainMatch !== null,
+      groupName: domainMatch?.groupName,
+      reason: this.registrableDomainMode === 'off'
+        ? 'Not evaluated, registrable domain grouping is off'
+        : domainMatch
+          ? `Registrable domain of "${url.hostname}" is "${domainMatch.domain}"`
+          : `"${url.hostname}" has no registrable domain (IP address or public suffix)`
+    });
+    
+    const matches = explanation.evaluations.filter(e => e.matched);
+    explanation.winner = matches[0] || null;
+    
+    if (!explanation.winner) {
+      explanation.summary = 'No rule matched this tab, so it would stay ungrouped.';
+    } else {
+      const winner = explanation.winner;
+      if (winner.ruleType === 'domain') {
+        explanation.summary = `Registrable domain grouping (${winner.rule}) puts the tab in "${winner.groupName}" because no manual pattern or auto-pattern matched.`;
+      } else {
+        const kind = winner.ruleType === 'manual' ? 'Manual pattern' : 'Auto-pattern';
+        const ruleLabel = winner.ruleType === 'manual' ? `/${winner.rule}/` : winner.rule;
+        let why = winner.ruleType === 'manual'
+          ? 'manual patterns are checked before auto-patterns'
+          : 'no manual pattern matched';
+        if (matches.length > 1) {
+          why += ` and it has the highest priority of the ${matches.length} matching rules`;
+        }
+        explanation.summary = `${kind} ${ruleLabel} (priority ${winner.priority}) wins and puts the tab in "${winner.groupName}" because ${why}.`;
+      }
+    }
+    
+    const exclusion = await this.exclusions.getExclusionReason(tab);
+    if (exclusion) {
+      explanation.summary += ` The tab is never grouped automatically because ${exclusion}.`;
+    } else if (tab.groupId !== chrome.tabGroups.TAB_GROUP_ID_NONE) {
+      const managed = await this.managedTabs.get(tabId);
+      if (!managed || managed.groupId !== tab.groupId) {
+        explanation.summary += ' The tab was grouped by hand, so it will not be regrouped automatically.';
+      } else if (this.getNavigationModeFor(managed.ruleType, managed.rule) === 'follow') {
+        explanation.summary += ' The tab is in a group chosen by its rules, and follows its rules when it navigates away.';
+      } else {
+        explanation.summary += ' The tab is already in a group, and stays there when it navigates away.';
+      }
+    }
+    
+    return explanation;
+  }
+  
+  /**
+   * Tests URLs against the rules, and against a manual pattern that hasn't been saved yet
+   * The draft is checked right after the saved manual patterns, where adding it would put it.
+   * @param urls The URLs to test, https:// is assumed when there is no scheme
+   * @param draft A validated draft manual pattern, if one is being written
+   * @returns The winning rule for each URL, and how many open tabs the draft would capture
+   */
+  public async testRules(urls: string[], draft?: StoredPattern): Promise<{ results: RuleTestResult[]; draftCount?: DraftRuleCount }> {
+    const draftPattern: DomainPattern | undefined = draft && {
+      pattern: new RegExp(draft.patternStr),
+      groupName: draft.groupName,
+      color: draft.color,
+      matchTarget: draft.matchTarget || 'hostname',
+      queryParam: draft.queryParam,
+      priority: this.getNextPriority(this.domainPatterns)
+    };
+    
+    const results = urls.map(href => this.testUrl(href, draftPattern));
+    if (!draftPattern) {
+      return { results };
+    }
+    
+    const draftCount: DraftRuleCount = { matched: 0, captured: 0 };
+    for (const tab of await chrome.tabs.query({})) {
+      const result = this.testUrl(tab.url || '', draftPattern);
+      if (result.error) {
+        continue;
+      }
+      
+      const url = new URL(result.url);
+      const subject = this.getMatchSubject(url, draftPattern);
+      if (subject !== null && draftPattern.pattern.test(subject)) {
+        draftCount.matched++;
+      }
+      
+      if (result.draft && tab.groupId === chrome.tabGroups.TAB_GROUP_ID_NONE && !await this.exclusions.getExclusionReason(tab)) {
+        draftCount.captured++;
+      }
+    }
+    
+    return { results, draftCount };
+  }
+  
+  /**
+   * Finds the rule that would group a URL, and the part of the URL it matched
+   * @param href The URL to test
+   * @param draft A draft manual pattern, checked after the saved ones
+   */
+  private testUrl(href: string, draft?: DomainPattern): RuleTestResult {
+    const text = href.trim();
+    let url: URL;
+    try {
+      url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(text) ? text : `https://${text}`);
+    } catch (error) {
+      return { url: text, error: 'Not a valid URL' };
+    }
+    
+    if (isInternalUrl(url)) {
+      return { url: url.href, error: 'Internal browser pages are never grouped' };
+    }
+    
+    const result: RuleTestResult = { url: url.href, excluded: this.exclusions.getUrlExclusionReason(url.href) || undefined };
+    const match = this.resolveGroupTarget(url, draft);
+    if (!match) {
+      return result;
+    }
+    
+    return {
+      ...result,
+      ruleType: match.target.ruleType,
+      rule: match.target.rule,
+      draft: match.draft,
+      groupName: match.target.groupName,
+      color: match.target.color || 'grey',
+      subject: match.subject,
+      matchStart: match.matchStart,
+      matchEnd: match.matchEnd
+    };
+  }
+  
+  /**
+   * Applies current patterns to all existing tabs
+   */
+  private async applyPatternsToExistingTabs(): Promise<void> {
+    const tabs = await chrome.tabs.query({});
+    
+    LogManager.log(`TabGroupManager: Applying patterns to ${tabs.length} existing tabs`);
+    
+    for (const tab of tabs) {
+      this.handleTabUpdate(tab);
+    }
+  }
+  
+  /**
+   * Applies auto-pattern grouping to all existing tabs
+   */
+  private async applyAutoPatternToExistingTabs(): Promise<void> {
+    if (!this.enableAutoPatterns) return;
+    
+    LogManager.log("TabGroupManager: Applying auto-patterns to existing tabs");
+    
+    const tabs = await chrome.tabs.query({});
+    LogManager.log(`TabGroupManager: Found ${tabs.length} tabs to process`);
+    await this.runGrouping(await this.planAutoPatternGrouping(tabs), 'Apply auto-patterns to existing tabs');
+  }
+  
+  /**
+   * Works out which tabs the auto-patterns group, leaving out tabs a manual pattern matches
+   * Like the grouping preview, this only reads the rules: the match cache is left to grouping tabs one at a time.
+   * @param tabs The tabs to plan
+   * @returns The grouping plan, one entry per tab an auto-pattern matches
+   */
+  private async planAutoPatternGrouping(tabs: chrome.tabs.Tab[]): Promise<GroupingPlanEntry[]> {
+    const plan: GroupingPlanEntry[] = [];
+    
+    for (const tab of tabs) {
+      if (!tab.url || !tab.id) continue;
+      if (await this.exclusions.getExclusionReason(tab)) continue;
+      
+      // Tabs a manual pattern matches are left to it
+      const entry = this.planTabGrouping(tab);
+      if (entry && entry.ruleType === 'auto') {
+        plan.push(entry);
+      }
+    }
+    
+    return plan;
+  }
+  
+  /**
+   * Works out the color of a group created by a rule
+   * A color override for the group name wins over the rule's own color.
+   * @param groupName The name of the group
+   * @param color The rule's color, where 'hash' picks a stable color from the group name
+   * @returns The group color, or undefined to leave it to the default
+   */
+  private resolveGroupColor(groupName: string, color?: AutoPatternColor): chrome.tabGroups.ColorEnum | undefined {
+    const override = this.groupColorOverrides[groupName.toLowerCase()];
+    if (override) {
+      return override;
+    }
+    
+    return color === 'hash' ? this.hashGroupColor(groupName) : color;
+  }
+  
+  /**
+   * Picks a color from a hash (FNV-1a) of a group name, so the same name always gets the same color
+   * The name is lowercased first, so "GitHub" and "github" share a color.
+   * Grey is left out, since it is also the color of groups that have none.
+   * @param groupName The name of the group
+   */
+  private hashGroupColor(groupName: string): chrome.tabGroups.ColorEnum {
+    const colors = GROUP_COLORS.filter(color => color !== 'grey');
+    let hash = 0x811c9dc5;
+    for (const char of groupName.toLowerCase()) {
+      hash ^= char.codePointAt(0)!;
+      hash = Math.imul(hash, 0x01000193);
+    }
+    
+    return colors[(hash >>> 0) % colors.length];
+  }
+  
+  /**
+   * Finds the first auto-pattern that matches a URL
+   * @param url The URL to match
+   * @returns The matching pattern and extracted group name, or null if no match
+   */
+  private findAutoPatternMatch(url: URL): { pattern: AutoPattern; groupName: string } | null {
+    for (const pattern of this.autoPatterns) {
+      const groupName = this.extractAutoPatternName(pattern, url);
+      if (groupName) {
+        return { pattern, groupName };
+      }
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Tests a single auto-pattern against a URL
+   * @param pattern The auto-pattern to test
+   * @param url The URL to match
+   * @returns The group name built from the captures, or null if no match
+   */
+  private extractAutoPatternName(pattern: AutoPattern, url: URL): string | null {
+    const match = this.getAutoPatternSubject(url, pattern).match(pattern.regex);
+    if (!match) {
+      return null;
+    }
+    
+    const groupName = this.renderGroupName(pattern.groupNameTemplate, match.groups || {});
+    return groupName || null;
+  }
+  
+  /**
+   * Gets the string an auto-pattern is tested against
+   * Templates with a path part see the path too, without a trailing slash
+   * @param url The URL to match
+   * @param pattern The auto-pattern being tested
+   * @returns The hostname, or hostname and path
+   */
+  private getAutoPatternSubject(url: URL, pattern: AutoPattern): string {
+    return pattern.matchesPath
+      ? url.hostname + url.pathname.replace(/\/+$/, '')
+      : url.hostname;
+  }
+  
+  /**
+   * Groups a URL by its registrable domain, when registrable domain grouping is on
+   * The group is named after the label in front of the public suffix, e.g. "Google" for "docs.google.com"
+   * @param url The URL to match
+   * @returns The registrable domain and group name, or null if off or there is no registrable domain
+   */
+  private matchRegistrableDomain(url: URL): { domain: string; groupName: string } | null {
+    if (this.registrableDomainMode === 'off') {
+      return null;
+    }
+    
+    const domain = PublicSuffixList.getRegistrableDomain(url.hostname, this.registrableDomainMode === 'private');
+    if (!domain) {
+      return null;
+    }
+    
+    return {
+      domain,
+      groupName: this.getDomainGroupName(domain)
+    };
+  }
+  
+  /**
+   * Names a group after a registrable domain, e.g. "Google" for "google.com"
+   * @param domain The registrable domain
+   */
+  private getDomainGroupName(domain: string): string {
+    const name = domain.split('.')[0];
+    return name.charAt(0).toUpperCase() + name.slice(1);
+  }
+  
+  /**
+   * Saves all settings to Chrome storage
+   * This includes both auto-patterns and the enableAutoPatterns flag
+   * @param sync Whether to sync the change to other devices, false when it came from sync
+   */
+  private saveSettings(sync: boolean = true): void {
+    LogManager.log("TabGroupManager: Saving settings to storage...");
+    
+    // Save auto patterns
+    const autoPatternsToSave = this.getStoredAutoPatterns();
+    
+    LogManager.log(`TabGroupManager: Saving ${this.autoPatterns.length} auto-patterns`);
+    LogManager.log("TabGroupManager: Auto-patterns to save: " + JSON.stringify(autoPatternsToSave));
+    
+    this.updateHousekeepingSchedule();
+    this.updateTrackedRules();
+    this.updateMatchCache();
+    this.updateRuleTombstones(sync);
+    
+    // Save all settings
+    chrome.storage.local.set({
+      autoPatterns: autoPatternsToSave,
+      enableAutoPatterns: this.enableAutoPatterns,
+      windowStrategy: this.windowStrategy,
+      registrableDomainMode: this.registrableDomainMode,
+      processBackgroundTabs: this.processBackgroundTabs,
+      housekeeping: this.housekeeping,
+      ordering: this.ordering,
+      navigationMode: this.navigationMode,
+      exclusions: this.exclusions.getSettings(),
+      groupColorOverrides: this.groupColorOverrides
+    }, () => {
+      if (chrome.runtime.lastError) {
+        LogManager.log("TabGroupManager: Error saving settings: " + chrome.runtime.lastError.message, "error");
+      } else {
+        LogManager.log("TabGroupManager: Auto-pattern settings saved successfully");
+      }
+    });
+    
+    if (sync) {
+      this.syncRules();
+    }
+  }
+  
+  /**
+   * Applies auto patterns to all existing tabs
+   * Public method that can be called from message handlers
+   */
+  public applyAutoPatternsToTabs(): void {
+    LogManager.log("TabGroupManager: Public method - applying auto patterns to tabs");
+    if (!this.enableAutoPatterns) {
+      LogManager.log("TabGroupManager: Auto patterns are disabled, skipping application");
+      return;
+    }
+    
+    // Call the internal implementation via setTimeout to prevent blocking
+    setTimeout(async () => {
+      try {
+        const tabs = await chrome.tabs.query({});
+        LogManager.log(`TabGroupManager: Found ${tabs.length} tabs to process`);
+        await this.runGrouping(await this.planAutoPatternGrouping(tabs), 'Apply auto-patterns to existing tabs');
+      } catch (error: any) {
+        LogManager.log(`TabGroupManager: Error applying auto patterns: ${error.message}`, "error");
+      }
+    }, 0);
+  }
+  
+  /**
+   * Computes which ungrouped tabs would be grouped, and where, without moving any tabs
+   * The preview is read-only: it doesn't add to the match cache or count as rules being used.
+   * @param windowId Only plan the tabs of this window, or undefined for all windows
+   * @returns The grouping plan, one entry per tab that would be moved
+   */
+  public async previewGrouping(windowId?: number): Promise<GroupingPlanEntry[]> {
+    LogManager.log("TabGroupManager: Computing grouping preview");
+    
+    // Get all tabs in all windows, or in the one window
+    const tabs = await chrome.tabs.query(windowId === undefined ? {} : { windowId });
+    
+    // Filter only ungrouped tabs
+    const ungroupedTabs = tabs.filter(tab => tab.groupId === chrome.tabGroups.TAB_GROUP_ID_NONE && tab.url);
+    
+    LogManager.log(`TabGroupManager: Found ${ungroupedTabs.length} ungrouped tabs to process`);
+    
+    const plan: GroupingPlanEntry[] = [];
+    
+    for (const tab of ungroupedTabs) {
+      try {
+        const exclusion = await this.exclusions.getExclusionReason(tab);
+        if (exclusion) {
+          LogManager.log(`TabGroupManager: Leaving tab ${tab.id} out of the plan - ${exclusion}`);
+          continue;
+        }
+        
+        const entry = this.planTabGrouping(tab);
+        if (entry) {
+          plan.push(entry);
+        }
+      } catch (error: any) {
+        LogManager.log(`TabGroupManager: Error planning tab ${tab.id}: ${error.message}`, "error");
+      }
+    }
+    
+    LogManager.log(`TabGroupManager: Grouping preview has ${plan.length} entries`);
+    return plan;
+  }
+  
+  /**
+   * Works out which group a single tab belongs in and which rule put it there
+   * @param tab The tab to plan
+   * @returns The plan entry, or null if no rule matches the tab
+   */
+  private planTabGrouping(tab: chrome.tabs.Tab): GroupingPlanEntry | null {
+    if (!tab.url || !tab.id) return null;
+    
+    const match = this.resolveGroupTarget(new URL(tab.url));
+    return match
+      ? { tabId: tab.id, windowId: tab.windowId, title: tab.title || tab.url, url: tab.url, ...match.target }
+      : null;
+  }
+  
+  /**
+   * Applies a grouping plan with the grouping engine, one chrome.tabs.group call per target group
+   * The moves are journaled as one operation, so they can be undone together.
+   * @param plan The plan entries to apply
+   * @param label What the operation is called in the undo journal and the progress
+   * @returns The number of tabs that were grouped
+   */
+  private async runGrouping(plan: GroupingPlanEntry[], label: string): Promise<number> {
+    if (plan.length === 0) {
+      return 0;
+    }
+    
+    const operation = this.journal.begin(label);
+    const moves: Map<number, GroupingMove> = new Map();
+    
+    try {
+      const { groupedCount, windowIds } = await this.groupingEngine.run(label, plan, {
+        beforeGroup: async (batch) => {
+          for (const [index, entry] of batch.entries.entries()) {
+            await this.managedTabs.beginMove(entry.tabId, entry.ruleType, entry.rule);
+            moves.set(entry.tabId, await this.journal.capture(batch.tabs[index]));
+          }
+        },
+        afterGroup: async (batch, result) => {
+          if (result.created && result.groupId !== null) {
+            this.journal.recordCreatedGroup(operation, result.groupId);
+          }
+          
+          // Undoing goes through the moves backwards, and tabs grouped together go back from the leftmost
+          const entries = [...batch.entries].sort((a, b) => (moves.get(b.tabId)?.index ?? 0) - (moves.get(a.tabId)?.index ?? 0));
+          for (const entry of entries) {
+            const context = { tabId: entry.tabId, ruleId: getRuleId(entry.ruleType, entry.rule) };
+            const move = moves.get(entry.tabId);
+            if (result.groupId === null || !move || !result.tabIds.includes(entry.tabId)) {
+              this.managedTabs.forget(entry.tabId);
+              continue;
+            }
+            
+            this.journal.recordMove(operation, move);
+            await this.managedTabs.endMove(entry.tabId, result.groupId);
+            this.recordRuleMatch(entry.ruleType, entry.rule, true);
+            LogManager.log(`TabGroupManager: Grouped tab ${entry.tabId} into "${entry.groupName}" (${entry.ruleType} rule ${entry.rule})`, "log", context);
+          }
+        }
+      });
+      
+      // Put the windows in order once grouping settles down
+      if (this.isOrderingActive()) {
+        windowIds.forEach(windowId => this.tabOrderer.requestWindow(windowId));
+      }
+      return groupedCount;
+    } finally {
+      this.journal.end(operation);
+    }
+  }
+  
+  /**
+   * Gets how far the current or last batch grouping run got
+   * @returns The progress, or null if nothing has been grouped in batches yet
+   */
+  public getGroupingProgress(): GroupingProgress | null {
+    return this.groupingEngine.getProgress();
+  }
+  
+  /**
+   * Groups the selected tabs from a grouping preview
+   * The plan is recomputed so tabs that were closed or grouped since the
+   * preview was taken are left alone
+   * @param tabIds The IDs of the tabs to group, or undefined to apply the whole plan
+   * @param windowId Only group the tabs of this window, or undefined for all windows
+   * @returns The number of tabs that were grouped
+   */
+  public async applyGroupingPreview(tabIds?: number[], windowId?: number): Promise<number> {
+    LogManager.log(`TabGroupManager: Applying grouping preview for ${tabIds ? tabIds.length : 'all'} tabs`);
+    
+    const plan = await this.previewGrouping(windowId);
+    const selectedPlan = tabIds
+      ? plan.filter(entry => tabIds.includes(entry.tabId))
+      : plan;
+    
+    const groupedCount = await this.runGrouping(selectedPlan, tabIds ? 'Group tabs from the preview' : 'Group existing tabs');
+    LogManager.log(`TabGroupManager: Successfully grouped ${groupedCount} tabs`);
+    return groupedCount;
+  }
+  
+  /**
+   * Groups all existing ungrouped tabs using the defined patterns
+   * Optimized to avoid grouping tabs that are already in groups
+   * The windows tabs were grouped in are put in order once grouping settles down.
+   * @param windowId Only group the tabs of this window, or undefined for all windows
+   */
+  public async groupAllExistingTabs(windowId?: number): Promise<number> {
+    LogManager.log(windowId === undefined
+      ? "TabGroupManager: Grouping all existing ungrouped tabs"
+      : `TabGroupManager: Grouping existing ungrouped tabs in window ${windowId}`);
+    return this.applyGroupingPreview(undefined, windowId);
+  }
+  
+  /**
+   * Adds a tab to a group, creating the group if it doesn't exist
+   * The window the group lives in is chosen by the window strategy, unless one is given
+   * Tabs grouped by a rule are recorded as managed, so follow mode can move them again when they navigate away
+   * @param tabId ID of the tab to group
+   * @param target The group name and color, and the rule that chose them if any
+   * @param targetWindowId The window to put the group in, overriding the window strategy
+   * @param operation The operation to journal the move in for undoing, or undefined to journal it on its own
+   */
+  private async addTabToGroup(
+    tabId: number,
+    target: GroupSpec | GroupTarget,
+    targetWindowId?: number,
+    operation?: GroupingOperation
+  ): Promise<void> {
+    const { groupName, color } = target;
+    const ruleId = 'ruleType' in target ? getRuleId(target.ruleType, target.rule) : undefined;
+    const journalOperation = operation ?? this.journal.begin(`Group a tab into "${groupName}"`);
+    
+    try {
+      if ('ruleType' in target) {
+        await this.managedTabs.beginMove(tabId, target.ruleType, target.rule);
+      }
+      
+      const tab = await chrome.tabs.get(tabId);
+      // Captured before the window strategy can move the tab to a new window
+      const previous = await this.journal.capture(tab);
+      const windowId = targetWindowId ?? await this.resolveTargetWindow(tab, groupName);
+      
+      const groupId = await this.findOrCreateGroup([tabId], groupName, color, windowId, journalOperation);
+      
+      if (tab.groupId !== groupId) {
+        this.journal.recordMove(journalOperation, previous);
+      }
+      await this.managedTabs.endMove(tabId, groupId);
+      if ('ruleType' in target) {
+        this.recordRuleMatch(target.ruleType, target.rule, tab.groupId !== groupId);
+      }
+      LogManager.log(`TabGroupManager: Grouped tab ${tabId} into "${groupName}"`, "log", { tabId, ruleId });
+      
+      // Put the window in order once grouping settles down
+      if (this.isOrderingActive()) {
+        this.tabOrderer.requestWindow(windowId);
+      }
+    } catch (error: any) {
+      this.managedTabs.forget(tabId);
+      LogManager.log(`TabGroupManager: Error grouping tab ${tabId} into "${groupName}": ${error.message}`, "error", { tabId, ruleId });
+    } finally {
+      if (!operation) {
+        this.journal.end(journalOperation);
+      }
+    }
+  }
+  
+  /**
+   * Puts tabs in the group with the given title in a window, creating the group if it doesn't exist
+   * @param tabIds The tabs to group, which are moved into the window if needed
+   * @param groupName The group's title
+   * @param color The color for a new group, grey if none is given
+   * @param windowId The window the group lives in
+   * @param operation The operation to journal a new group in
+   * @returns The ID of the group
+   */
+  private async findOrCreateGroup(
+    tabIds: number[],
+    groupName: string,
+    color: chrome.tabGroups.ColorEnum | undefined,
+    windowId: number,
+    operation: GroupingOperation
+  ): Promise<number> {
+    // Check if a group with this name already exists in the target window
+    const groups = await chrome.tabGroups.query({
+      windowId,
+      title: groupName
+    });
+    
+    if (groups.length > 0) {
+      // Group exists, add the tabs to it (this moves them into the group's window if needed)
+      return chrome.tabs.group({
+        groupId: groups[0].id,
+        tabIds
+      });
+    }
+    
+    // Create new group in the target window rather than the focused one
+    const groupId = await chrome.tabs.group({
+      tabIds,
+      createProperties: { windowId }
+    });
+    
+    this.journal.recordCreatedGroup(operation, groupId);
+    
+    // Set title and color for the new group
+    await chrome.tabGroups.update(groupId, {
+      title: groupName,
+      color: color || "grey"
+    });
+    return groupId;
+  }
+  
+  /**
+   * Gets the grouping operation that undoing would undo
+   * @returns The most recent operation, or null if there is nothing to undo
+   */
+  public getLastOperation(): Promise<GroupingOperation | null> {
+    return this.journal.getLastOperation();
+  }
+  
+  /**
+   * Undoes the most recent grouping operation, putting its tabs back where they were
+   * @returns The operation that was undone, or null if there was nothing to undo
+   */
+  public async undoLastOperation(): Promise<GroupingOperation | null> {
+    const operation = await this.journal.undoLast();
+    if (!operation) {
+      LogManager.log("TabGroupManager: Nothing to undo", "warn");
+    }
+    return operation;
+  }
+  
+  /**
+   * Records a match in the usage of a manual pattern or auto-pattern
+   * @param ruleType The kind of rule, registrable domain matches aren't tracked
+   * @param rule The pattern source or auto-pattern template
+   * @param grouped Whether the tab was moved into the group, false if it was already in it
+   */
+  private recordRuleMatch(ruleType: RuleType, rule: string, grouped: boolean): void {
+    if (ruleType !== 'domain') {
+      this.ruleStats.recordMatch(getRuleId(ruleType, rule), grouped);
+    }
+  }
+  
+  /**
+   * Gets the IDs of the manual patterns and auto-patterns, for usage tracking
+   */
+  private getTrackedRuleIds(): { manual: string[]; auto: string[] } {
+    return {
+      manual: this.domainPatterns.map(p => getRuleId('manual', p.pattern.source)),
+      auto: this.autoPatterns.map(p => getRuleId('auto', p.template))
+    };
+  }
+  
+  /**
+   * Starts tracking the usage of new rules and forgets the usage of removed ones
+   */
+  private updateTrackedRules(): void {
+    const { manual, auto } = this.getTrackedRuleIds();
+    this.ruleStats.setRules([...manual, ...auto]);
+  }
+  
+  /**
+   * Gets the usage of every manual pattern and auto-pattern
+   * @returns The usage in the same order as getPatterns and getAutoPatternTemplates, and the unused rule threshold
+   */
+  public async getRuleUsage(): Promise<{ patterns: RuleUsageReport[]; autoPatterns: RuleUsageReport[]; unusedDays: number }> {
+    const { manual, auto } = this.getTrackedRuleIds();
+    return {
+      patterns: await this.ruleStats.getUsage(manual),
+      autoPatterns: await this.ruleStats.getUsage(auto),
+      unusedDays: await this.ruleStats.getUnusedDays()
+    };
+  }
+  
+  /**
+   * Sets how many days a rule may go without matching before it is flagged as unused
+   * @param days A whole number of days, at least 1
+   */
+  public async setUnusedRuleDays(days: number): Promise<void> {
+    await this.ruleStats.setUnusedDays(days);
+  }
+  
+  /**
+   * Removes every manual pattern and auto-pattern flagged as unused
+   * @returns How many rules were removed
+   */
+  public async removeUnusedRules(): Promise<number> {
+    const { patterns, autoPatterns } = await this.getRuleUsage();
+    const unusedPatterns = this.domainPatterns.filter((_, index) => patterns[index].unused);
+    const unusedAutoPatterns = this.autoPatterns.filter((_, index) => autoPatterns[index].unused);
+    
+    if (unusedPatterns.length > 0) {
+      this.domainPatterns = this.domainPatterns.filter(p => !unusedPatterns.includes(p));
+      this.savePatterns();
+    }
+    if (unusedAutoPatterns.length > 0) {
+      this.autoPatterns = this.autoPatterns.filter(p => !unusedAutoPatterns.includes(p));
+      this.saveSettings();
+    }
+    
+    [...unusedPatterns.map(p => `/${p.pattern.source}/`), ...unusedAutoPatterns.map(p => p.template)].forEach((rule) => {
+      LogManager.log(`TabGroupManager: Removed unused rule ${rule}`);
+    });
+    return unusedPatterns.length + unusedAutoPatterns.length;
+  }
+  
+  /**
+   * Works out which window a tab should be grouped in
+   * @param tab The tab being grouped
+   * @param groupName The name of the group it is joining
+   * @returns The ID of the window the group should live in
+   */
+  private async resolveTargetWindow(tab: chrome.tabs.Tab, groupName: string): Promise<number> {
+    if (this.windowStrategy === 'sameWindow') {
+      return tab.windowId;
+    }
+    
+    // Both other strategies keep a group in one window, so reuse the window it already lives in
+    const existingWindowId = await this.findGroupWindow(groupName, tab.incognito);
+    if (existingWindowId !== null) {
+      return existingWindowId;
+    }
+    
+    if (this.windowStrategy === 'consolidate') {
+      return tab.windowId;
+    }
+    
+    // Dedicated windows: keep the tab where it is if it's alone, otherwise move it to a new window
+    const windowTabs = await chrome.tabs.query({ windowId: tab.windowId });
+    if (windowTabs.length === 1) {
+      return tab.windowId;
+    }
+    
+    LogManager.log(`TabGroupManager: Opening a dedicated window for group ${groupName}`);
+    const newWindow = await chrome.windows.create({ tabId: tab.id, focused: false });
+    return newWindow.id ?? tab.windowId;
+  }
+  
+  /**
+   * Finds the window that already holds a group with the given name
+   * Tabs can't move between incognito and regular windows, so only matching windows are considered
+   * @param groupName The name of the group
+   * @param incognito Whether the tab being grouped is incognito
+   * @returns The window ID or null if no window holds the group
+   */
+  private async findGroupWindow(groupName: string, incognito: boolean): Promise<number | null> {
+    const groups = await chrome.tabGroups.query({ title: groupName });
+    
+    for (const group of groups) {
+      const window = await chrome.windows.get(group.windowId);
+      if (window.incognito === incognito && window.type === 'normal') {
+        return group.windowId;
+      }
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Refreshes patterns from storage
+   */
+  public refreshPatterns(): void {
+    this.loadPatternsFromStorage();
+  }
+  
+  /**
+   * Exports every rule and setting as a versioned rule set
+   * @returns The rule set, ready to be written to a JSON file
+   */
+  public exportRules(): RuleSet {
+    LogManager.log(`TabGroupManager: Exporting ${this.domainPatterns.length} manual patterns and ${this.autoPatterns.length} auto-patterns`);
+    
+    return {
+      version: RULE_SET_VERSION,
+      exportedAt: new Date().toISOString(),
+      domainPatterns: this.getStoredPatterns(),
+      autoPatterns: this.getStoredAutoPatterns(),
+      settings: {
+        enableAutoPatterns: this.enableAutoPatterns,
+        windowStrategy: this.windowStrategy,
+        registrableDomainMode: this.registrableDomainMode,
+        processBackgroundTabs: this.processBackgroundTabs,
+        housekeeping: { ...this.housekeeping },
+        ordering: { ...this.ordering },
+        navigationMode: this.navigationMode,
+        exclusions: this.exclusions.getSettings(),
+        groupColorOverrides: { ...this.groupColorOverrides }
+      }
+    };
+  }
+  
+  /**
+   * Imports a rule set, replacing or merging with the current rules
+   * Nothing is changed unless the whole rule set is valid. Settings are only imported with the replace strategy.
+   * @param data The parsed contents of a rule set file
+   * @param strategy How the imported rules are combined with the current ones
+   * @returns The outcome, with every validation error when the rule set is invalid
+   */
+  public importRules(data: unknown, strategy: ImportStrategy): ImportResult {
+    LogManager.log(`TabGroupManager: Importing rule set (${strategy})`);
+    
+    const result: ImportResult = { success: false, errors: [], importedPatterns: 0, importedAutoPatterns: 0, skipped: 0 };
+    
+    if (!IMPORT_STRATEGIES.includes(strategy)) {
+      result.errors.push(`Unknown merge strategy "${strategy}"`);
+      return result;
+    }
+    
+    const ruleSet = this.validateRuleSet(data, result.errors);
+    if (!ruleSet) {
+      LogManager.log(`TabGroupManager: Rule set is invalid: ${result.errors.join('; ')}`, "error");
+      return result;
+    }
+    
+    if (strategy === 'replace') {
+      this.replaceRules(ruleSet);
+      result.importedPatterns = this.domainPatterns.length;
+      result.importedAutoPatterns = this.autoPatterns.length;
+    } else {
+      // Imported rules keep their relative order, and are numbered after the current ones
+      const importedPatterns = this.compilePatterns(ruleSet.domainPatterns);
+      const importedAutoPatterns = this.compileAutoPatterns(ruleSet.autoPatterns);
+      const patternKey = (p: DomainPattern) => this.getPatternKey(p.matchTarget, p.queryParam, p.pattern.source);
+      const existingPatterns = new Set(this.domainPatterns.map(patternKey));
+      
+      importedPatterns.forEach(p => {
+        if (strategy === 'skipDuplicates' && existingPatterns.has(patternKey(p))) {
+          result.skipped++;
+          return;
+        }
+        existingPatterns.add(patternKey(p));
+        this.domainPatterns.push({ ...p, priority: this.getNextPriority(this.domainPatterns) });
+        result.importedPatterns++;
+      });
+      
+      // Templates identify auto-patterns, so a duplicate template is skipped with either strategy
+      importedAutoPatterns.forEach(p => {
+        if (this.autoPatterns.some(existing => existing.template === p.template)) {
+          result.skipped++;
+          return;
+        }
+        this.autoPatterns.push({ ...p, priority: this.getNextPriority(this.autoPatterns) });
+        result.importedAutoPatterns++;
+      });
+    }
+    
+    this.savePatterns();
+    this.saveSettings();
+    
+    // Apply to existing tabs
+    this.applyPatternsToExistingTabs();
+    
+    LogManager.log(`TabGroupManager: Imported ${result.importedPatterns} manual patterns and ${result.importedAutoPatterns} auto-patterns, skipped ${result.skipped}`);
+    result.success = true;
+    return result;
+  }
+  
+  /**
+   * Replaces the current rules, and any settings the rule set includes, with a rule set's
+   * @param ruleSet A validated rule set
+   */
+  private replaceRules(ruleSet: RuleSet): void {
+    this.domainPatterns = this.compilePatterns(ruleSet.domainPatterns);
+    this.autoPatterns = this.compileAutoPatterns(ruleSet.autoPatterns);
+    
+    const {
+      enableAutoPatterns,
+      windowStrategy,
+      registrableDomainMode,
+      processBackgroundTabs,
+      housekeeping,
+      ordering,
+      navigationMode,
+      exclusions,
+      groupColorOverrides
+    } = ruleSet.settings;
+    this.enableAutoPatterns = enableAutoPatterns ?? this.enableAutoPatterns;
+    this.windowStrategy = windowStrategy ?? this.windowStrategy;
+    this.registrableDomainMode = registrableDomainMode ?? this.registrableDomainMode;
+    this.processBackgroundTabs = processBackgroundTabs ?? this.processBackgroundTabs;
+    this.housekeeping = housekeeping ?? this.housekeeping;
+    this.ordering = ordering ?? this.ordering;
+    this.navigationMode = navigationMode ?? this.navigationMode;
+    if (exclusions) {
+      this.exclusions.setSettings(exclusions);
+    }
+    if (groupColorOverrides) {
+      this.groupColorOverrides = Object.fromEntries(
+        Object.entries(groupColorOverrides).map(([name, color]) => [name.toLowerCase(), color])
+      );
+    }
+  }
+  
+  /**
+   * Compiles validated stored patterns, keeping their relative order
+   */
+  private compilePatterns(patterns: StoredPattern[]): DomainPattern[] {
+    return this.sortByPriority(patterns.map((p, index) => ({
+      pattern: new RegExp(p.patternStr),
+      groupName: p.groupName,
+      color: p.color,
+      matchTarget: p.matchTarget || 'hostname',
+      queryParam: p.matchTarget === 'queryParam' ? p.queryParam : undefined,
+      priority: p.priority ?? index,
+      housekeeping: p.housekeeping,
+      navigationMode: p.navigationMode,
+      ordering: p.ordering
+    })));
+  }
+  
+  /**
+   * Compiles validated stored auto-patterns, keeping their relative order
+   */
+  private compileAutoPatterns(patterns: StoredAutoPattern[]): AutoPattern[] {
+    return this.sortByPriority(patterns.map((p, index) => ({
+      ...this.createAutoPattern(p.template, p.groupNameTemplate),
+      color: p.color,
+      priority: p.priority ?? index,
+      housekeeping: p.housekeeping,
+      navigationMode: p.navigationMode,
+      ordering: p.ordering
+    })));
+  }
+  
+  /**
+   * Gets the key that identifies what a manual pattern matches, used to spot duplicates
+   */
+  private getPatternKey(matchTarget: MatchTarget | undefined, queryParam: string | undefined, source: string): string {
+    return `${matchTarget || 'hostname'}\n${queryParam ?? ''}\n${source}`;
+  }
+  
+  /**
+   * Turns syncing rules across devices on or off
+   * Turning it on merges this device's rules with the synced ones.
+   * @param enabled Whether rules should be synced
+   * @returns The sync status afterwards
+   */
+  public async setSyncEnabled(enabled: boolean): Promise<SyncStatus> {
+    LogManager.log(`TabGroupManager: Setting sync enabled: ${enabled}`);
+    this.syncEnabled = enabled;
+    await chrome.storage.local.set({ syncEnabled: enabled });
+    
+    if (!enabled) {
+      this.ruleSync.disable();
+      return this.ruleSync.getStatus();
+    }
+    
+    return this.ruleSync.enable(true);
+  }
+  
+  /**
+   * Gets whether rules are synced, and how the last sync went
+   */
+  public getSyncStatus(): { enabled: boolean; status: SyncStatus } {
+    return { enabled: this.syncEnabled, status: this.ruleSync.getStatus() };
+  }
+  
+  /**
+   * Schedules a sync of the rules after a local change, if sync is on
+   */
+  private syncRules(): void {
+    if (this.syncEnabled) {
+      this.ruleSync.schedulePush();
+    }
+  }
+  
+  /**
+   * Gets the keys that identify every rule, as used in rule tombstones
+   */
+  private getRuleKeys(): Set<string> {
+    return new Set([
+      ...this.domainPatterns.map(p => `manual:${this.getPatternKey(p.matchTarget, p.queryParam, p.pattern.source)}`),
+      ...this.autoPatterns.map(p => `auto:${p.template}`)
+    ]);
+  }
+  
+  /**
+   * Records the rules deleted since the last save as tombstones, so syncing doesn't bring them back
+   * A rule added again loses its tombstone.
+   * @param local Whether the change was made on this device, false when it came from sync
+   */
+  private updateRuleTombstones(local: boolean): void {
+    const ruleKeys = this.getRuleKeys();
+    const deleted = [...this.savedRuleKeys].filter(key => !ruleKeys.has(key));
+    this.savedRuleKeys = ruleKeys;
+    
+    // Synced rules bring their own tombstones
+    if (!local || !this.syncEnabled) {
+      return;
+    }
+    
+    const revision = this.ruleSync.getRevision();
+    this.ruleTombstones = [
+      ...this.ruleTombstones.filter(tombstone => !ruleKeys.has(tombstone.key) && !deleted.includes(tombstone.key)),
+      ...deleted.map(key => ({ key, revision }))
+    ].slice(-MAX_RULE_TOMBSTONES);
+    this.saveRuleTombstones();
+  }
+  
+  /**
+   * Saves the rule tombstones, so deletions made while offline are synced after a restart
+   */
+  private saveRuleTombstones(): void {
+    chrome.storage.local.set({ ruleTombstones: this.ruleTombstones }, () => {
+      if (chrome.runtime.lastError) {
+        LogManager.log("TabGroupManager: Error saving deleted rules: " + chrome.runtime.lastError.message, "error");
+      }
+    });
+  }
+  
+  /**
+   * Merges rules edited on this device and on another one at the same time
+   * Rules from both sides are kept, the other device's first, except those either side deleted.
+   * This device's settings win since they are the latest edit.
+   * @param local The rules on this device
+   * @param remote The synced rules from the other device
+   * @returns The merged rule set
+   */
+  private mergeRuleSets(local: RuleSet, remote: RuleSet): RuleSet {
+    const patternKey = (p: StoredPattern) => this.getPatternKey(p.matchTarget, p.queryParam, p.patternStr);
+    const remoteKeys = new Set(remote.domainPatterns.map(patternKey));
+    const remoteTemplates = new Set(remote.autoPatterns.map(p => p.template));
+    
+    // Each side's tombstones remove the rules the other side hasn't deleted yet
+    const localDeleted = new Set((local.deletedRules ?? []).map(tombstone => tombstone.key));
+    const remoteDeleted = new Set((remote.deletedRules ?? []).map(tombstone => tombstone.key));
+    
+    const inOrder = <T extends { priority?: number }>(rules: T[]) =>
+      this.sortByPriority(rules.map((p, index) => ({ ...p, priority: p.priority ?? index })));
+    
+    const domainPatterns = [
+      ...inOrder(remote.domainPatterns.filter(p => !localDeleted.has(`manual:${patternKey(p)}`))),
+      ...inOrder(local.domainPatterns.filter(p => !remoteKeys.has(patternKey(p)) && !remoteDeleted.has(`manual:${patternKey(p)}`)))
+    ];
+    const autoPatterns = [
+      ...inOrder(remote.autoPatterns.filter(p => !localDeleted.has(`auto:${p.template}`))),
+      ...inOrder(local.autoPatterns.filter(p => !remoteTemplates.has(p.template) && !remoteDeleted.has(`auto:${p.template}`)))
+    ];
+    
+    // Both sides' tombstones are kept, newest last, so a third device drops the rules too
+    const tombstones: Map<string, RuleTombstone> = new Map();
+    [...(remote.deletedRules ?? []), ...(local.deletedRules ?? [])]
+      .sort((a, b) => a.revision - b.revision)
+      .forEach((tombstone) => {
+        tombstones.delete(tombstone.key);
+        tombstones.set(tombstone.key, tombstone);
+      });
+    
+    return {
+      ...local,
+      domainPatterns: domainPatterns.map((p, index) => ({ ...p, priority: index })),
+      autoPatterns: autoPatterns.map((p, index) => ({ ...p, priority: index })),
+      deletedRules: [...tombstones.values()].slice(-MAX_RULE_TOMBSTONES),
+      settings: {
+        ...remote.settings,
+        ...local.settings,
+        exclusions: this.mergeExclusions(local.settings.exclusions, remote.settings.exclusions),
+        groupColorOverrides: { ...remote.settings.groupColorOverrides, ...local.settings.groupColorOverrides }
+      }
+    };
+  }
+  
+  /**
+   * Merges two devices' exclusions, keeping the rules from both and this device's options
+   * @param local This device's exclusions
+   * @param remote The synced exclusions
+   */
+  private mergeExclusions(local?: ExclusionSettings, remote?: ExclusionSettings): ExclusionSettings | undefined {
+    if (!local || !remote) {
+      return local ?? remote;
+    }
+    
+    const ruleKey = (rule: ExclusionRule) => `${rule.type}\n${rule.value}`;
+    const remoteKeys = new Set(remote.rules.map(ruleKey));
+    return {
+      ...local,
+      rules: [...remote.rules, ...local.rules.filter(rule => !remoteKeys.has(ruleKey(rule)))]
+    };
+  }
+  
+  /**
+   * Applies rules synced from another device
+   * They are saved locally without being synced back.
+   * @param data The synced rule set
+   */
+  private applySyncedRules(data: RuleSet): void {
+    const errors: string[] = [];
+    const ruleSet = this.validateRuleSet(data, errors);
+    if (!ruleSet) {
+      LogManager.log(`TabGroupManager: Ignoring invalid synced rules: ${errors.join('; ')}`, "error");
+      return;
+    }
+    
+    LogManager.log(`TabGroupManager: Applying ${ruleSet.domainPatterns.length} manual patterns and ${ruleSet.autoPatterns.length} auto-patterns from sync`);
+    this.replaceRules(ruleSet);
+    this.ruleTombstones = ruleSet.deletedRules ?? [];
+    this.saveRuleTombstones();
+    this.savePatterns(false);
+    this.saveSettings(false);
+    
+    // Apply to existing tabs
+    this.applyPatternsToExistingTabs();
+  }
+  
+  /**
+   * Validates the shape of a rule set and compiles every pattern and template in it
+   * @param data The parsed contents of a rule set file
+   * @param errors Receives one message per problem, naming the rule it was found in
+   * @returns The rule set with missing sections defaulted, or null if it is invalid
+   */
+  private validateRuleSet(data: unknown, errors: string[]): RuleSet | null {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      errors.push('The file does not contain a rule set object');
+      return null;
+    }
+    
+    const raw = data as Record<string, any>;
+    
+    if (typeof raw.version !== 'number') {
+      errors.push('Missing rule set version');
+    } else if (raw.version > RULE_SET_VERSION) {
+      errors.push(`Rule set version ${raw.version} is newer than the supported version ${RULE_SET_VERSION}, please update the extension`);
+    }
+    
+    const domainPatterns = raw.domainPatterns ?? [];
+    const autoPatterns = raw.autoPatterns ?? [];
+    const settings = raw.settings ?? {};
+    
+    if (!Array.isArray(domainPatterns)) {
+      errors.push('"domainPatterns" must be a list');
+    } else {
+      domainPatterns.forEach((p: any, index: number) => {
+        const label = `Manual pattern ${index + 1}`;
+        if (!p || typeof p !== 'object') {
+          errors.push(`${label}: must be an object`);
+          return;
+        }
+        if (typeof p.patternStr !== 'string' || !p.patternStr) {
+          errors.push(`${label}: "patternStr" must be a non-empty string`);
+        } else {
+          try {
+            new RegExp(p.patternStr);
+          } catch (error: any) {
+            errors.push(`${label} (/${p.patternStr}/): ${error.message}`);
+          }
+        }
+        if (typeof p.groupName !== 'string' || !p.groupName) {
+          errors.push(`${label}: "groupName" must be a non-empty string`);
+        }
+        if (p.color !== undefined && !GROUP_COLORS.includes(p.color)) {
+          errors.push(`${label}: unknown color "${p.color}"`);
+        }
+        if (p.matchTarget !== undefined && !MATCH_TARGETS.includes(p.matchTarget)) {
+          errors.push(`${label}: unknown match target "${p.matchTarget}"`);
+        }
+        if (p.matchTarget === 'queryParam' && (typeof p.queryParam !== 'string' || !p.queryParam)) {
+          errors.push(`${label}: a query parameter name is required for the queryParam match target`);
+        }
+        if (p.priority !== undefined && typeof p.priority !== 'number') {
+          errors.push(`${label}: "priority" must be a number`);
+        }
+        if (p.housekeeping !== undefined) {
+          this.validateHousekeepingPolicy(p.housekeeping, label, errors);
+        }
+        if (p.ordering !== undefined) {
+          this.validateOrderingPolicy(p.ordering, label, true, errors);
+        }
+        if (p.navigationMode !== undefined && !NAVIGATION_MODES.includes(p.navigationMode)) {
+          errors.push(`${label}: unknown navigation mode "${p.navigationMode}"`);
+        }
+      });
+    }
+    
+    if (!Array.isArray(autoPatterns)) {
+      errors.push('"autoPatterns" must be a list');
+    } else {
+      autoPatterns.forEach((p: any, index: number) => {
+        const label = `Auto-pattern ${index + 1}`;
+        if (!p || typeof p !== 'object') {
+          errors.push(`${label}: must be an object`);
+          return;
+        }
+        if (typeof p.template !== 'string' || !p.template) {
+          errors.push(`${label}: "template" must be a non-empty string`);
+          return;
+        }
+        if (p.groupNameTemplate !== undefined && typeof p.groupNameTemplate !== 'string') {
+          errors.push(`${label} (${p.template}): "groupNameTemplate" must be a string`);
+          return;
+        }
+        const templateError = this.validateAutoPattern(p.template, p.groupNameTemplate);
+        if (templateError) {
+          errors.push(`${label} (${p.template}): ${templateError}`);
+        }
+        if (p.color !== undefined && !AUTO_PATTERN_COLORS.includes(p.color)) {
+          errors.push(`${label} (${p.template}): unknown color "${p.color}"`);
+        }
+        if (p.priority !== undefined && typeof p.priority !== 'number') {
+          errors.push(`${label} (${p.template}): "priority" must be a number`);
+        }
+        if (p.housekeeping !== undefined) {
+          this.validateHousekeepingPolicy(p.housekeeping, `${label} (${p.template})`, errors);
+        }
+        if (p.ordering !== undefined) {
+          this.validateOrderingPolicy(p.ordering, `${label} (${p.template})`, true, errors);
+        }
+        if (p.navigationMode !== undefined && !NAVIGATION_MODES.includes(p.navigationMode)) {
+          errors.push(`${label} (${p.template}): unknown navigation mode "${p.navigationMode}"`);
+        }
+      });
+    }
+    
+    if (!settings || typeof settings !== 'object') {
+      errors.push('"settings" must be an object');
+    } else {
+      if (settings.enableAutoPatterns !== undefined && typeof settings.enableAutoPatterns !== 'boolean') {
+        errors.push('Settings: "enableAutoPatterns" must be true or false');
+      }
+      if (settings.windowStrategy !== undefined && !WINDOW_STRATEGIES.includes(settings.windowStrategy)) {
+        errors.push(`Settings: unknown window strategy "${settings.windowStrategy}"`);
+      }
+      if (settings.registrableDomainMode !== undefined && !REGISTRABLE_DOMAIN_MODES.includes(settings.registrableDomainMode)) {
+        errors.push(`Settings: unknown registrable domain mode "${settings.registrableDomainMode}"`);
+      }
+      if (settings.processBackgroundTabs !== undefined && typeof settings.processBackgroundTabs !== 'boolean') {
+        errors.push('Settings: "processBackgroundTabs" must be true or false');
+      }
+      if (settings.housekeeping !== undefined) {
+        this.validateHousekeepingPolicy(settings.housekeeping, 'Settings', errors);
+      }
+      if (settings.ordering !== undefined) {
+        this.validateOrderingPolicy(settings.ordering, 'Settings', false, errors);
+      }
+      if (settings.navigationMode !== undefined && !NAVIGATION_MODES.includes(settings.navigationMode)) {
+        errors.push(`Settings: unknown navigation mode "${settings.navigationMode}"`);
+      }
+      const exclusions = settings.exclusions;
+      if (exclusions !== undefined) {
+        if (!exclusions || typeof exclusions !== 'object' || !Array.isArray(exclusions.rules)) {
+          errors.push('Settings: "exclusions" must be an object with a list of rules');
+        } else {
+          exclusions.rules.forEach((rule: any, index: number) => {
+            const ruleError = rule && typeof rule === 'object' ? validateExclusionRule(rule) : 'must be an object';
+            if (ruleError) {
+              errors.push(`Exclusion ${index + 1}: ${ruleError}`);
+            }
+          });
+          ['excludePinned', 'excludeIncognito'].forEach(option => {
+            if (exclusions[option] !== undefined && typeof exclusions[option] !== 'boolean') {
+              errors.push(`Settings: "exclusions.${option}" must be true or false`);
+            }
+          });
+        }
+      }
+      const overrides = settings.groupColorOverrides;
+      if (overrides !== undefined) {
+        if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+          errors.push('Settings: "groupColorOverrides" must be an object');
+        } else {
+          Object.entries(overrides).forEach(([name, color]: [string, any]) => {
+            if (!GROUP_COLORS.includes(color)) {
+              errors.push(`Settings: unknown color "${color}" for group "${name}"`);
+            }
+          });
+        }
+      }
+    }
+    
+    if (errors.length > 0) {
+      return null;
+    }
+    
+    // Tombstones only decide what a merge keeps, so malformed ones are dropped rather than rejected
+    const deletedRules: RuleTombstone[] | undefined = Array.isArray(raw.deletedRules)
+      ? raw.deletedRules.filter((tombstone: any) => typeof tombstone?.key === 'string' && typeof tombstone?.revision === 'number')
+      : undefined;
+    
+    return {
+      version: raw.version,
+      exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+      domainPatterns,
+      autoPatterns,
+      deletedRules,
+      settings
+    };
+  }
+  
+  /**
+   * Gets the manual patterns in priority order, in their storage format
+   */
+  public getPatterns(): StoredPattern[] {
+    return this.getStoredPatterns();
+  }
+  
+  /**
+   * Gets the manual patterns in their storage format
+   */
+  private getStoredPatterns(): StoredPattern[] {
+    return this.domainPatterns.map(p => ({
+      patternStr: p.pattern.source,
       groupName: p.groupName,
-      color: p.color
+      color: p.color,
+      matchTarget: p.matchTarget,
+      queryParam: p.queryParam,
+      priority: p.priority,
+      housekeeping: p.housekeeping,
+      navigationMode: p.navigationMode,
+      ordering: p.ordering
+    }));
+  }
+  
+  /**
+   * Gets the auto patterns in their storage format
+   */
+  private getStoredAutoPatterns(): StoredAutoPattern[] {
+    return this.autoPatterns.map(p => ({
+      template: p.template,
+      groupNameTemplate: p.groupNameTemplate,
+      color: p.color,
+      priority: p.priority,
+      housekeeping: p.housekeeping,
+      navigationMode: p.navigationMode,
+      ordering: p.ordering
     }));
+  }
+  
+  /**
+   * Saves current patterns to Chrome storage
+   * @param sync Whether to sync the change to other devices, false when it came from sync
+   */
+  private savePatterns(sync: boolean = true): void {
+    const patternsToSave = this.getStoredPatterns();
     
     LogManager.log(`TabGroupManager: Saving ${patternsToSave.length} manual patterns to storage`);
     
+    this.updateHousekeepingSchedule();
+    this.updateTrackedRules();
+    this.updateMatchCache();
+    this.updateRuleTombstones(sync);
+    this.contextMenus.requestRebuild();
+    
     chrome.storage.local.set({ domainPatterns: patternsToSave }, () => {
       if (chrome.runtime.lastError) {
         LogManager.log("TabGroupManager: Error saving patterns: " + chrome.runtime.lastError.message, "error");
@@ -738,195 +3655,513 @@ class TabGroupManager {
         LogManager.log("TabGroupManager: Manual patterns saved successfully");
       }
     });
+    
+    if (sync) {
+      this.syncRules();
+    }
   }
 }
 
 // Initialize the manager when the extension loads
 const tabGroupManager = new TabGroupManager();
 
+/**
+ * Actions the popup polls for, which aren't logged, or they would push the real entries out of the logs
+ */
+const POLLED_ACTIONS: ReadonlySet<string> = new Set<MessageAction>(['getLogs', 'getGroupingProgress']);
+
 /**
  * Helper function to ensure safe response handling for chrome.runtime.sendMessage
  * Prevents "The message port closed before a response was received" error
+ * Only the outcome is logged, since responses can be large, e.g. the logs themselves.
+ * @param action The action being answered
  */
-const safeResponse = (responseData: any, sendResponse: (response: any) => void) => {
+const safeResponse = (action: string, responseData: MessageResponse, sendResponse: (response: MessageResponse) => void) => {
   try {
-    LogManager.log(`TabGroupManager: Sending response: ${JSON.stringify(responseData)}`);
+    const outcome = responseData.ok ? 'ok' : `error ${responseData.error.code}`;
+    if (!POLLED_ACTIONS.has(action) || !responseData.ok) {
+      LogManager.log(`TabGroupManager: Sending response to ${action}: ${outcome}`);
+    }
     sendResponse(responseData);
   } catch (error) {
     LogManager.log("Error sending response: " + (error as Error).message, "error");
   }
 };
 
-// Listen for messages from the popup
-// @ts-ignore
-chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-  LogManager.log("TabGroupManager: Received message: " + JSON.stringify(message));
+/**
+ * Fails a request whose ordering policy is invalid
+ * @param policy The policy sent with the request
+ * @param forRule Whether it is a rule's policy
+ */
+function validateOrderingRequest(policy: unknown, forRule: boolean): void {
+  const errors: string[] = [];
+  tabGroupManager.validateOrderingPolicy(policy, 'Ordering', forRule, errors);
+  if (errors.length > 0) {
+    throw new MessageError('INVALID_ARGUMENT', 'Invalid ordering policy', errors);
+  }
+}
+
+/**
+ * Fails a request whose housekeeping policy is invalid
+ * @param policy The policy sent with the request
+ */
+function validateHousekeepingRequest(policy: unknown): void {
+  const errors: string[] = [];
+  tabGroupManager.validateHousekeepingPolicy(policy, 'Housekeeping', errors);
+  if (errors.length > 0) {
+    throw new MessageError('INVALID_ARGUMENT', 'Invalid housekeeping policy', errors);
+  }
+}
+
+type MessageHandler<A extends MessageAction> =
+  (request: MessageRequest<A>) => MessageMap[A]['response'] | Promise<MessageMap[A]['response']>;
+
+/**
+ * Handlers for every action in the message protocol
+ * A handler returns the action's result, or throws a MessageError to fail the request with a specific code.
+ */
+const messageHandlers: { [A in MessageAction]: MessageHandler<A> } = {
+  // The popup polls for logs, so this is one of the POLLED_ACTIONS, which aren't logged
+  getLogs: async () => ({ logs: await LogManager.getLogs() }),
+  
+  clearLogs: async () => {
+    await LogManager.clearLogs();
+    LogManager.log("Background: Logs cleared by popup request");
+    return {};
+  },
   
-  // Handle messages that need immediate responses first
-  if (message.action === "getLogs") {
-    // Quickly return logs to the popup
-    const logs = LogManager.getLogs();
-    LogManager.log(`TabGroupManager: Sending ${logs.length} logs to popup`);
+  getPatterns: () => ({ patterns: tabGroupManager.getPatterns() }),
+  
+  addPattern: (request) => {
+    LogManager.log(`TabGroupManager: Adding manual pattern: ${request.pattern} -> ${request.groupName}`);
     try {
-      sendResponse({ logs: logs });
-    } catch (error) {
-      LogManager.log("Error sending logs: " + (error as Error).message, "error");
+      new RegExp(request.pattern);
+    } catch (error: any) {
+      throw new MessageError('INVALID_ARGUMENT', `Invalid regular expression: ${error.message}`);
     }
-    return true;
-  }
+    if (request.matchTarget === 'queryParam' && !request.queryParam) {
+      throw new MessageError('INVALID_ARGUMENT', 'A query parameter name is required for the queryParam match target');
+    }
+    
+    if (!tabGroupManager.addPattern(request.pattern, request.groupName, request.color, request.matchTarget, request.queryParam)) {
+      throw new MessageError('INTERNAL_ERROR', 'The pattern could not be added, check the logs for details');
+    }
+    return {};
+  },
   
-  if (message.action === "getAutoPatternTemplates") {
-    const templates = tabGroupManager.getAutoPatternTemplates();
-    LogManager.log("TabGroupManager: Sending templates to popup: " + JSON.stringify(templates));
-    safeResponse({ templates: templates }, sendResponse);
-    return true;
-  }
+  removePattern: (request) => {
+    LogManager.log(`TabGroupManager: Removing manual pattern at index ${request.index}`);
+    if (!tabGroupManager.removePattern(request.index)) {
+      throw new MessageError('NOT_FOUND', `No manual pattern at index ${request.index}`);
+    }
+    return {};
+  },
+  
+  reorderPatterns: (request) => {
+    if (!tabGroupManager.reorderPatterns(request.order)) {
+      throw new MessageError('INVALID_ARGUMENT', 'The new order must list every manual pattern exactly once');
+    }
+    return {};
+  },
+  
+  refreshPatterns: () => {
+    LogManager.log("TabGroupManager: Refreshing patterns");
+    tabGroupManager.refreshPatterns();
+    return {};
+  },
   
-  if (message.action === "getAutoPatterns") {
+  getAutoPatterns: () => {
     const enabled = tabGroupManager.getAutoPatterns();
     LogManager.log("TabGroupManager: Auto-patterns enabled: " + enabled);
-    safeResponse({ enabled: enabled }, sendResponse);
-    return true;
-  }
+    return { enabled };
+  },
   
-  if (message.action === "addAutoPattern") {
-    LogManager.log(`TabGroupManager: Adding auto-pattern from popup: ${message.template}`);
+  setAutoPatterns: (request) => {
+    LogManager.log(`TabGroupManager: Setting auto-patterns enabled: ${request.enabled}`);
+    tabGroupManager.setAutoPatterns(request.enabled);
+    return {};
+  },
+  
+  getAutoPatternTemplates: () => {
+    const templates = tabGroupManager.getAutoPatternTemplates();
+    LogManager.log("TabGroupManager: Sending templates to popup: " + JSON.stringify(templates));
+    return { templates, patterns: tabGroupManager.getAutoPatternDetails() };
+  },
+  
+  addAutoPattern: (request) => {
+    LogManager.log(`TabGroupManager: Adding auto-pattern from popup: ${request.template}`);
     
     // First, validate the template
-    if (!message.template || !message.template.includes(':name')) {
-      LogManager.log("TabGroupManager: Invalid template format", "error");
-      safeResponse({ success: false, error: "Invalid template format" }, sendResponse);
-      return true;
+    const validationError = tabGroupManager.validateAutoPattern(request.template, request.groupNameTemplate);
+    if (validationError) {
+      LogManager.log(`TabGroupManager: Invalid template: ${validationError}`, "error");
+      throw new MessageError('INVALID_ARGUMENT', validationError);
     }
     
-    // Try to add the pattern - respond immediately with the result
-    try {
-      const success = tabGroupManager.addAutoPattern(message.template);
-      
-      // Double-check that the pattern was added
-      const templates = tabGroupManager.getAutoPatternTemplates();
-      const wasAdded = templates.includes(message.template);
-      LogManager.log(`TabGroupManager: Was ${message.template} added? ${wasAdded}`);
-      
-      safeResponse({ success: wasAdded }, sendResponse);
-      
-      // Apply patterns in the background after responding
-      if (wasAdded && tabGroupManager.getAutoPatterns()) {
-        setTimeout(() => {
-          LogManager.log("TabGroupManager: Applying pattern in background");
-          tabGroupManager.applyAutoPatternsToTabs();
-        }, 100);
-      }
-    } catch (error: any) {
-      LogManager.log(`TabGroupManager: Error in addAutoPattern: ${error.message}`, "error");
-      safeResponse({ success: false, error: error.message }, sendResponse);
+    if (!tabGroupManager.addAutoPattern(request.template, request.groupNameTemplate, request.color)) {
+      throw new MessageError('INVALID_ARGUMENT', `The template ${request.template} already exists`);
     }
     
-    return true;
-  }
+    // Apply patterns in the background after responding
+    if (tabGroupManager.getAutoPatterns()) {
+      setTimeout(() => {
+        LogManager.log("TabGroupManager: Applying pattern in background");
+        tabGroupManager.applyAutoPatternsToTabs();
+      }, 100);
+    }
+    return {};
+  },
   
-  // Handle other messages
-  try {
-    if (message.action === "clearLogs") {
-      LogManager.clearLogs();
-      LogManager.log("Logs cleared by popup request");
-      safeResponse({ success: true }, sendResponse);
-      return true;
+  removeAutoPattern: (request) => {
+    LogManager.log(`TabGroupManager: Removing auto-pattern: ${request.template}`);
+    if (!tabGroupManager.removeAutoPattern(request.template)) {
+      throw new MessageError('NOT_FOUND', `No auto-pattern with the template ${request.template}`);
     }
     
-    if (message.action === "addPattern") {
-      LogManager.log(`TabGroupManager: Adding manual pattern: ${message.pattern} -> ${message.groupName}`);
-      tabGroupManager.addPattern(
-        message.pattern,
-        message.groupName,
-        message.color
-      );
-      safeResponse({ success: true }, sendResponse);
-      return true;
-    } 
-    
-    if (message.action === "refreshPatterns") {
-      LogManager.log("TabGroupManager: Refreshing patterns");
-      tabGroupManager.refreshPatterns();
-      safeResponse({ success: true }, sendResponse);
-      return true;
-    } 
-    
-    if (message.action === "setAutoPatterns") {
-      LogManager.log(`TabGroupManager: Setting auto-patterns enabled: ${message.enabled}`);
-      tabGroupManager.setAutoPatterns(message.enabled);
-      safeResponse({ success: true }, sendResponse);
-      return true;
-    } 
-    
-    if (message.action === "removeAutoPattern") {
-      LogManager.log(`TabGroupManager: Removing auto-pattern: ${message.template}`);
-      const success = tabGroupManager.removeAutoPattern(message.template);
-      
-      // Double-check that the pattern was removed
-      const templates = tabGroupManager.getAutoPatternTemplates();
-      const wasRemoved = !templates.includes(message.template);
-      LogManager.log(`TabGroupManager: Was ${message.template} removed? ${wasRemoved}`);
-      
-      safeResponse({ success: wasRemoved }, sendResponse);
-      
-      // Apply remaining patterns in the background after responding
-      if (wasRemoved && tabGroupManager.getAutoPatterns()) {
-        setTimeout(() => {
-          LogManager.log("TabGroupManager: Applying patterns after removal");
-          tabGroupManager.applyAutoPatternsToTabs();
-        }, 100);
-      }
-      
-      return true;
+    // Apply remaining patterns in the background after responding
+    if (tabGroupManager.getAutoPatterns()) {
+      setTimeout(() => {
+        LogManager.log("TabGroupManager: Applying patterns after removal");
+        tabGroupManager.applyAutoPatternsToTabs();
+      }, 100);
+    }
+    return {};
+  },
+  
+  reorderAutoPatterns: (request) => {
+    if (!tabGroupManager.reorderAutoPatterns(request.templates)) {
+      throw new MessageError('INVALID_ARGUMENT', 'The new order must list every auto-pattern template exactly once');
+    }
+    return {};
+  },
+  
+  getWindowStrategy: () => ({ strategy: tabGroupManager.getWindowStrategy() }),
+  
+  setWindowStrategy: (request) => {
+    tabGroupManager.setWindowStrategy(request.strategy);
+    return {};
+  },
+  
+  getRegistrableDomainMode: () => ({ mode: tabGroupManager.getRegistrableDomainMode() }),
+  
+  setRegistrableDomainMode: (request) => {
+    tabGroupManager.setRegistrableDomainMode(request.mode);
+    return {};
+  },
+  
+  getBackgroundTabProcessing: () => ({ enabled: tabGroupManager.getBackgroundTabProcessing() }),
+  
+  setBackgroundTabProcessing: (request) => {
+    tabGroupManager.setBackgroundTabProcessing(request.enabled);
+    return {};
+  },
+  
+  getHousekeeping: () => ({ policy: tabGroupManager.getHousekeeping() }),
+  
+  setHousekeeping: (request) => {
+    validateHousekeepingRequest(request.policy);
+    tabGroupManager.setHousekeeping(request.policy);
+    return {};
+  },
+  
+  setPatternHousekeeping: (request) => {
+    validateHousekeepingRequest(request.policy);
+    if (!tabGroupManager.setPatternHousekeeping(request.index, request.policy)) {
+      throw new MessageError('NOT_FOUND', `No manual pattern at index ${request.index}`);
+    }
+    return {};
+  },
+  
+  setAutoPatternHousekeeping: (request) => {
+    validateHousekeepingRequest(request.policy);
+    if (!tabGroupManager.setAutoPatternHousekeeping(request.template, request.policy)) {
+      throw new MessageError('NOT_FOUND', `No auto-pattern with the template ${request.template}`);
+    }
+    return {};
+  },
+  
+  getNavigationMode: () => ({ mode: tabGroupManager.getNavigationMode() }),
+  
+  setNavigationMode: (request) => {
+    tabGroupManager.setNavigationMode(request.mode);
+    return {};
+  },
+  
+  setPatternNavigationMode: (request) => {
+    if (!tabGroupManager.setPatternNavigationMode(request.index, request.mode)) {
+      throw new MessageError('NOT_FOUND', `No manual pattern at index ${request.index}`);
+    }
+    return {};
+  },
+  
+  setAutoPatternNavigationMode: (request) => {
+    if (!tabGroupManager.setAutoPatternNavigationMode(request.template, request.mode)) {
+      throw new MessageError('NOT_FOUND', `No auto-pattern with the template ${request.template}`);
+    }
+    return {};
+  },
+  
+  getOrdering: () => ({ policy: tabGroupManager.getOrdering() }),
+  
+  setOrdering: async (request) => {
+    validateOrderingRequest(request.policy, false);
+    await tabGroupManager.setOrdering(request.policy);
+    return {};
+  },
+  
+  setPatternOrdering: async (request) => {
+    validateOrderingRequest(request.policy, true);
+    if (!await tabGroupManager.setPatternOrdering(request.index, request.policy)) {
+      throw new MessageError('NOT_FOUND', `No manual pattern at index ${request.index}`);
+    }
+    return {};
+  },
+  
+  setAutoPatternOrdering: async (request) => {
+    validateOrderingRequest(request.policy, true);
+    if (!await tabGroupManager.setAutoPatternOrdering(request.template, request.policy)) {
+      throw new MessageError('NOT_FOUND', `No auto-pattern with the template ${request.template}`);
+    }
+    return {};
+  },
+  
+  getExclusions: () => ({ exclusions: tabGroupManager.getExclusions() }),
+  
+  addExclusion: (request) => {
+    const rule = { type: request.type, value: request.value };
+    const validationError = validateExclusionRule(rule);
+    if (validationError) {
+      throw new MessageError('INVALID_ARGUMENT', validationError);
+    }
+    if (!tabGroupManager.addExclusion(rule)) {
+      throw new MessageError('INVALID_ARGUMENT', `${request.value} is already excluded`);
+    }
+    return {};
+  },
+  
+  removeExclusion: (request) => {
+    if (!tabGroupManager.removeExclusion(request.index)) {
+      throw new MessageError('NOT_FOUND', `No exclusion at index ${request.index}`);
+    }
+    return {};
+  },
+  
+  setExclusionOptions: (request) => {
+    tabGroupManager.setExclusionOptions(request.excludePinned, request.excludeIncognito);
+    return {};
+  },
+  
+  getWindowGrouping: async (request) => ({ disabled: await tabGroupManager.isWindowGroupingDisabled(request.windowId) }),
+  
+  setWindowGrouping: async (request) => {
+    await tabGroupManager.setWindowGroupingDisabled(request.windowId, request.disabled);
+    return {};
+  },
+  
+  getSavedGroups: async () => ({ groups: await tabGroupManager.getSavedGroups() }),
+  
+  restoreSavedGroup: async (request) => {
+    if (!await tabGroupManager.restoreSavedGroup(request.index)) {
+      throw new MessageError('NOT_FOUND', `No saved group at index ${request.index}`);
+    }
+    return {};
+  },
+  
+  removeSavedGroup: async (request) => {
+    if (!await tabGroupManager.removeSavedGroup(request.index)) {
+      throw new MessageError('NOT_FOUND', `No saved group at index ${request.index}`);
+    }
+    return {};
+  },
+  
+  getWorkspaces: async () => ({ workspaces: await tabGroupManager.getWorkspaces() }),
+  
+  saveWorkspace: async (request) => {
+    const name = request.name.trim();
+    if (!name) {
+      throw new MessageError('INVALID_ARGUMENT', 'A workspace name is required');
+    }
+    if (findWorkspace(await tabGroupManager.getWorkspaces(), name) !== -1) {
+      throw new MessageError('INVALID_ARGUMENT', `A workspace named "${name}" already exists`);
+    }
+    if (!await tabGroupManager.saveWorkspace(name, request.windowId)) {
+      throw new MessageError('INVALID_ARGUMENT', 'The window has no groups to save');
+    }
+    return {};
+  },
+  
+  updateWorkspace: async (request) => {
+    const workspaces = await tabGroupManager.getWorkspaces();
+    if (!Number.isInteger(request.index) || !workspaces[request.index]) {
+      throw new MessageError('NOT_FOUND', `No workspace at index ${request.index}`);
+    }
+    if (!await tabGroupManager.updateWorkspace(request.index, request.windowId)) {
+      throw new MessageError('INVALID_ARGUMENT', 'The window has no groups to save');
+    }
+    return {};
+  },
+  
+  renameWorkspace: async (request) => {
+    const workspaces = await tabGroupManager.getWorkspaces();
+    if (!Number.isInteger(request.index) || !workspaces[request.index]) {
+      throw new MessageError('NOT_FOUND', `No workspace at index ${request.index}`);
+    }
+    const name = request.name.trim();
+    if (!name) {
+      throw new MessageError('INVALID_ARGUMENT', 'A workspace name is required');
+    }
+    const existing = findWorkspace(workspaces, name);
+    if (existing !== -1 && existing !== request.index) {
+      throw new MessageError('INVALID_ARGUMENT', `A workspace named "${name}" already exists`);
+    }
+    await tabGroupManager.renameWorkspace(request.index, name);
+    return {};
+  },
+  
+  removeWorkspace: async (request) => {
+    if (!await tabGroupManager.removeWorkspace(request.index)) {
+      throw new MessageError('NOT_FOUND', `No workspace at index ${request.index}`);
+    }
+    return {};
+  },
+  
+  restoreWorkspace: async (request) => {
+    if (!await tabGroupManager.restoreWorkspace(request.index, request.windowId)) {
+      throw new MessageError('NOT_FOUND', `No workspace at index ${request.index}`);
+    }
+    return {};
+  },
+  
+  takeRuleDraft: () => ({ draft: tabGroupManager.takeRuleDraft() }),
+  
+  getColorOverrides: () => ({ overrides: tabGroupManager.getColorOverrides() }),
+  
+  setColorOverride: async (request) => {
+    if (!request.name.trim()) {
+      throw new MessageError('INVALID_ARGUMENT', 'A group name is required');
+    }
+    await tabGroupManager.setColorOverride(request.name, request.color);
+    return {};
+  },
+  
+  removeColorOverride: (request) => {
+    if (!tabGroupManager.removeColorOverride(request.name)) {
+      throw new MessageError('NOT_FOUND', `No color override for "${request.name}"`);
+    }
+    return {};
+  },
+  
+  getSyncStatus: () => tabGroupManager.getSyncStatus(),
+  
+  setSyncEnabled: async (request) => ({ status: await tabGroupManager.setSyncEnabled(request.enabled) }),
+  
+  exportRules: () => ({ ruleSet: tabGroupManager.exportRules() }),
+  
+  importRules: (request) => {
+    const result = tabGroupManager.importRules(request.data, request.strategy);
+    if (!result.success) {
+      throw new MessageError('INVALID_ARGUMENT', 'The rule set is invalid', result.errors);
+    }
+    return result;
+  },
+  
+  explainTab: async (request) => ({ explanation: await tabGroupManager.explainTab(request.tabId) }),
+  
+  testRules: async (request) => {
+    if (request.pattern === undefined) {
+      return tabGroupManager.testRules(request.urls);
     }
     
-    if (message.action === 'groupExistingTabs') {
-      // Immediately respond that we received the message
-      LogManager.log(`Background: Received request to group existing tabs`);
-      
-      // Group existing tabs in the background
-      tabGroupManager.groupAllExistingTabs()
-        .then(groupedCount => {
-          // Try to send a follow-up message with the result
-          try {
-            if (chrome.runtime.lastError) {
-              LogManager.log(`Cannot send result: ${chrome.runtime.lastError.message}`, "error");
-              return;
-            }
-            
-            // Only send response if we haven't already
-            if (sendResponse) {
-              sendResponse({ success: true, groupedCount });
-              LogManager.log(`Background: Grouped ${groupedCount} tabs successfully`);
-            }
-          } catch (error: any) {
-            LogManager.log(`Error sending group result: ${error.message}`, "error");
-          }
-        })
-        .catch(error => {
-          LogManager.log(`Error grouping tabs: ${error.message}`, "error");
-          // Try to send error response
-          try {
-            if (sendResponse) {
-              sendResponse({ success: false, error: error.message });
-            }
-          } catch (e) {
-            LogManager.log(`Could not send error response: ${e}`, "error");
-          }
-        });
-      
-      // Return true to indicate we'll respond asynchronously
-      return true;
+    try {
+      new RegExp(request.pattern);
+    } catch (error: any) {
+      throw new MessageError('INVALID_ARGUMENT', `Invalid regular expression: ${error.message}`);
+    }
+    if (request.matchTarget === 'queryParam' && !request.queryParam) {
+      throw new MessageError('INVALID_ARGUMENT', 'A query parameter name is required for the queryParam match target');
     }
     
-    LogManager.log(`TabGroupManager: Unknown message action: ${message.action}`, "warn");
-    safeResponse({ success: false, error: "Unknown action" }, sendResponse);
-  } catch (error: any) {
-    LogManager.log("TabGroupManager: Error handling message: " + error.message, "error");
-    safeResponse({ success: false, error: error.message || "Unknown error" }, sendResponse);
+    return tabGroupManager.testRules(request.urls, {
+      patternStr: request.pattern,
+      groupName: request.groupName || '',
+      color: request.color,
+      matchTarget: request.matchTarget,
+      queryParam: request.queryParam
+    });
+  },
+  
+  getLastOperation: async () => ({ operation: await tabGroupManager.getLastOperation() }),
+  
+  undoLastOperation: async () => {
+    const operation = await tabGroupManager.undoLastOperation();
+    if (!operation) {
+      throw new MessageError('NOT_FOUND', 'There is nothing to undo');
+    }
+    return { operation };
+  },
+  
+  getRuleUsage: () => tabGroupManager.getRuleUsage(),
+  
+  setUnusedRuleDays: async (request) => {
+    if (!Number.isInteger(request.days) || request.days < 1) {
+      throw new MessageError('INVALID_ARGUMENT', 'The number of days must be a whole number of at least 1');
+    }
+    await tabGroupManager.setUnusedRuleDays(request.days);
+    return {};
+  },
+  
+  removeUnusedRules: async () => ({ removedCount: await tabGroupManager.removeUnusedRules() }),
+  
+  previewGrouping: async () => ({ plan: await tabGroupManager.previewGrouping() }),
+  
+  applyGroupingPreview: async (request) => {
+    LogManager.log(`Background: Received request to apply grouping preview`);
+    // An explicit list of tab IDs applies only those entries; no list applies the whole plan
+    return { groupedCount: await tabGroupManager.applyGroupingPreview(request.tabIds) };
+  },
+  
+  groupExistingTabs: async () => {
+    LogManager.log(`Background: Received request to group existing tabs`);
+    const groupedCount = await tabGroupManager.groupAllExistingTabs();
+    LogManager.log(`Background: Grouped ${groupedCount} tabs successfully`);
+    return { groupedCount };
+  },
+  
+  getGroupingProgress: () => ({ progress: tabGroupManager.getGroupingProgress() })
+};
+
+// Listen for messages from the popup
+chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  // Request bodies can be large, e.g. imported rules, so only the action is logged
+  const action = typeof message?.action === 'string' ? message.action : 'unknown action';
+  if (!POLLED_ACTIONS.has(action)) {
+    LogManager.log(`TabGroupManager: Received message: ${action}`);
+  }
+  
+  const requestError = validateRequest(message);
+  if (requestError) {
+    LogManager.log(`TabGroupManager: Rejected message: ${requestError.message}`, "warn");
+    safeResponse(action, { version: PROTOCOL_VERSION, ok: false, error: requestError }, sendResponse);
+    return false;
   }
   
+  const request = message as MessageRequest;
+  const handler = messageHandlers[request.action] as MessageHandler<MessageAction>;
+  
+  // Run the handler inside the promise chain, so synchronous throws become error responses too
+  Promise.resolve()
+    .then(() => handler(request))
+    .then(data => {
+      safeResponse(action, { version: PROTOCOL_VERSION, ok: true, data }, sendResponse);
+    })
+    .catch(error => {
+      const info = error instanceof MessageError
+        ? error.toInfo()
+        : new MessageError('INTERNAL_ERROR', error?.message || String(error)).toInfo();
+      LogManager.log(`TabGroupManager: Error handling ${request.action}: ${info.message}`, "error");
+      safeResponse(action, { version: PROTOCOL_VERSION, ok: false, error: info }, sendResponse);
+    });
+  
   // Return true to indicate we will send a response asynchronously
   return true;
-}); 
\ No newline at end of file
+});
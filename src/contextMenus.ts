@@ -0,0 +1,131 @@
+/**
+ * Tab Groups Manager - Context Menus
+ *
+ * Adds "Add to group ▸", "New rule for this domain…" and "Exclude this site" to the context menu
+ * of web pages and links, so rules can be made without typing a regular expression. The menu
+ * lists group names, so it is rebuilt whenever groups or rules change. Rebuilds are debounced,
+ * since a batch of grouping fires many group events at once.
+ */
+
+export interface ContextMenuOptions {
+  getGroupNames: () => Promise<string[]>;                        // The names offered under "Add to group"
+  addToGroup: (hostname: string, groupName: string) => void;     // Always groups the host in the named group
+  draftRule: (hostname: string) => Promise<void>;                // Opens the rule form filled in for the host
+  exclude: (hostname: string) => void;                           // Never groups the host
+  log: (message: string, level?: 'log' | 'error' | 'warn') => void;
+  delayMs?: number;   // How long to wait for more changes before rebuilding the menu
+}
+
+const ADD_TO_GROUP_ID = 'addToGroup';
+const NO_GROUPS_ID = 'noGroups';
+const GROUP_ITEM_PREFIX = 'addToGroup:';
+const NEW_RULE_ID = 'newRuleForDomain';
+const EXCLUDE_ID = 'excludeSite';
+
+const CONTEXTS: chrome.contextMenus.ContextType[] = ['page', 'link'];
+const WEB_URL_PATTERNS = ['http://*/*', 'https://*/*'];
+const DEFAULT_DELAY_MS = 500;
+
+/**
+ * ContextMenuBuilder class keeps the context menu entries up to date and runs them when clicked.
+ */
+export class ContextMenuBuilder {
+  private options: Required<ContextMenuOptions>;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private buildChain: Promise<void> = Promise.resolve();
+  
+  constructor(options: ContextMenuOptions) {
+    this.options = { delayMs: DEFAULT_DELAY_MS, ...options };
+    
+    chrome.contextMenus.onClicked.addListener((info) => {
+      this.handleClick(info);
+    });
+    
+    chrome.tabGroups.onCreated.addListener(() => this.requestRebuild());
+    chrome.tabGroups.onUpdated.addListener(() => this.requestRebuild());
+    chrome.tabGroups.onRemoved.addListener(() => this.requestRebuild());
+    
+    this.requestRebuild();
+  }
+  
+  /**
+   * Rebuilds the menu shortly, e.g. after the rules changed
+   */
+  public requestRebuild(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.buildChain = this.buildChain.then(() => this.rebuild());
+    }, this.options.delayMs);
+  }
+  
+  /**
+   * Replaces every menu entry
+   */
+  private async rebuild(): Promise<void> {
+    try {
+      const groupNames = await this.options.getGroupNames();
+      await chrome.contextMenus.removeAll();
+      
+      const common = { contexts: CONTEXTS, documentUrlPatterns: WEB_URL_PATTERNS };
+      
+      chrome.contextMenus.create({ ...common, id: ADD_TO_GROUP_ID, title: 'Add to group' });
+      if (groupNames.length === 0) {
+        chrome.contextMenus.create({
+          ...common,
+          id: NO_GROUPS_ID,
+          parentId: ADD_TO_GROUP_ID,
+          title: 'No groups yet',
+          enabled: false
+        });
+      }
+      groupNames.forEach((groupName) => {
+        chrome.contextMenus.create({
+          ...common,
+          id: `${GROUP_ITEM_PREFIX}${groupName}`,
+          parentId: ADD_TO_GROUP_ID,
+          // A single & would be taken for an access key
+          title: groupName.replace(/&/g, '&&')
+        });
+      });
+      
+      chrome.contextMenus.create({ ...common, id: NEW_RULE_ID, title: 'New rule for this domain…' });
+      chrome.contextMenus.create({ ...common, id: EXCLUDE_ID, title: 'Exclude this site' });
+    } catch (error: any) {
+      this.options.log(`ContextMenus: Error building the context menu: ${error.message}`, "error");
+    }
+  }
+  
+  /**
+   * Runs a clicked menu entry for the clicked link, or else the page
+   * @param info The click details
+   */
+  private async handleClick(info: chrome.contextMenus.OnClickData): Promise<void> {
+    const menuItemId = String(info.menuItemId);
+    
+    let hostname = '';
+    try {
+      hostname = new URL(info.linkUrl || info.pageUrl || '').hostname;
+    } catch (error) {
+      // Not a URL, handled below
+    }
+    if (!hostname) {
+      this.options.log(`ContextMenus: No site to make a rule for`, "warn");
+      return;
+    }
+    
+    try {
+      if (menuItemId.startsWith(GROUP_ITEM_PREFIX)) {
+        this.options.addToGroup(hostname, menuItemId.slice(GROUP_ITEM_PREFIX.length));
+      } else if (menuItemId === NEW_RULE_ID) {
+        await this.options.draftRule(hostname);
+      } else if (menuItemId === EXCLUDE_ID) {
+        this.options.exclude(hostname);
+      }
+    } catch (error: any) {
+      this.options.log(`ContextMenus: Error running "${menuItemId}" for ${hostname}: ${error.message}`, "error");
+    }
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Tab Groups Manager - Exclusions
+ *
+ * Decides which tabs are never grouped automatically: tabs on excluded domains or matching an
+ * excluded URL pattern, pinned or incognito tabs when those are excluded, and every tab in a
+ * window where grouping was switched off. The exclusion rules are stored with the other
+ * settings by the TabGroupManager. Windows only live as long as the browser session, so the
+ * windows with grouping switched off are kept in chrome.storage.session.
+ */
+
+import { ExclusionRule, ExclusionSettings, EXCLUSION_TYPES } from './types';
+
+const DISABLED_WINDOWS_KEY = 'disabledWindows';
+
+/**
+ * Brings an exclusion rule into its stored form: domains are lowercased and punycoded,
+ * with any leading "*." or "." removed
+ * @param rule The rule as entered
+ * @returns The normalized rule, or the rule unchanged if it can't be normalized
+ */
+export function normalizeExclusionRule(rule: ExclusionRule): ExclusionRule {
+  if (rule.type !== 'domain') {
+    return { type: rule.type, value: rule.value };
+  }
+  
+  const domain = rule.value.trim().toLowerCase().replace(/^\*?\./, '').replace(/\.$/, '');
+  try {
+    return { type: 'domain', value: new URL(`http://${domain}/`).hostname };
+  } catch (error) {
+    return { type: 'domain', value: domain };
+  }
+}
+
+/**
+ * Checks an exclusion rule
+ * @param rule The rule to check
+ * @returns An error message, or null if the rule is valid
+ */
+export function validateExclusionRule(rule: ExclusionRule): string | null {
+  if (!EXCLUSION_TYPES.includes(rule.type)) {
+    return `Unknown exclusion type "${rule.type}"`;
+  }
+  if (typeof rule.value !== 'string' || !rule.value.trim()) {
+    return 'A domain or URL pattern is required';
+  }
+  
+  if (rule.type === 'urlPattern') {
+    try {
+      new RegExp(rule.value);
+    } catch (error: any) {
+      return `Invalid regular expression: ${error.message}`;
+    }
+    return null;
+  }
+  
+  const domain = rule.value.trim().replace(/^\*?\./, '');
+  if (/[\s/:?#@]/.test(domain)) {
+    return `"${rule.value}" is not a domain, use a URL pattern to exclude paths`;
+  }
+  try {
+    new URL(`http://${domain}/`);
+  } catch (error) {
+    return `"${rule.value}" is not a domain`;
+  }
+  return null;
+}
+
+/**
+ * ExclusionList class checks tabs against the exclusion settings and the windows with grouping switched off.
+ */
+export class ExclusionList {
+  private settings: ExclusionSettings = { rules: [] };
+  private patterns: (RegExp | null)[] = [];   // Compiled URL patterns, in the same order as the rules
+  private disabledWindows: number[] = [];
+  private ready: Promise<void>;
+  private log: (message: string, level?: 'log' | 'error' | 'warn') => void;
+  
+  constructor(log: (message: string, level?: 'log' | 'error' | 'warn') => void) {
+    this.log = log;
+    this.ready = chrome.storage.session.get(DISABLED_WINDOWS_KEY)
+      .then((result) => {
+        this.disabledWindows = result[DISABLED_WINDOWS_KEY] || [];
+      })
+      .catch((error: any) => {
+        log(`ExclusionList: Error loading windows with grouping switched off: ${error.message}`, "error");
+      });
+    
+    chrome.windows.onRemoved.addListener((windowId) => {
+      this.ready.then(() => {
+        if (this.disabledWindows.includes(windowId)) {
+          this.setWindowDisabled(windowId, false);
+        }
+      });
+    });
+  }
+  
+  /**
+   * Gets the exclusion settings
+   */
+  public getSettings(): ExclusionSettings {
+    return { ...this.settings, rules: this.settings.rules.map(rule => ({ ...rule })) };
+  }
+  
+  /**
+   * Replaces the exclusion settings
+   * @param settings Validated exclusion settings
+   */
+  public setSettings(settings: ExclusionSettings): void {
+    this.settings = {
+      rules: settings.rules.map(normalizeExclusionRule),
+      excludePinned: settings.excludePinned === true,
+      excludeIncognito: settings.excludeIncognito === true
+    };
+    this.patterns = this.settings.rules.map(rule => rule.type === 'urlPattern' ? new RegExp(rule.value) : null);
+  }
+  
+  /**
+   * Adds an exclusion rule
+   * @param rule A validated rule
+   * @returns Whether the rule was added, false if the same rule already exists
+   */
+  public addRule(rule: ExclusionRule): boolean {
+    const normalized = normalizeExclusionRule(rule);
+    if (this.settings.rules.some(existing => existing.type === normalized.type && existing.value === normalized.value)) {
+      return false;
+    }
+    
+    this.setSettings({ ...this.settings, rules: [...this.settings.rules, normalized] });
+    return true;
+  }
+  
+  /**
+   * Removes an exclusion rule
+   * @param index The rule's position in the list
+   * @returns Whether the rule existed
+   */
+  public removeRule(index: number): boolean {
+    if (!Number.isInteger(index) || !this.settings.rules[index]) {
+      return false;
+    }
+    
+    this.setSettings({ ...this.settings, rules: this.settings.rules.filter((_, i) => i !== index) });
+    return true;
+  }
+  
+  /**
+   * Checks whether grouping is switched off in a window
+   * @param windowId The ID of the window
+   */
+  public async isWindowDisabled(windowId: number): Promise<boolean> {
+    await this.ready;
+    return this.disabledWindows.includes(windowId);
+  }
+  
+  /**
+   * Switches grouping off or back on in a window
+   * @param windowId The ID of the window
+   * @param disabled Whether tabs in the window should be left alone
+   */
+  public async setWindowDisabled(windowId: number, disabled: boolean): Promise<void> {
+    await this.ready;
+    
+    this.disabledWindows = this.disabledWindows.filter(id => id !== windowId);
+    if (disabled) {
+      this.disabledWindows.push(windowId);
+    }
+    
+    try {
+      await chrome.storage.session.set({ [DISABLED_WINDOWS_KEY]: this.disabledWindows });
+    } catch (error: any) {
+      this.log(`ExclusionList: Error saving windows with grouping switched off: ${error.message}`, "error");
+    }
+  }
+  
+  /**
+   * Works out why a tab is excluded from grouping
+   * @param tab The tab to check
+   * @returns The reason, or null if the tab may be grouped
+   */
+  public async getExclusionReason(tab: chrome.tabs.Tab): Promise<string | null> {
+    if (await this.isWindowDisabled(tab.windowId)) {
+      return 'grouping is switched off in its window';
+    }
+    if (this.settings.excludePinned && tab.pinned) {
+      return 'pinned tabs are excluded';
+    }
+    if (this.settings.excludeIncognito && tab.incognito) {
+      return 'incognito tabs are excluded';
+    }
+    
+    return tab.url ? this.getUrlExclusionReason(tab.url) : null;
+  }
+  
+  /**
+   * Works out why a URL is excluded from grouping by the domain and URL pattern rules
+   * @param href The URL to check
+   * @returns The reason, or null if the URL may be grouped
+   */
+  public getUrlExclusionReason(href: string): string | null {
+    let url: URL;
+    try {
+      url = new URL(href);
+    } catch (error) {
+      return null;
+    }
+    
+    const index = this.settings.rules.findIndex((rule, i) => {
+      if (rule.type === 'domain') {
+        return url.hostname === rule.value || url.hostname.endsWith(`.${rule.value}`);
+      }
+      return this.patterns[i]!.test(url.href);
+    });
+    if (index === -1) {
+      return null;
+    }
+    
+    const rule = this.settings.rules[index];
+    return rule.type === 'domain' ? `the domain ${rule.value} is excluded` : `the URL pattern /${rule.value}/ is excluded`;
+  }
+}
@@ -0,0 +1,283 @@
+/**
+ * Tab Groups Manager - Grouping Engine
+ *
+ * Groups many tabs at once in two stages. Planning reads every tab, group and window once and
+ * works out, for each target group, the window it goes in and the tabs that join it. Running the
+ * plan then makes one chrome.tabs.group call per group rather than one per tab, so large windows
+ * are grouped quickly and the tab strip redraws once per group instead of flickering tab by tab.
+ * Runs are queued, so two runs never move tabs at the same time, and their progress can be read
+ * while they run.
+ */
+
+import { GroupingPlanEntry, GroupingProgress, WindowStrategy } from './types';
+
+export interface GroupingEngineOptions {
+  getWindowStrategy: () => WindowStrategy;
+  log: (message: string, level?: 'log' | 'error' | 'warn') => void;
+}
+
+/**
+ * One target group and the tabs that join it
+ */
+export interface GroupBatch {
+  groupName: string;
+  color?: chrome.tabGroups.ColorEnum;
+  windowId: number | null;      // The window the group goes in, null to move the tabs to a new window
+  groupId: number | null;       // The existing group the tabs join, null to create one
+  entries: GroupingPlanEntry[];
+  tabs: chrome.tabs.Tab[];      // The tabs as they were when the plan was made, in the order of the entries
+}
+
+/**
+ * How grouping one batch went
+ */
+export interface BatchResult {
+  groupId: number | null;       // null when the batch couldn't be grouped
+  windowId: number | null;
+  created: boolean;             // Whether the group was created for the batch
+  tabIds: number[];             // The tabs that were grouped, which leaves out tabs closed since planning
+}
+
+/**
+ * Called around each batch of a run, e.g. to journal the moves
+ */
+export interface GroupingHooks {
+  beforeGroup?: (batch: GroupBatch) => Promise<void>;
+  afterGroup?: (batch: GroupBatch, result: BatchResult) => Promise<void>;   // Called whether or not the batch was grouped
+}
+
+export interface GroupingRunResult {
+  groupedCount: number;
+  windowIds: number[];          // The windows that tabs were grouped in
+}
+
+/**
+ * GroupingEngine class plans and runs batch grouping.
+ */
+export class GroupingEngine {
+  private options: GroupingEngineOptions;
+  private progress: GroupingProgress | null = null;
+  private runChain: Promise<void> = Promise.resolve();
+  
+  constructor(options: GroupingEngineOptions) {
+    this.options = options;
+  }
+  
+  /**
+   * Groups tabs, after any run already going
+   * @param label What is being grouped, shown with the progress
+   * @param entries The group each tab goes in
+   * @param hooks Called around each batch
+   * @returns How many tabs were grouped, and where
+   */
+  public run(label: string, entries: GroupingPlanEntry[], hooks: GroupingHooks = {}): Promise<GroupingRunResult> {
+    const run = this.runChain.then(() => this.runNow(label, entries, hooks));
+    this.runChain = run.then(() => undefined, () => undefined);
+    return run;
+  }
+  
+  /**
+   * Gets the progress of the current run, or of the last one once it is done
+   * @returns The progress, or null if nothing has run yet
+   */
+  public getProgress(): GroupingProgress | null {
+    return this.progress && { ...this.progress };
+  }
+  
+  /**
+   * Plans and runs the grouping of a set of tabs
+   * @param label What is being grouped
+   * @param entries The group each tab goes in
+   * @param hooks Called around each batch
+   */
+  private async runNow(label: string, entries: GroupingPlanEntry[], hooks: GroupingHooks): Promise<GroupingRunResult> {
+    const progress: GroupingProgress = { label, phase: 'planning', groupsDone: 0, groupsTotal: 0, tabsDone: 0, tabsTotal: entries.length };
+    this.progress = progress;
+    
+    try {
+      const batches = await this.plan(entries);
+      progress.phase = 'grouping';
+      progress.groupsTotal = batches.length;
+      progress.tabsTotal = batches.reduce((total, batch) => total + batch.tabs.length, 0);
+      this.options.log(`GroupingEngine: ${label}: grouping ${progress.tabsTotal} tab(s) into ${batches.length} group(s)`);
+      
+      const windowIds: Set<number> = new Set();
+      let groupedCount = 0;
+      
+      for (const batch of batches) {
+        const result = await this.runBatch(batch, hooks);
+        groupedCount += result.tabIds.length;
+        if (result.windowId !== null && result.tabIds.length > 0) {
+          windowIds.add(result.windowId);
+        }
+        progress.groupsDone++;
+        progress.tabsDone += batch.tabs.length;
+      }
+      
+      return { groupedCount, windowIds: [...windowIds] };
+    } finally {
+      progress.phase = 'done';
+    }
+  }
+  
+  /**
+   * Works out the target groups, reading every tab, group and window once
+   * Tabs that were closed, or that are already in their group, are left out.
+   * @param entries The group each tab goes in
+   * @returns One batch per target group, in the order the groups first appear in the entries
+   */
+  private async plan(entries: GroupingPlanEntry[]): Promise<GroupBatch[]> {
+    const [tabs, groups, windows] = await Promise.all([
+      chrome.tabs.query({}),
+      chrome.tabGroups.query({}),
+      chrome.windows.getAll()
+    ]);
+    
+    const strategy = this.options.getWindowStrategy();
+    const tabsById = new Map(tabs.map(tab => [tab.id, tab]));
+    const windowsById = new Map(windows.map(window => [window.id, window]));
+    const batches: Map<string, GroupBatch> = new Map();
+    
+    for (const entry of entries) {
+      const tab = tabsById.get(entry.tabId);
+      if (!tab) {
+        this.options.log(`GroupingEngine: Leaving out tab ${entry.tabId}, which was closed`, "warn");
+        continue;
+      }
+      
+      // Each window has its own group, unless the strategy keeps a group in one window.
+      // Tabs can't move between incognito and regular windows, so those are kept apart.
+      const key = strategy === 'sameWindow'
+        ? `${tab.windowId}\n${entry.groupName}`
+        : `${tab.incognito}\n${entry.groupName}`;
+      
+      let batch = batches.get(key);
+      if (!batch) {
+        const existing = groups.find(group => group.title === entry.groupName && (strategy === 'sameWindow'
+          ? group.windowId === tab.windowId
+          : this.canHoldTab(windowsById.get(group.windowId), tab)));
+        batch = {
+          groupName: entry.groupName,
+          color: entry.color,
+          windowId: existing ? existing.windowId : tab.windowId,
+          groupId: existing ? existing.id : null,
+          entries: [],
+          tabs: []
+        };
+        batches.set(key, batch);
+      }
+      
+      if (tab.groupId !== batch.groupId) {
+        batch.entries.push(entry);
+        batch.tabs.push(tab);
+      }
+    }
+    
+    // A new group gets a window of its own, unless its tabs are all the tabs of their window
+    if (strategy === 'dedicatedWindow') {
+      const windowTabCounts: Map<number, number> = new Map();
+      tabs.forEach(tab => windowTabCounts.set(tab.windowId, (windowTabCounts.get(tab.windowId) || 0) + 1));
+      
+      batches.forEach((batch) => {
+        if (batch.groupId === null && batch.tabs.length > 0) {
+          const windowId = batch.tabs[0].windowId;
+          const ownsWindow = batch.tabs.every(tab => tab.windowId === windowId) && batch.tabs.length === windowTabCounts.get(windowId);
+          batch.windowId = ownsWindow ? windowId : null;
+        }
+      });
+    }
+    
+    return [...batches.values()].filter(batch => batch.tabs.length > 0);
+  }
+  
+  /**
+   * Checks whether a window can hold a group for a tab
+   * @param window The window holding the group
+   * @param tab The tab joining the group
+   */
+  private canHoldTab(window: chrome.windows.Window | undefined, tab: chrome.tabs.Tab): boolean {
+    return !!window && window.incognito === tab.incognito && window.type === 'normal';
+  }
+  
+  /**
+   * Groups the tabs of one batch with a single chrome.tabs.group call
+   * @param batch The batch
+   * @param hooks Called before and after
+   */
+  private async runBatch(batch: GroupBatch, hooks: GroupingHooks): Promise<BatchResult> {
+    const result: BatchResult = { groupId: null, windowId: batch.windowId, created: false, tabIds: [] };
+    let movedTab: chrome.tabs.Tab | null = null;
+    
+    try {
+      await hooks.beforeGroup?.(batch);
+      
+      const tabIds = batch.tabs.map(tab => tab.id!);
+      if (result.windowId === null) {
+        // The new window takes the first tab with it, and the rest are grouped into it
+        const window = await chrome.windows.create({ tabId: tabIds[0], focused: false });
+        movedTab = batch.tabs[0];
+        result.windowId = window.id ?? movedTab.windowId;
+      }
+      
+      try {
+        result.groupId = await this.groupTabs(batch, result.windowId, tabIds);
+        result.tabIds = tabIds;
+      } catch (error: any) {
+        // One tab closed since planning fails the whole call, so try again with the tabs still open
+        const openTabIds = new Set((await chrome.tabs.query({})).map(tab => tab.id));
+        const remaining = tabIds.filter(tabId => openTabIds.has(tabId));
+        if (remaining.length === 0 || remaining.length === tabIds.length) {
+          throw error;
+        }
+        this.options.log(`GroupingEngine: ${tabIds.length - remaining.length} tab(s) for "${batch.groupName}" were closed, grouping the rest`, "warn");
+        result.groupId = await this.groupTabs(batch, result.windowId, remaining);
+        result.tabIds = remaining;
+      }
+      result.created = batch.groupId === null;
+    } catch (error: any) {
+      result.groupId = null;
+      result.tabIds = [];
+      this.options.log(`GroupingEngine: Error grouping ${batch.tabs.length} tab(s) into "${batch.groupName}": ${error.message}`, "error");
+      if (movedTab) {
+        await this.moveBack(movedTab);
+      }
+    }
+    
+    await hooks.afterGroup?.(batch, result);
+    return result;
+  }
+  
+  /**
+   * Puts a tab back where it was before a new window was created for it
+   * Moving the window's only tab out closes the window. A group the tab was in is rejoined if it still exists.
+   * @param tab The tab as it was when the plan was made
+   */
+  private async moveBack(tab: chrome.tabs.Tab): Promise<void> {
+    try {
+      await chrome.tabs.move(tab.id!, { windowId: tab.windowId, index: tab.index });
+      if (tab.groupId !== chrome.tabGroups.TAB_GROUP_ID_NONE) {
+        await chrome.tabs.group({ groupId: tab.groupId, tabIds: tab.id! });
+      }
+    } catch (error: any) {
+      this.options.log(`GroupingEngine: Error moving tab ${tab.id} back to window ${tab.windowId}: ${error.message}`, "error");
+    }
+  }
+  
+  /**
+   * Puts tabs in the batch's group, creating the group if it doesn't exist
+   * @param batch The batch
+   * @param windowId The window to create the group in
+   * @param tabIds The tabs to group
+   * @returns The ID of the group
+   */
+  private async groupTabs(batch: GroupBatch, windowId: number, tabIds: number[]): Promise<number> {
+    if (batch.groupId !== null) {
+      // This moves the tabs into the group's window if needed
+      return chrome.tabs.group({ groupId: batch.groupId, tabIds });
+    }
+    
+    const groupId = await chrome.tabs.group({ tabIds, createProperties: { windowId } });
+    await chrome.tabGroups.update(groupId, { title: batch.groupName, color: batch.color || 'grey' });
+    return groupId;
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * Tab Groups Manager - Group Housekeeping
+ *
+ * Tidies up stale groups on a chrome.alarms schedule: collapses groups that have been idle for a while,
+ * ungroups groups that have dropped to a single tab, and closes (or saves and closes) long-idle groups.
+ * When each group was last used is kept in chrome.storage.session, so it survives the service worker
+ * being stopped but starts afresh with the browser, when group IDs change anyway.
+ */
+
+import { HousekeepingPolicy } from './types';
+
+export interface HousekeeperOptions {
+  getPolicy: (group: chrome.tabGroups.TabGroup, tabs: chrome.tabs.Tab[]) => HousekeepingPolicy;  // The policy for one group
+  saveGroup: (group: chrome.tabGroups.TabGroup, tabs: chrome.tabs.Tab[]) => Promise<void>;       // Keeps a group before it is closed
+  log: (message: string, level?: 'log' | 'error' | 'warn') => void;
+}
+
+interface GroupActivity {
+  lastActiveAt: number;   // When a tab in the group was last activated, loaded or added, or the group expanded
+  peakTabCount: number;   // The most tabs the group has held, so new single-tab groups aren't ungrouped
+}
+
+interface HousekeepingState {
+  groups: Record<string, GroupActivity>;   // Keyed by group ID
+  releasedTabs: number[];                  // Tabs ungrouped by housekeeping or by hand, left alone until they navigate
+}
+
+const ALARM_NAME = 'groupHousekeeping';
+const STATE_KEY = 'housekeepingState';
+const SWEEP_PERIOD_MINUTES = 1;
+
+/**
+ * GroupHousekeeper class tracks when groups were last used and applies the housekeeping policies to them.
+ */
+export class GroupHousekeeper {
+  private options: HousekeeperOptions;
+  private state: HousekeepingState = { groups: {}, releasedTabs: [] };
+  private ready: Promise<void>;
+  
+  constructor(options: HousekeeperOptions) {
+    this.options = options;
+    this.ready = this.loadState();
+    
+    chrome.alarms.onAlarm.addListener((alarm) => {
+      if (alarm.name === ALARM_NAME) {
+        this.sweep();
+      }
+    });
+    
+    chrome.tabs.onActivated.addListener(async (activeInfo) => {
+      try {
+        const tab = await chrome.tabs.get(activeInfo.tabId);
+        this.touch(tab.groupId);
+      } catch (error: any) {
+        this.options.log(`Housekeeping: Error tracking tab activation: ${error.message}`, "error");
+      }
+    });
+    
+    chrome.tabs.onUpdated.addListener(async (tabId, changeInfo, tab) => {
+      try {
+        if (changeInfo.url) {
+          this.unrelease(tabId);
+          this.touch(tab.groupId);
+        }
+        
+        // A tab joined a group, count its tabs so the group can be ungrouped once it shrinks to one
+        if (changeInfo.groupId !== undefined && changeInfo.groupId !== chrome.tabGroups.TAB_GROUP_ID_NONE) {
+          const groupTabs = await chrome.tabs.query({ groupId: changeInfo.groupId });
+          this.touch(changeInfo.groupId, groupTabs.length);
+        }
+      } catch (error: any) {
+        this.options.log(`Housekeeping: Error tracking tab update: ${error.message}`, "error");
+      }
+    });
+    
+    chrome.tabs.onRemoved.addListener((tabId) => {
+      this.unrelease(tabId);
+    });
+    
+    chrome.tabGroups.onCreated.addListener((group) => {
+      this.touch(group.id);
+    });
+    
+    // Collapsing doesn't count as using a group, otherwise collapsing it would reset its idle time
+    chrome.tabGroups.onUpdated.addListener((group) => {
+      if (!group.collapsed) {
+        this.touch(group.id);
+      }
+    });
+    
+    chrome.tabGroups.onRemoved.addListener((group) => {
+      this.ready.then(() => {
+        delete this.state.groups[String(group.id)];
+        this.saveState();
+      });
+    });
+  }
+  
+  /**
+   * Starts or stops the housekeeping schedule
+   * @param scheduled Whether any housekeeping policy is turned on
+   */
+  public async setScheduled(scheduled: boolean): Promise<void> {
+    const alarm = await chrome.alarms.get(ALARM_NAME);
+    
+    if (scheduled && !alarm) {
+      this.options.log(`Housekeeping: Scheduling housekeeping every ${SWEEP_PERIOD_MINUTES} minute(s)`);
+      await chrome.alarms.create(ALARM_NAME, { periodInMinutes: SWEEP_PERIOD_MINUTES });
+    } else if (!scheduled && alarm) {
+      this.options.log("Housekeeping: Stopping housekeeping");
+      await chrome.alarms.clear(ALARM_NAME);
+    }
+  }
+  
+  /**
+   * Checks whether a tab was ungrouped and hasn't navigated since, so it shouldn't be regrouped
+   * @param tabId The ID of the tab
+   */
+  public async isReleased(tabId: number): Promise<boolean> {
+    await this.ready;
+    return this.state.releasedTabs.includes(tabId);
+  }
+  
+  /**
+   * Leaves a tab ungrouped until it navigates, e.g. after the user ungrouped it with a shortcut
+   * @param tabId The ID of the tab
+   */
+  public release(tabId: number): void {
+    this.ready.then(() => {
+      if (!this.state.releasedTabs.includes(tabId)) {
+        this.state.releasedTabs.push(tabId);
+        this.saveState();
+      }
+    });
+  }
+  
+  /**
+   * Applies the housekeeping policies to every group
+   */
+  public async sweep(): Promise<void> {
+    await this.ready;
+    
+    const now = Date.now();
+    const groups = await chrome.tabGroups.query({});
+    const liveGroups = new Set<string>();
+    
+    for (const group of groups) {
+      const key = String(group.id);
+      liveGroups.add(key);
+      
+      try {
+        const tabs = await chrome.tabs.query({ groupId: group.id });
+        
+        // Groups seen for the first time (e.g. after the extension was updated) start out active
+        const activity = this.state.groups[key] ?? { lastActiveAt: now, peakTabCount: tabs.length };
+        activity.peakTabCount = Math.max(activity.peakTabCount, tabs.length);
+        
+        // A group showing the active tab of a window is in use
+        if (tabs.some(tab => tab.active)) {
+          activity.lastActiveAt = now;
+        }
+        this.state.groups[key] = activity;
+        
+        await this.applyPolicy(group, tabs, activity, this.options.getPolicy(group, tabs), now);
+      } catch (error: any) {
+        this.options.log(`Housekeeping: Error tidying group "${group.title}": ${error.message}`, "error");
+      }
+    }
+    
+    // Forget groups that no longer exist
+    Object.keys(this.state.groups)
+      .filter(key => !liveGroups.has(key))
+      .forEach(key => delete this.state.groups[key]);
+    
+    await this.saveState();
+  }
+  
+  /**
+   * Applies a housekeeping policy to one group. At most one step is taken per sweep.
+   * @param group The group
+   * @param tabs The tabs in the group
+   * @param activity When the group was last used
+   * @param policy The policy for the group
+   * @param now The time of the sweep
+   */
+  private async applyPolicy(
+    group: chrome.tabGroups.TabGroup,
+    tabs: chrome.tabs.Tab[],
+    activity: GroupActivity,
+    policy: HousekeepingPolicy,
+    now: number
+  ): Promise<void> {
+    const idleMinutes = (now - activity.lastActiveAt) / 60000;
+    const title = group.title || `group ${group.id}`;
+    
+    if (policy.ungroupSingletons && tabs.length === 1 && activity.peakTabCount > 1) {
+      const tabId = tabs[0].id!;
+      await chrome.tabs.ungroup(tabId);
+      this.state.releasedTabs.push(tabId);
+      this.options.log(`Housekeeping: Ungrouped "${title}", which is down to a single tab`);
+      return;
+    }
+    
+    if (policy.closeAfterMinutes && idleMinutes >= policy.closeAfterMinutes) {
+      // Closing every tab in a window would close the window too, so leave those groups alone
+      const windowTabs = await chrome.tabs.query({ windowId: group.windowId });
+      if (windowTabs.length > tabs.length) {
+        const save = policy.closeAction === 'saveAndClose';
+        if (save) {
+          await this.options.saveGroup(group, tabs);
+        }
+        await chrome.tabs.remove(tabs.map(tab => tab.id!));
+        this.options.log(`Housekeeping: ${save ? 'Saved and closed' : 'Closed'} "${title}" (${tabs.length} tab(s)), idle for ${Math.floor(idleMinutes)} minute(s)`);
+        return;
+      }
+      
+      // Only mention it on the first sweep past the threshold, not every minute after
+      if (idleMinutes < policy.closeAfterMinutes + SWEEP_PERIOD_MINUTES) {
+        this.options.log(`Housekeeping: Not closing idle group "${title}", it is the only thing in its window`, "warn");
+      }
+    }
+    
+    if (policy.collapseAfterMinutes && idleMinutes >= policy.collapseAfterMinutes && !group.collapsed) {
+      await chrome.tabGroups.update(group.id, { collapsed: true });
+      this.options.log(`Housekeeping: Collapsed "${title}", idle for ${Math.floor(idleMinutes)} minute(s)`);
+    }
+  }
+  
+  /**
+   * Records that a group was just used
+   * @param groupId The ID of the group, ignored when it is TAB_GROUP_ID_NONE
+   * @param tabCount How many tabs the group holds now, if known
+   */
+  private touch(groupId: number, tabCount: number = 0): void {
+    if (groupId === chrome.tabGroups.TAB_GROUP_ID_NONE) {
+      return;
+    }
+    
+    this.ready.then(() => {
+      const key = String(groupId);
+      const activity = this.state.groups[key];
+      this.state.groups[key] = { lastActiveAt: Date.now(), peakTabCount: Math.max(activity?.peakTabCount ?? 0, tabCount) };
+      this.saveState();
+    });
+  }
+  
+  /**
+   * Lets a tab ungrouped by housekeeping be grouped again
+   * @param tabId The ID of the tab
+   */
+  private unrelease(tabId: number): void {
+    this.ready.then(() => {
+      if (this.state.releasedTabs.includes(tabId)) {
+        this.state.releasedTabs = this.state.releasedTabs.filter(id => id !== tabId);
+        this.saveState();
+      }
+    });
+  }
+  
+  /**
+   * Loads the group activity kept from before the service worker was last stopped
+   */
+  private async loadState(): Promise<void> {
+    try {
+      const result = await chrome.storage.session.get(STATE_KEY);
+      if (result[STATE_KEY]) {
+        this.state = result[STATE_KEY];
+      }
+    } catch (error: any) {
+      this.options.log(`Housekeeping: Error loading group activity: ${error.message}`, "error");
+    }
+  }
+  
+  /**
+   * Stores the group activity
+   */
+  private async saveState(): Promise<void> {
+    try {
+      await chrome.storage.session.set({ [STATE_KEY]: this.state });
+    } catch (error: any) {
+      this.options.log(`Housekeeping: Error saving group activity: ${error.message}`, "error");
+    }
+  }
+}
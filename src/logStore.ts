@@ -0,0 +1,148 @@
+/**
+ * Tab Groups Manager - Log Store
+ *
+ * Keeps the most recent log entries in a ring buffer and writes them to chrome.storage.session,
+ * so the logs survive the service worker being stopped, which is often when they are needed.
+ * They are cleared when the browser restarts. Writes are batched, since grouping a batch of
+ * tabs logs many entries at once.
+ */
+
+import { LogEntry } from './types';
+
+export interface LogStoreOptions {
+  capacity?: number;  // The most entries kept, the oldest are dropped first
+  delayMs?: number;   // How long to wait for more entries before writing them
+}
+
+const STORAGE_KEY = 'logs';
+const DEFAULT_CAPACITY = 1000;
+const DEFAULT_DELAY_MS = 500;
+const MAX_MESSAGE_LENGTH = 2000;  // Keeps a full buffer well inside the chrome.storage.session quota
+
+/**
+ * Formats a log entry as one line of text
+ * @param entry The entry to format
+ */
+export function formatLogEntry(entry: LogEntry): string {
+  const about = [
+    entry.tabId !== undefined ? `tab ${entry.tabId}` : '',
+    entry.ruleId ? `rule ${entry.ruleId}` : ''
+  ].filter(part => part).join(', ');
+  
+  return `[${entry.timestamp}] ${entry.level.toUpperCase()} ${entry.category}: ${entry.message}${about ? ` (${about})` : ''}`;
+}
+
+/**
+ * LogStore class holds the log entries and persists them.
+ *
+ * Entries logged before the stored ones are loaded are kept, and come after the loaded ones.
+ */
+export class LogStore {
+  private options: Required<LogStoreOptions>;
+  private buffer: (LogEntry | undefined)[];
+  private start: number = 0;    // Position of the oldest entry
+  private size: number = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private ready: Promise<void>;
+  
+  constructor(options: LogStoreOptions = {}) {
+    this.options = { capacity: DEFAULT_CAPACITY, delayMs: DEFAULT_DELAY_MS, ...options };
+    this.buffer = new Array(this.options.capacity);
+    
+    this.ready = chrome.storage.session.get(STORAGE_KEY)
+      .then((result) => {
+        const stored: LogEntry[] = Array.isArray(result[STORAGE_KEY]) ? result[STORAGE_KEY] : [];
+        const logged = this.getEntriesNow();
+        this.reset();
+        [...stored, ...logged].forEach(entry => this.push(entry));
+      })
+      .catch((error: any) => {
+        // Logging the error would only add to the logs that couldn't be loaded
+        console.error(`LogStore: Error loading logs: ${error.message}`);
+      });
+  }
+  
+  /**
+   * Adds an entry, dropping the oldest one if the buffer is full
+   * Long messages are cut short.
+   * @param entry The entry to add
+   */
+  public append(entry: LogEntry): void {
+    if (entry.message.length > MAX_MESSAGE_LENGTH) {
+      entry = { ...entry, message: `${entry.message.slice(0, MAX_MESSAGE_LENGTH)}… (${entry.message.length} characters)` };
+    }
+    this.push(entry);
+    this.requestSave();
+  }
+  
+  /**
+   * Gets the stored entries, once any from before the service worker was stopped are loaded
+   * @returns The entries, oldest first
+   */
+  public async getEntries(): Promise<LogEntry[]> {
+    await this.ready;
+    return this.getEntriesNow();
+  }
+  
+  /**
+   * Deletes every entry
+   */
+  public async clear(): Promise<void> {
+    await this.ready;
+    this.reset();
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await chrome.storage.session.remove(STORAGE_KEY);
+  }
+  
+  /**
+   * Adds an entry to the ring buffer
+   * @param entry The entry to add
+   */
+  private push(entry: LogEntry): void {
+    const capacity = this.options.capacity;
+    this.buffer[(this.start + this.size) % capacity] = entry;
+    if (this.size < capacity) {
+      this.size++;
+    } else {
+      this.start = (this.start + 1) % capacity;
+    }
+  }
+  
+  /**
+   * Empties the ring buffer
+   */
+  private reset(): void {
+    this.buffer = new Array(this.options.capacity);
+    this.start = 0;
+    this.size = 0;
+  }
+  
+  /**
+   * Reads the ring buffer in order
+   * @returns The entries, oldest first
+   */
+  private getEntriesNow(): LogEntry[] {
+    const capacity = this.options.capacity;
+    return Array.from({ length: this.size }, (_, i) => this.buffer[(this.start + i) % capacity]!);
+  }
+  
+  /**
+   * Writes the entries shortly, together with any logged in the meantime
+   */
+  private requestSave(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.ready
+        .then(() => chrome.storage.session.set({ [STORAGE_KEY]: this.getEntriesNow() }))
+        .catch((error: any) => {
+          console.error(`LogStore: Error saving logs: ${error.message}`);
+        });
+    }, this.options.delayMs);
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Tab Groups Manager - Managed Tabs
+ *
+ * Remembers which tabs the extension put in their group and which rule did it, so tabs
+ * grouped by hand can be told apart and left alone. The registry is kept in
+ * chrome.storage.session, so it survives the service worker being stopped but not a
+ * browser restart, after which every tab counts as grouped by hand.
+ */
+
+import { RuleType } from './types';
+
+export interface ManagedTab {
+  groupId: number | null;   // The group the extension put the tab in, null while it is being moved
+  ruleType: RuleType;
+  rule: string;             // The pattern source, auto-pattern template or registrable domain that chose the group
+}
+
+const STORAGE_KEY = 'managedTabs';
+
+/**
+ * ManagedTabRegistry class tracks the tabs the extension grouped.
+ *
+ * A tab stops being managed as soon as it ends up in a group the extension didn't put it in,
+ * i.e. when the user drags it into another group or ungroups it.
+ */
+export class ManagedTabRegistry {
+  private tabs: Record<string, ManagedTab> = {};   // Keyed by tab ID
+  private ready: Promise<void>;
+  private log: (message: string, level?: 'log' | 'error' | 'warn') => void;
+  
+  constructor(log: (message: string, level?: 'log' | 'error' | 'warn') => void) {
+    this.log = log;
+    this.ready = chrome.storage.session.get(STORAGE_KEY)
+      .then((result) => {
+        this.tabs = result[STORAGE_KEY] || {};
+      })
+      .catch((error: any) => {
+        log(`ManagedTabRegistry: Error loading managed tabs: ${error.message}`, "error");
+      });
+    
+    chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+      if (changeInfo.groupId === undefined) {
+        return;
+      }
+      
+      this.ready.then(() => {
+        const managed = this.tabs[String(tabId)];
+        // Moves the extension is making are still marked as in progress
+        if (managed && managed.groupId !== null && managed.groupId !== changeInfo.groupId) {
+          log(`ManagedTabRegistry: Tab ${tabId} was moved by hand, it will no longer be regrouped`);
+          this.forget(tabId);
+        }
+      });
+    });
+    
+    chrome.tabs.onRemoved.addListener((tabId) => {
+      this.forget(tabId);
+    });
+  }
+  
+  /**
+   * Gets how the extension grouped a tab
+   * @param tabId The ID of the tab
+   * @returns The group and rule, or undefined if the extension didn't group the tab
+   */
+  public async get(tabId: number): Promise<ManagedTab | undefined> {
+    await this.ready;
+    return this.tabs[String(tabId)];
+  }
+  
+  /**
+   * Marks a tab as being moved by the extension, so the group change it causes isn't taken for the user's
+   * @param tabId The ID of the tab
+   * @param ruleType The kind of rule moving it
+   * @param rule The rule moving it
+   */
+  public async beginMove(tabId: number, ruleType: RuleType, rule: string): Promise<void> {
+    await this.ready;
+    this.tabs[String(tabId)] = { groupId: null, ruleType, rule };
+  }
+  
+  /**
+   * Records the group a tab was moved into, finishing a move
+   * @param tabId The ID of the tab
+   * @param groupId The ID of its new group
+   */
+  public async endMove(tabId: number, groupId: number): Promise<void> {
+    await this.ready;
+    const managed = this.tabs[String(tabId)];
+    if (managed) {
+      managed.groupId = groupId;
+      this.save();
+    }
+  }
+  
+  /**
+   * Forgets a tab, e.g. because it was closed, ungrouped, or the move failed
+   * @param tabId The ID of the tab
+   */
+  public forget(tabId: number): void {
+    this.ready.then(() => {
+      if (this.tabs[String(tabId)]) {
+        delete this.tabs[String(tabId)];
+        this.save();
+      }
+    });
+  }
+  
+  /**
+   * Stores the registry
+   */
+  private save(): void {
+    chrome.storage.session.set({ [STORAGE_KEY]: this.tabs }).catch((error: any) => {
+      this.log(`ManagedTabRegistry: Error saving managed tabs: ${error.message}`, "error");
+    });
+  }
+}
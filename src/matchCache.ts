@@ -0,0 +1,360 @@
+/**
+ * Tab Groups Manager - Match Cache
+ *
+ * Remembers which group each URL resolved to, so tabs opening the same sites don't run every rule
+ * again. The cache is keyed on only the parts of a URL the current rules look at, e.g. just the
+ * hostname while every rule matches hostnames, so all the pages of a site share one entry. It holds
+ * a bounded number of entries and drops the least recently used first. Entries are written to
+ * chrome.storage.session, so they survive the service worker being stopped.
+ *
+ * When the rules change, only the entries the change could affect are dropped: those whose rule was
+ * removed or edited, and those a rule that now comes before their rule would match.
+ *
+ * A lookup that misses adds its own cost to running the rules, so a full cache that rarely hits, e.g.
+ * when a host + path rule gives every page its own entry, is skipped for a while and tried again.
+ */
+
+export interface CacheRule {
+  id: string;             // Identifies the rule and everything that decides its group, so an edited rule gets a new ID
+  subject: string;        // What the rule looks at: 'hostname', 'hostPath', 'url' or 'query:<name>'
+  matches: (url: URL) => boolean;
+}
+
+export interface CachedMatch<T> {
+  url: string;            // A URL that resolved to the value, tested again when the rules change
+  ruleId: string | null;  // The rule that matched, null when none did
+  value: T | null;
+}
+
+export interface MatchCacheStats {
+  size: number;
+  capacity: number;
+  hits: number;
+  misses: number;
+  skipped: number;    // Lookups made while the cache was being skipped
+}
+
+export interface MatchCacheOptions {
+  log: (message: string, level?: 'log' | 'error' | 'warn') => void;
+  capacity?: number;  // The most entries kept, the least recently used are dropped first
+  delayMs?: number;   // How long to wait for more entries before writing them
+}
+
+interface StoredMatchCache<T> {
+  ruleIds: string[];
+  subjects: string[];
+  entries: [string, CachedMatch<T>][];
+}
+
+const STORAGE_KEY = 'matchCache';
+const DEFAULT_CAPACITY = 5000;
+const DEFAULT_DELAY_MS = 1000;
+const EVICTION_SHARE = 0.05;   // The share of entries dropped at once when the cache is full
+const SAMPLE_LOOKUPS = 500;    // How many lookups the hit rate is measured over
+const MIN_HIT_RATE = 0.5;      // Below this, a full cache costs more time than it saves
+const SKIP_LOOKUPS = 9500;     // How many lookups skip the cache before it is tried again
+
+/**
+ * Works out which parts of a URL a set of rules looks at
+ * The whole URL covers everything else, and host + path covers the hostname.
+ * @param rules The rules
+ * @returns The subjects, in a stable order
+ */
+function getKeySubjects(rules: CacheRule[]): string[] {
+  const subjects = new Set(rules.map(rule => rule.subject));
+  if (subjects.has('url')) {
+    return ['url'];
+  }
+  if (subjects.has('hostPath')) {
+    subjects.delete('hostname');
+  }
+  return [...subjects].sort();
+}
+
+/**
+ * Gets the position of each rule, where the first of two identical rules is the one that can match
+ * @param ruleIds The rule IDs, in the order they are tried
+ */
+function indexRules(ruleIds: string[]): Map<string, number> {
+  const index: Map<string, number> = new Map();
+  ruleIds.forEach((id, position) => {
+    if (!index.has(id)) {
+      index.set(id, position);
+    }
+  });
+  return index;
+}
+
+/**
+ * MatchCache class holds the resolved matches and keeps them in step with the rules.
+ *
+ * Nothing is read from or added to the cache until the rules are set, since the stored entries
+ * may have been resolved with rules that changed while the service worker was stopped.
+ */
+export class MatchCache<T> {
+  private options: Required<MatchCacheOptions>;
+  private entries: Map<string, CachedMatch<T>> = new Map();   // In order of use, least recent first
+  private ruleIds: string[] = [];       // The rules the entries were resolved with, in order
+  private subjects: string[] = [];
+  private rulesSet: boolean = false;
+  private hits: number = 0;
+  private misses: number = 0;
+  private skipped: number = 0;
+  private sampleLookups: number = 0;
+  private sampleHits: number = 0;
+  private skipLeft: number = 0;         // Lookups left before the cache is tried again
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private ready: Promise<void>;
+  
+  constructor(options: MatchCacheOptions) {
+    this.options = { capacity: DEFAULT_CAPACITY, delayMs: DEFAULT_DELAY_MS, ...options };
+    
+    this.ready = chrome.storage.session.get(STORAGE_KEY)
+      .then((result) => {
+        const stored: StoredMatchCache<T> | undefined = result[STORAGE_KEY];
+        if (stored && Array.isArray(stored.ruleIds) && Array.isArray(stored.subjects) && Array.isArray(stored.entries)) {
+          this.ruleIds = stored.ruleIds;
+          this.subjects = stored.subjects;
+          this.entries = new Map(stored.entries.slice(-this.options.capacity));
+        }
+      })
+      .catch((error: any) => {
+        this.options.log(`MatchCache: Error loading cached matches: ${error.message}`, "error");
+      });
+  }
+  
+  /**
+   * Looks up the match for a URL, marking it as recently used
+   * @param url The URL
+   * @returns The cached match, or undefined if there is none
+   */
+  public get(url: URL): CachedMatch<T> | undefined {
+    if (!this.rulesSet) {
+      return undefined;
+    }
+    
+    if (this.skipLeft > 0) {
+      this.skipLeft--;
+      this.skipped++;
+      return undefined;
+    }
+    
+    const key = this.getKey(url);
+    const match = this.entries.get(key);
+    if (!match) {
+      this.misses++;
+      this.sample(false);
+      return undefined;
+    }
+    
+    // Maps keep insertion order, so adding the entry again makes it the most recently used
+    this.entries.delete(key);
+    this.entries.set(key, match);
+    this.hits++;
+    this.sample(true);
+    return match;
+  }
+  
+  /**
+   * Counts a lookup towards the hit rate, skipping the cache for a while if a full cache rarely hits
+   * A cache that isn't full yet is still filling up, so a low hit rate then doesn't count against it.
+   * @param hit Whether the lookup found an entry
+   */
+  private sample(hit: boolean): void {
+    this.sampleLookups++;
+    if (hit) {
+      this.sampleHits++;
+    }
+    if (this.sampleLookups < SAMPLE_LOOKUPS) {
+      return;
+    }
+    
+    const hitRate = this.sampleHits / this.sampleLookups;
+    this.sampleLookups = 0;
+    this.sampleHits = 0;
+    if (hitRate < MIN_HIT_RATE && this.entries.size >= this.options.capacity * (1 - EVICTION_SHARE)) {
+      this.skipLeft = SKIP_LOOKUPS;
+      this.options.log(`MatchCache: Only ${Math.round(hitRate * 100)}% of lookups hit, skipping the cache for the next ${SKIP_LOOKUPS}`);
+    }
+  }
+  
+  /**
+   * Caches the match for a URL, dropping the least recently used entries if the cache is full
+   * @param url The URL
+   * @param ruleId The rule that matched, null when none did
+   * @param value What the URL resolved to
+   */
+  public set(url: URL, ruleId: string | null, value: T | null): void {
+    if (!this.rulesSet || this.skipLeft > 0) {
+      return;
+    }
+    
+    const key = this.getKey(url);
+    this.entries.delete(key);
+    this.entries.set(key, { url: url.href, ruleId, value });
+    
+    if (this.entries.size > this.options.capacity) {
+      this.evict();
+    }
+    this.requestSave();
+  }
+  
+  /**
+   * Drops the least recently used entries, a batch at a time
+   * Dropping one entry per insert is slow: each drop leaves a hole at the front of the map, and
+   * finding the oldest entry means stepping over all of them until the map is rebuilt.
+   */
+  private evict(): void {
+    const target = Math.floor(this.options.capacity * (1 - EVICTION_SHARE));
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= target) {
+        break;
+      }
+      this.entries.delete(key);
+    }
+  }
+  
+  /**
+   * Replaces the rules, dropping the entries the change could affect
+   * An entry still holds if its rule is unchanged and no rule that has moved in front of it matches the entry's URL.
+   * @param rules Every rule, in the order they are tried
+   * @returns The number of entries dropped
+   */
+  public async setRules(rules: CacheRule[]): Promise<number> {
+    await this.ready;
+    
+    const oldIndex = indexRules(this.ruleIds);
+    const newIndex = indexRules(rules.map(rule => rule.id));
+    const oldSubjects = this.subjects.join();
+    const sizeBefore = this.entries.size;
+    
+    const stale: string[] = [];
+    this.entries.forEach((match, key) => {
+      if (!this.stillHolds(match, rules, oldIndex, newIndex)) {
+        stale.push(key);
+      }
+    });
+    stale.forEach(key => this.entries.delete(key));
+    
+    this.ruleIds = rules.map(rule => rule.id);
+    this.subjects = getKeySubjects(rules);
+    this.rulesSet = true;
+    
+    // The new rules may key entries differently, so the hit rate is measured again
+    this.skipLeft = 0;
+    this.sampleLookups = 0;
+    this.sampleHits = 0;
+    
+    // Keys change when the rules look at other parts of URLs, so every entry is keyed again
+    if (this.subjects.join() !== oldSubjects) {
+      this.entries = new Map([...this.entries.values()].map(match => [this.getKey(new URL(match.url)), match]));
+    }
+    
+    if (stale.length > 0) {
+      this.options.log(`MatchCache: Rules changed, dropped ${stale.length} of ${sizeBefore} cached matches`);
+    }
+    this.requestSave();
+    return stale.length;
+  }
+  
+  /**
+   * Checks whether a cached match still holds under new rules
+   * Rules that came before the match's rule before didn't match, or it wouldn't have won, so only
+   * the rules that have moved in front of it are tested.
+   * @param match The cached match
+   * @param rules The new rules, in the order they are tried
+   * @param oldIndex The position of each old rule by ID
+   * @param newIndex The position of each new rule by ID
+   */
+  private stillHolds(match: CachedMatch<T>, rules: CacheRule[], oldIndex: Map<string, number>, newIndex: Map<string, number>): boolean {
+    const oldPosition = match.ruleId === null ? Infinity : oldIndex.get(match.ruleId);
+    const newPosition = match.ruleId === null ? rules.length : newIndex.get(match.ruleId);
+    if (oldPosition === undefined || newPosition === undefined) {
+      return false;
+    }
+    
+    let url: URL | null = null;
+    for (let i = 0; i < newPosition; i++) {
+      const before = oldIndex.get(rules[i].id);
+      if (before !== undefined && before < oldPosition) {
+        continue;
+      }
+      url = url || new URL(match.url);
+      if (rules[i].matches(url)) {
+        return false;
+      }
+    }
+    return true;
+  }
+  
+  /**
+   * Drops the entries that pass a test, e.g. those for a group whose color changed
+   * @param predicate Whether to drop an entry
+   * @returns The number of entries dropped
+   */
+  public invalidate(predicate: (match: CachedMatch<T>) => boolean): number {
+    let dropped = 0;
+    this.entries.forEach((match, key) => {
+      if (predicate(match)) {
+        this.entries.delete(key);
+        dropped++;
+      }
+    });
+    
+    if (dropped > 0) {
+      this.options.log(`MatchCache: Dropped ${dropped} cached matches`);
+      this.requestSave();
+    }
+    return dropped;
+  }
+  
+  /**
+   * Gets the number of entries and how often lookups found one
+   */
+  public getStats(): MatchCacheStats {
+    return {
+      size: this.entries.size,
+      capacity: this.options.capacity,
+      hits: this.hits,
+      misses: this.misses,
+      skipped: this.skipped
+    };
+  }
+  
+  /**
+   * Builds the cache key for a URL out of the parts the rules look at
+   * @param url The URL
+   */
+  private getKey(url: URL): string {
+    return this.subjects.map((subject) => {
+      switch (subject) {
+        case 'url':
+          return url.href;
+        case 'hostPath':
+          return url.hostname + url.pathname;
+        case 'hostname':
+          return url.hostname;
+        default:
+          // A missing parameter and an empty one can match differently
+          return `${subject}=${JSON.stringify(url.searchParams.get(subject.slice('query:'.length)))}`;
+      }
+    }).join('\n');
+  }
+  
+  /**
+   * Writes the entries shortly, together with any added in the meantime
+   */
+  private requestSave(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const stored: StoredMatchCache<T> = { ruleIds: this.ruleIds, subjects: this.subjects, entries: [...this.entries] };
+      chrome.storage.session.set({ [STORAGE_KEY]: stored })
+        .catch((error: any) => {
+          this.options.log(`MatchCache: Error saving cached matches: ${error.message}`, "error");
+        });
+    }, this.options.delayMs);
+  }
+}
@@ -0,0 +1,456 @@
+/**
+ * Tab Groups Manager - Message Protocol
+ *
+ * The typed request/response protocol between the popup and the background service.
+ * Every request carries the protocol version and an action, and every response is an
+ * envelope holding either the action's result or a structured error.
+ */
+
+import {
+  MatchTarget,
+  MATCH_TARGETS,
+  GROUP_COLORS,
+  AutoPatternColor,
+  AUTO_PATTERN_COLORS,
+  StoredPattern,
+  WindowStrategy,
+  WINDOW_STRATEGIES,
+  RegistrableDomainMode,
+  REGISTRABLE_DOMAIN_MODES,
+  HousekeepingPolicy,
+  OrderingPolicy,
+  SavedGroup,
+  Workspace,
+  NavigationMode,
+  NAVIGATION_MODES,
+  ExclusionType,
+  EXCLUSION_TYPES,
+  ExclusionSettings,
+  GroupingPlanEntry,
+  TabExplanation,
+  RuleTestResult,
+  DraftRuleCount,
+  ImportStrategy,
+  IMPORT_STRATEGIES,
+  RuleSet,
+  ImportResult,
+  SyncStatus,
+  LogEntry,
+  RuleUsageReport,
+  GroupingOperation,
+  GroupingProgress
+} from './types';
+
+/**
+ * Version of the message protocol, bumped whenever a request or response changes shape
+ */
+export const PROTOCOL_VERSION = 1;
+
+// How long the popup waits for the background service before giving up on a request
+const RESPONSE_TIMEOUT_MS = 10000;
+
+// Actions that group, reopen or move back many tabs, which can take minutes on a large window
+const LONG_RESPONSE_TIMEOUT_MS = 5 * 60 * 1000;
+const LONG_RUNNING_ACTIONS: ReadonlySet<string> = new Set<MessageAction>([
+  'groupExistingTabs',
+  'applyGroupingPreview',
+  'restoreWorkspace',
+  'undoLastOperation'
+]);
+
+/**
+ * Every action, with the fields of its request and the result it responds with
+ */
+export interface MessageMap {
+  getLogs: { request: {}; response: { logs: LogEntry[] } };
+  clearLogs: { request: {}; response: {} };
+  getPatterns: { request: {}; response: { patterns: StoredPattern[] } };
+  addPattern: {
+    request: {
+      pattern: string;
+      groupName: string;
+      color?: chrome.tabGroups.ColorEnum;
+      matchTarget?: MatchTarget;
+      queryParam?: string;
+    };
+    response: {};
+  };
+  removePattern: { request: { index: number }; response: {} };
+  reorderPatterns: { request: { order: number[] }; response: {} };
+  refreshPatterns: { request: {}; response: {} };
+  getAutoPatterns: { request: {}; response: { enabled: boolean } };
+  setAutoPatterns: { request: { enabled: boolean }; response: {} };
+  getAutoPatternTemplates: {
+    request: {};
+    response: {
+      templates: string[];
+      patterns: {
+        template: string;
+        groupNameTemplate: string;
+        color?: AutoPatternColor;
+        housekeeping?: HousekeepingPolicy;
+        navigationMode?: NavigationMode;
+        ordering?: OrderingPolicy;
+      }[];
+    };
+  };
+  addAutoPattern: {
+    request: { template: string; groupNameTemplate?: string; color?: AutoPatternColor };
+    response: {};
+  };
+  removeAutoPattern: { request: { template: string }; response: {} };
+  reorderAutoPatterns: { request: { templates: string[] }; response: {} };
+  getWindowStrategy: { request: {}; response: { strategy: WindowStrategy } };
+  setWindowStrategy: { request: { strategy: WindowStrategy }; response: {} };
+  getRegistrableDomainMode: { request: {}; response: { mode: RegistrableDomainMode } };
+  setRegistrableDomainMode: { request: { mode: RegistrableDomainMode }; response: {} };
+  getBackgroundTabProcessing: { request: {}; response: { enabled: boolean } };
+  setBackgroundTabProcessing: { request: { enabled: boolean }; response: {} };
+  getHousekeeping: { request: {}; response: { policy: HousekeepingPolicy } };
+  setHousekeeping: { request: { policy: HousekeepingPolicy }; response: {} };
+  setPatternHousekeeping: { request: { index: number; policy: HousekeepingPolicy }; response: {} };
+  setAutoPatternHousekeeping: { request: { template: string; policy: HousekeepingPolicy }; response: {} };
+  getNavigationMode: { request: {}; response: { mode: NavigationMode } };
+  setNavigationMode: { request: { mode: NavigationMode }; response: {} };
+  setPatternNavigationMode: { request: { index: number; mode?: NavigationMode }; response: {} };
+  setAutoPatternNavigationMode: { request: { template: string; mode?: NavigationMode }; response: {} };
+  getOrdering: { request: {}; response: { policy: OrderingPolicy } };
+  setOrdering: { request: { policy: OrderingPolicy }; response: {} };
+  setPatternOrdering: { request: { index: number; policy: OrderingPolicy }; response: {} };
+  setAutoPatternOrdering: { request: { template: string; policy: OrderingPolicy }; response: {} };
+  getExclusions: { request: {}; response: { exclusions: ExclusionSettings } };
+  addExclusion: { request: { type: ExclusionType; value: string }; response: {} };
+  removeExclusion: { request: { index: number }; response: {} };
+  setExclusionOptions: { request: { excludePinned: boolean; excludeIncognito: boolean }; response: {} };
+  getWindowGrouping: { request: { windowId: number }; response: { disabled: boolean } };
+  setWindowGrouping: { request: { windowId: number; disabled: boolean }; response: {} };
+  getSavedGroups: { request: {}; response: { groups: SavedGroup[] } };
+  restoreSavedGroup: { request: { index: number }; response: {} };
+  removeSavedGroup: { request: { index: number }; response: {} };
+  getWorkspaces: { request: {}; response: { workspaces: Workspace[] } };
+  saveWorkspace: { request: { name: string; windowId: number }; response: {} };
+  updateWorkspace: { request: { index: number; windowId: number }; response: {} };
+  renameWorkspace: { request: { index: number; name: string }; response: {} };
+  removeWorkspace: { request: { index: number }; response: {} };
+  restoreWorkspace: { request: { index: number; windowId?: number }; response: {} };
+  takeRuleDraft: { request: {}; response: { draft: StoredPattern | null } };
+  getColorOverrides: { request: {}; response: { overrides: Record<string, chrome.tabGroups.ColorEnum> } };
+  setColorOverride: { request: { name: string; color: chrome.tabGroups.ColorEnum }; response: {} };
+  removeColorOverride: { request: { name: string }; response: {} };
+  getSyncStatus: { request: {}; response: { enabled: boolean; status: SyncStatus } };
+  setSyncEnabled: { request: { enabled: boolean }; response: { status: SyncStatus } };
+  exportRules: { request: {}; response: { ruleSet: RuleSet } };
+  importRules: { request: { data: unknown; strategy: ImportStrategy }; response: ImportResult };
+  explainTab: { request: { tabId: number }; response: { explanation: TabExplanation } };
+  testRules: {
+    request: {
+      urls: string[];
+      pattern?: string;   // A draft manual pattern to test along with the saved rules
+      groupName?: string;
+      color?: chrome.tabGroups.ColorEnum;
+      matchTarget?: MatchTarget;
+      queryParam?: string;
+    };
+    response: { results: RuleTestResult[]; draftCount?: DraftRuleCount };
+  };
+  getLastOperation: { request: {}; response: { operation: GroupingOperation | null } };
+  undoLastOperation: { request: {}; response: { operation: GroupingOperation } };
+  getRuleUsage: {
+    request: {};
+    // In the same order as getPatterns and getAutoPatternTemplates
+    response: { patterns: RuleUsageReport[]; autoPatterns: RuleUsageReport[]; unusedDays: number };
+  };
+  setUnusedRuleDays: { request: { days: number }; response: {} };
+  removeUnusedRules: { request: {}; response: { removedCount: number } };
+  previewGrouping: { request: {}; response: { plan: GroupingPlanEntry[] } };
+  applyGroupingPreview: { request: { tabIds?: number[] }; response: { groupedCount: number } };
+  groupExistingTabs: { request: {}; response: { groupedCount: number } };
+  getGroupingProgress: { request: {}; response: { progress: GroupingProgress | null } };
+}
+
+export type MessageAction = keyof MessageMap;
+
+export type MessageRequest<A extends MessageAction = MessageAction> =
+  { version: number; action: A } & MessageMap[A]['request'];
+
+/**
+ * Why a request failed
+ * - MALFORMED_MESSAGE: the message isn't a request object, or a field has the wrong type
+ * - UNSUPPORTED_VERSION: the request was sent with a different protocol version
+ * - UNKNOWN_ACTION: no handler exists for the action
+ * - INVALID_ARGUMENT: the fields are well-formed but their values were rejected (e.g. an invalid regex)
+ * - NOT_FOUND: the request refers to something that doesn't exist (e.g. a removed pattern)
+ * - INTERNAL_ERROR: the handler failed unexpectedly
+ * - NO_RESPONSE: the background service didn't answer (set by the sender, never sent)
+ */
+export type MessageErrorCode =
+  | 'MALFORMED_MESSAGE'
+  | 'UNSUPPORTED_VERSION'
+  | 'UNKNOWN_ACTION'
+  | 'INVALID_ARGUMENT'
+  | 'NOT_FOUND'
+  | 'INTERNAL_ERROR'
+  | 'NO_RESPONSE';
+
+export interface MessageErrorInfo {
+  code: MessageErrorCode;
+  message: string;
+  details?: string[];   // Individual problems, such as one per invalid rule in an import
+}
+
+export type MessageResponse<A extends MessageAction = MessageAction> =
+  | { version: number; ok: true; data: MessageMap[A]['response'] }
+  | { version: number; ok: false; error: MessageErrorInfo };
+
+/**
+ * MessageError class is thrown by handlers to fail a request with a specific code,
+ * and by sendMessage when a request fails
+ */
+export class MessageError extends Error {
+  public readonly code: MessageErrorCode;
+  public readonly details?: string[];
+  
+  constructor(code: MessageErrorCode, message: string, details?: string[]) {
+    super(message);
+    this.name = 'MessageError';
+    this.code = code;
+    this.details = details;
+  }
+  
+  /**
+   * Gets the error in the form it is sent in a response
+   */
+  public toInfo(): MessageErrorInfo {
+    return this.details ? { code: this.code, message: this.message, details: this.details } : { code: this.code, message: this.message };
+  }
+}
+
+/**
+ * The expected type of one request field
+ */
+interface FieldSpec {
+  type: 'string' | 'number' | 'boolean' | 'number[]' | 'string[]' | 'unknown';
+  optional?: boolean;
+  oneOf?: readonly string[];  // Allowed values for string fields
+}
+
+/**
+ * The fields of every request, checked before the request reaches its handler
+ */
+const REQUEST_FIELDS: { [A in MessageAction]: { [K in keyof MessageMap[A]['request']]-?: FieldSpec } } = {
+  getLogs: {},
+  clearLogs: {},
+  getPatterns: {},
+  addPattern: {
+    pattern: { type: 'string' },
+    groupName: { type: 'string' },
+    color: { type: 'string', optional: true, oneOf: GROUP_COLORS },
+    matchTarget: { type: 'string', optional: true, oneOf: MATCH_TARGETS },
+    queryParam: { type: 'string', optional: true }
+  },
+  removePattern: { index: { type: 'number' } },
+  reorderPatterns: { order: { type: 'number[]' } },
+  refreshPatterns: {},
+  getAutoPatterns: {},
+  setAutoPatterns: { enabled: { type: 'boolean' } },
+  getAutoPatternTemplates: {},
+  addAutoPattern: {
+    template: { type: 'string' },
+    groupNameTemplate: { type: 'string', optional: true },
+    color: { type: 'string', optional: true, oneOf: AUTO_PATTERN_COLORS }
+  },
+  removeAutoPattern: { template: { type: 'string' } },
+  reorderAutoPatterns: { templates: { type: 'string[]' } },
+  getWindowStrategy: {},
+  setWindowStrategy: { strategy: { type: 'string', oneOf: WINDOW_STRATEGIES } },
+  getRegistrableDomainMode: {},
+  setRegistrableDomainMode: { mode: { type: 'string', oneOf: REGISTRABLE_DOMAIN_MODES } },
+  getBackgroundTabProcessing: {},
+  setBackgroundTabProcessing: { enabled: { type: 'boolean' } },
+  getHousekeeping: {},
+  setHousekeeping: { policy: { type: 'unknown' } },
+  setPatternHousekeeping: {
+    index: { type: 'number' },
+    policy: { type: 'unknown' }
+  },
+  setAutoPatternHousekeeping: {
+    template: { type: 'string' },
+    policy: { type: 'unknown' }
+  },
+  getNavigationMode: {},
+  setNavigationMode: { mode: { type: 'string', oneOf: NAVIGATION_MODES } },
+  setPatternNavigationMode: {
+    index: { type: 'number' },
+    mode: { type: 'string', optional: true, oneOf: NAVIGATION_MODES }
+  },
+  setAutoPatternNavigationMode: {
+    template: { type: 'string' },
+    mode: { type: 'string', optional: true, oneOf: NAVIGATION_MODES }
+  },
+  getOrdering: {},
+  setOrdering: { policy: { type: 'unknown' } },
+  setPatternOrdering: {
+    index: { type: 'number' },
+    policy: { type: 'unknown' }
+  },
+  setAutoPatternOrdering: {
+    template: { type: 'string' },
+    policy: { type: 'unknown' }
+  },
+  getExclusions: {},
+  addExclusion: {
+    type: { type: 'string', oneOf: EXCLUSION_TYPES },
+    value: { type: 'string' }
+  },
+  removeExclusion: { index: { type: 'number' } },
+  setExclusionOptions: {
+    excludePinned: { type: 'boolean' },
+    excludeIncognito: { type: 'boolean' }
+  },
+  getWindowGrouping: { windowId: { type: 'number' } },
+  setWindowGrouping: {
+    windowId: { type: 'number' },
+    disabled: { type: 'boolean' }
+  },
+  getSavedGroups: {},
+  restoreSavedGroup: { index: { type: 'number' } },
+  removeSavedGroup: { index: { type: 'number' } },
+  getWorkspaces: {},
+  saveWorkspace: { name: { type: 'string' }, windowId: { type: 'number' } },
+  updateWorkspace: { index: { type: 'number' }, windowId: { type: 'number' } },
+  renameWorkspace: { index: { type: 'number' }, name: { type: 'string' } },
+  removeWorkspace: { index: { type: 'number' } },
+  restoreWorkspace: { index: { type: 'number' }, windowId: { type: 'number', optional: true } },
+  takeRuleDraft: {},
+  getColorOverrides: {},
+  setColorOverride: {
+    name: { type: 'string' },
+    color: { type: 'string', oneOf: GROUP_COLORS }
+  },
+  removeColorOverride: { name: { type: 'string' } },
+  getSyncStatus: {},
+  setSyncEnabled: { enabled: { type: 'boolean' } },
+  exportRules: {},
+  importRules: {
+    data: { type: 'unknown' },
+    strategy: { type: 'string', oneOf: IMPORT_STRATEGIES }
+  },
+  explainTab: { tabId: { type: 'number' } },
+  testRules: {
+    urls: { type: 'string[]' },
+    pattern: { type: 'string', optional: true },
+    groupName: { type: 'string', optional: true },
+    color: { type: 'string', optional: true, oneOf: GROUP_COLORS },
+    matchTarget: { type: 'string', optional: true, oneOf: MATCH_TARGETS },
+    queryParam: { type: 'string', optional: true }
+  },
+  getLastOperation: {},
+  undoLastOperation: {},
+  getRuleUsage: {},
+  setUnusedRuleDays: { days: { type: 'number' } },
+  removeUnusedRules: {},
+  previewGrouping: {},
+  applyGroupingPreview: { tabIds: { type: 'number[]', optional: true } },
+  groupExistingTabs: {},
+  getGroupingProgress: {}
+};
+
+/**
+ * Checks that a message is a well-formed request for a known action
+ * @param message The message as received
+ * @returns The problem with the message, or null if it is a valid request
+ */
+export function validateRequest(message: unknown): MessageErrorInfo | null {
+  if (!message || typeof message !== 'object' || Array.isArray(message)) {
+    return { code: 'MALFORMED_MESSAGE', message: 'A request must be an object' };
+  }
+  
+  const request = message as Record<string, unknown>;
+  
+  if (request.version !== PROTOCOL_VERSION) {
+    return {
+      code: 'UNSUPPORTED_VERSION',
+      message: `Protocol version ${String(request.version)} is not supported, expected ${PROTOCOL_VERSION}`
+    };
+  }
+  
+  if (typeof request.action !== 'string') {
+    return { code: 'MALFORMED_MESSAGE', message: 'A request must have an action' };
+  }
+  
+  if (!Object.prototype.hasOwnProperty.call(REQUEST_FIELDS, request.action)) {
+    return { code: 'UNKNOWN_ACTION', message: `Unknown action "${request.action}"` };
+  }
+  
+  const fields: Record<string, FieldSpec> = REQUEST_FIELDS[request.action as MessageAction];
+  const problems = Object.entries(fields)
+    .map(([name, spec]) => checkField(name, request[name], spec))
+    .filter((problem): problem is string => problem !== null);
+  
+  if (problems.length > 0) {
+    return { code: 'MALFORMED_MESSAGE', message: `Malformed "${request.action}" request`, details: problems };
+  }
+  
+  return null;
+}
+
+/**
+ * Checks one request field against its spec
+ * @returns The problem with the field, or null if it is valid
+ */
+function checkField(name: string, value: unknown, spec: FieldSpec): string | null {
+  if (value === undefined) {
+    return spec.optional || spec.type === 'unknown' ? null : `"${name}" is required`;
+  }
+  
+  switch (spec.type) {
+    case 'unknown':
+      return null;
+    case 'number[]':
+      return Array.isArray(value) && value.every(item => typeof item === 'number')
+        ? null
+        : `"${name}" must be a list of numbers`;
+    case 'string[]':
+      return Array.isArray(value) && value.every(item => typeof item === 'string')
+        ? null
+        : `"${name}" must be a list of strings`;
+    default:
+      if (typeof value !== spec.type) {
+        return `"${name}" must be a ${spec.type}`;
+      }
+      if (spec.oneOf && !spec.oneOf.includes(value as string)) {
+        return `"${name}" must be one of ${spec.oneOf.join(', ')}`;
+      }
+      return null;
+  }
+}
+
+type RequestArgs<A extends MessageAction> = {} extends MessageMap[A]['request']
+  ? [request?: MessageMap[A]['request']]
+  : [request: MessageMap[A]['request']];
+
+/**
+ * Sends a request to the background service
+ * @param action The action to perform
+ * @param request The request fields, if the action has any
+ * @returns The action's result; rejects with a MessageError if the request failed or went unanswered
+ */
+export function sendMessage<A extends MessageAction>(action: A, ...[request]: RequestArgs<A>): Promise<MessageMap[A]['response']> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      reject(new MessageError('NO_RESPONSE', `No response to "${action}" from the background service`));
+    }, LONG_RUNNING_ACTIONS.has(action) ? LONG_RESPONSE_TIMEOUT_MS : RESPONSE_TIMEOUT_MS);
+    
+    chrome.runtime.sendMessage({ ...request, version: PROTOCOL_VERSION, action }, (response: MessageResponse<A> | undefined) => {
+      clearTimeout(timeout);
+      
+      if (chrome.runtime.lastError || !response) {
+        reject(new MessageError('NO_RESPONSE', chrome.runtime.lastError?.message || `No response to "${action}"`));
+      } else if ('error' in response) {
+        reject(new MessageError(response.error.code, response.error.message, response.error.details));
+      } else {
+        resolve(response.data);
+      }
+    });
+  });
+}
@@ -0,0 +1,260 @@
+/**
+ * Tab Groups Manager - Omnibox
+ *
+ * Handles the "tg" keyword in the address bar:
+ *   tg <group>          focuses the first tab of the best matching group and expands it
+ *   tg +<group> <url>   opens the URL in the group, creating the group if there is none by that name
+ *   tg ?                lists every group
+ * Group names are matched fuzzily against the live group titles from chrome.tabGroups.query.
+ */
+
+export interface OmniboxOptions {
+  addTabToGroup: (tabId: number, groupName: string, windowId: number) => Promise<void>;  // Puts an opened tab in the named group, within the window
+  log: (message: string, level?: 'log' | 'error' | 'warn') => void;
+}
+
+/**
+ * How well a query matches a text, and which characters of the text matched
+ */
+interface FuzzyMatch {
+  score: number;
+  indices: number[];
+}
+
+/**
+ * A group whose title matches what was typed
+ */
+interface GroupMatch {
+  group: chrome.tabGroups.TabGroup;
+  fuzzy: FuzzyMatch;
+  tabCount: number;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Matches a query against a text, ignoring case. Every character of the query has to appear in
+ * the text in order. Exact matches score highest, then prefixes, then substrings, then scattered
+ * characters, with fewer gaps scoring higher.
+ * @param query The typed text
+ * @param text The text to match against
+ * @returns The match, or null if the text doesn't contain the query's characters in order
+ */
+function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const q = query.toLowerCase();
+  const t = text.toLowerCase();
+  
+  if (!q) {
+    return { score: 0, indices: [] };
+  }
+  
+  const range = (start: number) => Array.from({ length: q.length }, (_, i) => start + i);
+  if (t === q) {
+    return { score: 1000, indices: range(0) };
+  }
+  if (t.startsWith(q)) {
+    return { score: 800 - t.length, indices: range(0) };
+  }
+  const substring = t.indexOf(q);
+  if (substring !== -1) {
+    return { score: 600 - substring - t.length, indices: range(substring) };
+  }
+  
+  // Scattered characters
+  const indices: number[] = [];
+  let gaps = 0;
+  let position = 0;
+  for (const char of q) {
+    const index = t.indexOf(char, position);
+    if (index === -1) {
+      return null;
+    }
+    if (index > position) {
+      gaps++;
+    }
+    indices.push(index);
+    position = index + 1;
+  }
+  return { score: 400 - gaps * 10 - t.length, indices };
+}
+
+/**
+ * Escapes text for an omnibox suggestion description, which is XML
+ * @param text The text to escape
+ */
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Marks the matched characters of a text for an omnibox suggestion description
+ * @param text The text
+ * @param indices The positions of the matched characters
+ */
+function highlight(text: string, indices: number[]): string {
+  return [...text]
+    .map((char, i) => indices.includes(i) ? `<match>${escapeXml(char)}</match>` : escapeXml(char))
+    .join('')
+    .replace(/<\/match><match>/g, '');
+}
+
+/**
+ * OmniboxController class turns what is typed after the keyword into suggestions and actions.
+ */
+export class OmniboxController {
+  private options: OmniboxOptions;
+  
+  constructor(options: OmniboxOptions) {
+    this.options = options;
+    
+    chrome.omnibox.onInputChanged.addListener((text, suggest) => {
+      this.suggest(text)
+        .then(suggest)
+        .catch((error: any) => {
+          this.options.log(`Omnibox: Error suggesting groups: ${error.message}`, "error");
+        });
+    });
+    
+    chrome.omnibox.onInputEntered.addListener((text, disposition) => {
+      this.run(text, disposition).catch((error: any) => {
+        this.options.log(`Omnibox: Error running "${text}": ${error.message}`, "error");
+      });
+    });
+  }
+  
+  /**
+   * Builds the suggestions for the typed text, and sets the default suggestion to what Enter will do
+   * @param text What was typed after the keyword
+   * @returns The suggestions to show below the default one
+   */
+  private async suggest(text: string): Promise<chrome.omnibox.SuggestResult[]> {
+    const input = text.trim();
+    
+    if (input.startsWith('+')) {
+      const { groupName, url } = this.parseOpenCommand(input);
+      const matches = await this.findGroups(groupName);
+      const exact = matches.find(match => match.group.title?.toLowerCase() === groupName.toLowerCase());
+      
+      chrome.omnibox.setDefaultSuggestion({
+        description: !groupName
+          ? 'Type a group name and a URL to open it in the group'
+          : `Open <url>${escapeXml(url || '…')}</url> in ${exact ? 'group' : 'a new group'} <match>${escapeXml(groupName)}</match>`
+      });
+      
+      return matches
+        .filter(match => match !== exact)
+        .slice(0, MAX_SUGGESTIONS)
+        .map(({ group, fuzzy }) => ({
+          content: `+${group.title} ${url}`,
+          description: `Open <url>${escapeXml(url || '…')}</url> in group ${highlight(group.title || '', fuzzy.indices)}`
+        }));
+    }
+    
+    // "?" lists every group, or the groups matching what follows it
+    const query = input.startsWith('?') ? input.slice(1).trim() : input;
+    const matches = await this.findGroups(query);
+    
+    chrome.omnibox.setDefaultSuggestion({
+      description: matches.length === 0
+        ? (query ? `No group matches <match>${escapeXml(query)}</match>` : 'There are no groups')
+        : `Go to group ${highlight(matches[0].group.title || '', matches[0].fuzzy.indices)}`
+    });
+    
+    return matches
+      .slice(1, MAX_SUGGESTIONS + 1)
+      .map(({ group, fuzzy, tabCount }) => ({
+        content: group.title || '',
+        description: `Go to group ${highlight(group.title || '', fuzzy.indices)} <dim>(${tabCount} tab${tabCount === 1 ? '' : 's'})</dim>`
+      }));
+  }
+  
+  /**
+   * Runs what was entered after the keyword
+   * @param text What was typed, or the content of the chosen suggestion
+   * @param disposition Where the user asked for a URL to open
+   */
+  private async run(text: string, disposition: chrome.omnibox.OnInputEnteredDisposition): Promise<void> {
+    const input = text.trim();
+    
+    if (input.startsWith('+')) {
+      const { groupName, url } = this.parseOpenCommand(input);
+      if (!groupName || !url) {
+        this.options.log(`Omnibox: "${input}" needs a group name and a URL`, "warn");
+        return;
+      }
+      // Use the existing group's title, so typing "work" doesn't start a second "Work" group
+      const existing = (await this.findGroups(groupName)).find(match => match.group.title?.toLowerCase() === groupName.toLowerCase());
+      await this.openInGroup(url, existing?.group.title || groupName, disposition);
+      return;
+    }
+    
+    const query = input.startsWith('?') ? input.slice(1).trim() : input;
+    const [best] = await this.findGroups(query);
+    if (!best) {
+      this.options.log(`Omnibox: No group matches "${query}"`, "warn");
+      return;
+    }
+    await this.focusGroup(best.group);
+  }
+  
+  /**
+   * Splits "+<group> <url>" into its group name and URL. The URL is the last word, so group names may have spaces.
+   * @param input The text, starting with "+"
+   */
+  private parseOpenCommand(input: string): { groupName: string; url: string } {
+    const words = input.slice(1).trim().split(/\s+/).filter(word => word);
+    if (words.length < 2) {
+      return { groupName: words[0] || '', url: '' };
+    }
+    return { groupName: words.slice(0, -1).join(' '), url: words[words.length - 1] };
+  }
+  
+  /**
+   * Finds the groups whose titles match a query, best first
+   * @param query The typed group name, or empty for every group
+   */
+  private async findGroups(query: string): Promise<GroupMatch[]> {
+    const [groups, tabs] = await Promise.all([chrome.tabGroups.query({}), chrome.tabs.query({})]);
+    
+    return groups
+      .map(group => ({
+        group,
+        fuzzy: fuzzyMatch(query, group.title || ''),
+        tabCount: tabs.filter(tab => tab.groupId === group.id).length
+      }))
+      .filter((match): match is GroupMatch => match.fuzzy !== null)
+      // Array.prototype.sort is stable, so with no query the groups keep the browser's order
+      .sort((a, b) => b.fuzzy.score - a.fuzzy.score);
+  }
+  
+  /**
+   * Expands a group and activates its first tab, bringing its window to the front
+   * @param group The group to focus
+   */
+  private async focusGroup(group: chrome.tabGroups.TabGroup): Promise<void> {
+    const tabs = (await chrome.tabs.query({ groupId: group.id })).sort((a, b) => a.index - b.index);
+    if (tabs.length === 0) {
+      return;
+    }
+    
+    this.options.log(`Omnibox: Going to group "${group.title}"`);
+    await chrome.tabGroups.update(group.id, { collapsed: false });
+    await chrome.tabs.update(tabs[0].id!, { active: true });
+    await chrome.windows.update(group.windowId, { focused: true });
+  }
+  
+  /**
+   * Opens a URL in a new tab and puts the tab in a group
+   * The current tab is never reused, since navigating it would take it out of its own group.
+   * @param url The URL, with or without a scheme
+   * @param groupName The group's name. A group by that name in the tab's window is used if there is one.
+   * @param disposition Whether the new tab opens in the background
+   */
+  private async openInGroup(url: string, groupName: string, disposition: chrome.omnibox.OnInputEnteredDisposition): Promise<void> {
+    const fullUrl = /^[a-z][a-z0-9+.-]*:/i.test(url) ? url : `https://${url}`;
+    const tab = await chrome.tabs.create({ url: fullUrl, active: disposition !== 'newBackgroundTab' });
+    
+    this.options.log(`Omnibox: Opening ${fullUrl} in group "${groupName}"`);
+    await this.options.addTabToGroup(tab.id!, groupName, tab.windowId);
+  }
+}
@@ -5,11 +5,44 @@
  * for tab grouping.
  */
 
-interface StoredPattern {
-  patternStr: string;
-  groupName: string;
-  color?: chrome.tabGroups.ColorEnum;
-}
+import {
+  MatchTarget,
+  AutoPatternColor,
+  StoredPattern,
+  HousekeepingPolicy,
+  IdleGroupAction,
+  OrderingPolicy,
+  GroupSortOrder,
+  TabSortOrder,
+  SavedGroup,
+  RuleTestResult,
+  Workspace,
+  WindowStrategy,
+  RegistrableDomainMode,
+  NavigationMode,
+  ExclusionType,
+  ExclusionSettings,
+  ImportStrategy,
+  GroupingPlanEntry,
+  TabExplanation,
+  SyncStatus,
+  LogLevel,
+  LogEntry,
+  RuleUsageReport,
+  GroupingProgress
+} from './types';
+import { sendMessage, MessageError } from './messages';
+import { formatLogEntry } from './logStore';
+
+/**
+ * Short labels shown next to patterns that don't match on the hostname
+ */
+const MATCH_TARGET_LABELS: Record<MatchTarget, string> = {
+  hostname: 'hostname',
+  hostPath: 'host + path',
+  url: 'full URL',
+  queryParam: 'query param'
+};
 
 /**
  * PopupManager class handles the UI interactions in the popup
@@ -18,19 +51,108 @@ class PopupManager {
   private patternInput: HTMLInputElement;
   private groupNameInput: HTMLInputElement;
   private colorSelect: HTMLSelectElement;
+  private matchTargetSelect: HTMLSelectElement;
+  private queryParamGroup: HTMLDivElement;
+  private queryParamInput: HTMLInputElement;
   private addButton: HTMLButtonElement;
   private patternList: HTMLDivElement;
   private autoPatternToggle: HTMLInputElement;
+  private backgroundTabsToggle: HTMLInputElement;
+  private windowStrategySelect: HTMLSelectElement;
+  private registrableDomainModeSelect: HTMLSelectElement;
+  private navigationModeSelect: HTMLSelectElement;
   private autoPatternTemplateInput: HTMLInputElement;
+  private autoPatternNameTemplateInput: HTMLInputElement;
+  private autoPatternColorSelect: HTMLSelectElement;
   private addAutoPatternButton: HTMLButtonElement;
   private autoPatternList: HTMLDivElement;
+  private colorOverrideNameInput: HTMLInputElement;
+  private colorOverrideColorSelect: HTMLSelectElement;
+  private addColorOverrideButton: HTMLButtonElement;
+  private colorOverrideList: HTMLDivElement;
+  private disableInWindowToggle: HTMLInputElement;
+  private excludePinnedToggle: HTMLInputElement;
+  private excludeIncognitoToggle: HTMLInputElement;
+  private exclusionTypeSelect: HTMLSelectElement;
+  private exclusionValueInput: HTMLInputElement;
+  private addExclusionButton: HTMLButtonElement;
+  private exclusionList: HTMLDivElement;
+  private orderingScopeSelect: HTMLSelectElement;
+  private orderingGlobalFields: HTMLDivElement;
+  private orderingRuleFields: HTMLDivElement;
+  private groupOrderSelect: HTMLSelectElement;
+  private ungroupedAtEndSelect: HTMLSelectElement;
+  private pinnedGroupsInput: HTMLInputElement;
+  private tabOrderSelect: HTMLSelectElement;
+  private pinLeftSelect: HTMLSelectElement;
+  private saveOrderingButton: HTMLButtonElement;
+  private housekeepingScopeSelect: HTMLSelectElement;
+  private housekeepingCollapseInput: HTMLInputElement;
+  private housekeepingUngroupSelect: HTMLSelectElement;
+  private housekeepingCloseInput: HTMLInputElement;
+  private housekeepingCloseActionSelect: HTMLSelectElement;
+  private saveHousekeepingButton: HTMLButtonElement;
+  private savedGroupList: HTMLDivElement;
+  private workspaceNameInput: HTMLInputElement;
+  private saveWorkspaceButton: HTMLButtonElement;
+  private workspaceRestoreTargetSelect: HTMLSelectElement;
+  private workspaceList: HTMLDivElement;
   private refreshLogsButton: HTMLButtonElement;
   private clearLogsButton: HTMLButtonElement;
+  private logLevelFilter: HTMLSelectElement;
+  private logCategoryFilter: HTMLSelectElement;
+  private logSearchInput: HTMLInputElement;
+  private exportLogsJsonButton: HTMLButtonElement;
+  private exportLogsTextButton: HTMLButtonElement;
   private groupExistingTabsButton: HTMLButtonElement;
+  private previewGroupingButton: HTMLButtonElement;
+  private undoLastOperationButton: HTMLButtonElement;
+  private groupingProgress: HTMLDivElement;
+  private groupingProgressBar: HTMLProgressElement;
+  private groupingProgressText: HTMLSpanElement;
+  private previewSection: HTMLDivElement;
+  private previewList: HTMLDivElement;
+  private applySelectedPreviewButton: HTMLButtonElement;
+  private applyAllPreviewButton: HTMLButtonElement;
+  private closePreviewButton: HTMLButtonElement;
+  private shortcutList: HTMLDivElement;
+  private changeShortcutsButton: HTMLButtonElement;
+  private unusedRuleDaysInput: HTMLInputElement;
+  private removeUnusedRulesButton: HTMLButtonElement;
+  private testerUrlsInput: HTMLTextAreaElement;
+  private testerTabSelect: HTMLSelectElement;
+  private testerAddTabButton: HTMLButtonElement;
+  private runTesterButton: HTMLButtonElement;
+  private testerDraft: HTMLDivElement;
+  private testerResults: HTMLDivElement;
+  private explainTabSelect: HTMLSelectElement;
+  private explainButton: HTMLButtonElement;
+  private explainResult: HTMLDivElement;
+  private syncToggle: HTMLInputElement;
+  private syncStatus: HTMLDivElement;
+  private exportRulesButton: HTMLButtonElement;
+  private importStrategySelect: HTMLSelectElement;
+  private importRulesButton: HTMLButtonElement;
+  private importFileInput: HTMLInputElement;
+  private importResult: HTMLDivElement;
   private logContainer: HTMLDivElement;
   private patterns: StoredPattern[] = [];
   private autoPatterns: string[] = [];
+  private autoPatternNameTemplates: Record<string, string> = {};
+  private autoPatternColors: Record<string, AutoPatternColor | undefined> = {};
+  private autoPatternHousekeeping: Record<string, HousekeepingPolicy | undefined> = {};
+  private autoPatternNavigationModes: Record<string, NavigationMode | undefined> = {};
+  private globalHousekeeping: HousekeepingPolicy = {};
+  private autoPatternOrdering: Record<string, OrderingPolicy | undefined> = {};
+  private globalOrdering: OrderingPolicy = {};
+  private currentWindowId: number | null = null;
+  private previewPlan: GroupingPlanEntry[] = [];
   private logRefreshInterval: number | null = null;
+  private groupingProgressInterval: number | null = null;
+  private logs: LogEntry[] = [];
+  private patternUsage: RuleUsageReport[] = [];       // In the same order as patterns
+  private autoPatternUsage: RuleUsageReport[] = [];   // In the same order as autoPatterns
+  private ruleTestTimer: number | null = null;
   
   constructor() {
     console.log("PopupManager: Initializing...");
@@ -39,15 +161,90 @@ class PopupManager {
     this.patternInput = document.getElementById('pattern') as HTMLInputElement;
     this.groupNameInput = document.getElementById('groupName') as HTMLInputElement;
     this.colorSelect = document.getElementById('color') as HTMLSelectElement;
+    this.matchTargetSelect = document.getElementById('matchTarget') as HTMLSelectElement;
+    this.queryParamGroup = document.getElementById('queryParamGroup') as HTMLDivElement;
+    this.queryParamInput = document.getElementById('queryParam') as HTMLInputElement;
     this.addButton = document.getElementById('addPattern') as HTMLButtonElement;
     this.patternList = document.getElementById('patternList') as HTMLDivElement;
     this.autoPatternToggle = document.getElementById('autoPatterns') as HTMLInputElement;
+    this.backgroundTabsToggle = document.getElementById('backgroundTabs') as HTMLInputElement;
+    this.windowStrategySelect = document.getElementById('windowStrategy') as HTMLSelectElement;
+    this.registrableDomainModeSelect = document.getElementById('registrableDomainMode') as HTMLSelectElement;
+    this.navigationModeSelect = document.getElementById('navigationMode') as HTMLSelectElement;
     this.autoPatternTemplateInput = document.getElementById('autoPatternTemplate') as HTMLInputElement;
+    this.autoPatternNameTemplateInput = document.getElementById('autoPatternNameTemplate') as HTMLInputElement;
+    this.autoPatternColorSelect = document.getElementById('autoPatternColor') as HTMLSelectElement;
     this.addAutoPatternButton = document.getElementById('addAutoPattern') as HTMLButtonElement;
     this.autoPatternList = document.getElementById('autoPatternList') as HTMLDivElement;
+    this.colorOverrideNameInput = document.getElementById('colorOverrideName') as HTMLInputElement;
+    this.colorOverrideColorSelect = document.getElementById('colorOverrideColor') as HTMLSelectElement;
+    this.addColorOverrideButton = document.getElementById('addColorOverride') as HTMLButtonElement;
+    this.colorOverrideList = document.getElementById('colorOverrideList') as HTMLDivElement;
+    this.disableInWindowToggle = document.getElementById('disableInWindow') as HTMLInputElement;
+    this.excludePinnedToggle = document.getElementById('excludePinned') as HTMLInputElement;
+    this.excludeIncognitoToggle = document.getElementById('excludeIncognito') as HTMLInputElement;
+    this.exclusionTypeSelect = document.getElementById('exclusionType') as HTMLSelectElement;
+    this.exclusionValueInput = document.getElementById('exclusionValue') as HTMLInputElement;
+    this.addExclusionButton = document.getElementById('addExclusion') as HTMLButtonElement;
+    this.exclusionList = document.getElementById('exclusionList') as HTMLDivElement;
+    this.orderingScopeSelect = document.getElementById('orderingScope') as HTMLSelectElement;
+    this.orderingGlobalFields = document.getElementById('orderingGlobalFields') as HTMLDivElement;
+    this.orderingRuleFields = document.getElementById('orderingRuleFields') as HTMLDivElement;
+    this.groupOrderSelect = document.getElementById('groupOrder') as HTMLSelectElement;
+    this.ungroupedAtEndSelect = document.getElementById('ungroupedAtEnd') as HTMLSelectElement;
+    this.pinnedGroupsInput = document.getElementById('pinnedGroups') as HTMLInputElement;
+    this.tabOrderSelect = document.getElementById('tabOrder') as HTMLSelectElement;
+    this.pinLeftSelect = document.getElementById('pinLeft') as HTMLSelectElement;
+    this.saveOrderingButton = document.getElementById('saveOrdering') as HTMLButtonElement;
+    this.housekeepingScopeSelect = document.getElementById('housekeepingScope') as HTMLSelectElement;
+    this.housekeepingCollapseInput = document.getElementById('housekeepingCollapse') as HTMLInputElement;
+    this.housekeepingUngroupSelect = document.getElementById('housekeepingUngroup') as HTMLSelectElement;
+    this.housekeepingCloseInput = document.getElementById('housekeepingClose') as HTMLInputElement;
+    this.housekeepingCloseActionSelect = document.getElementById('housekeepingCloseAction') as HTMLSelectElement;
+    this.saveHousekeepingButton = document.getElementById('saveHousekeeping') as HTMLButtonElement;
+    this.savedGroupList = document.getElementById('savedGroupList') as HTMLDivElement;
+    this.workspaceNameInput = document.getElementById('workspaceName') as HTMLInputElement;
+    this.saveWorkspaceButton = document.getElementById('saveWorkspace') as HTMLButtonElement;
+    this.workspaceRestoreTargetSelect = document.getElementById('workspaceRestoreTarget') as HTMLSelectElement;
+    this.workspaceList = document.getElementById('workspaceList') as HTMLDivElement;
     this.refreshLogsButton = document.getElementById('refreshLogs') as HTMLButtonElement;
     this.clearLogsButton = document.getElementById('clearLogs') as HTMLButtonElement;
+    this.logLevelFilter = document.getElementById('logLevelFilter') as HTMLSelectElement;
+    this.logCategoryFilter = document.getElementById('logCategoryFilter') as HTMLSelectElement;
+    this.logSearchInput = document.getElementById('logSearch') as HTMLInputElement;
+    this.exportLogsJsonButton = document.getElementById('exportLogsJson') as HTMLButtonElement;
+    this.exportLogsTextButton = document.getElementById('exportLogsText') as HTMLButtonElement;
     this.groupExistingTabsButton = document.getElementById('groupExistingTabs') as HTMLButtonElement;
+    this.undoLastOperationButton = document.getElementById('undoLastOperation') as HTMLButtonElement;
+    this.groupingProgress = document.getElementById('groupingProgress') as HTMLDivElement;
+    this.groupingProgressBar = document.getElementById('groupingProgressBar') as HTMLProgressElement;
+    this.groupingProgressText = document.getElementById('groupingProgressText') as HTMLSpanElement;
+    this.previewGroupingButton = document.getElementById('previewGrouping') as HTMLButtonElement;
+    this.previewSection = document.getElementById('previewSection') as HTMLDivElement;
+    this.previewList = document.getElementById('previewList') as HTMLDivElement;
+    this.applySelectedPreviewButton = document.getElementById('applySelectedPreview') as HTMLButtonElement;
+    this.applyAllPreviewButton = document.getElementById('applyAllPreview') as HTMLButtonElement;
+    this.closePreviewButton = document.getElementById('closePreview') as HTMLButtonElement;
+    this.shortcutList = document.getElementById('shortcutList') as HTMLDivElement;
+    this.changeShortcutsButton = document.getElementById('changeShortcuts') as HTMLButtonElement;
+    this.unusedRuleDaysInput = document.getElementById('unusedRuleDays') as HTMLInputElement;
+    this.removeUnusedRulesButton = document.getElementById('removeUnusedRules') as HTMLButtonElement;
+    this.testerUrlsInput = document.getElementById('testerUrls') as HTMLTextAreaElement;
+    this.testerTabSelect = document.getElementById('testerTab') as HTMLSelectElement;
+    this.testerAddTabButton = document.getElementById('testerAddTab') as HTMLButtonElement;
+    this.runTesterButton = document.getElementById('runTester') as HTMLButtonElement;
+    this.testerDraft = document.getElementById('testerDraft') as HTMLDivElement;
+    this.testerResults = document.getElementById('testerResults') as HTMLDivElement;
+    this.explainTabSelect = document.getElementById('explainTab') as HTMLSelectElement;
+    this.explainButton = document.getElementById('explainButton') as HTMLButtonElement;
+    this.explainResult = document.getElementById('explainResult') as HTMLDivElement;
+    this.syncToggle = document.getElementById('syncRules') as HTMLInputElement;
+    this.syncStatus = document.getElementById('syncStatus') as HTMLDivElement;
+    this.exportRulesButton = document.getElementById('exportRules') as HTMLButtonElement;
+    this.importStrategySelect = document.getElementById('importStrategy') as HTMLSelectElement;
+    this.importRulesButton = document.getElementById('importRules') as HTMLButtonElement;
+    this.importFileInput = document.getElementById('importFile') as HTMLInputElement;
+    this.importResult = document.getElementById('importResult') as HTMLDivElement;
     this.logContainer = document.getElementById('logContainer') as HTMLDivElement;
     
     // Set up event listeners
@@ -56,12 +253,56 @@ class PopupManager {
     // Load patterns from storage
     this.loadPatterns();
     
+    // Fill in the pattern form if the popup was opened from the context menu
+    this.loadRuleDraft();
+    
     // Load auto-pattern setting
     this.loadAutoPatternSetting();
     
+    // Load background tab processing setting
+    this.loadBackgroundTabSetting();
+    
+    // Load window strategy setting
+    this.loadWindowStrategy();
+    
+    // Load registrable domain mode setting
+    this.loadRegistrableDomainMode();
+    
+    // Load navigation mode setting
+    this.loadNavigationMode();
+    
+    // Load sync setting and status
+    this.loadSyncStatus();
+    
     // Load auto-pattern templates
     this.loadAutoPatternTemplates();
     
+    // Load group color overrides
+    this.loadColorOverrides();
+    
+    // Load exclusions and whether grouping is on in this window
+    this.loadExclusions();
+    this.loadWindowGrouping();
+    
+    // Load the global ordering policy
+    this.loadOrdering();
+    
+    // Load housekeeping policy and saved groups
+    this.loadHousekeeping();
+    this.loadSavedGroups();
+    
+    // Load saved workspaces
+    this.loadWorkspaces();
+    
+    // Load keyboard shortcuts
+    this.loadShortcuts();
+    
+    // Load open tabs for the explainer and the rule tester
+    this.loadTabPickers();
+    
+    // Load the grouping operation that can be undone
+    this.loadLastOperation();
+    
     // Load logs
     this.loadLogs();
     
@@ -79,14 +320,80 @@ class PopupManager {
       this.addPattern();
     });
     
+    this.matchTargetSelect.addEventListener('change', () => {
+      this.updateMatchTargetFields();
+    });
+    
     this.autoPatternToggle.addEventListener('change', () => {
       this.toggleAutoPatterns();
     });
     
+    this.backgroundTabsToggle.addEventListener('change', () => {
+      this.toggleBackgroundTabs();
+    });
+    
+    this.windowStrategySelect.addEventListener('change', () => {
+      this.setWindowStrategy();
+    });
+    
+    this.navigationModeSelect.addEventListener('change', () => {
+      this.setNavigationMode();
+    });
+    
+    this.registrableDomainModeSelect.addEventListener('change', () => {
+      this.setRegistrableDomainMode();
+    });
+    
     this.addAutoPatternButton.addEventListener('click', () => {
       this.addAutoPattern();
     });
     
+    this.addColorOverrideButton.addEventListener('click', () => {
+      this.addColorOverride();
+    });
+    
+    this.disableInWindowToggle.addEventListener('change', () => {
+      this.toggleWindowGrouping();
+    });
+    
+    this.excludePinnedToggle.addEventListener('change', () => {
+      this.setExclusionOptions();
+    });
+    
+    this.excludeIncognitoToggle.addEventListener('change', () => {
+      this.setExclusionOptions();
+    });
+    
+    this.exclusionTypeSelect.addEventListener('change', () => {
+      this.exclusionValueInput.placeholder = this.exclusionTypeSelect.value === 'domain'
+        ? 'e.g. meet.google.com'
+        : 'e.g. ^https://example\\.com/admin';
+    });
+    
+    this.addExclusionButton.addEventListener('click', () => {
+      this.addExclusion();
+    });
+    
+    this.orderingScopeSelect.addEventListener('change', () => {
+      this.showOrderingPolicy();
+    });
+    
+    this.saveOrderingButton.addEventListener('click', () => {
+      this.saveOrdering();
+    });
+    
+    this.housekeepingScopeSelect.addEventListener('change', () => {
+      this.showHousekeepingPolicy();
+    });
+    
+    this.saveHousekeepingButton.addEventListener('click', () => {
+      this.saveHousekeeping();
+    });
+    
+    this.saveWorkspaceButton.addEventListener('click', () => {
+      this.saveWorkspace();
+    });
+    
     this.refreshLogsButton.addEventListener('click', () => {
       this.loadLogs();
     });
@@ -95,9 +402,111 @@ class PopupManager {
       this.clearLogs();
     });
     
+    this.logLevelFilter.addEventListener('change', () => {
+      this.renderLogs();
+    });
+    
+    this.logCategoryFilter.addEventListener('change', () => {
+      this.renderLogs();
+    });
+    
+    this.logSearchInput.addEventListener('input', () => {
+      this.renderLogs();
+    });
+    
+    this.exportLogsJsonButton.addEventListener('click', () => {
+      this.exportLogs('json');
+    });
+    
+    this.exportLogsTextButton.addEventListener('click', () => {
+      this.exportLogs('text');
+    });
+    
     this.groupExistingTabsButton.addEventListener('click', () => {
       this.groupExistingTabs();
     });
+    
+    this.previewGroupingButton.addEventListener('click', () => {
+      this.previewGrouping();
+    });
+    
+    this.undoLastOperationButton.addEventListener('click', () => {
+      this.undoLastOperation();
+    });
+    
+    this.applySelectedPreviewButton.addEventListener('click', () => {
+      this.applyPreview(true);
+    });
+    
+    this.applyAllPreviewButton.addEventListener('click', () => {
+      this.applyPreview(false);
+    });
+    
+    this.closePreviewButton.addEventListener('click', () => {
+      this.closePreview();
+    });
+    
+    // Retest as the draft pattern or the URLs are edited
+    [this.patternInput, this.groupNameInput, this.queryParamInput, this.testerUrlsInput].forEach((input) => {
+      input.addEventListener('input', () => this.scheduleRuleTest());
+    });
+    [this.matchTargetSelect, this.colorSelect].forEach((select) => {
+      select.addEventListener('change', () => this.scheduleRuleTest());
+    });
+    
+    this.unusedRuleDaysInput.addEventListener('change', () => {
+      this.setUnusedRuleDays();
+    });
+    
+    this.removeUnusedRulesButton.addEventListener('click', () => {
+      this.removeUnusedRules();
+    });
+    
+    this.testerAddTabButton.addEventListener('click', () => {
+      this.addTesterTab();
+    });
+    
+    this.runTesterButton.addEventListener('click', () => {
+      this.runRuleTest();
+    });
+    
+    this.changeShortcutsButton.addEventListener('click', () => {
+      // The browser's own page is the only place shortcuts can be changed
+      chrome.tabs.create({ url: 'chrome://extensions/shortcuts' });
+    });
+    
+    this.explainButton.addEventListener('click', () => {
+      this.explainTab();
+    });
+    
+    this.syncToggle.addEventListener('change', () => {
+      this.setSyncEnabled();
+    });
+    
+    this.exportRulesButton.addEventListener('click', () => {
+      this.exportRules();
+    });
+    
+    this.importRulesButton.addEventListener('click', () => {
+      this.importFileInput.click();
+    });
+    
+    this.importFileInput.addEventListener('change', () => {
+      const file = this.importFileInput.files?.[0];
+      if (file) {
+        this.importRules(file);
+      }
+      // Reset so picking the same file again still fires a change
+      this.importFileInput.value = '';
+    });
+  }
+  
+  /**
+   * Shows the query parameter field only when the query param target is selected
+   */
+  private updateMatchTargetFields(): void {
+    const isQueryParam = this.matchTargetSelect.value === 'queryParam';
+    this.queryParamGroup.style.display = isQueryParam ? 'block' : 'none';
   }
   
   /**
@@ -131,37 +540,17 @@ class PopupManager {
   private loadLogs(): void {
     console.log("PopupManager: Loading logs from background");
     
-    try {
-      chrome.runtime.sendMessage({ action: 'getLogs' }, (response) => {
-        if (chrome.runtime.lastError) {
-          console.error('PopupManager: Error getting logs:', chrome.runtime.lastError);
-          // Add a log entry in the UI to show the error
-          const errorLogEntry = document.createElement('div');
-          errorLogEntry.className = 'log-entry error';
-          errorLogEntry.textContent = `[Error] Failed to get logs: ${chrome.runtime.lastError.message || 'Unknown error'}`;
-          this.logContainer.appendChild(errorLogEntry);
-          return;
-        }
-        
-        if (response && response.logs) {
-          this.renderLogs(response.logs);
-        } else {
-          console.warn('PopupManager: Received empty logs response');
-          // Show a warning in the UI
-          const warningLogEntry = document.createElement('div');
-          warningLogEntry.className = 'log-entry warn';
-          warningLogEntry.textContent = '[Warning] No logs received from background script';
-          this.logContainer.appendChild(warningLogEntry);
-        }
+    sendMessage('getLogs')
+      .then(({ logs }) => {
+        this.logs = logs;
+        this.updateLogCategories();
+        this.renderLogs();
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error getting logs:', error);
+        // Add a log entry in the UI to show the error
+        this.appendLogEntry(`[Error] Failed to get logs: ${error.message}`, 'error');
       });
-    } catch (error) {
-      console.error('PopupManager: Exception loading logs:', error);
-      // Show the error in the UI
-      const errorLogEntry = document.createElement('div');
-      errorLogEntry.className = 'log-entry error';
-      errorLogEntry.textContent = `[Error] ${error}`;
-      this.logContainer.appendChild(errorLogEntry);
-    }
   }
   
   /**
@@ -170,23 +559,72 @@ class PopupManager {
   private clearLogs(): void {
     console.log("PopupManager: Clearing logs");
     
-    chrome.runtime.sendMessage({ action: 'clearLogs' }, (response) => {
-      if (chrome.runtime.lastError) {
-        console.error('PopupManager: Error clearing logs:', chrome.runtime.lastError);
-        return;
-      }
-      
-      // Clear the log container
-      this.logContainer.innerHTML = '';
+    sendMessage('clearLogs')
+      .then(() => {
+        // Clear the log container
+        this.logs = [];
+        this.logContainer.innerHTML = '';
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error clearing logs:', error);
+      });
+  }
+  
+  /**
+   * Adds an entry to the log view straight away, without waiting for the next refresh
+   * @param message The entry text
+   * @param level The entry level, used for styling
+   */
+  private appendLogEntry(message: string, level: 'log' | 'warn' | 'error' = 'log'): void {
+    const logEntry = document.createElement('div');
+    logEntry.className = level === 'log' ? 'log-entry' : `log-entry ${level}`;
+    logEntry.textContent = message;
+    this.logContainer.appendChild(logEntry);
+    this.logContainer.scrollTop = this.logContainer.scrollHeight;
+  }
+  
+  /**
+   * Fills the category filter with the categories of the loaded logs, keeping the selected one
+   */
+  private updateLogCategories(): void {
+    const selected = this.logCategoryFilter.value;
+    const categories = [...new Set(this.logs.map(log => log.category))].sort();
+    if (selected && !categories.includes(selected)) {
+      categories.push(selected);
+    }
+    
+    this.logCategoryFilter.innerHTML = '<option value="">All categories</option>';
+    categories.forEach((category) => {
+      const option = document.createElement('option');
+      option.value = category;
+      option.textContent = category;
+      this.logCategoryFilter.appendChild(option);
     });
+    this.logCategoryFilter.value = selected;
+  }
+  
+  /**
+   * Gets the loaded logs that pass the level, category and search filters
+   * @returns The matching log entries, oldest first
+   */
+  private getFilteredLogs(): LogEntry[] {
+    const levels: LogLevel[] = ['log', 'warn', 'error'];
+    const minLevel = levels.indexOf(this.logLevelFilter.value as LogLevel);
+    const category = this.logCategoryFilter.value;
+    const search = this.logSearchInput.value.trim().toLowerCase();
+    
+    return this.logs.filter(log =>
+      levels.indexOf(log.level) >= minLevel &&
+      (!category || log.category === category) &&
+      (!search || formatLogEntry(log).toLowerCase().includes(search))
+    );
   }
   
   /**
-   * Renders logs in the UI
-   * @param logs The logs to render
+   * Renders the logs that pass the filters in the UI
    */
-  private renderLogs(logs: string[]): void {
-    console.log(`PopupManager: Rendering ${logs.length} logs`);
+  private renderLogs(): void {
+    const logs = this.getFilteredLogs();
     
     // Clear existing logs
     this.logContainer.innerHTML = '';
@@ -194,7 +632,7 @@ class PopupManager {
     if (logs.length === 0) {
       const emptyMessage = document.createElement('div');
       emptyMessage.className = 'log-entry';
-      emptyMessage.textContent = 'No logs available.';
+      emptyMessage.textContent = this.logs.length === 0 ? 'No logs available.' : 'No logs match the filters.';
       this.logContainer.appendChild(emptyMessage);
       return;
     }
@@ -202,16 +640,9 @@ class PopupManager {
     // Add each log entry
     logs.forEach((log) => {
       const logEntry = document.createElement('div');
-      logEntry.className = 'log-entry';
-      
       // Apply styling based on log level
-      if (log.includes('error')) {
-        logEntry.classList.add('error');
-      } else if (log.includes('warn')) {
-        logEntry.classList.add('warn');
-      }
-      
-      logEntry.textContent = log;
+      logEntry.className = log.level === 'log' ? 'log-entry' : `log-entry ${log.level}`;
+      logEntry.textContent = formatLogEntry(log);
       this.logContainer.appendChild(logEntry);
     });
     
@@ -219,21 +650,66 @@ class PopupManager {
     this.logContainer.scrollTop = this.logContainer.scrollHeight;
   }
   
+  /**
+   * Exports the logs that pass the filters to a file, for attaching to bug reports
+   * @param format JSON keeps every field, text is one line per entry
+   */
+  private exportLogs(format: 'json' | 'text'): void {
+    const logs = this.getFilteredLogs();
+    const content = format === 'json'
+      ? JSON.stringify(logs, null, 2)
+      : logs.map(log => formatLogEntry(log)).join('\n');
+    
+    const url = URL.createObjectURL(new Blob([content], { type: format === 'json' ? 'application/json' : 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `tab-groups-logs-${new Date().toISOString().slice(0, 10)}.${format === 'json' ? 'json' : 'txt'}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+  
   /**
    * Loads the auto-pattern setting from the background script
    */
   private loadAutoPatternSetting(): void {
     console.log("PopupManager: Loading auto-pattern setting");
     
-    chrome.runtime.sendMessage({ action: 'getAutoPatterns' }, (response) => {
-      if (chrome.runtime.lastError) {
-        console.error('PopupManager: Error getting auto-pattern setting:', chrome.runtime.lastError);
-        return;
-      }
-      
-      console.log("PopupManager: Auto-patterns enabled:", response?.enabled);
-      this.autoPatternToggle.checked = response?.enabled || false;
-    });
+    sendMessage('getAutoPatterns')
+      .then(({ enabled }) => {
+        console.log("PopupManager: Auto-patterns enabled:", enabled);
+        this.autoPatternToggle.checked = enabled;
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error getting auto-pattern setting:', error);
+      });
+  }
+  
+  /**
+   * Loads the background tab processing setting from the background script
+   */
+  private loadBackgroundTabSetting(): void {
+    sendMessage('getBackgroundTabProcessing')
+      .then(({ enabled }) => {
+        this.backgroundTabsToggle.checked = enabled;
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error getting background tab setting:', error);
+      });
+  }
+  
+  /**
+   * Turns grouping of background tabs on or off
+   */
+  private toggleBackgroundTabs(): void {
+    const enabled = this.backgroundTabsToggle.checked;
+    console.log(`PopupManager: Toggling background tab processing to ${enabled}`);
+    
+    sendMessage('setBackgroundTabProcessing', { enabled })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error setting background tab processing:', error);
+        // Reset toggle to previous state on error
+        this.loadBackgroundTabSetting();
+      });
   }
   
   /**
@@ -242,21 +718,30 @@ class PopupManager {
   private loadAutoPatternTemplates(): void {
     console.log("PopupManager: Loading auto-pattern templates");
     
-    chrome.runtime.sendMessage({ action: 'getAutoPatternTemplates' }, (response) => {
-      if (chrome.runtime.lastError) {
-        console.error('PopupManager: Error getting auto-pattern templates:', chrome.runtime.lastError);
-        return;
-      }
-      
-      console.log("PopupManager: Received templates:", response?.templates);
-      
-      if (Array.isArray(response?.templates)) {
-        this.autoPatterns = response.templates;
+    sendMessage('getAutoPatternTemplates')
+      .then(({ templates, patterns }) => {
+        console.log("PopupManager: Received templates:", templates);
+        
+        this.autoPatterns = templates;
+        this.autoPatternNameTemplates = {};
+        this.autoPatternColors = {};
+        this.autoPatternHousekeeping = {};
+        this.autoPatternNavigationModes = {};
+        this.autoPatternOrdering = {};
+        patterns.forEach((p) => {
+          this.autoPatternNameTemplates[p.template] = p.groupNameTemplate;
+          this.autoPatternColors[p.template] = p.color;
+          this.autoPatternHousekeeping[p.template] = p.housekeeping;
+          this.autoPatternNavigationModes[p.template] = p.navigationMode;
+          this.autoPatternOrdering[p.template] = p.ordering;
+        });
         this.renderAutoPatterns();
-      } else {
-        console.error('PopupManager: Invalid templates response:', response);
-      }
-    });
+        this.renderRuleScopes();
+        this.loadRuleUsage();
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error getting auto-pattern templates:', error);
+      });
   }
   
   /**
@@ -264,107 +749,45 @@ class PopupManager {
    */
   private addAutoPattern(): void {
     const template = this.autoPatternTemplateInput.value.trim();
+    const groupNameTemplate = this.autoPatternNameTemplateInput.value.trim() || undefined;
+    const color = this.autoPatternColorSelect.value as AutoPatternColor;
     console.log(`PopupManager: Adding auto-pattern template: ${template}`);
     
     // Log the action in the UI directly
-    const logEntry = document.createElement('div');
-    logEntry.className = 'log-entry';
-    logEntry.textContent = `[${new Date().toISOString()}] Attempting to add auto-pattern: ${template}`;
-    this.logContainer.appendChild(logEntry);
-    this.logContainer.scrollTop = this.logContainer.scrollHeight;
+    this.appendLogEntry(`[${new Date().toISOString()}] Attempting to add auto-pattern: ${template}`);
     
     if (!template) {
       alert('Please enter a pattern template.');
       return;
     }
     
-    if (!template.includes(':name')) {
-      alert('Pattern must include a :name placeholder.');
+    if (!template.includes(':')) {
+      alert('Pattern must include at least one placeholder, such as :name.');
       return;
     }
     
-    // Send to background script with short timeout
-    const addPatternPromise = new Promise<boolean>((resolve) => {
-      try {
-        chrome.runtime.sendMessage({
-          action: 'addAutoPattern',
-          template
-        }, (response) => {
-          if (chrome.runtime.lastError) {
-            console.error('PopupManager: Error adding auto-pattern:', chrome.runtime.lastError);
-            
-            // Log the error in the UI
-            const errorLogEntry = document.createElement('div');
-            errorLogEntry.className = 'log-entry error';
-            errorLogEntry.textContent = `[Error] Failed to add auto-pattern: ${chrome.runtime.lastError.message || 'Unknown error'}`;
-            this.logContainer.appendChild(errorLogEntry);
-            this.logContainer.scrollTop = this.logContainer.scrollHeight;
-            
-            resolve(false);
-            return;
-          }
-          
-          console.log("PopupManager: Add auto-pattern response:", response);
-          
-          // Log the response in the UI
-          const responseLogEntry = document.createElement('div');
-          responseLogEntry.className = 'log-entry';
-          responseLogEntry.textContent = `[Response] Add auto-pattern: ${JSON.stringify(response)}`;
-          this.logContainer.appendChild(responseLogEntry);
-          this.logContainer.scrollTop = this.logContainer.scrollHeight;
-          
-          resolve(response?.success === true);
-        });
-      } catch (error) {
-        console.error('PopupManager: Exception sending message:', error);
-        
-        // Log the exception in the UI
-        const errorLogEntry = document.createElement('div');
-        errorLogEntry.className = 'log-entry error';
-        errorLogEntry.textContent = `[Exception] ${error}`;
-        this.logContainer.appendChild(errorLogEntry);
-        this.logContainer.scrollTop = this.logContainer.scrollHeight;
-        
-        resolve(false);
-      }
-      
-      // Set a timeout in case the response never comes
-      setTimeout(() => {
-        console.warn('PopupManager: Timeout waiting for addAutoPattern response');
-        
-        // Log the timeout in the UI
-        const timeoutLogEntry = document.createElement('div');
-        timeoutLogEntry.className = 'log-entry warn';
-        timeoutLogEntry.textContent = '[Timeout] No response received from background script';
-        this.logContainer.appendChild(timeoutLogEntry);
-        this.logContainer.scrollTop = this.logContainer.scrollHeight;
-        
-        resolve(false);
-      }, 2000); // Increased timeout to 2 seconds
-    });
-    
-    // Handle the result
-    addPatternPromise.then((success) => {
-      if (success) {
-        // Clear input field
+    sendMessage('addAutoPattern', { template, groupNameTemplate, color })
+      .then(() => {
+        // Clear input fields
         this.autoPatternTemplateInput.value = '';
+        this.autoPatternNameTemplateInput.value = '';
         
         // Reload templates
         this.loadAutoPatternTemplates();
         
         // Log success in the UI
-        const successLogEntry = document.createElement('div');
-        successLogEntry.className = 'log-entry';
-        successLogEntry.textContent = `[Success] Added auto-pattern: ${template}`;
-        this.logContainer.appendChild(successLogEntry);
-        this.logContainer.scrollTop = this.logContainer.scrollHeight;
-      } else {
-        alert('Error adding pattern. Check the logs for details.');
+        this.appendLogEntry(`[Success] Added auto-pattern: ${template}`);
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error adding auto-pattern:', error);
+        
+        // Log the error in the UI
+        this.appendLogEntry(`[Error] Failed to add auto-pattern: ${error.message}`, 'error');
+        alert(`Error adding pattern: ${error.message}`);
         
         // Force a refresh of logs
         setTimeout(() => this.loadLogs(), 500);
-      }
-    });
+      });
   }
   
   /**
@@ -374,35 +797,15 @@ class PopupManager {
   private removeAutoPattern(template: string): void {
     console.log(`PopupManager: Removing auto-pattern template: ${template}`);
     
-    // Send to background script with short timeout
-    const removePatternPromise = new Promise<boolean>((resolve) => {
-      chrome.runtime.sendMessage({
-        action: 'removeAutoPattern',
-        template
-      }, (response) => {
-        if (chrome.runtime.lastError) {
-          console.error('PopupManager: Error removing auto-pattern:', chrome.runtime.lastError);
-          resolve(false);
-          return;
-        }
-        
-        console.log("PopupManager: Remove auto-pattern response:", response);
-        resolve(response?.success === true);
-      });
-      
-      // Set a timeout in case the response never comes
-      setTimeout(() => resolve(false), 1000);
-    });
-    
-    // Handle the result
-    removePatternPromise.then((success) => {
-      if (success) {
+    sendMessage('removeAutoPattern', { template })
+      .then(() => {
         // Reload templates
         this.loadAutoPatternTemplates();
-      } else {
-        alert('Error removing pattern. Please check the console for details.');
-      }
-    });
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error removing auto-pattern:', error);
+        alert(`Error removing pattern: ${error.message}`);
+      });
   }
   
   /**
@@ -421,23 +824,59 @@ class PopupManager {
       return;
     }
     
-    this.autoPatterns.forEach((template) => {
+    this.autoPatterns.forEach((template, index) => {
       const patternItem = document.createElement('div');
       patternItem.className = 'pattern-item';
+      this.makeDraggable(patternItem, index, 'auto', (fromIndex, toIndex) => {
+        this.reorderAutoPatterns(fromIndex, toIndex);
+      });
       
       const patternInfo = document.createElement('div');
       patternInfo.className = 'pattern-info';
-      patternInfo.textContent = template;
+      
+      const color = this.autoPatternColors[template];
+      if (color !== 'hash') {
+        const colorPreview = document.createElement('span');
+        colorPreview.className = 'color-preview';
+        colorPreview.style.backgroundColor = color || 'grey';
+        patternInfo.appendChild(colorPreview);
+      }
+      patternInfo.appendChild(document.createTextNode(template));
+      
+      if (color === 'hash') {
+        const colorLabel = document.createElement('span');
+        colorLabel.className = 'match-target';
+        colorLabel.textContent = 'color by name';
+        patternInfo.appendChild(colorLabel);
+      }
+      
+      const nameTemplate = this.autoPatternNameTemplates[template];
+      if (nameTemplate) {
+        const nameTemplateLabel = document.createElement('span');
+        nameTemplateLabel.className = 'match-target';
+        nameTemplateLabel.textContent = `→ ${nameTemplate}`;
+        patternInfo.appendChild(nameTemplateLabel);
+      }
+      
+      const usage = this.autoPatternUsage[index];
+      if (usage) {
+        patternInfo.appendChild(this.createUsageLabel(usage));
+      }
       
       const patternActions = document.createElement('div');
       patternActions.className = 'pattern-actions';
       
+      const navigationModeSelect = this.createNavigationModeSelect(this.autoPatternNavigationModes[template], (mode) => {
+        this.setAutoPatternNavigationMode(template, mode);
+      });
+      
       const removeButton = document.createElement('button');
       removeButton.textContent = 'Remove';
       removeButton.addEventListener('click', () => {
         this.removeAutoPattern(template);
       });
       
+      patternActions.appendChild(navigationModeSelect);
       patternActions.appendChild(removeButton);
       patternItem.appendChild(patternInfo);
       patternItem.appendChild(patternActions);
@@ -447,214 +886,1608 @@ class PopupManager {
   }
   
   /**
-   * Toggles the auto-pattern feature
+   * Loads the global housekeeping policy from the background script
    */
-  private toggleAutoPatterns(): void {
-    const enabled = this.autoPatternToggle.checked;
-    console.log(`PopupManager: Toggling auto-patterns to ${enabled}`);
-    
-    // Send to background script with short timeout
-    const togglePromise = new Promise<boolean>((resolve) => {
-      chrome.runtime.sendMessage({ 
-        action: 'setAutoPatterns',
-        enabled
-      }, (response) => {
-        if (chrome.runtime.lastError) {
-          console.error('PopupManager: Error setting auto-pattern:', chrome.runtime.lastError);
-          resolve(false);
-          return;
-        }
-        
-        console.log("PopupManager: Set auto-patterns response:", response);
-        resolve(response?.success === true);
+  private loadHousekeeping(): void {
+    sendMessage('getHousekeeping')
+      .then(({ policy }) => {
+        this.globalHousekeeping = policy;
+        this.showHousekeepingPolicy();
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error getting housekeeping policy:', error);
       });
-      
-      // Set a timeout in case the response never comes
-      setTimeout(() => resolve(false), 1000);
-    });
+  }
+  
+  /**
+   * Lists the default policy and every rule in the housekeeping and tab order scope pickers
+   */
+  private renderRuleScopes(): void {
+    this.fillRuleScopes(this.housekeepingScopeSelect);
+    this.fillRuleScopes(this.orderingScopeSelect);
+    this.showHousekeepingPolicy();
+    this.showOrderingPolicy();
+  }
+  
+  /**
+   * Lists the default policy and every rule in a scope picker, keeping the current choice
+   * @param select The scope picker
+   */
+  private fillRuleScopes(select: HTMLSelectElement): void {
+    const selected = select.value;
+    select.innerHTML = '';
     
-    // Handle the result
-    togglePromise.then((success) => {
-      if (!success) {
-        // Reset toggle to previous state on error
-        this.loadAutoPatternSetting();
-      }
+    const addOption = (value: string, label: string) => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = label;
+      select.appendChild(option);
+    };
+    
+    addOption('global', 'Default for all groups');
+    this.patterns.forEach((pattern, index) => {
+      addOption(`manual:${index}`, `Pattern /${pattern.patternStr}/ → ${pattern.groupName}`);
     });
+    this.autoPatterns.forEach((template) => {
+      addOption(`auto:${template}`, `Template ${template}`);
+    });
+    
+    const stillListed = Array.from(select.options).some(option => option.value === selected);
+    select.value = stillListed ? selected : 'global';
   }
   
   /**
-   * Adds a new pattern based on user input
+   * Loads the global ordering policy from the background script
    */
-  private addPattern(): void {
-    const patternStr = this.patternInput.value.trim();
-    const groupName = this.groupNameInput.value.trim();
-    const color = this.colorSelect.value as chrome.tabGroups.ColorEnum;
+  private loadOrdering(): void {
+    sendMessage('getOrdering')
+      .then(({ policy }) => {
+        this.globalOrdering = policy;
+        this.showOrderingPolicy();
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error getting ordering policy:', error);
+      });
+  }
+  
+  /**
+   * Fills the tab order form with the selected scope's policy, showing only the fields the scope can set
+   */
+  private showOrderingPolicy(): void {
+    const scope = this.orderingScopeSelect.value;
+    const isGlobal = scope === 'global';
+    const policy = scope.startsWith('manual:')
+      ? this.patterns[Number(scope.slice('manual:'.length))]?.ordering || {}
+      : scope.startsWith('auto:')
+        ? this.autoPatternOrdering[scope.slice('auto:'.length)] || {}
+        : this.globalOrdering;
     
-    console.log(`PopupManager: Adding manual pattern: ${patternStr} -> ${groupName} (${color})`);
+    this.orderingGlobalFields.style.display = isGlobal ? 'block' : 'none';
+    this.orderingRuleFields.style.display = isGlobal ? 'none' : 'block';
     
-    if (!patternStr || !groupName) {
-      alert('Please enter both a pattern and a group name.');
-      return;
+    this.groupOrderSelect.value = policy.groupOrder || 'none';
+    this.ungroupedAtEndSelect.value = String(policy.ungroupedAtEnd === true);
+    this.pinnedGroupsInput.value = (policy.pinnedGroups || []).join(', ');
+    this.tabOrderSelect.value = policy.tabOrder || '';
+    this.pinLeftSelect.value = String(policy.pinLeft === true);
+  }
+  
+  /**
+   * Saves the tab order form as the selected scope's policy
+   */
+  private saveOrdering(): void {
+    const scope = this.orderingScopeSelect.value;
+    const policy: OrderingPolicy = {};
+    
+    if (this.tabOrderSelect.value) {
+      policy.tabOrder = this.tabOrderSelect.value as TabSortOrder;
+    }
+    if (scope === 'global') {
+      policy.groupOrder = this.groupOrderSelect.value as GroupSortOrder;
+      policy.ungroupedAtEnd = this.ungroupedAtEndSelect.value === 'true';
+      policy.pinnedGroups = this.pinnedGroupsInput.value.split(',').map(name => name.trim()).filter(name => name);
+    } else if (this.pinLeftSelect.value === 'true') {
+      policy.pinLeft = true;
     }
     
-    try {
-      // Test if the pattern is valid
+    console.log(`PopupManager: Saving ordering for ${scope}:`, policy);
+    
+    const request = scope.startsWith('manual:')
+      ? sendMessage('setPatternOrdering', { index: Number(scope.slice('manual:'.length)), policy })
+      : scope.startsWith('auto:')
+        ? sendMessage('setAutoPatternOrdering', { template: scope.slice('auto:'.length), policy })
+        : sendMessage('setOrdering', { policy });
+    
+    request
+      .then(() => {
+        this.appendLogEntry(`[Success] Saved tab order for ${this.orderingScopeSelect.selectedOptions[0]?.textContent}`);
+        this.loadOrdering();
+        this.loadPatterns();
+        this.loadAutoPatternTemplates();
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error saving ordering:', error);
+        alert(`Error saving tab order: ${[error.message, ...(error.details || [])].join('\n')}`);
+      });
+  }
+  
+  /**
+   * Gets the housekeeping policy of the selected scope
+   */
+  private getSelectedHousekeepingPolicy(): HousekeepingPolicy {
+    const scope = this.housekeepingScopeSelect.value;
+    if (scope.startsWith('manual:')) {
+      return this.patterns[Number(scope.slice('manual:'.length))]?.housekeeping || {};
+    }
+    if (scope.startsWith('auto:')) {
+      return this.autoPatternHousekeeping[scope.slice('auto:'.length)] || {};
+    }
+    return this.globalHousekeeping;
+  }
+  
+  /**
+   * Fills the housekeeping form with the selected scope's policy
+   */
+  private showHousekeepingPolicy(): void {
+    const policy = this.getSelectedHousekeepingPolicy();
+    this.housekeepingCollapseInput.value = policy.collapseAfterMinutes !== undefined ? String(policy.collapseAfterMinutes) : '';
+    this.housekeepingUngroupSelect.value = policy.ungroupSingletons !== undefined ? String(policy.ungroupSingletons) : '';
+    this.housekeepingCloseInput.value = policy.closeAfterMinutes !== undefined ? String(policy.closeAfterMinutes) : '';
+    this.housekeepingCloseActionSelect.value = policy.closeAction || '';
+  }
+  
+  /**
+   * Saves the housekeeping form as the selected scope's policy
+   */
+  private saveHousekeeping(): void {
+    const policy: HousekeepingPolicy = {};
+    const collapse = this.housekeepingCollapseInput.value.trim();
+    const close = this.housekeepingCloseInput.value.trim();
+    
+    if (collapse) {
+      policy.collapseAfterMinutes = Number(collapse);
+    }
+    if (this.housekeepingUngroupSelect.value) {
+      policy.ungroupSingletons = this.housekeepingUngroupSelect.value === 'true';
+    }
+    if (close) {
+      policy.closeAfterMinutes = Number(close);
+    }
+    if (this.housekeepingCloseActionSelect.value) {
+      policy.closeAction = this.housekeepingCloseActionSelect.value as IdleGroupAction;
+    }
+    
+    const scope = this.housekeepingScopeSelect.value;
+    console.log(`PopupManager: Saving housekeeping for ${scope}:`, policy);
+    
+    const request = scope.startsWith('manual:')
+      ? sendMessage('setPatternHousekeeping', { index: Number(scope.slice('manual:'.length)), policy })
+      : scope.startsWith('auto:')
+        ? sendMessage('setAutoPatternHousekeeping', { template: scope.slice('auto:'.length), policy })
+        : sendMessage('setHousekeeping', { policy });
+    
+    request
+      .then(() => {
+        this.appendLogEntry(`[Success] Saved housekeeping for ${this.housekeepingScopeSelect.selectedOptions[0]?.textContent}`);
+        this.loadHousekeeping();
+        this.loadPatterns();
+        this.loadAutoPatternTemplates();
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error saving housekeeping:', error);
+        alert(`Error saving housekeeping: ${[error.message, ...(error.details || [])].join('\n')}`);
+      });
+  }
+  
+  /**
+   * Loads the groups saved by housekeeping from the background script
+   */
+  private loadSavedGroups(): void {
+    sendMessage('getSavedGroups')
+      .then(({ groups }) => {
+        this.renderSavedGroups(groups);
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error getting saved groups:', error);
+      });
+  }
+  
+  /**
+   * Renders the groups saved by housekeeping, with buttons to restore or forget each one
+   * @param groups The saved groups, most recent first
+   */
+  private renderSavedGroups(groups: SavedGroup[]): void {
+    this.savedGroupList.innerHTML = '';
+    
+    groups.forEach((group, index) => {
+      const groupItem = document.createElement('div');
+      groupItem.className = 'pattern-item';
+      
+      const groupInfo = document.createElement('div');
+      groupInfo.className = 'pattern-info';
+      
+      const colorPreview = document.createElement('span');
+      colorPreview.className = 'color-preview';
+      colorPreview.style.backgroundColor = group.color;
+      groupInfo.appendChild(colorPreview);
+      groupInfo.appendChild(document.createTextNode(`${group.title || 'Untitled'} (${group.urls.length} tabs)`));
+      
+      const savedAt = document.createElement('span');
+      savedAt.className = 'match-target';
+      savedAt.textContent = new Date(group.savedAt).toLocaleString();
+      groupInfo.appendChild(savedAt);
+      
+      const groupActions = document.createElement('div');
+      groupActions.className = 'pattern-actions';
+      
+      const restoreButton = document.createElement('button');
+      restoreButton.textContent = 'Restore';
+      restoreButton.style.backgroundColor = '#4285f4';
+      restoreButton.addEventListener('click', () => {
+        sendMessage('restoreSavedGroup', { index })
+          .then(() => this.loadSavedGroups())
+          .catch((error: MessageError) => alert(`Error restoring group: ${error.message}`));
+      });
+      
+      const removeButton = document.createElement('button');
+      removeButton.textContent = 'Remove';
+      removeButton.addEventListener('click', () => {
+        sendMessage('removeSavedGroup', { index })
+          .then(() => this.loadSavedGroups())
+          .catch((error: MessageError) => alert(`Error removing saved group: ${error.message}`));
+      });
+      
+      groupActions.appendChild(restoreButton);
+      groupActions.appendChild(removeButton);
+      groupItem.appendChild(groupInfo);
+      groupItem.appendChild(groupActions);
+      
+      this.savedGroupList.appendChild(groupItem);
+    });
+  }
+  
+  /**
+   * Loads the saved workspaces from the background script
+   */
+  private loadWorkspaces(): void {
+    sendMessage('getWorkspaces')
+      .then(({ workspaces }) => {
+        this.renderWorkspaces(workspaces);
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error getting workspaces:', error);
+      });
+  }
+  
+  /**
+   * Saves the groups in the popup's window as a new workspace
+   */
+  private saveWorkspace(): void {
+    const name = this.workspaceNameInput.value.trim();
+    if (!name) {
+      alert('Please enter a workspace name');
+      return;
+    }
+    if (this.currentWindowId === null) {
+      return;
+    }
+    
+    console.log(`PopupManager: Saving window ${this.currentWindowId} as workspace "${name}"`);
+    
+    sendMessage('saveWorkspace', { name, windowId: this.currentWindowId })
+      .then(() => {
+        this.workspaceNameInput.value = '';
+        this.loadWorkspaces();
+      })
+      .catch((error: MessageError) => alert(`Error saving workspace: ${error.message}`));
+  }
+  
+  /**
+   * Renders the saved workspaces, with buttons to restore, update, rename or delete each one
+   * @param workspaces The workspaces, in the order they were created
+   */
+  private renderWorkspaces(workspaces: Workspace[]): void {
+    this.workspaceList.innerHTML = '';
+    
+    workspaces.forEach((workspace, index) => {
+      const workspaceItem = document.createElement('div');
+      workspaceItem.className = 'pattern-item';
+      
+      const workspaceInfo = document.createElement('div');
+      workspaceInfo.className = 'pattern-info';
+      
+      const tabCount = workspace.groups.reduce((count, group) => count + group.urls.length, 0);
+      workspaceInfo.appendChild(document.createTextNode(`${workspace.name} (${workspace.groups.length} groups, ${tabCount} tabs)`));
+      
+      const groupNames = document.createElement('span');
+      groupNames.className = 'match-target';
+      groupNames.textContent = workspace.groups.map(group => group.title || 'Untitled').join(', ');
+      workspaceInfo.appendChild(groupNames);
+      
+      const savedAt = document.createElement('span');
+      savedAt.className = 'match-target';
+      savedAt.textContent = new Date(workspace.savedAt).toLocaleString();
+      workspaceInfo.appendChild(savedAt);
+      
+      const workspaceActions = document.createElement('div');
+      workspaceActions.className = 'pattern-actions';
+      
+      const restoreButton = document.createElement('button');
+      restoreButton.textContent = 'Restore';
+      restoreButton.style.backgroundColor = '#4285f4';
+      restoreButton.addEventListener('click', () => {
+        const windowId = this.workspaceRestoreTargetSelect.value === 'current' ? this.currentWindowId ?? undefined : undefined;
+        sendMessage('restoreWorkspace', { index, windowId })
+          .catch((error: MessageError) => alert(`Error restoring workspace: ${error.message}`));
+      });
+      
+      const updateButton = document.createElement('button');
+      updateButton.textContent = 'Update';
+      updateButton.title = 'Replace with the groups in this window';
+      updateButton.addEventListener('click', () => {
+        if (this.currentWindowId === null) {
+          return;
+        }
+        sendMessage('updateWorkspace', { index, windowId: this.currentWindowId })
+          .then(() => this.loadWorkspaces())
+          .catch((error: MessageError) => alert(`Error updating workspace: ${error.message}`));
+      });
+      
+      const renameButton = document.createElement('button');
+      renameButton.textContent = 'Rename';
+      renameButton.addEventListener('click', () => {
+        const name = prompt('New workspace name:', workspace.name);
+        if (name === null || name.trim() === workspace.name) {
+          return;
+        }
+        sendMessage('renameWorkspace', { index, name })
+          .then(() => this.loadWorkspaces())
+          .catch((error: MessageError) => alert(`Error renaming workspace: ${error.message}`));
+      });
+      
+      const removeButton = document.createElement('button');
+      removeButton.textContent = 'Delete';
+      removeButton.addEventListener('click', () => {
+        sendMessage('removeWorkspace', { index })
+          .then(() => this.loadWorkspaces())
+          .catch((error: MessageError) => alert(`Error deleting workspace: ${error.message}`));
+      });
+      
+      workspaceActions.appendChild(restoreButton);
+      workspaceActions.appendChild(updateButton);
+      workspaceActions.appendChild(renameButton);
+      workspaceActions.appendChild(removeButton);
+      workspaceItem.appendChild(workspaceInfo);
+      workspaceItem.appendChild(workspaceActions);
+      
+      this.workspaceList.appendChild(workspaceItem);
+    });
+  }
+  
+  /**
+   * Loads the group color overrides from the background script
+   */
+  private loadColorOverrides(): void {
+    console.log("PopupManager: Loading group color overrides");
+    
+    sendMessage('getColorOverrides')
+      .then(({ overrides }) => {
+        this.renderColorOverrides(overrides);
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error getting color overrides:', error);
+      });
+  }
+  
+  /**
+   * Sets the color override for the entered group name
+   */
+  private addColorOverride(): void {
+    const name = this.colorOverrideNameInput.value.trim();
+    const color = this.colorOverrideColorSelect.value as chrome.tabGroups.ColorEnum;
+    
+    if (!name) {
+      alert('Please enter a group name.');
+      return;
+    }
+    
+    sendMessage('setColorOverride', { name, color })
+      .then(() => {
+        this.colorOverrideNameInput.value = '';
+        this.loadColorOverrides();
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error setting color override:', error);
+        alert(`Error setting group color: ${error.message}`);
+      });
+  }
+  
+  /**
+   * Removes the color override for a group name
+   * @param name The lowercase group name
+   */
+  private removeColorOverride(name: string): void {
+    sendMessage('removeColorOverride', { name })
+      .then(() => {
+        this.loadColorOverrides();
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error removing color override:', error);
+        alert(`Error removing group color: ${error.message}`);
+      });
+  }
+  
+  /**
+   * Renders the group color override list
+   * @param overrides The color of each overridden group, keyed by lowercase group name
+   */
+  private renderColorOverrides(overrides: Record<string, chrome.tabGroups.ColorEnum>): void {
+    this.colorOverrideList.innerHTML = '';
+    
+    const names = Object.keys(overrides).sort();
+    if (names.length === 0) {
+      const emptyMessage = document.createElement('div');
+      emptyMessage.className = 'pattern-item';
+      emptyMessage.textContent = 'No group colors set.';
+      this.colorOverrideList.appendChild(emptyMessage);
+      return;
+    }
+    
+    names.forEach((name) => {
+      const overrideItem = document.createElement('div');
+      overrideItem.className = 'pattern-item';
+      
+      const overrideInfo = document.createElement('div');
+      overrideInfo.className = 'pattern-info';
+      
+      const colorPreview = document.createElement('span');
+      colorPreview.className = 'color-preview';
+      colorPreview.style.backgroundColor = overrides[name];
+      overrideInfo.appendChild(colorPreview);
+      overrideInfo.appendChild(document.createTextNode(`${name} (${overrides[name]})`));
+      
+      const overrideActions = document.createElement('div');
+      overrideActions.className = 'pattern-actions';
+      
+      const removeButton = document.createElement('button');
+      removeButton.textContent = 'Remove';
+      removeButton.addEventListener('click', () => {
+        this.removeColorOverride(name);
+      });
+      
+      overrideActions.appendChild(removeButton);
+      overrideItem.appendChild(overrideInfo);
+      overrideItem.appendChild(overrideActions);
+      
+      this.colorOverrideList.appendChild(overrideItem);
+    });
+  }
+  
+  /**
+   * Loads the exclusion rules and options from the background script
+   */
+  private loadExclusions(): void {
+    console.log("PopupManager: Loading exclusions");
+    
+    sendMessage('getExclusions')
+      .then(({ exclusions }) => {
+        this.excludePinnedToggle.checked = exclusions.excludePinned === true;
+        this.excludeIncognitoToggle.checked = exclusions.excludeIncognito === true;
+        this.renderExclusions(exclusions);
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error getting exclusions:', error);
+      });
+  }
+  
+  /**
+   * Loads whether grouping is switched off in the popup's window
+   */
+  private loadWindowGrouping(): void {
+    chrome.windows.getCurrent()
+      .then((window) => {
+        this.currentWindowId = window.id ?? null;
+        return this.currentWindowId === null
+          ? { disabled: false }
+          : sendMessage('getWindowGrouping', { windowId: this.currentWindowId });
+      })
+      .then(({ disabled }) => {
+        this.disableInWindowToggle.checked = disabled;
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error getting window grouping:', error);
+      });
+  }
+  
+  /**
+   * Switches grouping off or back on in the popup's window
+   */
+  private toggleWindowGrouping(): void {
+    if (this.currentWindowId === null) {
+      return;
+    }
+    
+    const disabled = this.disableInWindowToggle.checked;
+    console.log(`PopupManager: Setting grouping disabled in window ${this.currentWindowId} to ${disabled}`);
+    
+    sendMessage('setWindowGrouping', { windowId: this.currentWindowId, disabled })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error setting window grouping:', error);
+        // Reset toggle to previous state on error
+        this.loadWindowGrouping();
+      });
+  }
+  
+  /**
+   * Saves whether pinned and incognito tabs are excluded
+   */
+  private setExclusionOptions(): void {
+    const excludePinned = this.excludePinnedToggle.checked;
+    const excludeIncognito = this.excludeIncognitoToggle.checked;
+    
+    sendMessage('setExclusionOptions', { excludePinned, excludeIncognito })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error setting exclusion options:', error);
+        // Reset toggles to the stored values on error
+        this.loadExclusions();
+      });
+  }
+  
+  /**
+   * Adds an exclusion from the entered domain or pattern
+   */
+  private addExclusion(): void {
+    const type = this.exclusionTypeSelect.value as ExclusionType;
+    const value = this.exclusionValueInput.value.trim();
+    
+    if (!value) {
+      alert('Please enter a domain or URL pattern.');
+      return;
+    }
+    
+    sendMessage('addExclusion', { type, value })
+      .then(() => {
+        this.exclusionValueInput.value = '';
+        this.loadExclusions();
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error adding exclusion:', error);
+        alert(`Error adding exclusion: ${error.message}`);
+      });
+  }
+  
+  /**
+   * Removes an exclusion
+   * @param index The exclusion's position in the list
+   */
+  private removeExclusion(index: number): void {
+    sendMessage('removeExclusion', { index })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error removing exclusion:', error);
+        alert(`Error removing exclusion: ${error.message}`);
+      })
+      .finally(() => {
+        this.loadExclusions();
+      });
+  }
+  
+  /**
+   * Renders the exclusion list
+   * @param exclusions The exclusion rules and options
+   */
+  private renderExclusions(exclusions: ExclusionSettings): void {
+    this.exclusionList.innerHTML = '';
+    
+    if (exclusions.rules.length === 0) {
+      const emptyMessage = document.createElement('div');
+      emptyMessage.className = 'pattern-item';
+      emptyMessage.textContent = 'No exclusions defined.';
+      this.exclusionList.appendChild(emptyMessage);
+      return;
+    }
+    
+    exclusions.rules.forEach((rule, index) => {
+      const exclusionItem = document.createElement('div');
+      exclusionItem.className = 'pattern-item';
+      
+      const exclusionInfo = document.createElement('div');
+      exclusionInfo.className = 'pattern-info';
+      exclusionInfo.appendChild(document.createTextNode(rule.type === 'domain' ? rule.value : `/${rule.value}/`));
+      
+      const typeLabel = document.createElement('span');
+      typeLabel.className = 'match-target';
+      typeLabel.textContent = rule.type === 'domain' ? 'domain' : 'URL pattern';
+      exclusionInfo.appendChild(typeLabel);
+      
+      const exclusionActions = document.createElement('div');
+      exclusionActions.className = 'pattern-actions';
+      
+      const removeButton = document.createElement('button');
+      removeButton.textContent = 'Remove';
+      removeButton.addEventListener('click', () => {
+        this.removeExclusion(index);
+      });
+      
+      exclusionActions.appendChild(removeButton);
+      exclusionItem.appendChild(exclusionInfo);
+      exclusionItem.appendChild(exclusionActions);
+      
+      this.exclusionList.appendChild(exclusionItem);
+    });
+  }
+  
+  /**
+   * Toggles the auto-pattern feature
+   */
+  private toggleAutoPatterns(): void {
+    const enabled = this.autoPatternToggle.checked;
+    console.log(`PopupManager: Toggling auto-patterns to ${enabled}`);
+    
+    sendMessage('setAutoPatterns', { enabled })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error setting auto-pattern:', error);
+        // Reset toggle to previous state on error
+        this.loadAutoPatternSetting();
+      });
+  }
+  
+  /**
+   * Loads the window strategy setting from the background script
+   */
+  private loadWindowStrategy(): void {
+    console.log("PopupManager: Loading window strategy");
+    
+    sendMessage('getWindowStrategy')
+      .then(({ strategy }) => {
+        console.log("PopupManager: Window strategy:", strategy);
+        this.windowStrategySelect.value = strategy;
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error getting window strategy:', error);
+      });
+  }
+  
+  /**
+   * Saves the selected window strategy
+   */
+  private setWindowStrategy(): void {
+    const strategy = this.windowStrategySelect.value as WindowStrategy;
+    console.log(`PopupManager: Setting window strategy to ${strategy}`);
+    
+    sendMessage('setWindowStrategy', { strategy })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error setting window strategy:', error);
+        // Reset the select to the stored value on error
+        this.loadWindowStrategy();
+      });
+  }
+  
+  /**
+   * Loads the registrable domain mode setting from the background script
+   */
+  private loadRegistrableDomainMode(): void {
+    console.log("PopupManager: Loading registrable domain mode");
+    
+    sendMessage('getRegistrableDomainMode')
+      .then(({ mode }) => {
+        console.log("PopupManager: Registrable domain mode:", mode);
+        this.registrableDomainModeSelect.value = mode;
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error getting registrable domain mode:', error);
+      });
+  }
+  
+  /**
+   * Saves the selected registrable domain mode
+   */
+  private setRegistrableDomainMode(): void {
+    const mode = this.registrableDomainModeSelect.value as RegistrableDomainMode;
+    console.log(`PopupManager: Setting registrable domain mode to ${mode}`);
+    
+    sendMessage('setRegistrableDomainMode', { mode })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error setting registrable domain mode:', error);
+        // Reset the select to the stored value on error
+        this.loadRegistrableDomainMode();
+      });
+  }
+  
+  /**
+   * Loads the navigation mode setting from the background script
+   */
+  private loadNavigationMode(): void {
+    sendMessage('getNavigationMode')
+      .then(({ mode }) => {
+        console.log("PopupManager: Navigation mode:", mode);
+        this.navigationModeSelect.value = mode;
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error getting navigation mode:', error);
+      });
+  }
+  
+  /**
+   * Saves the selected navigation mode
+   */
+  private setNavigationMode(): void {
+    const mode = this.navigationModeSelect.value as NavigationMode;
+    console.log(`PopupManager: Setting navigation mode to ${mode}`);
+    
+    sendMessage('setNavigationMode', { mode })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error setting navigation mode:', error);
+        // Reset the select to the stored value on error
+        this.loadNavigationMode();
+      });
+  }
+  
+  /**
+   * Creates the compact navigation mode picker shown on each rule
+   * @param mode The rule's navigation mode, undefined when it uses the global mode
+   * @param onChange Called with the chosen mode, undefined for the global mode
+   */
+  private createNavigationModeSelect(
+    mode: NavigationMode | undefined,
+    onChange: (mode?: NavigationMode) => void
+  ): HTMLSelectElement {
+    const select = document.createElement('select');
+    select.title = 'When a grouped tab navigates away';
+    
+    [['', 'Default'], ['sticky', 'Sticky'], ['follow', 'Follow']].forEach(([value, label]) => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = label;
+      select.appendChild(option);
+    });
+    select.value = mode ?? '';
+    
+    select.addEventListener('change', () => {
+      onChange((select.value as NavigationMode) || undefined);
+    });
+    return select;
+  }
+  
+  /**
+   * Saves a manual pattern's navigation mode
+   * @param index The index of the pattern
+   * @param mode The navigation mode, undefined to use the global mode
+   */
+  private setPatternNavigationMode(index: number, mode?: NavigationMode): void {
+    sendMessage('setPatternNavigationMode', { index, mode })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error setting pattern navigation mode:', error);
+        alert(`Error setting navigation mode: ${error.message}`);
+      })
+      .finally(() => {
+        this.loadPatterns();
+      });
+  }
+  
+  /**
+   * Saves an auto-pattern's navigation mode
+   * @param template The auto-pattern template
+   * @param mode The navigation mode, undefined to use the global mode
+   */
+  private setAutoPatternNavigationMode(template: string, mode?: NavigationMode): void {
+    sendMessage('setAutoPatternNavigationMode', { template, mode })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error setting auto-pattern navigation mode:', error);
+        alert(`Error setting navigation mode: ${error.message}`);
+      })
+      .finally(() => {
+        this.loadAutoPatternTemplates();
+      });
+  }
+  
+  /**
+   * Adds a new pattern based on user input
+   */
+  private addPattern(): void {
+    const patternStr = this.patternInput.value.trim();
+    const groupName = this.groupNameInput.value.trim();
+    const color = this.colorSelect.value as chrome.tabGroups.ColorEnum;
+    const matchTarget = this.matchTargetSelect.value as MatchTarget;
+    const queryParam = this.queryParamInput.value.trim();
+    
+    console.log(`PopupManager: Adding manual pattern: ${patternStr} (${matchTarget}) -> ${groupName} (${color})`);
+    
+    if (!patternStr || !groupName) {
+      alert('Please enter both a pattern and a group name.');
+      return;
+    }
+    
+    if (matchTarget === 'queryParam' && !queryParam) {
+      alert('Please enter the name of the query parameter to match.');
+      return;
+    }
+    
+    try {
+      // Test if the pattern is valid
       new RegExp(patternStr);
+    } catch (error) {
+      console.error('PopupManager: Invalid regex:', error);
+      alert('Invalid regular expression pattern: ' + error);
+      return;
+    }
+    
+    sendMessage('addPattern', {
+      pattern: patternStr,
+      groupName,
+      color,
+      matchTarget,
+      queryParam: matchTarget === 'queryParam' ? queryParam : undefined
+    })
+      .then(() => {
+        // The background script stores the pattern with its priority, reload it
+        this.loadPatterns();
+        
+        // Clear input fields
+        this.patternInput.value = '';
+        this.groupNameInput.value = '';
+        this.queryParamInput.value = '';
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error adding pattern:', error);
+        alert(`Error adding pattern: ${error.message}`);
+      });
+  }
+  
+  /**
+   * Loads the manual patterns from the background script
+   */
+  private loadPatterns(): void {
+    console.log("PopupManager: Loading manual patterns");
+    
+    sendMessage('getPatterns')
+      .then(({ patterns }) => {
+        console.log(`PopupManager: Loaded ${patterns.length} manual patterns`);
+        this.patterns = patterns;
+        this.renderPatterns();
+        this.renderRuleScopes();
+        this.loadRuleUsage();
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error loading patterns:', error);
+      });
+  }
+  
+  /**
+   * Fills in the manual pattern form with a pattern drafted from the context menu, if there is one
+   */
+  private loadRuleDraft(): void {
+    sendMessage('takeRuleDraft')
+      .then(({ draft }) => {
+        if (!draft) {
+          return;
+        }
+        
+        console.log(`PopupManager: Filling in drafted pattern ${draft.patternStr} -> ${draft.groupName}`);
+        this.patternInput.value = draft.patternStr;
+        this.groupNameInput.value = draft.groupName;
+        // Keep the current color if the form doesn't offer the drafted one
+        if (draft.color && [...this.colorSelect.options].some(option => option.value === draft.color)) {
+          this.colorSelect.value = draft.color;
+        }
+        this.matchTargetSelect.value = draft.matchTarget || 'hostname';
+        this.updateMatchTargetFields();
+        this.groupNameInput.scrollIntoView({ block: 'center' });
+        this.groupNameInput.focus();
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error getting drafted pattern:', error);
+      });
+  }
+  
+  /**
+   * Removes a pattern by index
+   * @param index The index of the pattern to remove
+   */
+  private removePattern(index: number): void {
+    console.log(`PopupManager: Removing manual pattern at index ${index}`);
+    
+    sendMessage('removePattern', { index })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error removing pattern:', error);
+        alert(`Error removing pattern: ${error.message}`);
+      })
+      .finally(() => {
+        // Reload to show the stored patterns
+        this.loadPatterns();
+      });
+  }
+  
+  /**
+   * Renders the pattern list in the UI
+   */
+  private renderPatterns(): void {
+    console.log(`PopupManager: Rendering ${this.patterns.length} manual patterns`);
+    
+    this.patternList.innerHTML = '';
+    
+    if (this.patterns.length === 0) {
+      const emptyMessage = document.createElement('div');
+      emptyMessage.className = 'pattern-item';
+      emptyMessage.textContent = 'No patterns defined.';
+      this.patternList.appendChild(emptyMessage);
+      return;
+    }
+    
+    this.patterns.forEach((pattern, index) => {
+      const patternItem = document.createElement('div');
+      patternItem.className = 'pattern-item';
+      this.makeDraggable(patternItem, index, 'manual', (fromIndex, toIndex) => {
+        this.reorderPatterns(fromIndex, toIndex);
+      });
       
-      // Add to list
-      const pattern: StoredPattern = {
-        patternStr,
-        groupName,
-        color
-      };
-      
-      // Send to background script with short timeout
-      const addPatternPromise = new Promise<boolean>((resolve) => {
-        chrome.runtime.sendMessage({
-          action: 'addPattern',
-          pattern: patternStr,
-          groupName,
-          color
-        }, (response) => {
-          if (chrome.runtime.lastError) {
-            console.error('PopupManager: Error sending message:', chrome.runtime.lastError);
-            resolve(false);
-            return;
-          }
+      const patternInfo = document.createElement('div');
+      patternInfo.className = 'pattern-info';
+      
+      const colorPreview = document.createElement('span');
+      colorPreview.className = 'color-preview';
+      colorPreview.style.backgroundColor = pattern.color || 'grey';
+      
+      patternInfo.appendChild(colorPreview);
+      patternInfo.appendChild(document.createTextNode(
+        `${pattern.groupName}: /${pattern.patternStr}/`
+      ));
+      
+      // Show the match target for anything other than the default hostname
+      const matchTarget = pattern.matchTarget || 'hostname';
+      if (matchTarget !== 'hostname') {
+        const targetLabel = document.createElement('span');
+        targetLabel.className = 'match-target';
+        targetLabel.textContent = matchTarget === 'queryParam'
+          ? `${MATCH_TARGET_LABELS[matchTarget]}: ${pattern.queryParam}`
+          : MATCH_TARGET_LABELS[matchTarget];
+        patternInfo.appendChild(targetLabel);
+      }
+      
+      const usage = this.patternUsage[index];
+      if (usage) {
+        patternInfo.appendChild(this.createUsageLabel(usage));
+      }
+      
+      const patternActions = document.createElement('div');
+      patternActions.className = 'pattern-actions';
+      
+      const navigationModeSelect = this.createNavigationModeSelect(pattern.navigationMode, (mode) => {
+        this.setPatternNavigationMode(index, mode);
+      });
+      
+      const removeButton = document.createElement('button');
+      removeButton.textContent = 'Remove';
+      removeButton.addEventListener('click', () => {
+        this.removePattern(index);
+      });
+      
+      patternActions.appendChild(navigationModeSelect);
+      patternActions.appendChild(removeButton);
+      patternItem.appendChild(patternInfo);
+      patternItem.appendChild(patternActions);
+      
+      this.patternList.appendChild(patternItem);
+    });
+  }
+  
+  /**
+   * Loads how much each rule has been used, and shows it in the rule lists
+   */
+  private loadRuleUsage(): void {
+    sendMessage('getRuleUsage')
+      .then(({ patterns, autoPatterns, unusedDays }) => {
+        this.patternUsage = patterns;
+        this.autoPatternUsage = autoPatterns;
+        if (document.activeElement !== this.unusedRuleDaysInput) {
+          this.unusedRuleDaysInput.value = String(unusedDays);
+        }
+        
+        const unusedCount = [...patterns, ...autoPatterns].filter(usage => usage.unused).length;
+        this.removeUnusedRulesButton.disabled = unusedCount === 0;
+        this.removeUnusedRulesButton.textContent = unusedCount === 0
+          ? 'Remove Unused Rules'
+          : `Remove ${unusedCount} Unused Rule${unusedCount === 1 ? '' : 's'}`;
+        
+        this.renderPatterns();
+        this.renderAutoPatterns();
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error getting rule usage:', error);
+      });
+  }
+  
+  /**
+   * Creates the label showing how much a rule has been used
+   * @param usage The rule's usage
+   */
+  private createUsageLabel(usage: RuleUsageReport): HTMLSpanElement {
+    const daysAgo = (time: string) => {
+      const days = Math.floor((Date.now() - Date.parse(time)) / (24 * 60 * 60 * 1000));
+      return days === 0 ? 'today' : `${days} day${days === 1 ? '' : 's'} ago`;
+    };
+    
+    const label = document.createElement('span');
+    label.className = usage.unused ? 'rule-usage unused' : 'rule-usage';
+    label.textContent = [
+      usage.unused ? 'Unused' : '',
+      `${usage.matches} match${usage.matches === 1 ? '' : 'es'}`,
+      `${usage.tabsGrouped} grouped`,
+      usage.lastMatchedAt
+        ? `last matched ${daysAgo(usage.lastMatchedAt)}`
+        : `never matched since ${new Date(usage.trackedSince).toLocaleDateString()}`
+    ].filter(part => part).join(' · ');
+    if (usage.lastMatchedAt) {
+      label.title = `Last matched ${new Date(usage.lastMatchedAt).toLocaleString()}`;
+    }
+    return label;
+  }
+  
+  /**
+   * Saves how many days a rule may go without matching before it is flagged as unused
+   */
+  private setUnusedRuleDays(): void {
+    const days = Number(this.unusedRuleDaysInput.value);
+    
+    sendMessage('setUnusedRuleDays', { days })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error setting unused rule days:', error);
+        alert(`Error setting unused rule days: ${error.message}`);
+      })
+      .finally(() => {
+        this.loadRuleUsage();
+      });
+  }
+  
+  /**
+   * Removes every rule flagged as unused, after asking
+   */
+  private removeUnusedRules(): void {
+    const unused = [
+      ...this.patterns.filter((_, index) => this.patternUsage[index]?.unused).map(pattern => `/${pattern.patternStr}/`),
+      ...this.autoPatterns.filter((_, index) => this.autoPatternUsage[index]?.unused)
+    ];
+    if (unused.length === 0 || !confirm(`Remove these unused rules?\n\n${unused.join('\n')}`)) {
+      return;
+    }
+    
+    sendMessage('removeUnusedRules')
+      .then(({ removedCount }) => {
+        this.appendLogEntry(`[Success] Removed ${removedCount} unused rule(s)`);
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error removing unused rules:', error);
+        alert(`Error removing unused rules: ${error.message}`);
+      })
+      .finally(() => {
+        this.loadPatterns();
+        this.loadAutoPatternTemplates();
+      });
+  }
+  
+  /**
+   * Makes a list item draggable so its list can be reordered
+   * @param item The list item element
+   * @param index The item's position in its list
+   * @param listType Which list the item belongs to, so items can't be dropped into the other list
+   * @param onReorder Called with the dragged item's index and the index it was dropped on
+   */
+  private makeDraggable(
+    item: HTMLElement,
+    index: number,
+    listType: 'manual' | 'auto',
+    onReorder: (fromIndex: number, toIndex: number) => void
+  ): void {
+    const dataType = `application/x-tab-groups-${listType}`;
+    
+    item.draggable = true;
+    item.classList.add('draggable');
+    
+    item.addEventListener('dragstart', (event) => {
+      event.dataTransfer?.setData(dataType, String(index));
+      item.classList.add('dragging');
+    });
+    
+    item.addEventListener('dragend', () => {
+      item.classList.remove('dragging');
+    });
+    
+    item.addEventListener('dragover', (event) => {
+      if (event.dataTransfer?.types.includes(dataType)) {
+        event.preventDefault();
+        item.classList.add('drag-over');
+      }
+    });
+    
+    item.addEventListener('dragleave', () => {
+      item.classList.remove('drag-over');
+    });
+    
+    item.addEventListener('drop', (event) => {
+      event.preventDefault();
+      item.classList.remove('drag-over');
+      
+      const data = event.dataTransfer?.getData(dataType);
+      if (!data) return;
+      
+      const fromIndex = Number(data);
+      if (fromIndex !== index) {
+        onReorder(fromIndex, index);
+      }
+    });
+  }
+  
+  /**
+   * Computes a new list order after moving one item
+   * @param length The length of the list
+   * @param fromIndex The index of the moved item
+   * @param toIndex The index it was moved to
+   * @returns The old indices in their new order
+   */
+  private moveIndex(length: number, fromIndex: number, toIndex: number): number[] {
+    const order = Array.from({ length }, (_, i) => i);
+    const [moved] = order.splice(fromIndex, 1);
+    order.splice(toIndex, 0, moved);
+    return order;
+  }
+  
+  /**
+   * Moves a manual pattern to a new position, changing its priority
+   * @param fromIndex The current index of the pattern
+   * @param toIndex The index to move it to
+   */
+  private reorderPatterns(fromIndex: number, toIndex: number): void {
+    console.log(`PopupManager: Moving manual pattern from ${fromIndex} to ${toIndex}`);
+    
+    const order = this.moveIndex(this.patterns.length, fromIndex, toIndex);
+    
+    sendMessage('reorderPatterns', { order })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error reordering patterns:', error);
+        alert(`Error reordering patterns: ${error.message}`);
+      })
+      .finally(() => {
+        // Reload to show the stored order
+        this.loadPatterns();
+      });
+  }
+  
+  /**
+   * Moves an auto-pattern template to a new position, changing its priority
+   * @param fromIndex The current index of the template
+   * @param toIndex The index to move it to
+   */
+  private reorderAutoPatterns(fromIndex: number, toIndex: number): void {
+    console.log(`PopupManager: Moving auto-pattern from ${fromIndex} to ${toIndex}`);
+    
+    const order = this.moveIndex(this.autoPatterns.length, fromIndex, toIndex);
+    const templates = order.map(index => this.autoPatterns[index]);
+    
+    sendMessage('reorderAutoPatterns', { templates })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error reordering auto-patterns:', error);
+        alert(`Error reordering auto-patterns: ${error.message}`);
+      })
+      .finally(() => {
+        // Reload to show the stored order
+        this.loadAutoPatternTemplates();
+      });
+  }
+  
+  /**
+   * Lists the keyboard shortcuts with the keys currently bound to them
+   */
+  private loadShortcuts(): void {
+    chrome.commands.getAll()
+      .then((commands) => {
+        this.shortcutList.innerHTML = '';
+        
+        commands
+          .filter(command => command.name !== '_execute_action')
+          .forEach((command) => {
+            const shortcutItem = document.createElement('div');
+            shortcutItem.className = 'pattern-item';
+            
+            const shortcutInfo = document.createElement('div');
+            shortcutInfo.className = 'pattern-info';
+            shortcutInfo.appendChild(document.createTextNode(command.description || command.name || ''));
+            
+            const keys = document.createElement('span');
+            keys.className = 'match-target';
+            keys.textContent = command.shortcut || 'Not set';
+            shortcutInfo.appendChild(keys);
+            
+            shortcutItem.appendChild(shortcutInfo);
+            this.shortcutList.appendChild(shortcutItem);
+          });
+      })
+      .catch((error: any) => {
+        console.error('PopupManager: Error getting keyboard shortcuts:', error);
+      });
+  }
+  
+  /**
+   * Fills the explainer's and the rule tester's tab pickers with the open tabs, selecting the active tab
+   */
+  private loadTabPickers(): void {
+    chrome.tabs.query({}, (tabs) => {
+      [this.explainTabSelect, this.testerTabSelect].forEach((select) => {
+        select.innerHTML = '';
+        
+        tabs.forEach((tab) => {
+          if (tab.id === undefined) return;
           
-          console.log("PopupManager: Add pattern response:", response);
-          resolve(response?.success === true);
+          const option = document.createElement('option');
+          option.value = String(tab.id);
+          option.textContent = tab.title || tab.url || `Tab ${tab.id}`;
+          select.appendChild(option);
         });
-        
-        // Set a timeout in case the response never comes
-        setTimeout(() => resolve(false), 1000);
       });
       
-      // Handle the result
-      addPatternPromise.then((success) => {
-        if (success) {
-          // Save to storage and update UI
-          this.patterns.push(pattern);
-          this.savePatterns();
-          this.renderPatterns();
-          
-          // Clear input fields
-          this.patternInput.value = '';
-          this.groupNameInput.value = '';
-        } else {
-          alert('Error adding pattern. Please check the console for details.');
+      // Prefer the active tab of the window the popup was opened from
+      chrome.tabs.query({ active: true, currentWindow: true }, ([activeTab]) => {
+        if (activeTab?.id !== undefined) {
+          this.explainTabSelect.value = String(activeTab.id);
+          this.testerTabSelect.value = String(activeTab.id);
         }
       });
-    } catch (error) {
-      console.error('PopupManager: Invalid regex:', error);
-      alert('Invalid regular expression pattern: ' + error);
+    });
+  }
+  
+  /**
+   * Adds the URL of the tab picked in the rule tester to its URL list
+   */
+  private addTesterTab(): void {
+    const tabId = Number(this.testerTabSelect.value);
+    if (!tabId) {
+      return;
     }
+    
+    chrome.tabs.get(tabId)
+      .then((tab) => {
+        if (!tab.url) {
+          return;
+        }
+        const urls = this.testerUrlsInput.value.trimEnd();
+        this.testerUrlsInput.value = urls ? `${urls}\n${tab.url}` : tab.url;
+        this.runRuleTest();
+      })
+      .catch((error: any) => {
+        console.error('PopupManager: Error getting tab for the rule tester:', error);
+      });
   }
   
   /**
-   * Loads saved patterns from Chrome storage
+   * Runs the rule tester once typing pauses
    */
-  private loadPatterns(): void {
-    console.log("PopupManager: Loading manual patterns from storage");
+  private scheduleRuleTest(): void {
+    if (this.ruleTestTimer !== null) {
+      clearTimeout(this.ruleTestTimer);
+    }
+    this.ruleTestTimer = window.setTimeout(() => {
+      this.ruleTestTimer = null;
+      this.runRuleTest();
+    }, 300);
+  }
+  
+  /**
+   * Tests the rule tester's URLs against the rules, including the pattern being typed in the manual pattern form
+   */
+  private runRuleTest(): void {
+    const urls = this.testerUrlsInput.value.split('\n').map(url => url.trim()).filter(url => url);
+    const patternStr = this.patternInput.value.trim();
     
-    chrome.storage.local.get(['domainPatterns'], (result) => {
-      if (chrome.runtime.lastError) {
-        console.error('PopupManager: Error loading patterns:', chrome.runtime.lastError);
-        return;
-      }
-      
-      if (result.domainPatterns) {
-        console.log(`PopupManager: Loaded ${result.domainPatterns.length} manual patterns`);
-        this.patterns = result.domainPatterns;
-        this.renderPatterns();
+    this.testerDraft.className = 'tester-draft';
+    this.testerDraft.textContent = '';
+    
+    if (!patternStr && urls.length === 0) {
+      this.testerResults.innerHTML = '';
+      return;
+    }
+    
+    let draft: { pattern: string; groupName: string; color: chrome.tabGroups.ColorEnum; matchTarget: MatchTarget; queryParam?: string } | {} = {};
+    if (patternStr) {
+      try {
+        new RegExp(patternStr);
+        draft = {
+          pattern: patternStr,
+          groupName: this.groupNameInput.value.trim(),
+          color: this.colorSelect.value as chrome.tabGroups.ColorEnum,
+          matchTarget: this.matchTargetSelect.value as MatchTarget,
+          queryParam: this.queryParamInput.value.trim() || undefined
+        };
+      } catch (error: any) {
+        // Test the saved rules anyway, so the results don't disappear while typing
+        this.testerDraft.className = 'tester-draft invalid';
+        this.testerDraft.textContent = `Invalid regular expression: ${error.message}`;
       }
-    });
+    }
+    
+    sendMessage('testRules', { urls, ...draft })
+      .then(({ results, draftCount }) => {
+        if (draftCount) {
+          this.testerDraft.textContent = `The draft pattern matches ${draftCount.matched} open tab(s). ` +
+            `Adding it would group ${draftCount.captured} ungrouped tab(s).`;
+        }
+        this.renderRuleTestResults(results);
+      })
+      .catch((error: MessageError) => {
+        this.testerDraft.className = 'tester-draft invalid';
+        this.testerDraft.textContent = error.message;
+      });
   }
   
   /**
-   * Saves patterns to Chrome storage
+   * Renders the rule tester's results, highlighting the part of each URL the winning rule matched
+   * @param results The result for each URL
    */
-  private savePatterns(): void {
-    console.log("PopupManager: Saving manual patterns to storage");
+  private renderRuleTestResults(results: RuleTestResult[]): void {
+    this.testerResults.innerHTML = '';
     
-    chrome.storage.local.set({ domainPatterns: this.patterns }, () => {
-      if (chrome.runtime.lastError) {
-        console.error('PopupManager: Error saving patterns:', chrome.runtime.lastError);
+    results.forEach((result) => {
+      const resultItem = document.createElement('div');
+      resultItem.className = 'tester-result';
+      
+      const url = document.createElement('div');
+      url.className = 'tester-url';
+      url.textContent = result.url;
+      resultItem.appendChild(url);
+      
+      const outcome = document.createElement('div');
+      if (result.error) {
+        outcome.textContent = result.error;
+      } else if (!result.ruleType) {
+        outcome.textContent = 'No rule matches, the tab stays ungrouped';
       } else {
-        console.log('PopupManager: Patterns saved successfully');
+        const colorPreview = document.createElement('span');
+        colorPreview.className = 'color-preview';
+        colorPreview.style.backgroundColor = result.color || 'grey';
+        outcome.appendChild(colorPreview);
+        outcome.appendChild(document.createTextNode(result.groupName || 'Untitled'));
+        
+        const rule = document.createElement('span');
+        rule.className = 'match-target';
+        rule.textContent = result.draft
+          ? 'draft pattern'
+          : result.ruleType === 'manual'
+            ? `/${result.rule}/`
+            : result.ruleType === 'auto' ? result.rule! : `domain ${result.rule}`;
+        outcome.appendChild(rule);
+      }
+      resultItem.appendChild(outcome);
+      
+      if (result.subject !== undefined && result.matchStart !== undefined && result.matchEnd !== undefined) {
+        const subject = document.createElement('div');
+        subject.className = 'tester-subject';
+        const mark = document.createElement('mark');
+        mark.textContent = result.subject.slice(result.matchStart, result.matchEnd);
+        subject.appendChild(document.createTextNode(result.subject.slice(0, result.matchStart)));
+        subject.appendChild(mark);
+        subject.appendChild(document.createTextNode(result.subject.slice(result.matchEnd)));
+        resultItem.appendChild(subject);
+      }
+      
+      if (result.excluded) {
+        const note = document.createElement('div');
+        note.className = 'tester-note';
+        note.textContent = `Not grouped automatically, ${result.excluded}`;
+        resultItem.appendChild(note);
       }
+      
+      this.testerResults.appendChild(resultItem);
     });
   }
   
   /**
-   * Removes a pattern by index
-   * @param index The index of the pattern to remove
+   * Asks the background script to explain which rules match the selected tab
    */
-  private removePattern(index: number): void {
-    console.log(`PopupManager: Removing manual pattern at index ${index}`);
+  private explainTab(): void {
+    const tabId = Number(this.explainTabSelect.value);
+    if (!tabId) {
+      alert('Please select a tab to explain.');
+      return;
+    }
     
-    this.patterns.splice(index, 1);
-    this.savePatterns();
-    this.renderPatterns();
+    console.log(`PopupManager: Explaining tab ${tabId}`);
     
-    // Send message to background script to refresh patterns
-    chrome.runtime.sendMessage({
-      action: 'refreshPatterns'
-    }, (response) => {
-      if (chrome.runtime.lastError) {
-        console.error('PopupManager: Error refreshing patterns:', chrome.runtime.lastError);
-      } else {
-        console.log('PopupManager: Patterns refreshed successfully');
+    sendMessage('explainTab', { tabId })
+      .then(({ explanation }) => {
+        this.renderExplanation(explanation);
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error explaining tab:', error);
+        this.explainResult.textContent = `Error: ${error.message}`;
+      });
+  }
+  
+  /**
+   * Renders a rule explanation, highlighting matching rules and the winner
+   * @param explanation The explanation to render
+   */
+  private renderExplanation(explanation: TabExplanation): void {
+    this.explainResult.innerHTML = '';
+    
+    const summary = document.createElement('div');
+    summary.className = 'explain-summary';
+    summary.textContent = explanation.summary;
+    this.explainResult.appendChild(summary);
+    
+    const winner = explanation.winner;
+    
+    explanation.evaluations.forEach((evaluation) => {
+      const row = document.createElement('div');
+      row.className = 'explain-row';
+      if (winner && evaluation.ruleType === winner.ruleType && evaluation.rule === winner.rule) {
+        row.classList.add('winner');
+      } else if (evaluation.matched) {
+        row.classList.add('matched');
+      } else if (!evaluation.evaluated) {
+        row.classList.add('skipped');
       }
+      
+      const ruleLabel = evaluation.ruleType === 'manual' ? `/${evaluation.rule}/` : evaluation.rule;
+      const target = evaluation.groupName ? ` → ${evaluation.groupName}` : '';
+      // Registrable domain grouping is a single fallback, so it has no priority to show
+      const tag = evaluation.priority === null ? `${evaluation.ruleType}, after all rules` : `${evaluation.ruleType} #${evaluation.priority}`;
+      row.textContent = `[${tag}] ${ruleLabel}${target}: ${evaluation.reason}`;
+      
+      this.explainResult.appendChild(row);
     });
   }
   
   /**
-   * Renders the pattern list in the UI
+   * Loads whether rules are synced, and how the last sync went
    */
-  private renderPatterns(): void {
-    console.log(`PopupManager: Rendering ${this.patterns.length} manual patterns`);
+  private loadSyncStatus(): void {
+    console.log("PopupManager: Loading sync status");
     
-    this.patternList.innerHTML = '';
+    sendMessage('getSyncStatus')
+      .then(({ enabled, status }) => {
+        console.log("PopupManager: Sync status:", enabled, status);
+        this.syncToggle.checked = enabled;
+        this.renderSyncStatus(status);
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error getting sync status:', error);
+      });
+  }
+  
+  /**
+   * Turns syncing rules across devices on or off
+   */
+  private setSyncEnabled(): void {
+    const enabled = this.syncToggle.checked;
+    console.log(`PopupManager: Setting sync enabled: ${enabled}`);
+    this.renderSyncStatus({ state: 'syncing' });
     
-    if (this.patterns.length === 0) {
-      const emptyMessage = document.createElement('div');
-      emptyMessage.className = 'pattern-item';
-      emptyMessage.textContent = 'No patterns defined.';
-      this.patternList.appendChild(emptyMessage);
+    sendMessage('setSyncEnabled', { enabled })
+      .then(({ status }) => {
+        this.renderSyncStatus(status);
+        
+        // Turning sync on can bring in rules from other devices
+        if (enabled) {
+          this.loadPatterns();
+          this.loadAutoPatternTemplates();
+          this.loadAutoPatternSetting();
+          this.loadBackgroundTabSetting();
+          this.loadWindowStrategy();
+          this.loadRegistrableDomainMode();
+          this.loadNavigationMode();
+          this.loadExclusions();
+          this.loadOrdering();
+          this.loadColorOverrides();
+          this.loadHousekeeping();
+        }
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error setting sync:', error);
+        // Reset the toggle to the stored value on error
+        this.loadSyncStatus();
+      });
+  }
+  
+  /**
+   * Shows the sync state, with the warning when sync fell back to local storage
+   * @param status The sync status from the background script
+   */
+  private renderSyncStatus(status: SyncStatus): void {
+    this.syncStatus.classList.toggle('warning', status.state === 'fallback');
+    
+    if (status.state === 'off') {
+      this.syncStatus.textContent = 'Rules are only saved on this device.';
+    } else if (status.state === 'syncing') {
+      this.syncStatus.textContent = 'Syncing…';
+    } else if (status.state === 'fallback') {
+      this.syncStatus.textContent = `⚠️ ${status.warning}`;
+    } else {
+      const when = status.lastSyncedAt ? ` Last synced ${new Date(status.lastSyncedAt).toLocaleString()}.` : '';
+      this.syncStatus.textContent = `Rules are synced across your devices.${when}`;
+    }
+  }
+  
+  /**
+   * Exports every rule and setting to a JSON file
+   */
+  private exportRules(): void {
+    console.log("PopupManager: Exporting rules");
+    
+    sendMessage('exportRules')
+      .then(({ ruleSet }) => {
+        const json = JSON.stringify(ruleSet, null, 2);
+        const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `tab-groups-rules-${new Date().toISOString().slice(0, 10)}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error exporting rules:', error);
+        this.showImportResult(`Error exporting rules: ${error.message}`, []);
+      });
+  }
+  
+  /**
+   * Imports rules from a JSON file using the selected merge strategy
+   * @param file The rule set file picked by the user
+   */
+  private async importRules(file: File): Promise<void> {
+    const strategy = this.importStrategySelect.value as ImportStrategy;
+    console.log(`PopupManager: Importing rules from ${file.name} (${strategy})`);
+    
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch (error) {
+      this.showImportResult(`${file.name} is not valid JSON: ${(error as Error).message}`, []);
       return;
     }
     
-    this.patterns.forEach((pattern, index) => {
-      const patternItem = document.createElement('div');
-      patternItem.className = 'pattern-item';
-      
-      const patternInfo = document.createElement('div');
-      patternInfo.className = 'pattern-info';
-      
-      const colorPreview = document.createElement('span');
-      colorPreview.className = 'color-preview';
-      colorPreview.style.backgroundColor = pattern.color || 'grey';
-      
-      patternInfo.appendChild(colorPreview);
-      patternInfo.appendChild(document.createTextNode(
-        `${pattern.groupName}: /${pattern.patternStr}/`
-      ));
-      
-      const patternActions = document.createElement('div');
-      patternActions.className = 'pattern-actions';
-      
-      const removeButton = document.createElement('button');
-      removeButton.textContent = 'Remove';
-      removeButton.addEventListener('click', () => {
-        this.removePattern(index);
+    sendMessage('importRules', { data, strategy })
+      .then((result) => {
+        const skipped = result.skipped > 0 ? `, skipped ${result.skipped} existing` : '';
+        this.showImportResult(`Imported ${result.importedPatterns} manual pattern(s) and ${result.importedAutoPatterns} auto-pattern(s)${skipped}.`, []);
+        
+        // The background script stores the imported rules and settings, reload them
+        this.loadPatterns();
+        this.loadAutoPatternTemplates();
+        this.loadAutoPatternSetting();
+        this.loadBackgroundTabSetting();
+        this.loadWindowStrategy();
+        this.loadRegistrableDomainMode();
+        this.loadNavigationMode();
+        this.loadExclusions();
+        this.loadOrdering();
+        this.loadColorOverrides();
+        this.loadHousekeeping();
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error importing rules:', error);
+        if (error.details) {
+          this.showImportResult(`Nothing was imported, ${file.name} has ${error.details.length} problem(s):`, error.details);
+        } else {
+          this.showImportResult(`Error importing rules: ${error.message}`, []);
+        }
       });
-      
-      patternActions.appendChild(removeButton);
-      patternItem.appendChild(patternInfo);
-      patternItem.appendChild(patternActions);
-      
-      this.patternList.appendChild(patternItem);
+  }
+  
+  /**
+   * Shows the outcome of an import or export, with one line per validation error
+   * @param message The summary message
+   * @param errors The validation errors to list under the summary
+   */
+  private showImportResult(message: string, errors: string[]): void {
+    this.importResult.innerHTML = '';
+    this.importResult.classList.toggle('has-errors', errors.length > 0);
+    
+    const summary = document.createElement('div');
+    summary.textContent = message;
+    this.importResult.appendChild(summary);
+    
+    errors.forEach((error) => {
+      const row = document.createElement('div');
+      row.className = 'import-error';
+      row.textContent = error;
+      this.importResult.appendChild(row);
     });
   }
   
@@ -665,90 +2498,263 @@ class PopupManager {
     console.log("PopupManager: Grouping existing tabs");
     
     // Log the action in the UI directly
-    const logEntry = document.createElement('div');
-    logEntry.className = 'log-entry';
-    logEntry.textContent = `[${new Date().toISOString()}] Grouping existing tabs...`;
-    this.logContainer.appendChild(logEntry);
-    this.logContainer.scrollTop = this.logContainer.scrollHeight;
+    this.appendLogEntry(`[${new Date().toISOString()}] Grouping existing tabs...`);
     
     // Disable the button while processing
     this.groupExistingTabsButton.disabled = true;
     this.groupExistingTabsButton.textContent = 'Processing...';
+    this.startGroupingProgress();
     
-    // Send to background script with short timeout
-    const groupPromise = new Promise<boolean>((resolve) => {
-      try {
-        chrome.runtime.sendMessage({
-          action: 'groupExistingTabs'
-        }, (response) => {
-          if (chrome.runtime.lastError) {
-            console.error('PopupManager: Error grouping tabs:', chrome.runtime.lastError);
-            
-            // Log the error in the UI
-            const errorLogEntry = document.createElement('div');
-            errorLogEntry.className = 'log-entry error';
-            errorLogEntry.textContent = `[Error] Failed to group tabs: ${chrome.runtime.lastError.message || 'Unknown error'}`;
-            this.logContainer.appendChild(errorLogEntry);
-            this.logContainer.scrollTop = this.logContainer.scrollHeight;
-            
-            resolve(false);
-            return;
-          }
-          
-          console.log("PopupManager: Group existing tabs response:", response);
-          
-          // Log the response in the UI
-          const responseLogEntry = document.createElement('div');
-          responseLogEntry.className = 'log-entry';
-          if (response && response.success) {
-            responseLogEntry.textContent = `[Success] Grouped ${response.count || 0} tabs`;
-          } else {
-            responseLogEntry.className += ' warn';
-            responseLogEntry.textContent = `[Warning] No tabs were grouped`;
-          }
-          this.logContainer.appendChild(responseLogEntry);
-          this.logContainer.scrollTop = this.logContainer.scrollHeight;
-          
-          resolve(true);
-        });
-      } catch (error) {
-        console.error('PopupManager: Exception sending message:', error);
+    sendMessage('groupExistingTabs')
+      .then(({ groupedCount }) => {
+        console.log(`PopupManager: Grouped ${groupedCount} existing tabs`);
         
-        // Log the exception in the UI
-        const errorLogEntry = document.createElement('div');
-        errorLogEntry.className = 'log-entry error';
-        errorLogEntry.textContent = `[Exception] ${error}`;
-        this.logContainer.appendChild(errorLogEntry);
-        this.logContainer.scrollTop = this.logContainer.scrollHeight;
+        // Log the result in the UI
+        if (groupedCount > 0) {
+          this.appendLogEntry(`[Success] Grouped ${groupedCount} tabs`);
+        } else {
+          this.appendLogEntry('[Warning] No tabs were grouped', 'warn');
+        }
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error grouping tabs:', error);
         
-        resolve(false);
-      }
-      
-      // Set a timeout in case the response never comes
-      setTimeout(() => {
-        console.warn('PopupManager: Timeout waiting for groupExistingTabs response');
+        // Log the error in the UI
+        this.appendLogEntry(`[Error] Failed to group tabs: ${error.message}`, 'error');
+      })
+      .finally(() => {
+        // Re-enable the button
+        this.groupExistingTabsButton.disabled = false;
+        this.groupExistingTabsButton.textContent = 'Group Existing Tabs';
+        this.stopGroupingProgress();
+        this.loadLastOperation();
         
-        // Log the timeout in the UI
-        const timeoutLogEntry = document.createElement('div');
-        timeoutLogEntry.className = 'log-entry warn';
-        timeoutLogEntry.textContent = '[Timeout] No response received from background script';
-        this.logContainer.appendChild(timeoutLogEntry);
-        this.logContainer.scrollTop = this.logContainer.scrollHeight;
+        // Force a refresh of logs
+        setTimeout(() => this.loadLogs(), 500);
+      });
+  }
+  
+  /**
+   * Shows the progress of the grouping the background script is running, until stopGroupingProgress
+   */
+  private startGroupingProgress(): void {
+    this.stopGroupingProgress();
+    this.renderGroupingProgress(null);
+    this.groupingProgress.style.display = 'flex';
+    
+    this.groupingProgressInterval = window.setInterval(() => {
+      sendMessage('getGroupingProgress')
+        .then(({ progress }) => this.renderGroupingProgress(progress))
+        .catch((error: MessageError) => {
+          console.error('PopupManager: Error getting the grouping progress:', error);
+        });
+    }, 500);
+  }
+  
+  /**
+   * Stops showing the grouping progress
+   */
+  private stopGroupingProgress(): void {
+    if (this.groupingProgressInterval !== null) {
+      window.clearInterval(this.groupingProgressInterval);
+      this.groupingProgressInterval = null;
+    }
+    this.groupingProgress.style.display = 'none';
+  }
+  
+  /**
+   * Shows how far the grouping has got
+   * @param progress The progress, or null before the background script has started
+   */
+  private renderGroupingProgress(progress: GroupingProgress | null): void {
+    if (!progress || progress.phase === 'planning') {
+      this.groupingProgressBar.removeAttribute('value');
+      this.groupingProgressText.textContent = 'Planning...';
+      return;
+    }
+    
+    this.groupingProgressBar.max = Math.max(progress.tabsTotal, 1);
+    this.groupingProgressBar.value = progress.tabsDone;
+    this.groupingProgressText.textContent = `${progress.tabsDone} of ${progress.tabsTotal} tabs, ${progress.groupsDone} of ${progress.groupsTotal} groups`;
+  }
+  
+  /**
+   * Shows the grouping operation that can be undone on the undo button
+   */
+  private loadLastOperation(): void {
+    sendMessage('getLastOperation')
+      .then(({ operation }) => {
+        this.undoLastOperationButton.disabled = !operation;
+        this.undoLastOperationButton.textContent = operation
+          ? `Undo: ${operation.label} (${operation.moves.length} tab${operation.moves.length === 1 ? '' : 's'})`
+          : 'Nothing to Undo';
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error getting the last grouping operation:', error);
+      });
+  }
+  
+  /**
+   * Undoes the last grouping operation, putting its tabs back where they were
+   */
+  private undoLastOperation(): void {
+    this.undoLastOperationButton.disabled = true;
+    
+    sendMessage('undoLastOperation')
+      .then(({ operation }) => {
+        this.appendLogEntry(`[Success] Undid "${operation.label}"`);
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error undoing the last grouping operation:', error);
+        this.appendLogEntry(`[Error] Failed to undo: ${error.message}`, 'error');
+      })
+      .finally(() => {
+        this.loadLastOperation();
         
-        resolve(false);
-      }, 5000); // 5 second timeout for this operation as it can take longer
-    });
+        // Force a refresh of logs
+        setTimeout(() => this.loadLogs(), 500);
+      });
+  }
+  
+  /**
+   * Requests a dry-run grouping plan from the background script and shows it
+   */
+  private previewGrouping(): void {
+    console.log("PopupManager: Requesting grouping preview");
+    
+    this.previewGroupingButton.disabled = true;
+    this.previewGroupingButton.textContent = 'Loading...';
+    
+    sendMessage('previewGrouping')
+      .then(({ plan }) => {
+        console.log("PopupManager: Grouping preview:", plan);
+        this.previewPlan = plan;
+        this.renderPreview();
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error previewing grouping:', error);
+        alert(`Error previewing grouping: ${error.message}`);
+      })
+      .finally(() => {
+        this.previewGroupingButton.disabled = false;
+        this.previewGroupingButton.textContent = 'Preview Grouping';
+      });
+  }
+  
+  /**
+   * Renders the grouping preview as a list of selectable moves
+   */
+  private renderPreview(): void {
+    console.log(`PopupManager: Rendering ${this.previewPlan.length} preview entries`);
+    
+    this.previewSection.style.display = 'block';
+    this.previewList.innerHTML = '';
+    
+    const hasEntries = this.previewPlan.length > 0;
+    this.applySelectedPreviewButton.disabled = !hasEntries;
+    this.applyAllPreviewButton.disabled = !hasEntries;
+    
+    if (!hasEntries) {
+      const emptyMessage = document.createElement('div');
+      emptyMessage.className = 'pattern-item';
+      emptyMessage.textContent = 'No ungrouped tabs match your patterns.';
+      this.previewList.appendChild(emptyMessage);
+      return;
+    }
     
-    // Handle the result and re-enable the button
-    groupPromise.then(() => {
-      // Re-enable the button
-      this.groupExistingTabsButton.disabled = false;
-      this.groupExistingTabsButton.textContent = 'Group Existing Tabs';
+    this.previewPlan.forEach((entry) => {
+      const previewItem = document.createElement('label');
+      previewItem.className = 'preview-item';
+      
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.checked = true;
+      checkbox.dataset.tabId = String(entry.tabId);
+      
+      const previewInfo = document.createElement('div');
+      previewInfo.className = 'preview-info';
+      
+      const tabTitle = document.createElement('div');
+      tabTitle.className = 'preview-title';
+      tabTitle.textContent = entry.title;
+      tabTitle.title = entry.url;
+      
+      const target = document.createElement('div');
+      const colorPreview = document.createElement('span');
+      colorPreview.className = 'color-preview';
+      colorPreview.style.backgroundColor = entry.color || 'grey';
+      target.appendChild(colorPreview);
+      target.appendChild(document.createTextNode(`→ ${entry.groupName}`));
+      
+      const rule = document.createElement('div');
+      rule.className = 'preview-rule';
+      rule.textContent = entry.ruleType === 'manual'
+        ? `Manual pattern /${entry.rule}/`
+        : entry.ruleType === 'auto'
+          ? `Auto-pattern ${entry.rule}`
+          : `Registrable domain ${entry.rule}`;
+      
+      previewInfo.appendChild(tabTitle);
+      previewInfo.appendChild(target);
+      previewInfo.appendChild(rule);
+      previewItem.appendChild(checkbox);
+      previewItem.appendChild(previewInfo);
       
-      // Force a refresh of logs
-      setTimeout(() => this.loadLogs(), 500);
+      this.previewList.appendChild(previewItem);
     });
   }
+  
+  /**
+   * Hides the grouping preview
+   */
+  private closePreview(): void {
+    this.previewPlan = [];
+    this.previewList.innerHTML = '';
+    this.previewSection.style.display = 'none';
+  }
+  
+  /**
+   * Applies the grouping preview
+   * @param selectedOnly Whether to apply only the checked entries instead of the whole plan
+   */
+  private applyPreview(selectedOnly: boolean): void {
+    let tabIds: number[] | undefined;
+    
+    if (selectedOnly) {
+      const checkboxes = this.previewList.querySelectorAll<HTMLInputElement>('input[type="checkbox"]');
+      tabIds = Array.from(checkboxes)
+        .filter(checkbox => checkbox.checked)
+        .map(checkbox => Number(checkbox.dataset.tabId));
+      
+      if (tabIds.length === 0) {
+        alert('Please select at least one tab to group.');
+        return;
+      }
+    }
+    
+    console.log(`PopupManager: Applying grouping preview for ${tabIds ? tabIds.length : 'all'} tabs`);
+    
+    this.applySelectedPreviewButton.disabled = true;
+    this.applyAllPreviewButton.disabled = true;
+    this.startGroupingProgress();
+    
+    sendMessage('applyGroupingPreview', { tabIds })
+      .then(({ groupedCount }) => {
+        this.appendLogEntry(`[Success] Grouped ${groupedCount} tabs`);
+      })
+      .catch((error: MessageError) => {
+        console.error('PopupManager: Error applying grouping preview:', error);
+        this.appendLogEntry(`[Error] Failed to apply grouping preview: ${error.message}`, 'error');
+      })
+      .finally(() => {
+        this.stopGroupingProgress();
+        this.closePreview();
+        this.loadLastOperation();
+        
+        // Force a refresh of logs
+        setTimeout(() => this.loadLogs(), 500);
+      });
+  }
 }
 
 // Initialize the popup manager when the DOM is loaded
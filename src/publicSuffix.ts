@@ -0,0 +1,127 @@
+/**
+ * Tab Groups Manager - Public Suffix List
+ *
+ * Looks up the registrable domain (eTLD+1) of a hostname using the bundled
+ * Public Suffix List, so "docs.google.com" and "mail.google.com" both resolve
+ * to "google.com" and "news.bbc.co.uk" resolves to "bbc.co.uk".
+ */
+
+import { ICANN_SUFFIX_RULES, PRIVATE_SUFFIX_RULES } from './publicSuffixData';
+
+interface SuffixRules {
+  rules: Set<string>;       // Plain rules (e.g. "co.uk")
+  wildcards: Set<string>;   // Wildcard rules without the "*." prefix (e.g. "ck" for "*.ck")
+  exceptions: Set<string>;  // Exception rules without the "!" prefix (e.g. "www.ck")
+}
+
+/**
+ * PublicSuffixList class answers public suffix and registrable domain queries.
+ * The rule sets are parsed on first use and then kept for the lifetime of the worker.
+ */
+export class PublicSuffixList {
+  private static icannRules: SuffixRules | null = null;
+  private static allRules: SuffixRules | null = null;
+  
+  /**
+   * Gets the registrable domain of a hostname - its public suffix plus one more label
+   * @param hostname The hostname to look up (as reported by URL, so already lowercase ASCII)
+   * @param includePrivate Whether private suffixes such as "github.io" count as public suffixes
+   * @returns The registrable domain, or null for IP addresses and bare public suffixes
+   */
+  public static getRegistrableDomain(hostname: string, includePrivate: boolean): string | null {
+    const suffix = this.getPublicSuffix(hostname, includePrivate);
+    if (!suffix || suffix === hostname) {
+      return null;
+    }
+    
+    const labels = hostname.split('.');
+    const suffixLength = suffix.split('.').length;
+    return labels.slice(labels.length - suffixLength - 1).join('.');
+  }
+  
+  /**
+   * Gets the public suffix of a hostname using the longest matching rule
+   * @param hostname The hostname to look up
+   * @param includePrivate Whether to include the private section of the list
+   * @returns The public suffix, or null for IP addresses and empty hostnames
+   */
+  public static getPublicSuffix(hostname: string, includePrivate: boolean): string | null {
+    const host = hostname.replace(/\.$/, '');
+    if (!host || this.isIpAddress(host)) {
+      return null;
+    }
+    
+    const suffixRules = this.getRules(includePrivate);
+    const labels = host.split('.');
+    
+    // Walk from the longest candidate to the shortest, so the first hit is the longest match
+    for (let i = 0; i < labels.length; i++) {
+      const candidate = labels.slice(i).join('.');
+      const parent = labels.slice(i + 1).join('.');
+      
+      // An exception rule makes its parent the public suffix
+      if (suffixRules.exceptions.has(candidate)) {
+        return parent;
+      }
+      
+      if (suffixRules.rules.has(candidate) || (parent && suffixRules.wildcards.has(parent))) {
+        return candidate;
+      }
+    }
+    
+    // The implicit "*" rule: an unlisted TLD is a public suffix
+    return labels[labels.length - 1];
+  }
+  
+  /**
+   * Checks whether a hostname is an IPv4 or IPv6 address
+   */
+  private static isIpAddress(hostname: string): boolean {
+    return hostname.startsWith('[') || /^\d+(\.\d+){3}$/.test(hostname);
+  }
+  
+  /**
+   * Gets the parsed rule sets, parsing them on first use
+   * @param includePrivate Whether to include the private section of the list
+   */
+  private static getRules(includePrivate: boolean): SuffixRules {
+    if (includePrivate) {
+      if (!this.allRules) {
+        this.allRules = this.parseRules(`${ICANN_SUFFIX_RULES}\n${PRIVATE_SUFFIX_RULES}`);
+      }
+      return this.allRules;
+    }
+    
+    if (!this.icannRules) {
+      this.icannRules = this.parseRules(ICANN_SUFFIX_RULES);
+    }
+    return this.icannRules;
+  }
+  
+  /**
+   * Parses newline-separated rules into lookup sets
+   * @param data The rules, one per line
+   */
+  private static parseRules(data: string): SuffixRules {
+    const suffixRules: SuffixRules = {
+      rules: new Set(),
+      wildcards: new Set(),
+      exceptions: new Set()
+    };
+    
+    for (const line of data.split('\n')) {
+      const rule = line.trim();
+      if (!rule) continue;
+      
+      if (rule.startsWith('!')) {
+        suffixRules.exceptions.add(rule.slice(1));
+      } else if (rule.startsWith('*.')) {
+        suffixRules.wildcards.add(rule.slice(2));
+      } else {
+        suffixRules.rules.add(rule);
+      }
+    }
+    
+    return suffixRules;
+  }
+}
@@ -0,0 +1,10348 @@
+/**
+ * Public Suffix List data, generated by scripts/update-psl.js - do not edit by hand.
+ * 
+ * Source: https://publicsuffix.org/ (Mozilla Public License 2.0)
+ * Generated: 2026-10-19
+ * 
+ * One rule per line, in ASCII (punycode) form.
+ */
+
+export const ICANN_SUFFIX_RULES = `
+xn--t60b56a
+xn--3e0b707e
+xn--mix082f
+xn--efvy88h
+xn--mix891f
+xn--8y0a063a
+xn--fct429k
+xn--w4rs40l
+xn--otu796d
+xn--gk3at1e
+xn--mk1bu44c
+xn--cg4bki
+xn--tckwe
+xn--node
+xn--90ae
+xn--p1ai
+xn--e1a4c
+ad
+cd
+gov.cd
+bd
+id.bd
+ac.bd
+ai.bd
+co.bd
+it.bd
+tv.bd
+org.bd
+mil.bd
+com.bd
+sch.bd
+net.bd
+edu.bd
+gov.bd
+info.bd
+gd
+edu.gd
+gov.gd
+id
+ac.id
+ai.id
+co.id
+go.id
+or.id
+my.id
+xn--9tfky.id
+mil.id
+web.id
+sch.id
+net.id
+kop.id
+biz.id
+desa.id
+ponpes.id
+md
+sd
+tv.sd
+med.sd
+org.sd
+com.sd
+net.sd
+edu.sd
+gov.sd
+info.sd
+td
+ae
+ac.ae
+co.ae
+org.ae
+mil.ae
+sch.ae
+net.ae
+gov.ae
+be
+ac.be
+de
+ee
+med.ee
+fie.ee
+org.ee
+com.ee
+lib.ee
+pri.ee
+edu.ee
+aip.ee
+gov.ee
+riik.ee
+ge
+org.ge
+com.ge
+cyb.ge
+llc.ge
+pvt.ge
+net.ge
+edu.ge
+gov.ge
+tnx.ge
+online.ge
+school.ge
+ie
+gov.ie
+je
+co.je
+org.je
+net.je
+ke
+me.ke
+ne.ke
+ac.ke
+sc.ke
+co.ke
+go.ke
+or.ke
+mobi.ke
+info.ke
+me
+ac.me
+co.me
+org.me
+net.me
+edu.me
+gov.me
+its.me
+priv.me
+ne
+pe
+org.pe
+mil.pe
+com.pe
+nom.pe
+gob.pe
+net.pe
+edu.pe
+re
+com.re
+asso.re
+se
+e.se
+d.se
+g.se
+f.se
+a.se
+c.se
+b.se
+m.se
+l.se
+o.se
+n.se
+i.se
+h.se
+k.se
+u.se
+t.se
+w.se
+p.se
+s.se
+r.se
+y.se
+x.se
+z.se
+bd.se
+tm.se
+ac.se
+fh.se
+pp.se
+brand.se
+parti.se
+org.se
+fhv.se
+press.se
+lanbib.se
+kommunalforbund.se
+fhsk.se
+komvux.se
+komforb.se
+naturbruksgymn.se
+ve
+ia.ve
+co.ve
+store.ve
+e12.ve
+org.ve
+mil.ve
+com.ve
+nom.ve
+web.ve
+gob.ve
+bib.ve
+rec.ve
+tec.ve
+net.ve
+int.ve
+edu.ve
+gov.ve
+rar.ve
+emprende.ve
+firm.ve
+info.ve
+arts.ve
+ye
+org.ye
+mil.ye
+com.ye
+net.ye
+edu.ye
+gov.ye
+ga
+ba
+org.ba
+mil.ba
+com.ba
+net.ba
+edu.ba
+gov.ba
+ca
+pe.ca
+nf.ca
+nl.ca
+ab.ca
+nb.ca
+mb.ca
+gc.ca
+bc.ca
+qc.ca
+on.ca
+nt.ca
+nu.ca
+yk.ca
+sk.ca
+ns.ca
+la
+org.la
+com.la
+net.la
+int.la
+edu.la
+gov.la
+per.la
+info.la
+ma
+ac.ma
+co.ma
+org.ma
+net.ma
+gov.ma
+press.ma
+na
+co.na
+org.na
+com.na
+net.na
+alt.na
+gov.na
+ua
+od.ua
+te.ua
+if.ua
+lg.ua
+pl.ua
+km.ua
+sm.ua
+sb.ua
+kh.ua
+in.ua
+cn.ua
+dn.ua
+vn.ua
+zt.ua
+lt.ua
+mk.ua
+ck.ua
+zp.ua
+dp.ua
+rv.ua
+cv.ua
+kv.ua
+lv.ua
+cr.ua
+kr.ua
+ks.ua
+uz.ua
+chernovtsy.ua
+rivne.ua
+yalta.ua
+odesa.ua
+volyn.ua
+rovno.ua
+lutsk.ua
+org.ua
+com.ua
+net.ua
+edu.ua
+gov.ua
+vinnica.ua
+zhitomir.ua
+ternopil.ua
+poltava.ua
+kropyvnytskyi.ua
+zaporizhzhia.ua
+sevastopol.ua
+sebastopol.ua
+uzhgorod.ua
+uzhhorod.ua
+kharkov.ua
+kharkiv.ua
+vinnytsia.ua
+khmelnytskyi.ua
+zaporizhzhe.ua
+crimea.ua
+odessa.ua
+zhytomyr.ua
+nikolaev.ua
+cherkassy.ua
+donetsk.ua
+lugansk.ua
+luhansk.ua
+kirovograd.ua
+ivano-frankivsk.ua
+chernivtsi.ua
+krym.ua
+kiev.ua
+kyiv.ua
+lviv.ua
+sumy.ua
+zakarpattia.ua
+mykolaiv.ua
+cherkasy.ua
+chernigov.ua
+kherson.ua
+chernihiv.ua
+dnipropetrovsk.ua
+dnepropetrovsk.ua
+khmelnitskiy.ua
+va
+pa
+ac.pa
+med.pa
+sld.pa
+ing.pa
+org.pa
+com.pa
+nom.pa
+gob.pa
+abo.pa
+net.pa
+edu.pa
+qa
+org.qa
+mil.qa
+com.qa
+sch.qa
+net.qa
+edu.qa
+gov.qa
+name.qa
+sa
+med.sa
+org.sa
+com.sa
+pub.sa
+sch.sa
+net.sa
+edu.sa
+gov.sa
+tm.za
+ac.za
+co.za
+agric.za
+org.za
+mil.za
+nom.za
+web.za
+nic.za
+ngo.za
+net.za
+alt.za
+edu.za
+gov.za
+law.za
+nis.za
+school.za
+grondar.za
+cf
+bf
+gov.bf
+af
+org.af
+com.af
+net.af
+edu.af
+gov.af
+gf
+nf
+store.nf
+com.nf
+web.nf
+rec.nf
+net.nf
+per.nf
+other.nf
+firm.nf
+info.nf
+arts.nf
+pf
+org.pf
+com.pf
+edu.pf
+wf
+tf
+bg
+0.0.0.5.bg
+0.0.0.4.bg
+0.0.0.7.bg
+0.0.0.6.bg
+0.0.0.1.bg
+0.0.0.0.bg
+0.0.0.3.bg
+0.0.0.2.bg
+0.0.0.9.bg
+0.0.0.8.bg
+e.bg
+d.bg
+g.bg
+f.bg
+a.bg
+c.bg
+b.bg
+m.bg
+l.bg
+o.bg
+n.bg
+i.bg
+h.bg
+k.bg
+j.bg
+u.bg
+t.bg
+w.bg
+v.bg
+q.bg
+p.bg
+s.bg
+r.bg
+y.bg
+x.bg
+z.bg
+cg
+ag
+co.ag
+org.ag
+com.ag
+nom.ag
+net.ag
+gg
+co.gg
+org.gg
+net.gg
+eg
+me.eg
+ac.eg
+tv.eg
+sport.eg
+org.eg
+mil.eg
+com.eg
+sci.eg
+eun.eg
+net.eg
+edu.eg
+gov.eg
+name.eg
+info.eg
+kg
+org.kg
+mil.kg
+com.kg
+net.kg
+edu.kg
+gov.kg
+ng
+i.ng
+org.ng
+mil.ng
+com.ng
+sch.ng
+net.ng
+edu.ng
+gov.ng
+name.ng
+mobi.ng
+mg
+co.mg
+prd.mg
+org.mg
+mil.mg
+com.mg
+nom.mg
+edu.mg
+gov.mg
+sg
+org.sg
+com.sg
+net.sg
+edu.sg
+gov.sg
+*.pg
+vg
+edu.vg
+tg
+ug
+ne.ug
+ac.ug
+sc.ug
+co.ug
+go.ug
+or.ug
+us.ug
+org.ug
+mil.ug
+com.ug
+edu.ug
+gov.ug
+il
+ac.il
+co.il
+k12.il
+idf.il
+org.il
+net.il
+gov.il
+muni.il
+ml
+ac.ml
+pr.ml
+org.ml
+com.ml
+art.ml
+net.ml
+edu.ml
+gov.ml
+presse.ml
+info.ml
+asso.ml
+inst.ml
+gouv.ml
+nl
+al
+org.al
+mil.al
+com.al
+net.al
+edu.al
+gov.al
+cl
+co.cl
+mil.cl
+gob.cl
+gov.cl
+gl
+co.gl
+org.gl
+com.gl
+net.gl
+edu.gl
+pl
+tm.pl
+pc.pl
+pruszkow.pl
+ostroda.pl
+kartuzy.pl
+opole.pl
+gmina.pl
+media.pl
+ustka.pl
+zgora.pl
+jgora.pl
+olawa.pl
+ilawa.pl
+lomza.pl
+wlocl.pl
+radom.pl
+bytom.pl
+jaworzno.pl
+targi.pl
+lubin.pl
+konin.pl
+zagan.pl
+kutno.pl
+kepno.pl
+naklo.pl
+czest.pl
+sanok.pl
+turek.pl
+slask.pl
+sklep.pl
+zarow.pl
+lukow.pl
+aid.pl
+org.pl
+mil.pl
+rel.pl
+com.pl
+nom.pl
+atm.pl
+gsm.pl
+net.pl
+edu.pl
+elk.pl
+gov.pl
+pa.gov.pl
+sa.gov.pl
+ug.gov.pl
+um.gov.pl
+ic.gov.pl
+so.gov.pl
+po.gov.pl
+zp.gov.pl
+ap.gov.pl
+uw.gov.pl
+mw.gov.pl
+sr.gov.pl
+pr.gov.pl
+us.gov.pl
+is.gov.pl
+kwpsp.gov.pl
+kppsp.gov.pl
+kmpsp.gov.pl
+oke.gov.pl
+oia.gov.pl
+wsa.gov.pl
+wif.gov.pl
+oum.gov.pl
+sdn.gov.pl
+sko.gov.pl
+kwp.gov.pl
+mup.gov.pl
+pup.gov.pl
+psp.gov.pl
+piw.gov.pl
+wiw.gov.pl
+oow.gov.pl
+uzs.gov.pl
+wkz.gov.pl
+oschr.gov.pl
+zpisdn.gov.pl
+wzmiuw.gov.pl
+witd.gov.pl
+psse.gov.pl
+wsse.gov.pl
+umig.gov.pl
+ugim.gov.pl
+oirm.gov.pl
+pinb.gov.pl
+winb.gov.pl
+wiih.gov.pl
+uppo.gov.pl
+rzgw.gov.pl
+griw.gov.pl
+upow.gov.pl
+wskr.gov.pl
+wios.gov.pl
+wuoz.gov.pl
+starostwo.gov.pl
+konsulat.gov.pl
+waw.pl
+sos.pl
+sex.pl
+biz.pl
+tgory.pl
+sejny.pl
+tychy.pl
+pomorze.pl
+boleslawiec.pl
+legnica.pl
+rawa-maz.pl
+bydgoszcz.pl
+wloclawek.pl
+bielawa.pl
+mragowo.pl
+grajewo.pl
+realestate.pl
+beskidy.pl
+kaszuby.pl
+malopolska.pl
+przeworsk.pl
+swiebodzin.pl
+szkola.pl
+warmia.pl
+miasta.pl
+kazimierz-dolny.pl
+malbork.pl
+swidnica.pl
+dlugoleka.pl
+ostroleka.pl
+podlasie.pl
+elblag.pl
+travel.pl
+zachpomor.pl
+mielec.pl
+szczecin.pl
+nieruchomosci.pl
+walbrzych.pl
+lezajsk.pl
+bedzin.pl
+wielun.pl
+mielno.pl
+olecko.pl
+starachowice.pl
+powiat.pl
+wroclaw.pl
+rybnik.pl
+suwalki.pl
+lebork.pl
+slupsk.pl
+ostrowwlkp.pl
+tarnobrzeg.pl
+tourism.pl
+wegrow.pl
+glogow.pl
+pila.pl
+nysa.pl
+mail.pl
+info.pl
+agro.pl
+auto.pl
+shop.pl
+priv.pl
+lapy.pl
+pisz.pl
+mazury.pl
+pulawy.pl
+skoczow.pl
+rzeszow.pl
+pomorskie.pl
+kalisz.pl
+olkusz.pl
+lowicz.pl
+ostrowiec.pl
+sosnowiec.pl
+mazowsze.pl
+wodzislaw.pl
+bialowieza.pl
+zgorzelec.pl
+katowice.pl
+jelenia-gora.pl
+wolomin.pl
+karpacz.pl
+nowaruda.pl
+czeladz.pl
+konskowola.pl
+swinoujscie.pl
+turystyka.pl
+bieszczady.pl
+cieszyn.pl
+ketrzyn.pl
+olsztyn.pl
+bialystok.pl
+babia-gora.pl
+prochowice.pl
+warszawa.pl
+stalowa-wola.pl
+polkowice.pl
+gorlice.pl
+limanowa.pl
+augustow.pl
+kobierzyce.pl
+opoczno.pl
+gniezno.pl
+szczytno.pl
+kolobrzeg.pl
+podhale.pl
+klodzko.pl
+stargard.pl
+sl
+org.sl
+com.sl
+net.sl
+edu.sl
+gov.sl
+tl
+gov.tl
+hm
+im
+ac.im
+co.im
+ltd.co.im
+plc.co.im
+tt.im
+tv.im
+org.im
+com.im
+net.im
+*.jm
+km
+tm.km
+prd.km
+org.km
+mil.km
+com.km
+nom.km
+edu.km
+gov.km
+ass.km
+notaires.km
+presse.km
+asso.km
+coop.km
+gouv.km
+veterinaire.km
+medecin.km
+pharmaciens.km
+*.mm
+om
+co.om
+med.om
+org.om
+com.om
+pro.om
+net.om
+edu.om
+gov.om
+museum.om
+am
+co.am
+org.am
+com.am
+net.am
+commune.am
+bm
+org.bm
+com.bm
+net.bm
+edu.bm
+gov.bm
+cm
+co.cm
+com.cm
+net.cm
+gov.cm
+dm
+co.dm
+org.dm
+com.dm
+net.dm
+edu.dm
+gov.dm
+fm
+org.fm
+com.fm
+net.fm
+edu.fm
+gm
+zm
+ac.zm
+co.zm
+org.zm
+mil.zm
+com.zm
+sch.zm
+net.zm
+edu.zm
+gov.zm
+biz.zm
+info.zm
+pm
+sm
+tm
+co.tm
+org.tm
+mil.tm
+com.tm
+nom.tm
+net.tm
+edu.tm
+gov.tm
+gb
+bb
+co.bb
+tv.bb
+store.bb
+org.bb
+com.bb
+net.bb
+edu.bb
+gov.bb
+biz.bb
+info.bb
+lb
+org.lb
+com.lb
+net.lb
+edu.lb
+gov.lb
+sb
+org.sb
+com.sb
+net.sb
+edu.sb
+gov.sb
+ec
+agron.ec
+disco.ec
+odont.ec
+k12.ec
+med.ec
+cue.ec
+gye.ec
+cpa.ec
+abg.ec
+eng.ec
+org.ec
+mil.ec
+gal.ec
+sal.ec
+tul.ec
+com.ec
+adm.ec
+esm.ec
+gob.ec
+pub.ec
+doc.ec
+mon.ec
+fin.ec
+dgn.ec
+rio.ec
+uio.ec
+pro.ec
+art.ec
+lat.ec
+vet.ec
+net.ec
+fot.ec
+edu.ec
+loj.ec
+gov.ec
+ntr.ec
+tur.ec
+ibr.ec
+bar.ec
+xxx.ec
+chef.ec
+prof.ec
+mktg.ec
+psic.ec
+tech.ec
+info.ec
+arqt.ec
+cont.ec
+dent.ec
+rrpp.ec
+psiq.ec
+cc
+ac
+org.ac
+mil.ac
+com.ac
+net.ac
+edu.ac
+gov.ac
+nc
+nom.nc
+asso.nc
+lc
+co.lc
+org.lc
+com.lc
+net.lc
+edu.lc
+gov.lc
+mc
+tm.mc
+asso.mc
+vc
+org.vc
+mil.vc
+com.vc
+net.vc
+edu.vc
+gov.vc
+tc
+sc
+org.sc
+com.sc
+net.sc
+edu.sc
+gov.sc
+mh
+kh
+org.kh
+com.kh
+net.kh
+edu.kh
+gov.kh
+gh
+org.gh
+mil.gh
+com.gh
+net.gh
+edu.gh
+gov.gh
+biz.gh
+ch
+bh
+org.bh
+com.bh
+net.bh
+edu.bh
+gov.bh
+th
+ac.th
+mi.th
+in.th
+co.th
+go.th
+or.th
+net.th
+ph
+i.ph
+org.ph
+mil.ph
+com.ph
+ngo.ph
+net.ph
+edu.ph
+gov.ph
+sh
+org.sh
+mil.sh
+com.sh
+net.sh
+gov.sh
+li
+ni
+ac.ni
+in.ni
+co.ni
+org.ni
+mil.ni
+com.ni
+nom.ni
+web.ni
+gob.ni
+net.ni
+int.ni
+edu.ni
+biz.ni
+info.ni
+ki
+org.ki
+com.ki
+net.ki
+edu.ki
+gov.ki
+biz.ki
+info.ki
+fi
+aland.fi
+gi
+mod.gi
+ltd.gi
+org.gi
+com.gi
+edu.gi
+gov.gi
+ai
+off.ai
+org.ai
+com.ai
+net.ai
+bi
+co.bi
+or.bi
+org.bi
+com.bi
+edu.bi
+ci
+ed.ci
+ac.ci
+co.ci
+go.ci
+or.ci
+org.ci
+com.ci
+net.ci
+int.ci
+edu.ci
+xn--aroport-bya.ci
+asso.ci
+gouv.ci
+vi
+co.vi
+k12.vi
+org.vi
+com.vi
+net.vi
+si
+kn
+org.kn
+net.kn
+edu.kn
+gov.kn
+in
+me.in
+ca.in
+6g.in
+5g.in
+pg.in
+am.in
+ub.in
+ac.in
+ai.in
+cn.in
+io.in
+co.in
+uk.in
+up.in
+tv.in
+er.in
+dr.in
+us.in
+cs.in
+delhi.in
+ind.in
+org.in
+mil.in
+com.in
+nic.in
+fin.in
+gen.in
+pro.in
+net.in
+int.in
+edu.in
+gov.in
+res.in
+biz.in
+bihar.in
+internet.in
+business.in
+school.in
+travel.in
+alumni.in
+gujarat.in
+firm.in
+info.in
+aero.in
+post.in
+bank.in
+coop.in
+hn
+org.hn
+mil.hn
+com.hn
+gob.hn
+net.hn
+edu.hn
+mn
+org.mn
+edu.mn
+gov.mn
+cn
+gd.cn
+sd.cn
+he.cn
+ha.cn
+hl.cn
+jl.cn
+nm.cn
+hb.cn
+ac.cn
+sc.cn
+ah.cn
+qh.cn
+sh.cn
+hi.cn
+hn.cn
+ln.cn
+yn.cn
+sn.cn
+mo.cn
+fj.cn
+bj.cn
+zj.cn
+xj.cn
+tj.cn
+hk.cn
+cq.cn
+tw.cn
+gs.cn
+js.cn
+sx.cn
+nx.cn
+jx.cn
+gx.cn
+xz.cn
+gz.cn
+xn--od0alg.cn
+xn--io0a7i.cn
+xn--55qx5d.cn
+org.cn
+mil.cn
+com.cn
+net.cn
+edu.cn
+gov.cn
+bn
+org.bn
+com.bn
+net.bn
+edu.bn
+gov.bn
+gn
+ac.gn
+org.gn
+com.gn
+net.gn
+edu.gn
+gov.gn
+sn
+org.sn
+com.sn
+art.sn
+edu.sn
+gouv.sn
+univ.sn
+pn
+co.pn
+org.pn
+net.pn
+edu.pn
+gov.pn
+vn
+id.vn
+ac.vn
+ai.vn
+io.vn
+sonla.vn
+hanam.vn
+hanoi.vn
+camau.vn
+hue.vn
+org.vn
+com.vn
+pro.vn
+net.vn
+int.vn
+edu.vn
+gov.vn
+biz.vn
+bacninh.vn
+tayninh.vn
+hoabinh.vn
+namdinh.vn
+travinh.vn
+haiphong.vn
+vinhlong.vn
+haiduong.vn
+quangnam.vn
+quangtri.vn
+thuathienhue.vn
+quangninh.vn
+bacgiang.vn
+haugiang.vn
+quangbinh.vn
+soctrang.vn
+bentre.vn
+thanhphohochiminh.vn
+danang.vn
+kontum.vn
+hatinh.vn
+khanhhoa.vn
+thanhhoa.vn
+health.vn
+gialai.vn
+laocai.vn
+yenbai.vn
+backan.vn
+nghean.vn
+longan.vn
+phuyen.vn
+phutho.vn
+cantho.vn
+daklak.vn
+dongnai.vn
+name.vn
+info.vn
+vinhphuc.vn
+dongthap.vn
+kiengiang.vn
+tiengiang.vn
+quangngai.vn
+laichau.vn
+langson.vn
+lamdong.vn
+daknong.vn
+hagiang.vn
+angiang.vn
+caobang.vn
+binhduong.vn
+ninhthuan.vn
+binhthuan.vn
+baclieu.vn
+thaibinh.vn
+ninhbinh.vn
+binhdinh.vn
+tuyenquang.vn
+hungyen.vn
+baria-vungtau.vn
+thainguyen.vn
+dienbien.vn
+binhphuoc.vn
+tn
+perso.tn
+ind.tn
+org.tn
+com.tn
+fin.tn
+nat.tn
+net.tn
+gov.tn
+ens.tn
+mincom.tn
+tourism.tn
+intl.tn
+info.tn
+jo
+fm.jo
+ai.jo
+tv.jo
+phd.jo
+eng.jo
+org.jo
+mil.jo
+com.jo
+sch.jo
+net.jo
+edu.jo
+gov.jo
+per.jo
+agri.jo
+io
+co.io
+org.io
+mil.io
+com.io
+nom.io
+net.io
+edu.io
+gov.io
+no
+xn--h-2fa.no
+re.no
+xn--l-1fa.no
+aa.no
+gs.aa.no
+ha.no
+va.no
+gs.va.no
+of.no
+gs.of.no
+sf.no
+gs.sf.no
+vf.no
+gs.vf.no
+hl.no
+gs.hl.no
+ol.no
+gs.ol.no
+nl.no
+gs.nl.no
+al.no
+rl.no
+gs.rl.no
+hm.no
+gs.hm.no
+fm.no
+gs.fm.no
+tm.no
+gs.tm.no
+ah.no
+gs.ah.no
+st.no
+gs.st.no
+nt.no
+gs.nt.no
+bu.no
+gs.bu.no
+xn--s-1fa.no
+tr.no
+gs.tr.no
+mr.no
+gs.mr.no
+eigersund.no
+xn--gls-elac.no
+eidsvoll.no
+tingvoll.no
+gildeskal.no
+xn--flor-jra.no
+xn--vads-jra.no
+xn--vard-jra.no
+vanylven.no
+xn--bhccavuotna-k7a.no
+stranda.no
+xn--kvnangen-k0a.no
+xn--sknland-fxa.no
+xn--mosjen-eya.no
+rakkestad.no
+hyllestad.no
+nannestad.no
+vevelstad.no
+vaapste.no
+nordre-land.no
+sondre-land.no
+xn--sndre-land-0cb.no
+tjielte.no
+xn--vrggt-xqad.no
+xn--sr-aurdal-l8a.no
+sor-aurdal.no
+herad.no
+stord.no
+molde.no
+forde.no
+xn--frde-gra.no
+selje.no
+fedje.no
+rygge.no
+hemne.no
+xn--krehamn-dxa.no
+sogne.no
+grane.no
+xn--sgne-gra.no
+bryne.no
+tjome.no
+valle.no
+bykle.no
+tokke.no
+giske.no
+dovre.no
+xn--tjme-hra.no
+xn--hobl-ira.no
+volda.no
+sauda.no
+tolga.no
+xn--smna-gra.no
+vikna.no
+xn--dnna-gra.no
+somna.no
+donna.no
+trana.no
+frana.no
+nesna.no
+rauma.no
+smola.no
+xn--trna-woa.no
+xn--frna-woa.no
+lesja.no
+xn--smla-hra.no
+xn--rsta-fra.no
+orsta.no
+hitra.no
+flora.no
+aukra.no
+loppa.no
+xn--frya-hra.no
+rissa.no
+snasa.no
+halsa.no
+galsa.no
+romsa.no
+raisa.no
+xn--risa-5na.no
+froya.no
+xn--snsa-roa.no
+grong.no
+hobol.no
+fjell.no
+tydal.no
+xn--rdal-poa.no
+ardal.no
+askim.no
+haram.no
+kraanghke.no
+xn--kranghke-b0a.no
+sorum.no
+barum.no
+hurum.no
+xn--brum-voa.no
+xn--srum-gra.no
+modum.no
+xn--slt-elab.no
+xn--blt-elab.no
+frogn.no
+bjugn.no
+xn--vgan-qoa.no
+vagan.no
+gulen.no
+skien.no
+xn--lten-gra.no
+loten.no
+stryn.no
+vefsn.no
+xn--merker-kua.no
+skaun.no
+sveio.no
+xn--bmlo-gra.no
+bomlo.no
+xn--skjk-soa.no
+vardo.no
+floro.no
+vadso.no
+salat.no
+balat.no
+xn--slat-5na.no
+xn--klbu-woa.no
+klabu.no
+selbu.no
+bardu.no
+ulvik.no
+skjak.no
+klepp.no
+xn--risr-ira.no
+xn--nttery-byae.no
+xn--fl-zia.no
+eid.no
+fla.no
+hof.no
+mil.no
+gol.no
+hol.no
+sel.no
+lom.no
+ski.no
+fet.no
+vik.no
+dep.no
+vgs.no
+fhs.no
+asker.no
+risor.no
+hamar.no
+asnes.no
+xn--snes-poa.no
+xn--rros-gra.no
+roros.no
+masoy.no
+naroy.no
+varoy.no
+luroy.no
+dyroy.no
+askoy.no
+radoy.no
+andoy.no
+rodoy.no
+meloy.no
+xn--rady-ira.no
+xn--andy-ira.no
+xn--rdy-0nab.no
+xn--mely-ira.no
+xn--asky-ira.no
+xn--lury-ira.no
+xn--dyry-ira.no
+xn--msy-ula0h.no
+xn--vry-yla5g.no
+xn--nry-yla5g.no
+hoylandet.no
+xn--hylandet-54a.no
+divtasvuodna.no
+xn--lrenskog-54a.no
+lorenskog.no
+nesoddtangen.no
+xn--stjrdal-s1a.no
+unjarga.no
+lillehammer.no
+xn--unjrga-rta.no
+xn--hamary-fya.no
+davvenjarga.no
+xn--bearalvhki-y4a.no
+gjerdrum.no
+xn--brnnysund-m8ac.no
+xn--tnsberg-q1a.no
+xn--mlatvuopmi-s4a.no
+xn--skierv-uta.no
+tysfjord.no
+kvafjord.no
+eidfjord.no
+xn--kvfjord-nxa.no
+songdalen.no
+mjondalen.no
+xn--mjndalen-64a.no
+kragero.no
+xn--ggaviika-8ya47h.no
+gangaviika.no
+xn--srreisa-q1a.no
+sorreisa.no
+xn--sr-varanger-ggb.no
+sor-varanger.no
+skierva.no
+kvinesdal.no
+leksvik.no
+leirvik.no
+xn--ryrvik-bya.no
+royrvik.no
+svelvik.no
+vennesla.no
+evje-og-hornnes.no
+xn--sandnessjen-ogb.no
+marnardal.no
+vindafjord.no
+sandefjord.no
+enebakk.no
+snillfjord.no
+ullensvang.no
+xn--trany-yua.no
+namsskogan.no
+austevoll.no
+xn--stjrdalshalsen-sqb.no
+nord-aurdal.no
+nord-fron.no
+xn--trgstad-r1a.no
+trogstad.no
+grimstad.no
+flakstad.no
+gjerstad.no
+xn--sandy-yua.no
+xn--leagaviika-52b.no
+nore-og-uvdal.no
+vegarshei.no
+xn--rlingen-mxa.no
+xn--vegrshei-c0a.no
+karlsoy.no
+kvitsoy.no
+masfjorden.no
+hamaroy.no
+inderoy.no
+osteroy.no
+xn--davvenjrga-y4a.no
+sauherad.no
+guovdageaidnu.no
+xn--vre-eiker-k8a.no
+bronnoy.no
+siellak.no
+xn--krdsherad-m8a.no
+krodsherad.no
+kvinnherad.no
+xn--brnny-wuac.no
+xn--mtta-vrjjat-k7af.no
+xn--kvitsy-fya.no
+xn--karlsy-fya.no
+xn--ostery-fya.no
+xn--indery-fya.no
+bronnoysund.no
+xn--aurskog-hland-jnb.no
+bahccavuotna.no
+giehtavuoatna.no
+stor-elvdal.no
+midtre-gauldal.no
+xn--gildeskl-g0a.no
+karasjok.no
+evenassi.no
+xn--bievt-0qa.no
+xn--yer-zna.no
+lebesby.no
+nesseby.no
+xn--hbmer-xqa.no
+malselv.no
+xn--mlselv-iua.no
+sande.xn--mre-og-romsdal-qqb.no
+xn--hery-ira.xn--mre-og-romsdal-qqb.no
+sande.more-og-romsdal.no
+heroy.more-og-romsdal.no
+hareid.no
+meland.no
+xn--rland-uua.no
+orland.no
+strand.no
+xn--lgrd-poac.no
+solund.no
+algard.no
+afjord.no
+xn--fjord-lra.no
+dielddanuorri.no
+kautokeino.no
+xn--stre-toten-zcb.no
+skodje.no
+aejrie.no
+stange.no
+lierne.no
+bamble.no
+stokke.no
+fauske.no
+xn--snase-nra.no
+snaase.no
+kongsvinger.no
+langevag.no
+berlevag.no
+hattfjelldal.no
+ostre-toten.no
+sande.vestfold.no
+xn--laheadju-7ya.no
+alaheadju.no
+nordreisa.no
+xn--troms-zua.no
+porsanger.no
+flatanger.no
+stavanger.no
+leikanger.no
+bremanger.no
+samnanger.no
+gielda.no
+karasjohka.no
+frosta.no
+utsira.no
+snoasa.no
+tromsa.no
+flekkefjord.no
+xn--jlster-bya.no
+jolster.no
+aremark.no
+os.hedmark.no
+valer.hedmark.no
+xn--vler-qoa.hedmark.no
+xn--nmesjevuemie-tcba.no
+naamesjevuemie.no
+rollag.no
+meraker.no
+orskog.no
+xn--rskog-uua.no
+xn--bdddj-mrabd.no
+xn--koluokta-7ya57h.no
+xn--osyro-wua.no
+aknoluokta.no
+trysil.no
+xn--skjervy-v1a.no
+mandal.no
+jondal.no
+bindal.no
+rindal.no
+meldal.no
+suldal.no
+orkdal.no
+sigdal.no
+alvdal.no
+xn--lrdal-sra.no
+hurdal.no
+sirdal.no
+verdal.no
+lerdal.no
+lardal.no
+oppdal.no
+xn--seral-lra.no
+aseral.no
+hadsel.no
+xn--krager-gya.no
+divttasvuotna.no
+overhalla.no
+steinkjer.no
+xn--hnefoss-q1a.no
+skedsmokorset.no
+vestre-toten.no
+museum.no
+rahkkeravju.no
+fylkesbibl.no
+xn--bjddar-pta.no
+bajddar.no
+xn--rennesy-v1a.no
+xn--hgebostad-g3a.no
+leirfjord.no
+storfjord.no
+balsfjord.no
+xn--btsfjord-9za.no
+batsfjord.no
+xn--muost-0qa.no
+xn--loabt-0qa.no
+xn--krjohka-hwab49j.no
+nordkapp.no
+xn--lhppi-xqa.no
+lahppi.no
+alstahaug.no
+siljan.no
+verran.no
+xn--ryken-vua.no
+royken.no
+halden.no
+lyngen.no
+bergen.no
+horten.no
+honefoss.no
+troandin.no
+beiarn.no
+varggat.no
+osoyro.no
+tromso.no
+idrett.no
+muosat.no
+bievat.no
+ruovat.no
+loabat.no
+voagat.no
+tynset.no
+nesset.no
+xn--sknit-yqa.no
+skanit.no
+raholt.no
+xn--rholt-mra.no
+xn--ystre-slidre-ujb.no
+andebu.no
+sarpsborg.no
+beardu.no
+os.hordaland.no
+jorpeland.no
+xn--jrpeland-54a.no
+deatnu.no
+ringsaker.no
+xn--sr-odal-q1a.no
+sor-odal.no
+ringerike.no
+audnedal.no
+nittedal.no
+nissedal.no
+hemsedal.no
+slattum.no
+surnadal.no
+elverum.no
+naustdal.no
+hjartdal.no
+xn--gjvik-wua.no
+fyresdal.no
+hasvik.no
+narvik.no
+larvik.no
+gjovik.no
+malvik.no
+gamvik.no
+lenvik.no
+porsgrunn.no
+stjordal.no
+engerdal.no
+drobak.no
+xn--drbak-wua.no
+vestvagoy.no
+xn--vler-qoa.xn--stfold-9xa.no
+xn--hpmir-xqa.no
+malatvuopmi.no
+xn--tysvr-vra.no
+kirkenes.no
+birkenes.no
+moskenes.no
+xn--bidr-5nac.no
+bahcavuotna.no
+xn--bhcavuotna-s4a.no
+xn--linds-pra.no
+bearalvahki.no
+xn--rhkkervju-01af.no
+xn--vg-yiab.no
+xn--lt-liac.no
+xn--bod-2na.no
+sund.no
+lund.no
+rade.no
+xn--rde-ula.no
+etne.no
+time.no
+hole.no
+aure.no
+grue.no
+odda.no
+vaga.no
+vega.no
+rana.no
+tana.no
+arna.no
+sola.no
+sula.no
+alta.no
+leka.no
+fusa.no
+vang.no
+berg.no
+kvam.no
+xn--mli-tla.no
+amli.no
+bokn.no
+tinn.no
+roan.no
+gran.no
+osen.no
+oslo.no
+gs.oslo.no
+bodo.no
+xn--rst-0na.no
+rost.no
+stat.no
+xn--mot-tla.no
+amot.no
+ivgu.no
+priv.no
+oyer.no
+lier.no
+moss.no
+voss.no
+xn--nvuotna-hwa.no
+luster.no
+lunner.no
+marker.no
+habmer.no
+hvaler.no
+fjaler.no
+tysvar.no
+baidar.no
+fitjar.no
+gaular.no
+hapmir.no
+melhus.no
+fosnes.no
+xn--ksnes-uua.no
+oksnes.no
+tysnes.no
+hemnes.no
+evenes.no
+flesberg.no
+eidsberg.no
+tonsberg.no
+lindas.no
+namsos.no
+oystre-slidre.no
+vestre-slidre.no
+trondheim.no
+balestrand.no
+xn--langevg-jxa.no
+austrheim.no
+vagsoy.no
+averoy.no
+sandoy.no
+karmoy.no
+finnoy.no
+tranoy.no
+vestby.no
+tranby.no
+sykkylven.no
+xn--hyanger-q1a.no
+spjelkavik.no
+andasuolo.no
+stathelle.no
+xn--b-5ga.telemark.no
+bo.telemark.no
+xn--porsgu-sta26f.no
+xn--hcesuolo-7ya35b.no
+cahcesuolo.no
+akrehamn.no
+xn--karmy-yua.no
+xn--finny-yua.no
+xn--vgsy-qoa0j.no
+xn--avery-yua.no
+namdalseid.no
+xn--lesund-hua.no
+badaddja.no
+porsangu.no
+navuotna.no
+hammerfest.no
+ibestad.no
+harstad.no
+narviika.no
+xn--eveni-0qa01ga.no
+vestnes.no
+gjemnes.no
+sandnes.no
+agdenes.no
+rennesoy.no
+kongsberg.no
+spydeberg.no
+randaberg.no
+davvesiida.no
+fredrikstad.no
+bjerkreim.no
+ringebu.no
+rennebu.no
+aurskog-holand.no
+notteroy.no
+xn--rmskog-bya.no
+iveland.no
+bygland.no
+froland.no
+aurland.no
+forsand.no
+midsund.no
+alesund.no
+fetsund.no
+farsund.no
+ovre-eiker.no
+nes.akershus.no
+xn--moreke-jua.no
+xn--srfold-bya.no
+valer.ostfold.no
+sorfold.no
+hoyanger.no
+levanger.no
+orkanger.no
+tananger.no
+xn--vestvgy-ixa6o.no
+lillesand.no
+ulstein.no
+granvin.no
+skjervoy.no
+lavagis.no
+kafjord.no
+xn--kfjord-iua.no
+seljord.no
+folkebibl.no
+jevnaker.no
+budejju.no
+xn--ldingen-q1a.no
+brumunddal.no
+xn--ygarden-p1a.no
+mo-i-rana.no
+eidskog.no
+romskog.no
+hjelmeland.no
+ballangen.no
+kvanangen.no
+gratangen.no
+xn--hmmrfeasta-s4ac.no
+vossevangen.no
+suohkan.no
+xn--b-5ga.nordland.no
+bo.nordland.no
+heroy.nordland.no
+xn--hery-ira.nordland.no
+skanland.no
+sortland.no
+fuoisku.no
+gaivuotna.no
+xn--givuotna-8ya.no
+drammen.no
+modalen.no
+mosjoen.no
+jan-mayen.no
+gs.jan-mayen.no
+torsken.no
+steigen.no
+gloppen.no
+matta-varjjat.no
+xn--sr-fron-q1a.no
+omasvuotna.no
+jessheim.no
+xn--holtlen-hxa.no
+stavern.no
+xn--oppegrd-ixa.no
+skiptvet.no
+rendalen.no
+holtalen.no
+kopervik.no
+hokksund.no
+kvalsund.no
+egersund.no
+ullensaker.no
+xn--berlevg-jxa.no
+kristiansand.no
+hornindal.no
+stjordalshalsen.no
+sandnessjoen.no
+sor-fron.no
+nord-odal.no
+kristiansund.no
+nesodden.no
+notodden.no
+nes.buskerud.no
+oygarden.no
+salangen.no
+lavangen.no
+ralingen.no
+lodingen.no
+laakesvuemie.no
+leangaviika.no
+uenorge.no
+askvoll.no
+hammarfeasta.no
+kommune.no
+krokstadelva.no
+nedre-eiker.no
+hagebostad.no
+kviteseid.no
+fuossko.no
+moareke.no
+svalbard.no
+gs.svalbard.no
+oppegard.no
+holmestrand.no
+tvedestrand.no
+sogndal.no
+sokndal.no
+arendal.no
+sunndal.no
+folldal.no
+lyngdal.no
+etnedal.no
+norddal.no
+saltdal.no
+gausdal.no
+skedsmo.no
+vaksdal.no
+gjesdal.no
+stordal.no
+aarborte.no
+drangedal.no
+tjeldsund.no
+haugesund.no
+lindesnes.no
+mo
+org.mo
+com.mo
+net.mo
+edu.mo
+gov.mo
+bo
+ia.bo
+tv.bo
+deporte.bo
+salud.bo
+tksat.bo
+org.bo
+mil.bo
+com.bo
+web.bo
+gob.bo
+net.bo
+int.bo
+edu.bo
+ciencia.bo
+bolivia.bo
+revista.bo
+cooperativa.bo
+empresa.bo
+nombre.bo
+industria.bo
+musica.bo
+patria.bo
+medicina.bo
+democracia.bo
+politica.bo
+pueblo.bo
+indigena.bo
+plurinacional.bo
+arte.bo
+blog.bo
+wiki.bo
+info.bo
+agro.bo
+transporte.bo
+noticias.bo
+profesional.bo
+academia.bo
+economia.bo
+ecologia.bo
+movimiento.bo
+tecnologia.bo
+natural.bo
+co
+org.co
+mil.co
+com.co
+nom.co
+net.co
+edu.co
+gov.co
+ao
+ed.ao
+og.ao
+pb.ao
+co.ao
+it.ao
+gv.ao
+org.ao
+edu.ao
+gov.ao
+fo
+do
+sld.do
+org.do
+mil.do
+com.do
+web.do
+gob.do
+art.do
+net.do
+edu.do
+gov.do
+ro
+tm.ro
+nt.ro
+store.ro
+org.ro
+com.ro
+nom.ro
+rec.ro
+www.ro
+firm.ro
+info.ro
+arts.ro
+so
+me.so
+org.so
+com.so
+net.so
+edu.so
+gov.so
+to
+org.to
+mil.to
+com.to
+net.to
+edu.to
+gov.to
+pt
+org.pt
+com.pt
+net.pt
+int.pt
+edu.pt
+gov.pt
+nome.pt
+publ.pt
+st
+co.st
+store.st
+org.st
+mil.st
+com.st
+net.st
+edu.st
+embaixada.st
+consulado.st
+principe.st
+saotome.st
+tt
+co.tt
+org.tt
+mil.tt
+com.tt
+pro.tt
+net.tt
+edu.tt
+gov.tt
+biz.tt
+name.tt
+info.tt
+yt
+at
+ac.at
+sth.ac.at
+co.at
+gv.at
+or.at
+bt
+org.bt
+com.bt
+net.bt
+edu.bt
+gov.bt
+et
+org.et
+com.et
+net.et
+edu.et
+gov.et
+biz.et
+name.et
+info.et
+gt
+ind.gt
+org.gt
+mil.gt
+com.gt
+gob.gt
+net.gt
+edu.gt
+it
+laspezia.it
+pd.it
+ud.it
+ce.it
+fe.it
+ge.it
+le.it
+me.it
+pe.it
+re.it
+te.it
+ve.it
+ba.it
+ca.it
+na.it
+ta.it
+va.it
+pa.it
+ra.it
+sa.it
+bg.it
+ag.it
+fg.it
+og.it
+rg.it
+pg.it
+al.it
+cl.it
+bl.it
+im.it
+fm.it
+rm.it
+cb.it
+mb.it
+vb.it
+fc.it
+lc.it
+mc.it
+vc.it
+rc.it
+pc.it
+ch.it
+li.it
+mi.it
+fi.it
+bi.it
+ci.it
+vi.it
+pi.it
+ri.it
+si.it
+mn.it
+cn.it
+bn.it
+an.it
+en.it
+rn.it
+pn.it
+tn.it
+no.it
+lo.it
+mo.it
+bo.it
+co.it
+ao.it
+go.it
+ro.it
+so.it
+po.it
+to.it
+pt.it
+vt.it
+at.it
+ct.it
+bt.it
+mt.it
+lt.it
+ot.it
+pu.it
+su.it
+lu.it
+nu.it
+tp.it
+sp.it
+ap.it
+aq.it
+sv.it
+pv.it
+vv.it
+tv.it
+av.it
+vr.it
+tr.it
+sr.it
+pr.it
+gr.it
+fr.it
+cr.it
+br.it
+ar.it
+or.it
+kr.it
+vs.it
+ts.it
+ss.it
+bs.it
+cs.it
+ms.it
+is.it
+pz.it
+cz.it
+bz.it
+bozen-suedtirol.it
+xn--bulsan-sdtirol-nsb.it
+xn--valledaoste-ebb.it
+trentinoaltoadige.it
+trentin-sued-tirol.it
+xn--forlcesena-c8a.it
+xn--forl-cesena-fcb.it
+xn--bozen-sdtirol-2ob.it
+trieste.it
+trentinsuedtirol.it
+trentino-s-tirol.it
+lecce.it
+udine.it
+aoste.it
+siena.it
+parma.it
+lucca.it
+pavia.it
+genoa.it
+padua.it
+aosta.it
+monza.it
+abruzzo.it
+terni.it
+rieti.it
+turin.it
+milan.it
+bozen.it
+lazio.it
+fermo.it
+lecco.it
+cuneo.it
+nuoro.it
+prato.it
+la-spezia.it
+vda.it
+taa.it
+lig.it
+fvg.it
+pug.it
+mol.it
+cal.it
+cam.it
+lom.it
+umb.it
+sic.it
+pmn.it
+ven.it
+vao.it
+edu.it
+gov.it
+abr.it
+sar.it
+mar.it
+emr.it
+bas.it
+tos.it
+laz.it
+firenze.it
+xn--trentinosdtirol-7vb.it
+val-d-aosta.it
+valle-aosta.it
+messina.it
+cremona.it
+ravenna.it
+toscana.it
+trentin-suedtirol.it
+bologna.it
+calabria.it
+urbinopesaro.it
+friuli-v-giulia.it
+ogliastra.it
+xn--valle-aoste-ebb.it
+laquila.it
+andriatranibarletta.it
+xn--valle-d-aoste-ehb.it
+aostavalley.it
+valled-aosta.it
+trentino-alto-adige.it
+vallee-d-aoste.it
+xn--balsan-sdtirol-nsb.it
+pistoia.it
+sicilia.it
+lucania.it
+catania.it
+isernia.it
+perugia.it
+brescia.it
+venezia.it
+gorizia.it
+liguria.it
+imperia.it
+bulsan-suedtirol.it
+balsan-suedtirol.it
+barlettatraniandria.it
+xn--trentino-sdtirol-szb.it
+tuscany.it
+mantova.it
+caserta.it
+piemonte.it
+valleaosta.it
+val-daosta.it
+friulivgiulia.it
+treviso.it
+forli-cesena.it
+ferrara.it
+pescara.it
+vald-aosta.it
+trentino-altoadige.it
+friuli-vegiulia.it
+vallee-aoste.it
+carboniaiglesias.it
+taranto.it
+mediocampidano.it
+valleedaoste.it
+trentinosud-tirol.it
+campobasso.it
+xn--trentinsd-tirol-6vb.it
+xn--trentinosd-tirol-rzb.it
+monzabrianza.it
+xn--trentino-sd-tirol-c3b.it
+potenza.it
+cosenza.it
+vicenza.it
+emiliaromagna.it
+venice.it
+frosinone.it
+marche.it
+pordenone.it
+trentinosued-tirol.it
+varese.it
+molise.it
+xn--valleaoste-e7a.it
+friuli-veneziagiulia.it
+basilicata.it
+latina.it
+ancona.it
+savona.it
+verona.it
+modena.it
+biella.it
+bolzano-altoadige.it
+puglia.it
+foggia.it
+umbria.it
+trentino-stirol.it
+genova.it
+padova.it
+matera.it
+novara.it
+ragusa.it
+piacenza.it
+trentinostirol.it
+valleeaoste.it
+tempio-olbia.it
+sudsardegna.it
+trentinsudtirol.it
+massa-carrara.it
+friuliveneziagiulia.it
+trentinosuedtirol.it
+andria-barletta-trani.it
+trapani.it
+xn--cesenaforl-i8a.it
+macerata.it
+caltanissetta.it
+ascoli-piceno.it
+brindisi.it
+carraramassa.it
+cagliari.it
+rimini.it
+napoli.it
+vibo-valentia.it
+chieti.it
+bulsan-sudtirol.it
+balsan-sudtirol.it
+trentino-a-adige.it
+bulsan.it
+balsan.it
+iglesiascarbonia.it
+milano.it
+torino.it
+teramo.it
+dell-ogliastra.it
+arezzo.it
+trentinoalto-adige.it
+rovigo.it
+trento.it
+veneto.it
+iglesias-carbonia.it
+trentino-sud-tirol.it
+altoadige.it
+reggio-emilia.it
+reggio-calabria.it
+sardegna.it
+tranibarlettaandria.it
+piedmont.it
+xn--sdtirol-n2a.it
+medio-campidano.it
+friuli-vgiulia.it
+friuli-ve-giulia.it
+rome.it
+enna.it
+roma.it
+pisa.it
+lodi.it
+asti.it
+bari.it
+como.it
+naples.it
+forlicesena.it
+alessandria.it
+sicily.it
+trani-barletta-andria.it
+xn--trentin-sdtirol-7vb.it
+pesarourbino.it
+trentinsued-tirol.it
+cesena-forli.it
+emilia-romagna.it
+monzaebrianza.it
+xn--trentinsdtirol-nsb.it
+trentinos-tirol.it
+valledaosta.it
+olbia-tempio.it
+campidanomedio.it
+vibovalentia.it
+sassari.it
+valle-daosta.it
+lombardy.it
+sud-sardegna.it
+friulivegiulia.it
+reggioemilia.it
+monzaedellabrianza.it
+alto-adige.it
+vercelli.it
+trentin-sudtirol.it
+traniandriabarletta.it
+trentino-sudtirol.it
+ascolipiceno.it
+friulive-giulia.it
+florence.it
+xn--cesena-forl-mcb.it
+carbonia-iglesias.it
+aosta-valley.it
+carrara-massa.it
+dellogliastra.it
+trentinoa-adige.it
+pesaro-urbino.it
+xn--trentin-sd-tirol-rzb.it
+trani-andria-barletta.it
+grosseto.it
+monza-e-della-brianza.it
+reggiocalabria.it
+trentinoaadige.it
+verbano-cusio-ossola.it
+friuliv-giulia.it
+verbania.it
+campania.it
+trentino-aadige.it
+friulivenezia-giulia.it
+sardinia.it
+andriabarlettatrani.it
+barletta-trani-andria.it
+catanzaro.it
+oristano.it
+urbino-pesaro.it
+valle-d-aosta.it
+campidano-medio.it
+siracusa.it
+tempioolbia.it
+suedtirol.it
+lombardia.it
+avellino.it
+trentino.it
+friuli-venezia-giulia.it
+bozen-sudtirol.it
+andria-trani-barletta.it
+monza-brianza.it
+bolzano.it
+trentino-sued-tirol.it
+belluno.it
+salerno.it
+livorno.it
+crotone.it
+sondrio.it
+trentinsud-tirol.it
+massacarrara.it
+trentin-sud-tirol.it
+trentino-suedtirol.it
+viterbo.it
+bergamo.it
+cesenaforli.it
+olbiatempio.it
+palermo.it
+benevento.it
+agrigento.it
+ht
+perso.ht
+adult.ht
+med.ht
+org.ht
+pol.ht
+rel.ht
+com.ht
+pro.ht
+art.ht
+net.ht
+edu.ht
+firm.ht
+info.ht
+asso.ht
+shop.ht
+coop.ht
+gouv.ht
+mt
+org.mt
+com.mt
+net.mt
+edu.mt
+lt
+gov.lt
+ru
+su
+vu
+org.vu
+com.vu
+net.vu
+edu.vu
+au
+id.au
+wa.au
+sa.au
+nt.au
+oz.au
+qld.au
+org.au
+com.au
+vic.au
+asn.au
+act.au
+net.au
+edu.au
+wa.edu.au
+sa.edu.au
+nt.edu.au
+qld.edu.au
+vic.edu.au
+act.edu.au
+nsw.edu.au
+tas.edu.au
+catholic.edu.au
+gov.au
+wa.gov.au
+sa.gov.au
+qld.gov.au
+vic.gov.au
+tas.gov.au
+nsw.au
+tas.au
+conf.au
+cu
+inf.cu
+org.cu
+com.cu
+gob.cu
+nat.cu
+net.cu
+edu.cu
+eu
+gu
+org.gu
+com.gu
+web.gu
+net.gu
+edu.gu
+gov.gu
+guam.gu
+info.gu
+hu
+tm.hu
+co.hu
+media.hu
+hotel.hu
+forum.hu
+video.hu
+sport.hu
+org.hu
+sex.hu
+agrar.hu
+games.hu
+lakas.hu
+erotica.hu
+erotika.hu
+tozsde.hu
+reklam.hu
+casino.hu
+0.0.7.208.hu
+film.hu
+suli.hu
+info.hu
+bolt.hu
+shop.hu
+priv.hu
+news.hu
+szex.hu
+city.hu
+utazas.hu
+jogasz.hu
+konyvelo.hu
+ingatlan.hu
+lu
+mu
+ac.mu
+co.mu
+or.mu
+org.mu
+com.mu
+net.mu
+gov.mu
+nu
+fj
+id.fj
+ac.fj
+org.fj
+mil.fj
+com.fj
+pro.fj
+net.fj
+edu.fj
+gov.fj
+biz.fj
+name.fj
+info.fj
+dj
+bj
+co.bj
+econo.bj
+resto.bj
+ote.bj
+org.bj
+com.bj
+eco.bj
+net.bj
+edu.bj
+assur.bj
+money.bj
+africa.bj
+architectes.bj
+restaurant.bj
+loisirs.bj
+tourism.bj
+avocats.bj
+info.bj
+agro.bj
+univ.bj
+tj
+co.tj
+go.tj
+org.tj
+mil.tj
+com.tj
+web.tj
+nic.tj
+net.tj
+int.tj
+edu.tj
+gov.tj
+biz.tj
+name.tj
+test.tj
+sj
+lk
+ac.lk
+hotel.lk
+ltd.lk
+org.lk
+com.lk
+web.lk
+soc.lk
+sch.lk
+ngo.lk
+net.lk
+int.lk
+edu.lk
+grp.lk
+gov.lk
+assn.lk
+mk
+inf.mk
+org.mk
+com.mk
+net.mk
+edu.mk
+gov.mk
+name.mk
+hk
+xn--wcvs22d.hk
+xn--lcvr32d.hk
+xn--od0alg.hk
+xn--od0aq3b.hk
+xn--mk0axi.hk
+xn--uc0atv.hk
+xn--io0a7i.hk
+xn--zf0avx.hk
+xn--tn0ag.hk
+xn--uc0ay4a.hk
+xn--55qx5d.hk
+xn--mxtq1m.hk
+xn--gmqw5a.hk
+xn--ciqpn.hk
+xn--gmq050i.hk
+org.hk
+com.hk
+net.hk
+edu.hk
+idv.hk
+gov.hk
+*.fk
+dk
+*.ck
+tk
+uk
+me.uk
+ac.uk
+co.uk
+ltd.uk
+org.uk
+plc.uk
+*.sch.uk
+net.uk
+gov.uk
+nhs.uk
+police.uk
+sk
+org.sk
+pk
+ac.pk
+org.pk
+gog.pk
+fam.pk
+com.pk
+web.pk
+gob.pk
+net.pk
+edu.pk
+gok.pk
+gop.pk
+gkp.pk
+gov.pk
+gos.pk
+biz.pk
+gp
+org.gp
+com.gp
+net.gp
+edu.gp
+mobi.gp
+asso.gp
+mp
+*.np
+kp
+tra.kp
+org.kp
+com.kp
+edu.kp
+rep.kp
+gov.kp
+jp
+xn--2m4a15e.jp
+xn--1lqs03n.jp
+xn--nit225k.jp
+xn--pssu33l.jp
+xn--ehqz56n.jp
+xn--7t0a264c.jp
+xn--mkru45i.jp
+xn--zbx025d.jp
+xn--qqqt11m.jp
+xn--ntsq17g.jp
+ad.jp
+ed.jp
+ne.jp
+lg.jp
+ac.jp
+co.jp
+go.jp
+gr.jp
+or.jp
+xn--rny31h.jp
+xn--vgu402c.jp
+xn--k7yn95e.jp
+xn--5js045d.jp
+xn--uuwu58a.jp
+xn--4pvxs.jp
+xn--8pvr4u.jp
+xn--djty4k.jp
+xn--32vp30h.jp
+xn--rht27z.jp
+xn--efvn9s.jp
+xn--klty5x.jp
+xn--tor131o.jp
+xn--8ltr62k.jp
+xn--5rtq34k.jp
+xn--uisz3g.jp
+xn--5rtp49c.jp
+xn--kbrq7o.jp
+xn--6btw5a.jp
+xn--uist22h.jp
+xn--6orx2r.jp
+xn--f6qx53a.jp
+xn--rht61e.jp
+xn--kltp7d.jp
+xn--kltx9a.jp
+xn--klt787d.jp
+xn--4it168d.jp
+xn--rht3d.jp
+xn--1ctwo.jp
+xn--4it797k.jp
+xn--c3s14m.jp
+xn--elqq16h.jp
+xn--1lqs71d.jp
+xn--djrs72d6uy.jp
+ehime.jp
+ikata.ehime.jp
+honai.ehime.jp
+ainan.ehime.jp
+saijo.ehime.jp
+seiyo.ehime.jp
+iyo.ehime.jp
+ozu.ehime.jp
+uwajima.ehime.jp
+niihama.ehime.jp
+namikata.ehime.jp
+masaki.ehime.jp
+uchiko.ehime.jp
+kihoku.ehime.jp
+tobe.ehime.jp
+toon.ehime.jp
+shikokuchuo.ehime.jp
+matsuyama.ehime.jp
+imabari.ehime.jp
+kamijima.ehime.jp
+kumakogen.ehime.jp
+yawatahama.ehime.jp
+matsuno.ehime.jp
+iwate.jp
+iwate.iwate.jp
+shiwa.iwate.jp
+fudai.iwate.jp
+kawai.iwate.jp
+morioka.iwate.jp
+ofunato.iwate.jp
+hanamaki.iwate.jp
+kuzumaki.iwate.jp
+kitakami.iwate.jp
+ninohe.iwate.jp
+kunohe.iwate.jp
+yamada.iwate.jp
+yahaba.iwate.jp
+sumita.iwate.jp
+ichinoseki.iwate.jp
+tanohata.iwate.jp
+hiraizumi.iwate.jp
+rikuzentakata.iwate.jp
+joboji.iwate.jp
+otsuchi.iwate.jp
+hirono.iwate.jp
+miyako.iwate.jp
+iwaizumi.iwate.jp
+karumai.iwate.jp
+ichinohe.iwate.jp
+noda.iwate.jp
+kuji.iwate.jp
+tono.iwate.jp
+oshu.iwate.jp
+shizukuishi.iwate.jp
+fujisawa.iwate.jp
+mizusawa.iwate.jp
+kamaishi.iwate.jp
+kanegasaki.iwate.jp
+chiba.jp
+sakae.chiba.jp
+isumi.chiba.jp
+asahi.chiba.jp
+otaki.chiba.jp
+inzai.chiba.jp
+abiko.chiba.jp
+matsudo.chiba.jp
+yachiyo.chiba.jp
+mutsuzawa.chiba.jp
+kujukuri.chiba.jp
+omigawa.chiba.jp
+kashiwa.chiba.jp
+togane.chiba.jp
+mihama.chiba.jp
+narita.chiba.jp
+sakura.chiba.jp
+nagara.chiba.jp
+mobara.chiba.jp
+hanamigawa.chiba.jp
+choshi.chiba.jp
+shiroi.chiba.jp
+chosei.chiba.jp
+kozaki.chiba.jp
+shisui.chiba.jp
+katori.chiba.jp
+midori.chiba.jp
+chonan.chiba.jp
+kyonan.chiba.jp
+futtsu.chiba.jp
+onjuku.chiba.jp
+funabashi.chiba.jp
+nagareyama.chiba.jp
+noda.chiba.jp
+sosa.chiba.jp
+tako.chiba.jp
+chuo.chiba.jp
+tohnosho.chiba.jp
+urayasu.chiba.jp
+kimitsu.chiba.jp
+yokaichiba.chiba.jp
+yotsukaido.chiba.jp
+sodegaura.chiba.jp
+tateyama.chiba.jp
+kamagaya.chiba.jp
+yokoshibahikari.chiba.jp
+yachimata.chiba.jp
+katsuura.chiba.jp
+tomisato.chiba.jp
+kisarazu.chiba.jp
+kamogawa.chiba.jp
+ichikawa.chiba.jp
+narashino.chiba.jp
+ichinomiya.chiba.jp
+shimofusa.chiba.jp
+minamiboso.chiba.jp
+shirako.chiba.jp
+ichihara.chiba.jp
+oamishirasato.chiba.jp
+shiga.jp
+ryuoh.shiga.jp
+kosei.shiga.jp
+konan.shiga.jp
+aisho.shiga.jp
+ritto.shiga.jp
+takashima.shiga.jp
+maibara.shiga.jp
+hikone.shiga.jp
+torahime.shiga.jp
+nishiazai.shiga.jp
+koka.shiga.jp
+gamo.shiga.jp
+koto.shiga.jp
+yasu.shiga.jp
+otsu.shiga.jp
+kusatsu.shiga.jp
+nagahama.shiga.jp
+moriyama.shiga.jp
+toyosato.shiga.jp
+takatsuki.shiga.jp
+notogawa.shiga.jp
+omihachiman.shiga.jp
+higashiomi.shiga.jp
+gunma.jp
+shimonita.gunma.jp
+tsumagoi.gunma.jp
+chiyoda.gunma.jp
+kanna.gunma.jp
+kanra.gunma.jp
+showa.gunma.jp
+meiwa.gunma.jp
+kiryu.gunma.jp
+ota.gunma.jp
+ora.gunma.jp
+tomioka.gunma.jp
+fujioka.gunma.jp
+itakura.gunma.jp
+naganohara.gunma.jp
+higashiagatsuma.gunma.jp
+takasaki.gunma.jp
+shibukawa.gunma.jp
+minakami.gunma.jp
+katashina.gunma.jp
+tsukiyono.gunma.jp
+kawaba.gunma.jp
+numata.gunma.jp
+annaka.gunma.jp
+oizumi.gunma.jp
+midori.gunma.jp
+shinto.gunma.jp
+isesaki.gunma.jp
+ueno.gunma.jp
+yoshioka.gunma.jp
+kusatsu.gunma.jp
+takayama.gunma.jp
+nakanojo.gunma.jp
+nanmoku.gunma.jp
+tamamura.gunma.jp
+tatebayashi.gunma.jp
+maebashi.gunma.jp
+akita.jp
+odate.akita.jp
+ogata.akita.jp
+akita.akita.jp
+ikawa.akita.jp
+kyowa.akita.jp
+honjo.akita.jp
+oga.akita.jp
+yurihonjo.akita.jp
+noshiro.akita.jp
+kamioka.akita.jp
+katagami.akita.jp
+mitane.akita.jp
+gojome.akita.jp
+yokote.akita.jp
+kosaka.akita.jp
+daisen.akita.jp
+kazuno.akita.jp
+nikaho.akita.jp
+honjyo.akita.jp
+moriyoshi.akita.jp
+misato.akita.jp
+happou.akita.jp
+kamikoani.akita.jp
+hachirogata.akita.jp
+higashinaruse.akita.jp
+semboku.akita.jp
+fujisato.akita.jp
+kitaakita.akita.jp
+osaka.jp
+ikeda.osaka.jp
+suita.osaka.jp
+minoh.osaka.jp
+izumi.osaka.jp
+nishi.osaka.jp
+sakai.osaka.jp
+kanan.osaka.jp
+abeno.osaka.jp
+daito.osaka.jp
+osakasayama.osaka.jp
+yao.osaka.jp
+kishiwada.osaka.jp
+tadaoka.osaka.jp
+kaizuka.osaka.jp
+tondabayashi.osaka.jp
+chihayaakasaka.osaka.jp
+kumatori.osaka.jp
+kadoma.osaka.jp
+sayama.osaka.jp
+higashiosaka.osaka.jp
+shijonawate.osaka.jp
+hirakata.osaka.jp
+taishi.osaka.jp
+misaki.osaka.jp
+tajiri.osaka.jp
+hannan.osaka.jp
+sennan.osaka.jp
+katano.osaka.jp
+toyono.osaka.jp
+minato.osaka.jp
+settsu.osaka.jp
+higashiyodogawa.osaka.jp
+ibaraki.osaka.jp
+nose.osaka.jp
+kita.osaka.jp
+chuo.osaka.jp
+higashisumiyoshi.osaka.jp
+fujiidera.osaka.jp
+kashiwara.osaka.jp
+izumiotsu.osaka.jp
+toyonaka.osaka.jp
+matsubara.osaka.jp
+moriguchi.osaka.jp
+izumisano.osaka.jp
+shimamoto.osaka.jp
+takatsuki.osaka.jp
+neyagawa.osaka.jp
+habikino.osaka.jp
+takaishi.osaka.jp
+kawachinagano.osaka.jp
+kochi.jp
+okawa.kochi.jp
+umaji.kochi.jp
+kochi.kochi.jp
+tsuno.kochi.jp
+otoyo.kochi.jp
+aki.kochi.jp
+ino.kochi.jp
+nishitosa.kochi.jp
+yasuda.kochi.jp
+hidaka.kochi.jp
+mihara.kochi.jp
+sakawa.kochi.jp
+niyodogawa.kochi.jp
+higashitsuno.kochi.jp
+kagami.kochi.jp
+geisei.kochi.jp
+susaki.kochi.jp
+otsuki.kochi.jp
+nahari.kochi.jp
+sukumo.kochi.jp
+muroto.kochi.jp
+tosa.kochi.jp
+kami.kochi.jp
+ochi.kochi.jp
+toyo.kochi.jp
+tosashimizu.kochi.jp
+motoyama.kochi.jp
+nankoku.kochi.jp
+nakamura.kochi.jp
+kitagawa.kochi.jp
+yusuhara.kochi.jp
+aichi.jp
+kanie.aichi.jp
+asuke.aichi.jp
+handa.aichi.jp
+chita.aichi.jp
+tokai.aichi.jp
+aisai.aichi.jp
+konan.aichi.jp
+oharu.aichi.jp
+ama.aichi.jp
+obu.aichi.jp
+higashiura.aichi.jp
+owariasahi.aichi.jp
+inuyama.aichi.jp
+tobishima.aichi.jp
+iwakura.aichi.jp
+shitara.aichi.jp
+inazawa.aichi.jp
+toyone.aichi.jp
+gamagori.aichi.jp
+mihama.aichi.jp
+toyota.aichi.jp
+tahara.aichi.jp
+kariya.aichi.jp
+yatomi.aichi.jp
+oguchi.aichi.jp
+komaki.aichi.jp
+miyoshi.aichi.jp
+nishio.aichi.jp
+tokoname.aichi.jp
+kiyosu.aichi.jp
+chiryu.aichi.jp
+toyohashi.aichi.jp
+okazaki.aichi.jp
+isshiki.aichi.jp
+kasugai.aichi.jp
+kota.aichi.jp
+kira.aichi.jp
+toei.aichi.jp
+anjo.aichi.jp
+togo.aichi.jp
+fuso.aichi.jp
+seto.aichi.jp
+hazu.aichi.jp
+tsushima.aichi.jp
+shinshiro.aichi.jp
+takahama.aichi.jp
+nisshin.aichi.jp
+shikatsu.aichi.jp
+hekinan.aichi.jp
+toyokawa.aichi.jp
+ichinomiya.aichi.jp
+toyoake.aichi.jp
+fukui.jp
+sabae.fukui.jp
+ikeda.fukui.jp
+obama.fukui.jp
+sakai.fukui.jp
+fukui.fukui.jp
+ohi.fukui.jp
+ono.fukui.jp
+tsuruga.fukui.jp
+mihama.fukui.jp
+wakasa.fukui.jp
+minamiechizen.fukui.jp
+eiheiji.fukui.jp
+katsuyama.fukui.jp
+takahama.fukui.jp
+echizen.fukui.jp
+hyogo.jp
+sanda.hyogo.jp
+tamba.hyogo.jp
+itami.hyogo.jp
+awaji.hyogo.jp
+kasai.hyogo.jp
+asago.hyogo.jp
+shiso.hyogo.jp
+ono.hyogo.jp
+ako.hyogo.jp
+yashiro.hyogo.jp
+toyooka.hyogo.jp
+minamiawaji.hyogo.jp
+inagawa.hyogo.jp
+fukusaki.hyogo.jp
+takasago.hyogo.jp
+kamigori.hyogo.jp
+kasuga.hyogo.jp
+harima.hyogo.jp
+yokawa.hyogo.jp
+ashiya.hyogo.jp
+himeji.hyogo.jp
+akashi.hyogo.jp
+taishi.hyogo.jp
+aogaki.hyogo.jp
+sannan.hyogo.jp
+takino.hyogo.jp
+sumoto.hyogo.jp
+takarazuka.hyogo.jp
+nishinomiya.hyogo.jp
+shingu.hyogo.jp
+goshiki.hyogo.jp
+nishiwaki.hyogo.jp
+yoka.hyogo.jp
+taka.hyogo.jp
+aioi.hyogo.jp
+miki.hyogo.jp
+sayo.hyogo.jp
+yabu.hyogo.jp
+kawanishi.hyogo.jp
+amagasaki.hyogo.jp
+sasayama.hyogo.jp
+shinonsen.hyogo.jp
+kakogawa.hyogo.jp
+ichikawa.hyogo.jp
+kamikawa.hyogo.jp
+tatsuno.hyogo.jp
+tokyo.jp
+machida.tokyo.jp
+chiyoda.tokyo.jp
+komae.tokyo.jp
+fussa.tokyo.jp
+inagi.tokyo.jp
+taito.tokyo.jp
+chofu.tokyo.jp
+fuchu.tokyo.jp
+ome.tokyo.jp
+ota.tokyo.jp
+higashiyamato.tokyo.jp
+toshima.tokyo.jp
+okutama.tokyo.jp
+aogashima.tokyo.jp
+kodaira.tokyo.jp
+edogawa.tokyo.jp
+arakawa.tokyo.jp
+hachioji.tokyo.jp
+shinagawa.tokyo.jp
+tachikawa.tokyo.jp
+shibuya.tokyo.jp
+suginami.tokyo.jp
+hinode.tokyo.jp
+kiyose.tokyo.jp
+sumida.tokyo.jp
+oshima.tokyo.jp
+nerima.tokyo.jp
+mitaka.tokyo.jp
+hamura.tokyo.jp
+adachi.tokyo.jp
+nakano.tokyo.jp
+mizuho.tokyo.jp
+bunkyo.tokyo.jp
+meguro.tokyo.jp
+minato.tokyo.jp
+koganei.tokyo.jp
+higashikurume.tokyo.jp
+kokubunji.tokyo.jp
+higashimurayama.tokyo.jp
+musashimurayama.tokyo.jp
+tama.tokyo.jp
+kita.tokyo.jp
+hino.tokyo.jp
+chuo.tokyo.jp
+koto.tokyo.jp
+katsushika.tokyo.jp
+kouzushima.tokyo.jp
+ogasawara.tokyo.jp
+akishima.tokyo.jp
+kunitachi.tokyo.jp
+shinjuku.tokyo.jp
+setagaya.tokyo.jp
+musashino.tokyo.jp
+hachijo.tokyo.jp
+itabashi.tokyo.jp
+akiruno.tokyo.jp
+hinohara.tokyo.jp
+kyoto.jp
+ayabe.kyoto.jp
+seika.kyoto.jp
+sakyo.kyoto.jp
+ide.kyoto.jp
+ine.kyoto.jp
+uji.kyoto.jp
+nakagyo.kyoto.jp
+kameoka.kyoto.jp
+kyotango.kyoto.jp
+kyotanabe.kyoto.jp
+kyotamba.kyoto.jp
+minamiyamashiro.kyoto.jp
+yamashina.kyoto.jp
+tanabe.kyoto.jp
+yawata.kyoto.jp
+wazuka.kyoto.jp
+minami.kyoto.jp
+nantan.kyoto.jp
+miyazu.kyoto.jp
+higashiyama.kyoto.jp
+fukuchiyama.kyoto.jp
+kita.kyoto.jp
+muko.kyoto.jp
+kamo.kyoto.jp
+joyo.kyoto.jp
+kizu.kyoto.jp
+maizuru.kyoto.jp
+ujitawara.kyoto.jp
+oyamazaki.kyoto.jp
+nagaokakyo.kyoto.jp
+kumiyama.kyoto.jp
+mie.jp
+kawagoe.mie.jp
+inabe.mie.jp
+shima.mie.jp
+meiwa.mie.jp
+asahi.mie.jp
+taiki.mie.jp
+udono.mie.jp
+ise.mie.jp
+tsu.mie.jp
+kisosaki.mie.jp
+kuwana.mie.jp
+mihama.mie.jp
+miyama.mie.jp
+suzuka.mie.jp
+tamaki.mie.jp
+misugi.mie.jp
+nabari.mie.jp
+kumano.mie.jp
+komono.mie.jp
+minamiise.mie.jp
+watarai.mie.jp
+toba.mie.jp
+kiwa.mie.jp
+taki.mie.jp
+kiho.mie.jp
+tado.mie.jp
+matsusaka.mie.jp
+yokkaichi.mie.jp
+kameyama.mie.jp
+ureshino.mie.jp
+xn--ntso0iqx3a.jp
+xn--d5qv7z876c.jp
+xn--0trq7p7nn.jp
+okayama.jp
+ibara.okayama.jp
+niimi.okayama.jp
+bizen.okayama.jp
+tsuyama.okayama.jp
+okayama.okayama.jp
+kasaoka.okayama.jp
+hayashima.okayama.jp
+yakage.okayama.jp
+maniwa.okayama.jp
+akaiwa.okayama.jp
+misaki.okayama.jp
+shinjo.okayama.jp
+tamano.okayama.jp
+takahashi.okayama.jp
+kibichuo.okayama.jp
+wake.okayama.jp
+soja.okayama.jp
+nagi.okayama.jp
+shoo.okayama.jp
+kumenan.okayama.jp
+nishiawakura.okayama.jp
+kurashiki.okayama.jp
+asakuchi.okayama.jp
+setouchi.okayama.jp
+kagamino.okayama.jp
+satosho.okayama.jp
+saitama.jp
+kawagoe.saitama.jp
+yoshida.saitama.jp
+satte.saitama.jp
+ogose.saitama.jp
+iruma.saitama.jp
+asaka.saitama.jp
+urawa.saitama.jp
+ogawa.saitama.jp
+niiza.saitama.jp
+omiya.saitama.jp
+yorii.saitama.jp
+otaki.saitama.jp
+shiki.saitama.jp
+honjo.saitama.jp
+ogano.saitama.jp
+hanno.saitama.jp
+hanyu.saitama.jp
+ina.saitama.jp
+saitama.saitama.jp
+okegawa.saitama.jp
+arakawa.saitama.jp
+yoshikawa.saitama.jp
+yokoze.saitama.jp
+hasuda.saitama.jp
+sayama.saitama.jp
+hidaka.saitama.jp
+fukaya.saitama.jp
+chichibu.saitama.jp
+iwatsuki.saitama.jp
+ryokami.saitama.jp
+yoshimi.saitama.jp
+kamiizumi.saitama.jp
+fujimi.saitama.jp
+warabi.saitama.jp
+ranzan.saitama.jp
+miyoshi.saitama.jp
+minano.saitama.jp
+yashio.saitama.jp
+sakado.saitama.jp
+sugito.saitama.jp
+misato.saitama.jp
+higashichichibu.saitama.jp
+toda.saitama.jp
+soka.saitama.jp
+kuki.saitama.jp
+yono.saitama.jp
+kazo.saitama.jp
+shiraoka.saitama.jp
+kasukabe.saitama.jp
+kounosu.saitama.jp
+kawajima.saitama.jp
+tsurugashima.saitama.jp
+miyashiro.saitama.jp
+kitamoto.saitama.jp
+hatoyama.saitama.jp
+moroyama.saitama.jp
+hatogaya.saitama.jp
+kumagaya.saitama.jp
+kawaguchi.saitama.jp
+nagatoro.saitama.jp
+kamisato.saitama.jp
+matsubushi.saitama.jp
+namegawa.saitama.jp
+tokigawa.saitama.jp
+kamikawa.saitama.jp
+fujimino.saitama.jp
+higashimatsuyama.saitama.jp
+koshigaya.saitama.jp
+tokorozawa.saitama.jp
+*.sapporo.jp
+niigata.jp
+yoita.niigata.jp
+muika.niigata.jp
+ojiya.niigata.jp
+gosen.niigata.jp
+sanjo.niigata.jp
+agano.niigata.jp
+myoko.niigata.jp
+seiro.niigata.jp
+aga.niigata.jp
+omi.niigata.jp
+shibata.niigata.jp
+niigata.niigata.jp
+nagaoka.niigata.jp
+murakami.niigata.jp
+uonuma.niigata.jp
+yuzawa.niigata.jp
+kariwa.niigata.jp
+tagami.niigata.jp
+tainai.niigata.jp
+tsunan.niigata.jp
+minamiuonuma.niigata.jp
+tochio.niigata.jp
+yahiko.niigata.jp
+joetsu.niigata.jp
+seirou.niigata.jp
+kamo.niigata.jp
+sado.niigata.jp
+izumozaki.niigata.jp
+tokamachi.niigata.jp
+itoigawa.niigata.jp
+sekikawa.niigata.jp
+kashiwazaki.niigata.jp
+tsubame.niigata.jp
+mitsuke.niigata.jp
+fukuoka.jp
+soeda.fukuoka.jp
+ukiha.fukuoka.jp
+omuta.fukuoka.jp
+okawa.fukuoka.jp
+nishi.fukuoka.jp
+ogori.fukuoka.jp
+buzen.fukuoka.jp
+onojo.fukuoka.jp
+sue.fukuoka.jp
+umi.fukuoka.jp
+oki.fukuoka.jp
+oto.fukuoka.jp
+chikugo.fukuoka.jp
+sasaguri.fukuoka.jp
+saigawa.fukuoka.jp
+mizumaki.fukuoka.jp
+shinyoshitomi.fukuoka.jp
+kurume.fukuoka.jp
+kurate.fukuoka.jp
+yamada.fukuoka.jp
+kasuga.fukuoka.jp
+nakama.fukuoka.jp
+miyama.fukuoka.jp
+nogata.fukuoka.jp
+takata.fukuoka.jp
+hakata.fukuoka.jp
+iizuka.fukuoka.jp
+kawara.fukuoka.jp
+tagawa.fukuoka.jp
+kasuya.fukuoka.jp
+ashiya.fukuoka.jp
+inatsuki.fukuoka.jp
+munakata.fukuoka.jp
+minami.fukuoka.jp
+tsuiki.fukuoka.jp
+shonai.fukuoka.jp
+kurogi.fukuoka.jp
+fukuchi.fukuoka.jp
+keisen.fukuoka.jp
+higashi.fukuoka.jp
+miyako.fukuoka.jp
+shingu.fukuoka.jp
+yukuhashi.fukuoka.jp
+okagaki.fukuoka.jp
+yame.fukuoka.jp
+koga.fukuoka.jp
+onga.fukuoka.jp
+usui.fukuoka.jp
+kaho.fukuoka.jp
+toho.fukuoka.jp
+chuo.fukuoka.jp
+toyotsu.fukuoka.jp
+miyawaka.fukuoka.jp
+dazaifu.fukuoka.jp
+hisayama.fukuoka.jp
+tachiarai.fukuoka.jp
+yanagawa.fukuoka.jp
+nakagawa.fukuoka.jp
+hirokawa.fukuoka.jp
+chikujo.fukuoka.jp
+chikushino.fukuoka.jp
+chikuho.fukuoka.jp
+chikuzen.fukuoka.jp
+tokushima.jp
+itano.tokushima.jp
+komatsushima.tokushima.jp
+tokushima.tokushima.jp
+ichiba.tokushima.jp
+minami.tokushima.jp
+aizumi.tokushima.jp
+wajiki.tokushima.jp
+kainan.tokushima.jp
+miyoshi.tokushima.jp
+naruto.tokushima.jp
+mima.tokushima.jp
+mugi.tokushima.jp
+anan.tokushima.jp
+matsushige.tokushima.jp
+sanagochi.tokushima.jp
+shishikui.tokushima.jp
+nakagawa.tokushima.jp
+fukushima.jp
+namie.fukushima.jp
+otama.fukushima.jp
+okuma.fukushima.jp
+showa.fukushima.jp
+tenei.fukushima.jp
+iwaki.fukushima.jp
+koori.fukushima.jp
+nango.fukushima.jp
+ono.fukushima.jp
+nishigo.fukushima.jp
+shimogo.fukushima.jp
+omotego.fukushima.jp
+mishima.fukushima.jp
+fukushima.fukushima.jp
+asakawa.fukushima.jp
+kagamiishi.fukushima.jp
+shirakawa.fukushima.jp
+iitate.fukushima.jp
+futaba.fukushima.jp
+hirata.fukushima.jp
+yugawa.fukushima.jp
+hanawa.fukushima.jp
+kitakata.fukushima.jp
+kawamata.fukushima.jp
+kunimi.fukushima.jp
+yabuki.fukushima.jp
+bandai.fukushima.jp
+higashi.fukushima.jp
+hirono.fukushima.jp
+yamato.fukushima.jp
+miharu.fukushima.jp
+yamatsuri.fukushima.jp
+aizubange.fukushima.jp
+date.fukushima.jp
+soma.fukushima.jp
+aizuwakamatsu.fukushima.jp
+yanaizu.fukushima.jp
+aizumisato.fukushima.jp
+nishiaizu.fukushima.jp
+izumizaki.fukushima.jp
+kitashiobara.fukushima.jp
+taishin.fukushima.jp
+kaneyama.fukushima.jp
+koriyama.fukushima.jp
+inawashiro.fukushima.jp
+tanagura.fukushima.jp
+furudono.fukushima.jp
+samegawa.fukushima.jp
+sukagawa.fukushima.jp
+ishikawa.fukushima.jp
+tamakawa.fukushima.jp
+hiroshima.jp
+otake.hiroshima.jp
+kaita.hiroshima.jp
+daiwa.hiroshima.jp
+hongo.hiroshima.jp
+fuchu.hiroshima.jp
+kui.hiroshima.jp
+etajima.hiroshima.jp
+shobara.hiroshima.jp
+mihara.hiroshima.jp
+hatsukaichi.hiroshima.jp
+higashihiroshima.hiroshima.jp
+miyoshi.hiroshima.jp
+kumano.hiroshima.jp
+kure.hiroshima.jp
+naka.hiroshima.jp
+saka.hiroshima.jp
+sera.hiroshima.jp
+seranishi.hiroshima.jp
+asaminami.hiroshima.jp
+fukuyama.hiroshima.jp
+shinichi.hiroshima.jp
+onomichi.hiroshima.jp
+osakikamijima.hiroshima.jp
+jinsekikogen.hiroshima.jp
+takehara.hiroshima.jp
+kagoshima.jp
+akune.kagoshima.jp
+amami.kagoshima.jp
+izumi.kagoshima.jp
+hioki.kagoshima.jp
+yusui.kagoshima.jp
+kinko.kagoshima.jp
+isa.kagoshima.jp
+soo.kagoshima.jp
+kouyama.kagoshima.jp
+nakatane.kagoshima.jp
+kagoshima.kagoshima.jp
+kanoya.kagoshima.jp
+isen.kagoshima.jp
+kawanabe.kagoshima.jp
+minamitane.kagoshima.jp
+makurazaki.kagoshima.jp
+tarumizu.kagoshima.jp
+nishinoomote.kagoshima.jp
+matsumoto.kagoshima.jp
+satsumasendai.kagoshima.jp
+okinawa.jp
+tomigusuku.okinawa.jp
+nakagusuku.okinawa.jp
+yaese.okinawa.jp
+izena.okinawa.jp
+uruma.okinawa.jp
+iheya.okinawa.jp
+aguni.okinawa.jp
+ogimi.okinawa.jp
+nanjo.okinawa.jp
+kin.okinawa.jp
+minamidaito.okinawa.jp
+kitanakagusuku.okinawa.jp
+yonaguni.okinawa.jp
+okinawa.okinawa.jp
+ishigaki.okinawa.jp
+kunigami.okinawa.jp
+urasoe.okinawa.jp
+kadena.okinawa.jp
+tarama.okinawa.jp
+hirara.okinawa.jp
+ginoza.okinawa.jp
+taketomi.okinawa.jp
+shimoji.okinawa.jp
+zamami.okinawa.jp
+tonaki.okinawa.jp
+itoman.okinawa.jp
+higashi.okinawa.jp
+motobu.okinawa.jp
+yonabaru.okinawa.jp
+gushikami.okinawa.jp
+onna.okinawa.jp
+naha.okinawa.jp
+nago.okinawa.jp
+haebaru.okinawa.jp
+kumejima.okinawa.jp
+kitadaito.okinawa.jp
+nakijin.okinawa.jp
+nishihara.okinawa.jp
+yomitan.okinawa.jp
+ginowan.okinawa.jp
+tokashiki.okinawa.jp
+ishikawa.okinawa.jp
+*.kawasaki.jp
+nagasaki.jp
+obama.nagasaki.jp
+omura.nagasaki.jp
+seihi.nagasaki.jp
+unzen.nagasaki.jp
+oseto.nagasaki.jp
+futsu.nagasaki.jp
+iki.nagasaki.jp
+chijiwa.nagasaki.jp
+nagasaki.nagasaki.jp
+isahaya.nagasaki.jp
+hasami.nagasaki.jp
+saikai.nagasaki.jp
+kawatana.nagasaki.jp
+sasebo.nagasaki.jp
+hirado.nagasaki.jp
+kuchinotsu.nagasaki.jp
+goto.nagasaki.jp
+togitsu.nagasaki.jp
+tsushima.nagasaki.jp
+shimabara.nagasaki.jp
+shinkamigoto.nagasaki.jp
+matsuura.nagasaki.jp
+miyazaki.jp
+hyuga.miyazaki.jp
+ebino.miyazaki.jp
+tsuno.miyazaki.jp
+saito.miyazaki.jp
+aya.miyazaki.jp
+kushima.miyazaki.jp
+nobeoka.miyazaki.jp
+kitaura.miyazaki.jp
+miyazaki.miyazaki.jp
+takazaki.miyazaki.jp
+gokase.miyazaki.jp
+shiiba.miyazaki.jp
+mimata.miyazaki.jp
+shintomi.miyazaki.jp
+kunitomi.miyazaki.jp
+kitakata.miyazaki.jp
+kobayashi.miyazaki.jp
+kawaminami.miyazaki.jp
+takaharu.miyazaki.jp
+kijo.miyazaki.jp
+takanabe.miyazaki.jp
+miyakonojo.miyazaki.jp
+nishimera.miyazaki.jp
+nichinan.miyazaki.jp
+kitagawa.miyazaki.jp
+kadogawa.miyazaki.jp
+morotsuka.miyazaki.jp
+toyama.jp
+oyabe.toyama.jp
+taira.toyama.jp
+inami.toyama.jp
+asahi.toyama.jp
+nanto.toyama.jp
+imizu.toyama.jp
+fuchu.toyama.jp
+takaoka.toyama.jp
+kurobe.toyama.jp
+yamada.toyama.jp
+johana.toyama.jp
+toyama.toyama.jp
+tonami.toyama.jp
+nyuzen.toyama.jp
+funahashi.toyama.jp
+nakaniikawa.toyama.jp
+namerikawa.toyama.jp
+unazuki.toyama.jp
+toga.toyama.jp
+himi.toyama.jp
+uozu.toyama.jp
+fukumitsu.toyama.jp
+tateyama.toyama.jp
+kamiichi.toyama.jp
+kagawa.jp
+manno.kagawa.jp
+utazu.kagawa.jp
+kotohira.kagawa.jp
+ayagawa.kagawa.jp
+zentsuji.kagawa.jp
+higashikagawa.kagawa.jp
+uchinomi.kagawa.jp
+kanonji.kagawa.jp
+sanuki.kagawa.jp
+marugame.kagawa.jp
+mitoyo.kagawa.jp
+takamatsu.kagawa.jp
+tadotsu.kagawa.jp
+naoshima.kagawa.jp
+tonosho.kagawa.jp
+*.nagoya.jp
+yamagata.jp
+oe.yamagata.jp
+oishida.yamagata.jp
+sagae.yamagata.jp
+oguni.yamagata.jp
+asahi.yamagata.jp
+nagai.yamagata.jp
+tendo.yamagata.jp
+nanyo.yamagata.jp
+obanazawa.yamagata.jp
+nishikawa.yamagata.jp
+sakata.yamagata.jp
+ohkura.yamagata.jp
+tozawa.yamagata.jp
+mikawa.yamagata.jp
+mamurogawa.yamagata.jp
+yamagata.yamagata.jp
+funagata.yamagata.jp
+takahata.yamagata.jp
+shonai.yamagata.jp
+shinjo.yamagata.jp
+kahoku.yamagata.jp
+iide.yamagata.jp
+yuza.yamagata.jp
+kawanishi.yamagata.jp
+tsuruoka.yamagata.jp
+kaminoyama.yamagata.jp
+yamanobe.yamagata.jp
+shirataka.yamagata.jp
+murayama.yamagata.jp
+nakayama.yamagata.jp
+kaneyama.yamagata.jp
+higashine.yamagata.jp
+yonezawa.yamagata.jp
+sakegawa.yamagata.jp
+*.sendai.jp
+miyagi.jp
+ishinomaki.miyagi.jp
+shichikashuku.miyagi.jp
+ohira.miyagi.jp
+taiwa.miyagi.jp
+osaki.miyagi.jp
+zao.miyagi.jp
+higashimatsushima.miyagi.jp
+shikama.miyagi.jp
+iwanuma.miyagi.jp
+shibata.miyagi.jp
+ogawara.miyagi.jp
+onagawa.miyagi.jp
+kawasaki.miyagi.jp
+semine.miyagi.jp
+marumori.miyagi.jp
+minamisanriku.miyagi.jp
+kakuda.miyagi.jp
+murata.miyagi.jp
+wakuya.miyagi.jp
+tomiya.miyagi.jp
+natori.miyagi.jp
+watari.miyagi.jp
+tagajo.miyagi.jp
+misato.miyagi.jp
+tome.miyagi.jp
+kami.miyagi.jp
+rifu.miyagi.jp
+shiroishi.miyagi.jp
+matsushima.miyagi.jp
+yamamoto.miyagi.jp
+shiogama.miyagi.jp
+furukawa.miyagi.jp
+aomori.jp
+itayanagi.aomori.jp
+owani.aomori.jp
+takko.aomori.jp
+mutsu.aomori.jp
+tsuruta.aomori.jp
+hirosaki.aomori.jp
+gonohe.aomori.jp
+oirase.aomori.jp
+towada.aomori.jp
+misawa.aomori.jp
+noheji.aomori.jp
+aomori.aomori.jp
+shingo.aomori.jp
+hiranai.aomori.jp
+rokunohe.aomori.jp
+hashikami.aomori.jp
+tsugaru.aomori.jp
+shichinohe.aomori.jp
+hachinohe.aomori.jp
+nakadomari.aomori.jp
+sannohe.aomori.jp
+kuroishi.aomori.jp
+nagano.jp
+kisofukushima.nagano.jp
+minamimaki.nagano.jp
+sakae.nagano.jp
+obuse.nagano.jp
+ikeda.nagano.jp
+ogawa.nagano.jp
+miasa.nagano.jp
+okaya.nagano.jp
+asahi.nagano.jp
+otaki.nagano.jp
+otari.nagano.jp
+chino.nagano.jp
+ina.nagano.jp
+omi.nagano.jp
+chikuma.nagano.jp
+komagane.nagano.jp
+chikuhoku.nagano.jp
+karuizawa.nagano.jp
+yasuoka.nagano.jp
+ooshika.nagano.jp
+ikusaka.nagano.jp
+minamiaiki.nagano.jp
+togakushi.nagano.jp
+matsukawa.nagano.jp
+kawakami.nagano.jp
+tateshina.nagano.jp
+takamori.nagano.jp
+kitaaiki.nagano.jp
+shiojiri.nagano.jp
+miyada.nagano.jp
+hakuba.nagano.jp
+iizuna.nagano.jp
+iijima.nagano.jp
+iiyama.nagano.jp
+miyota.nagano.jp
+suzaka.nagano.jp
+yasaka.nagano.jp
+togura.nagano.jp
+ookuwa.nagano.jp
+nagawa.nagano.jp
+minowa.nagano.jp
+hiraya.nagano.jp
+yamagata.nagano.jp
+minamiminowa.nagano.jp
+fujimi.nagano.jp
+omachi.nagano.jp
+sakaki.nagano.jp
+takagi.nagano.jp
+nagano.nagano.jp
+nakano.nagano.jp
+sakuho.nagano.jp
+komoro.nagano.jp
+nagiso.nagano.jp
+shinanomachi.nagano.jp
+wada.nagano.jp
+ueda.nagano.jp
+iida.nagano.jp
+hara.nagano.jp
+suwa.nagano.jp
+tomi.nagano.jp
+achi.nagano.jp
+aoki.nagano.jp
+anan.nagano.jp
+kiso.nagano.jp
+saku.nagano.jp
+nozawaonsen.nagano.jp
+agematsu.nagano.jp
+takayama.nagano.jp
+shimosuwa.nagano.jp
+matsumoto.nagano.jp
+yamanouchi.nagano.jp
+nakagawa.nagano.jp
+mochizuki.nagano.jp
+azumino.nagano.jp
+tatsuno.nagano.jp
+yamanashi.jp
+showa.yamanashi.jp
+doshi.yamanashi.jp
+tsuru.yamanashi.jp
+nanbu.yamanashi.jp
+koshu.yamanashi.jp
+kai.yamanashi.jp
+minami-alps.yamanashi.jp
+nirasaki.yamanashi.jp
+kosuge.yamanashi.jp
+otsuki.yamanashi.jp
+oshino.yamanashi.jp
+hokuto.yamanashi.jp
+minobu.yamanashi.jp
+yamanashi.yamanashi.jp
+fuefuki.yamanashi.jp
+chuo.yamanashi.jp
+kofu.yamanashi.jp
+ichikawamisato.yamanashi.jp
+yamanakako.yamanashi.jp
+nakamichi.yamanashi.jp
+tabayama.yamanashi.jp
+nishikatsura.yamanashi.jp
+narusawa.yamanashi.jp
+fujikawa.yamanashi.jp
+hayakawa.yamanashi.jp
+fujiyoshida.yamanashi.jp
+fujikawaguchiko.yamanashi.jp
+uenohara.yamanashi.jp
+ibaraki.jp
+tsukuba.ibaraki.jp
+iwama.ibaraki.jp
+ogawa.ibaraki.jp
+asahi.ibaraki.jp
+sakai.ibaraki.jp
+tokai.ibaraki.jp
+oarai.ibaraki.jp
+itako.ibaraki.jp
+bando.ibaraki.jp
+daigo.ibaraki.jp
+suifu.ibaraki.jp
+ina.ibaraki.jp
+ami.ibaraki.jp
+kasumigaura.ibaraki.jp
+kashima.ibaraki.jp
+omitama.ibaraki.jp
+yachiyo.ibaraki.jp
+shimodate.ibaraki.jp
+tomobe.ibaraki.jp
+toride.ibaraki.jp
+hitachinaka.ibaraki.jp
+inashiki.ibaraki.jp
+sakuragawa.ibaraki.jp
+kasama.ibaraki.jp
+yawara.ibaraki.jp
+moriya.ibaraki.jp
+hitachiomiya.ibaraki.jp
+namegata.ibaraki.jp
+yamagata.ibaraki.jp
+hitachi.ibaraki.jp
+kamisu.ibaraki.jp
+ushiku.ibaraki.jp
+takahagi.ibaraki.jp
+ibaraki.ibaraki.jp
+tone.ibaraki.jp
+koga.ibaraki.jp
+naka.ibaraki.jp
+sowa.ibaraki.jp
+yuki.ibaraki.jp
+miho.ibaraki.jp
+joso.ibaraki.jp
+mito.ibaraki.jp
+ryugasaki.ibaraki.jp
+shimotsuma.ibaraki.jp
+fujishiro.ibaraki.jp
+tsuchiura.ibaraki.jp
+chikusei.ibaraki.jp
+hitachiota.ibaraki.jp
+shirosato.ibaraki.jp
+tamatsukuri.ibaraki.jp
+uchihara.ibaraki.jp
+tochigi.jp
+ujiie.tochigi.jp
+tsuga.tochigi.jp
+oyama.tochigi.jp
+yaita.tochigi.jp
+ohira.tochigi.jp
+nikko.tochigi.jp
+ashikaga.tochigi.jp
+kuroiso.tochigi.jp
+kanuma.tochigi.jp
+sakura.tochigi.jp
+shioya.tochigi.jp
+karasuyama.tochigi.jp
+motegi.tochigi.jp
+ichikai.tochigi.jp
+kaminokawa.tochigi.jp
+tochigi.tochigi.jp
+haga.tochigi.jp
+moka.tochigi.jp
+nogi.tochigi.jp
+sano.tochigi.jp
+bato.tochigi.jp
+nasu.tochigi.jp
+mibu.tochigi.jp
+nasushiobara.tochigi.jp
+nishikata.tochigi.jp
+utsunomiya.tochigi.jp
+iwafune.tochigi.jp
+mashiko.tochigi.jp
+shimotsuke.tochigi.jp
+ohtawara.tochigi.jp
+takanezawa.tochigi.jp
+*.kobe.jp
+saga.jp
+yoshinogari.saga.jp
+kamimine.saga.jp
+arita.saga.jp
+ouchi.saga.jp
+imari.saga.jp
+hizen.saga.jp
+ogi.saga.jp
+kashima.saga.jp
+ariake.saga.jp
+kiyama.saga.jp
+fukudomi.saga.jp
+kitagata.saga.jp
+kitahata.saga.jp
+omachi.saga.jp
+genkai.saga.jp
+kanzaki.saga.jp
+nishiarita.saga.jp
+kyuragi.saga.jp
+saga.saga.jp
+tara.saga.jp
+tosu.saga.jp
+taku.saga.jp
+shiroishi.saga.jp
+karatsu.saga.jp
+hamatama.saga.jp
+kouhoku.saga.jp
+oita.jp
+kokonoe.oita.jp
+saiki.oita.jp
+usuki.oita.jp
+beppu.oita.jp
+usa.oita.jp
+himeshima.oita.jp
+kunisaki.oita.jp
+hasama.oita.jp
+taketa.oita.jp
+tsukumi.oita.jp
+hita.oita.jp
+oita.oita.jp
+hiji.oita.jp
+kusu.oita.jp
+yufu.oita.jp
+kuju.oita.jp
+kamitsue.oita.jp
+bungoono.oita.jp
+bungotakada.oita.jp
+nara.jp
+yamazoe.nara.jp
+kashiba.nara.jp
+ikoma.nara.jp
+kawai.nara.jp
+tenri.nara.jp
+oyodo.nara.jp
+sango.nara.jp
+koryo.nara.jp
+uda.nara.jp
+oji.nara.jp
+ikaruga.nara.jp
+yamatokoriyama.nara.jp
+tenkawa.nara.jp
+katsuragi.nara.jp
+kurotaki.nara.jp
+kawakami.nara.jp
+miyake.nara.jp
+mitsue.nara.jp
+takatori.nara.jp
+kamikitayama.nara.jp
+yamatotakada.nara.jp
+heguri.nara.jp
+shinjo.nara.jp
+kanmaki.nara.jp
+sakurai.nara.jp
+tawaramoto.nara.jp
+gose.nara.jp
+ouda.nara.jp
+nara.nara.jp
+soni.nara.jp
+ando.nara.jp
+kawanishi.nara.jp
+shimoichi.nara.jp
+higashiyoshino.nara.jp
+kashihara.nara.jp
+shimokitayama.nara.jp
+nosegawa.nara.jp
+yoshino.nara.jp
+gifu.jp
+ikeda.gifu.jp
+ogaki.gifu.jp
+tarui.gifu.jp
+ginan.gifu.jp
+ena.gifu.jp
+hashima.gifu.jp
+hichiso.gifu.jp
+nakatsugawa.gifu.jp
+ibigawa.gifu.jp
+shirakawa.gifu.jp
+mizunami.gifu.jp
+minokamo.gifu.jp
+mitake.gifu.jp
+kawaue.gifu.jp
+sekigahara.gifu.jp
+tomika.gifu.jp
+sakahogi.gifu.jp
+kitagata.gifu.jp
+yamagata.gifu.jp
+tajimi.gifu.jp
+anpachi.gifu.jp
+motosu.gifu.jp
+yaotsu.gifu.jp
+kakamigahara.gifu.jp
+hida.gifu.jp
+kani.gifu.jp
+seki.gifu.jp
+toki.gifu.jp
+gujo.gifu.jp
+mino.gifu.jp
+godo.gifu.jp
+yoro.gifu.jp
+gifu.gifu.jp
+kasamatsu.gifu.jp
+takayama.gifu.jp
+wanouchi.gifu.jp
+higashishirakawa.gifu.jp
+kasahara.gifu.jp
+shizuoka.jp
+shimada.shizuoka.jp
+fujieda.shizuoka.jp
+yoshida.shizuoka.jp
+shimoda.shizuoka.jp
+gotemba.shizuoka.jp
+iwata.shizuoka.jp
+atami.shizuoka.jp
+kosai.shizuoka.jp
+yaizu.shizuoka.jp
+ito.shizuoka.jp
+izu.shizuoka.jp
+mishima.shizuoka.jp
+haibara.shizuoka.jp
+makinohara.shizuoka.jp
+omaezaki.shizuoka.jp
+kawanehon.shizuoka.jp
+kannami.shizuoka.jp
+susono.shizuoka.jp
+higashiizu.shizuoka.jp
+fukuroi.shizuoka.jp
+numazu.shizuoka.jp
+kawazu.shizuoka.jp
+fuji.shizuoka.jp
+arai.shizuoka.jp
+shizuoka.shizuoka.jp
+hamamatsu.shizuoka.jp
+shimizu.shizuoka.jp
+izunokuni.shizuoka.jp
+matsuzaki.shizuoka.jp
+morimachi.shizuoka.jp
+minamiizu.shizuoka.jp
+nishiizu.shizuoka.jp
+kikugawa.shizuoka.jp
+kakegawa.shizuoka.jp
+fujikawa.shizuoka.jp
+fujinomiya.shizuoka.jp
+*.kitakyushu.jp
+tottori.jp
+chizu.tottori.jp
+nanbu.tottori.jp
+kotoura.tottori.jp
+misasa.tottori.jp
+wakasa.tottori.jp
+yonago.tottori.jp
+koge.tottori.jp
+hino.tottori.jp
+yazu.tottori.jp
+tottori.tottori.jp
+nichinan.tottori.jp
+sakaiminato.tottori.jp
+kawahara.tottori.jp
+kumamoto.jp
+oguni.kumamoto.jp
+choyo.kumamoto.jp
+uki.kumamoto.jp
+aso.kumamoto.jp
+uto.kumamoto.jp
+ozu.kumamoto.jp
+gyokuto.kumamoto.jp
+amakusa.kumamoto.jp
+mifune.kumamoto.jp
+takamori.kumamoto.jp
+yamaga.kumamoto.jp
+minamata.kumamoto.jp
+minamioguni.kumamoto.jp
+kikuchi.kumamoto.jp
+sumoto.kumamoto.jp
+yamato.kumamoto.jp
+nagasu.kumamoto.jp
+mashiki.kumamoto.jp
+arao.kumamoto.jp
+kumamoto.kumamoto.jp
+kamiamakusa.kumamoto.jp
+nishihara.kumamoto.jp
+yatsushiro.kumamoto.jp
+*.yokohama.jp
+wakayama.jp
+iwade.wakayama.jp
+arida.wakayama.jp
+yuasa.wakayama.jp
+inami.wakayama.jp
+taiji.wakayama.jp
+katsuragi.wakayama.jp
+aridagawa.wakayama.jp
+tanabe.wakayama.jp
+mihama.wakayama.jp
+hidaka.wakayama.jp
+kainan.wakayama.jp
+kimino.wakayama.jp
+misato.wakayama.jp
+shingu.wakayama.jp
+shirahama.wakayama.jp
+kamitonda.wakayama.jp
+yura.wakayama.jp
+koza.wakayama.jp
+koya.wakayama.jp
+gobo.wakayama.jp
+kitayama.wakayama.jp
+wakayama.wakayama.jp
+kudoyama.wakayama.jp
+hashimoto.wakayama.jp
+kushimoto.wakayama.jp
+kozagawa.wakayama.jp
+hirogawa.wakayama.jp
+kinokawa.wakayama.jp
+nachikatsuura.wakayama.jp
+yamaguchi.jp
+mitou.yamaguchi.jp
+ube.yamaguchi.jp
+yuu.yamaguchi.jp
+abu.yamaguchi.jp
+shimonoseki.yamaguchi.jp
+tabuse.yamaguchi.jp
+oshima.yamaguchi.jp
+toyota.yamaguchi.jp
+iwakuni.yamaguchi.jp
+hikari.yamaguchi.jp
+shunan.yamaguchi.jp
+nagato.yamaguchi.jp
+hagi.yamaguchi.jp
+hofu.yamaguchi.jp
+kudamatsu.yamaguchi.jp
+tokuyama.yamaguchi.jp
+kanagawa.jp
+oi.kanagawa.jp
+matsuda.kanagawa.jp
+ayase.kanagawa.jp
+ebina.kanagawa.jp
+miura.kanagawa.jp
+zushi.kanagawa.jp
+nakai.kanagawa.jp
+odawara.kanagawa.jp
+isehara.kanagawa.jp
+sagamihara.kanagawa.jp
+hakone.kanagawa.jp
+aikawa.kanagawa.jp
+kaisei.kanagawa.jp
+atsugi.kanagawa.jp
+tsukui.kanagawa.jp
+hadano.kanagawa.jp
+yamato.kanagawa.jp
+yamakita.kanagawa.jp
+zama.kanagawa.jp
+oiso.kanagawa.jp
+chigasaki.kanagawa.jp
+ninomiya.kanagawa.jp
+yokosuka.kanagawa.jp
+kamakura.kanagawa.jp
+minamiashigara.kanagawa.jp
+fujisawa.kanagawa.jp
+samukawa.kanagawa.jp
+kiyokawa.kanagawa.jp
+hiratsuka.kanagawa.jp
+yugawara.kanagawa.jp
+ishikawa.jp
+shika.ishikawa.jp
+hakui.ishikawa.jp
+nanao.ishikawa.jp
+tsubata.ishikawa.jp
+wajima.ishikawa.jp
+kahoku.ishikawa.jp
+kawakita.ishikawa.jp
+tsurugi.ishikawa.jp
+kaga.ishikawa.jp
+nomi.ishikawa.jp
+noto.ishikawa.jp
+suzu.ishikawa.jp
+uchinada.ishikawa.jp
+komatsu.ishikawa.jp
+anamizu.ishikawa.jp
+nakanoto.ishikawa.jp
+hakusan.ishikawa.jp
+nonoichi.ishikawa.jp
+kanazawa.ishikawa.jp
+hokkaido.jp
+otobe.hokkaido.jp
+nanae.hokkaido.jp
+ikeda.hokkaido.jp
+tohma.hokkaido.jp
+ozora.hokkaido.jp
+obira.hokkaido.jp
+abira.hokkaido.jp
+kyowa.hokkaido.jp
+eniwa.hokkaido.jp
+taiki.hokkaido.jp
+bibai.hokkaido.jp
+shari.hokkaido.jp
+rebun.hokkaido.jp
+erimo.hokkaido.jp
+hiroo.hokkaido.jp
+oketo.hokkaido.jp
+otaru.hokkaido.jp
+pippu.hokkaido.jp
+nishiokoppe.hokkaido.jp
+chitose.hokkaido.jp
+furubira.hokkaido.jp
+hakodate.hokkaido.jp
+shiranuka.hokkaido.jp
+kitahiroshima.hokkaido.jp
+kushiro.hokkaido.jp
+obihiro.hokkaido.jp
+nanporo.hokkaido.jp
+iwamizawa.hokkaido.jp
+niikappu.hokkaido.jp
+kunneppu.hokkaido.jp
+fukushima.hokkaido.jp
+nakasatsunai.hokkaido.jp
+toyoura.hokkaido.jp
+kuromatsunai.hokkaido.jp
+akabira.hokkaido.jp
+kamisunagawa.hokkaido.jp
+shibecha.hokkaido.jp
+urakawa.hokkaido.jp
+kamifurano.hokkaido.jp
+nakatombetsu.hokkaido.jp
+asahikawa.hokkaido.jp
+shimokawa.hokkaido.jp
+kayabe.hokkaido.jp
+okoppe.hokkaido.jp
+biratori.hokkaido.jp
+abashiri.hokkaido.jp
+saroma.hokkaido.jp
+atsuma.hokkaido.jp
+numata.hokkaido.jp
+hidaka.hokkaido.jp
+bifuka.hokkaido.jp
+mukawa.hokkaido.jp
+mikasa.hokkaido.jp
+horokanai.hokkaido.jp
+toyotomi.hokkaido.jp
+sarufutsu.hokkaido.jp
+higashikawa.hokkaido.jp
+ishikari.hokkaido.jp
+kitami.hokkaido.jp
+yoichi.hokkaido.jp
+esashi.hokkaido.jp
+iwanai.hokkaido.jp
+tomari.hokkaido.jp
+minamifurano.hokkaido.jp
+akkeshi.hokkaido.jp
+furano.hokkaido.jp
+toyako.hokkaido.jp
+yakumo.hokkaido.jp
+otoineppu.hokkaido.jp
+shikaoi.hokkaido.jp
+shiraoi.hokkaido.jp
+nemuro.hokkaido.jp
+nayoro.hokkaido.jp
+haboro.hokkaido.jp
+ashoro.hokkaido.jp
+bihoro.hokkaido.jp
+rishirifuji.hokkaido.jp
+utashinai.hokkaido.jp
+hokuto.hokkaido.jp
+takasu.hokkaido.jp
+ebetsu.hokkaido.jp
+urausu.hokkaido.jp
+assabu.hokkaido.jp
+kikonai.hokkaido.jp
+shimamaki.hokkaido.jp
+naie.hokkaido.jp
+date.hokkaido.jp
+toya.hokkaido.jp
+biei.hokkaido.jp
+niki.hokkaido.jp
+esan.hokkaido.jp
+uryu.hokkaido.jp
+oumu.hokkaido.jp
+teshikaga.hokkaido.jp
+rikubetsu.hokkaido.jp
+ashibetsu.hokkaido.jp
+kimobetsu.hokkaido.jp
+aibetsu.hokkaido.jp
+tobetsu.hokkaido.jp
+sobetsu.hokkaido.jp
+embetsu.hokkaido.jp
+shimizu.hokkaido.jp
+chippubetsu.hokkaido.jp
+rishiri.hokkaido.jp
+hokuryu.hokkaido.jp
+horonobe.hokkaido.jp
+shintoku.hokkaido.jp
+tsubetsu.hokkaido.jp
+shibetsu.hokkaido.jp
+honbetsu.hokkaido.jp
+mombetsu.hokkaido.jp
+tsukigata.hokkaido.jp
+kuriyama.hokkaido.jp
+koshimizu.hokkaido.jp
+shiriuchi.hokkaido.jp
+kutchan.hokkaido.jp
+muroran.hokkaido.jp
+noboribetsu.hokkaido.jp
+kamishihoro.hokkaido.jp
+wassamu.hokkaido.jp
+shinshinotsu.hokkaido.jp
+kembuchi.hokkaido.jp
+wakkanai.hokkaido.jp
+kamoenai.hokkaido.jp
+kiyosato.hokkaido.jp
+takinoue.hokkaido.jp
+shikabe.hokkaido.jp
+sunagawa.hokkaido.jp
+fukagawa.hokkaido.jp
+nakagawa.hokkaido.jp
+takikawa.hokkaido.jp
+kamikawa.hokkaido.jp
+higashikagura.hokkaido.jp
+hamatonbetsu.hokkaido.jp
+matsumae.hokkaido.jp
+moseushi.hokkaido.jp
+rankoshi.hokkaido.jp
+shakotan.hokkaido.jp
+imakane.hokkaido.jp
+mashike.hokkaido.jp
+otofuke.hokkaido.jp
+tomakomai.hokkaido.jp
+shimane.jp
+akagi.shimane.jp
+unnan.shimane.jp
+izumo.shimane.jp
+gotsu.shimane.jp
+ama.shimane.jp
+yatsuka.shimane.jp
+kakinoki.shimane.jp
+matsue.shimane.jp
+hamada.shimane.jp
+masuda.shimane.jp
+hikawa.shimane.jp
+hikimi.shimane.jp
+okuizumo.shimane.jp
+yasugi.shimane.jp
+yakumo.shimane.jp
+misato.shimane.jp
+tamayu.shimane.jp
+ohda.shimane.jp
+higashiizumo.shimane.jp
+okinoshima.shimane.jp
+nishinoshima.shimane.jp
+tsuwano.shimane.jp
+shimane.shimane.jp
+gq
+aq
+mq
+iq
+org.iq
+mil.iq
+com.iq
+net.iq
+edu.iq
+gov.iq
+sv
+red.sv
+org.sv
+com.sv
+gob.sv
+edu.sv
+tv
+cv
+id.cv
+org.cv
+com.cv
+net.cv
+int.cv
+edu.cv
+nome.cv
+publ.cv
+bv
+mv
+org.mv
+mil.mv
+com.mv
+pro.mv
+net.mv
+int.mv
+edu.mv
+gov.mv
+biz.mv
+museum.mv
+name.mv
+info.mv
+aero.mv
+coop.mv
+lv
+id.lv
+org.lv
+mil.lv
+com.lv
+asn.lv
+net.lv
+edu.lv
+gov.lv
+conf.lv
+rw
+ac.rw
+co.rw
+org.rw
+mil.rw
+net.rw
+gov.rw
+coop.rw
+pw
+gov.pw
+tw
+org.tw
+mil.tw
+com.tw
+net.tw
+edu.tw
+idv.tw
+gov.tw
+game.tw
+club.tw
+ebiz.tw
+zw
+ac.zw
+co.zw
+org.zw
+mil.zw
+gov.zw
+bw
+ac.bw
+co.bw
+org.bw
+net.bw
+gov.bw
+cw
+org.cw
+com.cw
+net.cw
+edu.cw
+aw
+com.aw
+gw
+kw
+ind.kw
+org.kw
+com.kw
+emb.kw
+net.kw
+edu.kw
+gov.kw
+mw
+ac.mw
+co.mw
+org.mw
+com.mw
+net.mw
+int.mw
+edu.mw
+gov.mw
+biz.mw
+coop.mw
+tr
+nc.tr
+gov.nc.tr
+tv.tr
+av.tr
+dr.tr
+k12.tr
+org.tr
+mil.tr
+pol.tr
+bel.tr
+tel.tr
+com.tr
+web.tr
+gen.tr
+net.tr
+edu.tr
+tsk.tr
+kep.tr
+gov.tr
+bbs.tr
+biz.tr
+name.tr
+info.tr
+sr
+pr
+ac.pr
+org.pr
+com.pr
+pro.pr
+est.pr
+net.pr
+edu.pr
+gov.pr
+biz.pr
+name.pr
+isla.pr
+prof.pr
+info.pr
+gr
+org.gr
+com.gr
+net.gr
+edu.gr
+gov.gr
+fr
+tm.fr
+greta.fr
+prd.fr
+com.fr
+nom.fr
+cci.fr
+huissier-justice.fr
+asso.fr
+gouv.fr
+avoues.fr
+*.er
+cr
+ed.cr
+sa.cr
+ac.cr
+fi.cr
+co.cr
+go.cr
+or.cr
+br
+b.br
+ia.br
+am.br
+fm.br
+tc.br
+mp.br
+tv.br
+feira.br
+sampa.br
+jampa.br
+natal.br
+belem.br
+anani.br
+radio.br
+g12.br
+med.br
+ind.br
+fnd.br
+bmd.br
+trd.br
+the.br
+poa.br
+ggf.br
+jdf.br
+def.br
+inf.br
+enf.br
+leg.br
+seg.br
+ong.br
+eng.br
+cng.br
+org.br
+zlg.br
+slg.br
+log.br
+ppg.br
+mil.br
+lel.br
+qsl.br
+cim.br
+com.br
+*.nom.br
+adm.br
+jab.br
+imb.br
+bib.br
+bsb.br
+abc.br
+rec.br
+tec.br
+sjc.br
+etc.br
+psc.br
+pvh.br
+udi.br
+eti.br
+cri.br
+api.br
+psi.br
+ecn.br
+bio.br
+rio.br
+eco.br
+geo.br
+teo.br
+odo.br
+pro.br
+ato.br
+art.br
+fst.br
+mat.br
+vet.br
+det.br
+bet.br
+net.br
+cnt.br
+not.br
+fot.br
+gru.br
+edu.br
+aju.br
+esp.br
+app.br
+rep.br
+tmp.br
+emp.br
+arq.br
+srv.br
+adv.br
+dev.br
+gov.br
+ce.gov.br
+pe.gov.br
+se.gov.br
+ba.gov.br
+ma.gov.br
+pa.gov.br
+df.gov.br
+mg.gov.br
+al.gov.br
+am.gov.br
+pb.gov.br
+ac.gov.br
+sc.gov.br
+pi.gov.br
+rn.gov.br
+go.gov.br
+ro.gov.br
+to.gov.br
+mt.gov.br
+rj.gov.br
+sp.gov.br
+ap.gov.br
+rr.gov.br
+pr.gov.br
+rs.gov.br
+es.gov.br
+ms.gov.br
+ntr.br
+tur.br
+agr.br
+jor.br
+far.br
+jus.br
+mus.br
+des.br
+vix.br
+xyz.br
+coz.br
+foz.br
+slz.br
+bhz.br
+maringa.br
+santamaria.br
+campinagrande.br
+goiania.br
+sorocaba.br
+floripa.br
+saobernardo.br
+curitiba.br
+boavista.br
+recife.br
+aparecida.br
+saogonca.br
+salvador.br
+cuiaba.br
+morena.br
+macapa.br
+londrina.br
+contagem.br
+social.br
+fortal.br
+maceio.br
+leilao.br
+osasco.br
+riobranco.br
+niteroi.br
+9guacu.br
+blog.br
+flog.br
+vlog.br
+wiki.br
+taxi.br
+coop.br
+manaus.br
+palmas.br
+caxias.br
+joinville.br
+barueri.br
+campinas.br
+santoandre.br
+ribeirao.br
+riopreto.br
+ar
+seg.ar
+org.ar
+mil.ar
+com.ar
+gob.ar
+bet.ar
+net.ar
+int.ar
+edu.ar
+gov.ar
+tur.ar
+musica.ar
+senasa.ar
+mutual.ar
+coop.ar
+nr
+org.nr
+com.nr
+net.nr
+edu.nr
+gov.nr
+biz.nr
+info.nr
+mr
+gov.mr
+lr
+org.lr
+com.lr
+net.lr
+edu.lr
+gov.lr
+kr
+me.kr
+ne.kr
+pe.kr
+re.kr
+kg.kr
+ac.kr
+sc.kr
+ai.kr
+io.kr
+co.kr
+go.kr
+it.kr
+or.kr
+es.kr
+ms.kr
+hs.kr
+seoul.kr
+busan.kr
+ulsan.kr
+daegu.kr
+mil.kr
+chungnam.kr
+jeonnam.kr
+jeonbuk.kr
+gyeonggi.kr
+jeju.kr
+incheon.kr
+daejeon.kr
+gangwon.kr
+gyeongbuk.kr
+gwangju.kr
+chungbuk.kr
+gyeongnam.kr
+ir
+id.ir
+ac.ir
+co.ir
+org.ir
+sch.ir
+net.ir
+gov.ir
+xn--mgba3a4f16a.ir
+xn--mgba3a4fra.ir
+hr
+iz.hr
+com.hr
+name.hr
+from.hr
+ws
+org.ws
+com.ws
+net.ws
+edu.ws
+gov.ws
+us
+id.us
+cc.id.us
+k12.id.us
+lib.id.us
+md.us
+cc.md.us
+k12.md.us
+lib.md.us
+nd.us
+sd.us
+cc.sd.us
+lib.sd.us
+de.us
+cc.de.us
+me.us
+cc.me.us
+k12.me.us
+lib.me.us
+ne.us
+cc.ne.us
+k12.ne.us
+lib.ne.us
+ga.us
+cc.ga.us
+k12.ga.us
+lib.ga.us
+ca.us
+cc.ca.us
+k12.ca.us
+lib.ca.us
+la.us
+cc.la.us
+k12.la.us
+lib.la.us
+ma.us
+cc.ma.us
+k12.ma.us
+pvt.k12.ma.us
+paroch.k12.ma.us
+chtr.k12.ma.us
+lib.ma.us
+ia.us
+cc.ia.us
+k12.ia.us
+lib.ia.us
+va.us
+cc.va.us
+k12.va.us
+lib.va.us
+wa.us
+cc.wa.us
+k12.wa.us
+lib.wa.us
+pa.us
+cc.pa.us
+k12.pa.us
+lib.pa.us
+il.us
+cc.il.us
+k12.il.us
+lib.il.us
+al.us
+cc.al.us
+k12.al.us
+lib.al.us
+fl.us
+cc.fl.us
+k12.fl.us
+lib.fl.us
+nm.us
+cc.nm.us
+k12.nm.us
+lib.nm.us
+dc.us
+cc.dc.us
+k12.dc.us
+lib.dc.us
+nc.us
+cc.nc.us
+k12.nc.us
+lib.nc.us
+sc.us
+cc.sc.us
+k12.sc.us
+lib.sc.us
+oh.us
+cc.oh.us
+k12.oh.us
+lib.oh.us
+nh.us
+cc.nh.us
+k12.nh.us
+lib.nh.us
+mi.us
+cc.mi.us
+eaton.mi.us
+k12.mi.us
+cog.mi.us
+lib.mi.us
+tec.mi.us
+gen.mi.us
+dst.mi.us
+mus.mi.us
+ann-arbor.mi.us
+washtenaw.mi.us
+hi.us
+cc.hi.us
+lib.hi.us
+vi.us
+cc.vi.us
+k12.vi.us
+lib.vi.us
+wi.us
+cc.wi.us
+k12.wi.us
+lib.wi.us
+ri.us
+cc.ri.us
+lib.ri.us
+in.us
+cc.in.us
+k12.in.us
+lib.in.us
+mn.us
+cc.mn.us
+k12.mn.us
+lib.mn.us
+tn.us
+cc.tn.us
+k12.tn.us
+lib.tn.us
+mo.us
+cc.mo.us
+k12.mo.us
+lib.mo.us
+co.us
+cc.co.us
+k12.co.us
+lib.co.us
+ut.us
+cc.ut.us
+k12.ut.us
+lib.ut.us
+vt.us
+cc.vt.us
+k12.vt.us
+lib.vt.us
+ct.us
+cc.ct.us
+k12.ct.us
+lib.ct.us
+mt.us
+cc.mt.us
+k12.mt.us
+lib.mt.us
+gu.us
+cc.gu.us
+k12.gu.us
+lib.gu.us
+nj.us
+cc.nj.us
+k12.nj.us
+lib.nj.us
+ok.us
+cc.ok.us
+k12.ok.us
+lib.ok.us
+ak.us
+cc.ak.us
+k12.ak.us
+lib.ak.us
+wv.us
+cc.wv.us
+nv.us
+cc.nv.us
+k12.nv.us
+lib.nv.us
+pr.us
+cc.pr.us
+k12.pr.us
+lib.pr.us
+ar.us
+cc.ar.us
+k12.ar.us
+lib.ar.us
+or.us
+cc.or.us
+k12.or.us
+lib.or.us
+as.us
+cc.as.us
+k12.as.us
+lib.as.us
+ms.us
+cc.ms.us
+k12.ms.us
+ks.us
+cc.ks.us
+k12.ks.us
+lib.ks.us
+tx.us
+cc.tx.us
+k12.tx.us
+lib.tx.us
+wy.us
+cc.wy.us
+k12.wy.us
+lib.wy.us
+ny.us
+cc.ny.us
+k12.ny.us
+lib.ny.us
+ky.us
+cc.ky.us
+k12.ky.us
+lib.ky.us
+az.us
+cc.az.us
+k12.az.us
+lib.az.us
+isa.us
+dni.us
+nsn.us
+rs
+ac.rs
+in.rs
+co.rs
+org.rs
+edu.rs
+gov.rs
+ss
+me.ss
+co.ss
+org.ss
+com.ss
+sch.ss
+net.ss
+edu.ss
+gov.ss
+biz.ss
+ps
+org.ps
+com.ps
+sec.ps
+plo.ps
+net.ps
+edu.ps
+gov.ps
+gs
+es
+org.es
+com.es
+nom.es
+gob.es
+edu.es
+bs
+org.bs
+com.bs
+net.bs
+edu.bs
+gov.bs
+as
+gov.as
+ls
+ac.ls
+sc.ls
+co.ls
+org.ls
+net.ls
+edu.ls
+gov.ls
+biz.ls
+info.ls
+ms
+org.ms
+com.ms
+net.ms
+edu.ms
+gov.ms
+is
+sx
+gov.sx
+mx
+org.mx
+com.mx
+gob.mx
+net.mx
+edu.mx
+ax
+cx
+gov.cx
+uy
+org.uy
+mil.uy
+com.uy
+gub.uy
+net.uy
+edu.uy
+py
+org.py
+mil.py
+com.py
+net.py
+edu.py
+gov.py
+coop.py
+sy
+org.sy
+mil.sy
+com.sy
+net.sy
+edu.sy
+gov.sy
+ly
+id.ly
+med.ly
+org.ly
+com.ly
+plc.ly
+sch.ly
+net.ly
+edu.ly
+gov.ly
+my
+org.my
+mil.my
+com.my
+net.my
+edu.my
+gov.my
+biz.my
+name.my
+ky
+org.ky
+com.ky
+net.ky
+edu.ky
+gy
+co.gy
+org.gy
+com.gy
+net.gy
+edu.gy
+gov.gy
+by
+of.by
+mil.by
+com.by
+gov.by
+cy
+tm.cy
+ac.cy
+ltd.cy
+org.cy
+mil.cy
+com.cy
+pro.cy
+net.cy
+gov.cy
+biz.cy
+press.cy
+ekloges.cy
+uz
+co.uz
+org.uz
+com.uz
+net.uz
+tz
+me.tz
+ne.tz
+ac.tz
+sc.tz
+co.tz
+go.tz
+tv.tz
+or.tz
+hotel.tz
+mil.tz
+mobi.tz
+info.tz
+sz
+ac.sz
+co.sz
+org.sz
+nz
+ac.nz
+co.nz
+maori.nz
+xn--mori-qsa.nz
+org.nz
+mil.nz
+cri.nz
+iwi.nz
+gen.nz
+net.nz
+school.nz
+health.nz
+kiwi.nz
+govt.nz
+geek.nz
+parliament.nz
+mz
+ac.mz
+co.mz
+org.mz
+mil.mz
+net.mz
+edu.mz
+adv.mz
+gov.mz
+kz
+org.kz
+mil.kz
+com.kz
+net.kz
+edu.kz
+gov.kz
+dz
+tm.dz
+org.dz
+pol.dz
+com.dz
+soc.dz
+art.dz
+net.dz
+edu.dz
+gov.dz
+asso.dz
+cz
+gov.cz
+bz
+co.bz
+org.bz
+com.bz
+net.bz
+edu.bz
+gov.bz
+az
+co.az
+pp.az
+org.az
+mil.az
+com.az
+pro.az
+net.az
+int.az
+edu.az
+gov.az
+biz.az
+name.az
+info.az
+xn--qxam
+xn--qxa6a
+xn--rhqv96g
+xn--kpry57d
+xn--g2xx48c
+xn--55qw42g
+xn--3pxu8k
+xn--nnx388a
+xn--io0a7i
+xn--rovu88b
+xn--3ds443g
+xn--5tzm5g
+xn--kput3i
+xn--nqv7f
+xn--pssy2u
+xn--unup4y
+xn--vuq861b
+xn--kprw13d
+xn--flw351e
+xn--30rr7y
+xn--czr694b
+xn--j6w193g
+xn--wcvs22d.xn--j6w193g
+xn--od0alg.xn--j6w193g
+xn--uc0atv.xn--j6w193g
+xn--55qx5d.xn--j6w193g
+xn--mxtq1m.xn--j6w193g
+xn--gmqw5a.xn--j6w193g
+xn--fiqs8s
+xn--imr513n
+xn--ses554g
+xn--fiqz9s
+xn--czru2d
+xn--jvr189m
+xn--9krt00a
+xn--zfr164b
+xn--6frz82g
+xn--3bst00m
+xn--55qx5d
+xn--45q11c
+xn--czrs0t
+xn--nyqy26a
+xn--hxt814e
+xn--mxtq1m
+xn--9et52u
+xn--1qqw23a
+xn--fiq64b
+xn--fjq720a
+xn--xhq521b
+xn--vhquv
+homedepot
+engineering
+xn--mgbaam7a8h
+republican
+kuokgroup
+versicherung
+channel
+citadel
+xn--pgbs0dh
+xn--b4w605ferd
+statebank
+website
+xn--mgb9awbf
+xn--jlq480n2rg
+alibaba
+xn--ngbc5azd
+xn--mgbbh1a
+xn--45br5cyl
+toshiba
+build
+world
+cloud
+trade
+guide
+place
+space
+dance
+movie
+phone
+prime
+smile
+bible
+style
+apple
+azure
+store
+skype
+gripe
+xn--l1acc
+drive
+lotte
+horse
+house
+lease
+chase
+reise
+stada
+honda
+omega
+aetna
+amica
+ninja
+nokia
+media
+delta
+vodka
+edeka
+osaka
+pizza
+sling
+email
+gmail
+tirol
+shell
+tmall
+final
+legal
+total
+hotel
+amfam
+forum
+rehab
+music
+citic
+ricoh
+coach
+watch
+bosch
+earth
+faith
+irish
+miami
+archi
+dubai
+gucci
+praxi
+xn--q9jyb4c
+xn--cck2b3b
+xn--1ck2e1b
+canon
+salon
+onion
+nikon
+epson
+koeln
+green
+seven
+crown
+ikano
+radio
+audio
+weibo
+globo
+promo
+gallo
+yahoo
+cisco
+rodeo
+video
+mango
+bingo
+tokyo
+volvo
+lotto
+kyoto
+photo
+smart
+sport
+quest
+trust
+hyatt
+jetzt
+adult
+cymru
+baidu
+tushu
+ubank
+click
+black
+merck
+group
+sharp
+cheap
+nowtv
+xn--h2brj9c
+xn--9dbq2a
+xn--y9a3aq
+xn--c1avg
+xn--90a3ac
+xn--80au.xn--90a3ac
+xn--d1at.xn--90a3ac
+xn--o1ac.xn--90a3ac
+xn--c1avg.xn--90a3ac
+xn--90azh.xn--90a3ac
+xn--o1ach.xn--90a3ac
+xn--j1aef
+xn--90ais
+xn--d1alf
+xn--80ao21a
+xn--p1acf
+xn--j1amh
+xn--wgbh1c
+xn--wgbl6a
+xn--ngbrx
+xn--fhbei
+dad
+cfd
+med
+wed
+red
+phd
+thd
+bid
+pid
+krd
+msd
+ltd
+ice
+one
+wme
+gle
+moe
+rwe
+cfa
+gea
+cba
+nba
+mba
+aaa
+mma
+kia
+nra
+spa
+cpa
+axa
+wtf
+bcg
+aeg
+ong
+ing
+aig
+vig
+org
+dog
+dhl
+mil
+ril
+onl
+aol
+lol
+uol
+jll
+cal
+gal
+nfl
+afl
+tel
+srl
+frl
+lpl
+kim
+ibm
+cam
+com
+bom
+mom
+ifm
+abb
+jcb
+scb
+web
+cab
+nab
+tab
+mlb
+pub
+abc
+bbc
+nec
+inc
+pnc
+llc
+stc
+wtc
+pwc
+nyc
+kfh
+bzh
+ovh
+moi
+ski
+obi
+sbi
+tci
+fyi
+tui
+pin
+vin
+win
+xin
+cbn
+bcn
+man
+fan
+gdn
+men
+ren
+kpn
+mtn
+yun
+run
+fun
+uno
+bio
+jio
+rio
+hbo
+gmo
+foo
+boo
+ooo
+aco
+eco
+ceo
+ngo
+pro
+recht.pro
+med.pro
+aaa.pro
+aca.pro
+cpa.pro
+eng.pro
+law.pro
+jur.pro
+bar.pro
+avocat.pro
+acct.pro
+art
+ist
+ott
+ntt
+bbt
+cat
+eat
+lat
+vet
+pet
+bet
+net
+hkt
+mit
+fit
+int
+eu.int
+jot
+hot
+got
+dot
+bot
+pru
+edu
+icu
+jnj
+you
+ink
+nhk
+tdk
+app
+sap
+gap
+map
+dnp
+top
+gop
+llp
+jmp
+zip
+vip
+rip
+esq
+trv
+dtv
+itv
+dev
+mov
+gov
+hiv
+nrw
+law
+sew
+new
+bmw
+wow
+now
+how
+dvr
+ftr
+mtr
+sfr
+bar
+car
+tvs
+crs
+eus
+aws
+ups
+ubs
+sbs
+ads
+dds
+lds
+sas
+bms
+mls
+xxx
+box
+fox
+gmx
+tjx
+sex
+tax
+buy
+fly
+diy
+soy
+joy
+sky
+pay
+day
+gay
+xyz
+anz
+biz
+weber
+sener
+poker
+lamer
+actor
+tatar
+solar
+xn--q7ce6a
+xn--42c2d9a
+xn--o3cw4h
+xn--12cfi8ixb8l.xn--o3cw4h
+xn--12co0c3b4eva.xn--o3cw4h
+xn--h3cuzk1di.xn--o3cw4h
+xn--12c1fe0br.xn--o3cw4h
+xn--o3cyx2a.xn--o3cw4h
+xn--m3ch0j3a.xn--o3cw4h
+tours
+locus
+nexus
+lexus
+gifts
+beats
+boats
+parts
+press
+glass
+swiss
+xn--11b4c3d
+xn--c2br7g
+tires
+gives
+codes
+homes
+games
+tunes
+shoes
+cards
+wales
+loans
+vegas
+tools
+deals
+autos
+paris
+xn--bck1b9a5dre4c
+works
+sucks
+rocks
+xerox
+forex
+fedex
+party
+lilly
+money
+study
+rugby
+toray
+today
+xn--fiq228c5hs
+xn--tiq49xqyj
+xn--kcrx77d1x4a
+xn--yfro4i67o
+enterprises
+xn--6qq986b3xl
+xn--w4r85el8fhu5dnra
+christmas
+holdings
+xn--mgbx4cd0ab
+lifestyle
+abogado
+allstate
+netbank
+xn--mgbi4ecexp
+xn--s9brj9c
+bestbuy
+charity
+microsoft
+property
+basketball
+homegoods
+corsica
+jewelry
+gallery
+grocery
+surgery
+country
+brussels
+verisign
+ferrero
+hdfcbank
+commbank
+softbank
+xn--mgbai9a5eva00b
+xn--mgbai9azgqp6j
+nextdirect
+xn--mgbqly7cvafr
+xn--mgba7c0bbn0a
+xn--h2brj9c8c
+xn--80adxhks
+shiksha
+cuisinella
+barclays
+catholic
+company
+blackfriday
+xn--mgba3a3ejt
+sandvik
+xn--d1acj3b
+academy
+download
+ipiranga
+athleta
+zuerich
+xn--xkc2al3hye2a
+contractors
+graphics
+insurance
+temasek
+motorcycles
+photography
+directory
+plumbing
+clothing
+training
+cleaning
+williamhill
+lighting
+xn--mgba3a4f16a
+shopping
+catering
+education
+okinawa
+pictures
+ventures
+productions
+walmart
+xn--rvc1e0am3e
+support
+realestate
+capitalone
+xn--nqv7fs00ema
+auspost
+florist
+dentist
+godaddy
+bradesco
+bargains
+mitsubishi
+kerryhotels
+immobilien
+xn--mgbtx2b
+holiday
+mckinsey
+madrid
+business
+builders
+helsinki
+xn--4gbrim
+xn--mgberp4a5d4a87g
+coffee
+degree
+lacaixa
+partners
+alsace
+office
+abbvie
+voyage
+orange
+george
+online
+chrome
+mobile
+kindle
+google
+oracle
+circle
+schule
+secure
+insure
+estate
+xn--mgbc0a9azcg
+cruise
+hangout
+rexroth
+firestone
+university
+lifeinsurance
+extraspace
+xn--80asehdb
+xn--vermgensberater-ctb
+software
+xn--mgbab2bd
+tienda
+xn--h2breg3eve
+africa
+toyota
+otsuka
+sakura
+camera
+creditcard
+nagoya
+consulting
+network
+juniper
+theater
+monster
+progressive
+pioneer
+racing
+dating
+voting
+viking
+living
+giving
+brother
+weather
+joburg
+xn--ygbi2ammx
+lplfinancial
+xn--clchc0ea0b2g2a9gcd
+futbol
+school
+social
+global
+dental
+woodside
+chanel
+airtel
+mattel
+travel
+realtor
+webcam
+stream
+xn--fpcrj9c3d
+unicom
+alstom
+museum
+furniture
+accenture
+ismaili
+neustar
+discount
+quebec
+comsec
+clinic
+services
+swatch
+church
+search
+xn--mgbayh7gpa
+marketing
+contact
+health
+monash
+shouji
+sanofi
+taipei
+americanexpress
+suzuki
+xn--cckwcxetd
+xn--gckr3f0f
+xn--eckvdtc9d
+bharti
+xn--qcka1pmc
+xn--mgberp4a5d4ar
+memorial
+london
+mormon
+institute
+vision
+boston
+norton
+coupon
+maison
+amazon
+virgin
+berlin
+design
+durban
+olayan
+nissan
+anquan
+xihuan
+hitachi
+kaufen
+garden
+reisen
+bayern
+technology
+datsun
+latino
+casino
+studio
+physio
+xn--ngbe9e0a
+pharmacy
+tattoo
+taobao
+aramco
+expert
+report
+abbott
+direct
+select
+imamat
+fairwinds
+pictet
+target
+market
+intuit
+travelersinsurance
+credit
+dupont
+ryukyu
+supplies
+bnpparibas
+schmidt
+merckmsd
+yodobashi
+restaurant
+bridgestone
+cricket
+bostik
+broadway
+attorney
+lefrak
+emerck
+careers
+farmers
+winners
+flowers
+guitars
+xn--54b7fta0cc
+makeup
+gallup
+landrover
+goldpoint
+bauhaus
+hiphop
+playstation
+xn--mgba3a4fra
+hyundai
+istanbul
+tickets
+markets
+flights
+chintai
+reviews
+windows
+financial
+xn--fzys8d69uvgm
+xn--mgbca7dzdo
+discover
+review
+xn--5su34j936bgsg
+moscow
+observer
+apartments
+xn--80aswg
+eurovision
+xn--i1b6b1a6a2e
+xn--xkc2dl3a5ee0h
+xn--mgbgu82a
+read
+kred
+bond
+land
+band
+fund
+food
+prod
+gold
+ford
+tube
+cafe
+safe
+life
+ggee
+ieee
+free
+fage
+page
+guge
+zone
+wine
+meme
+name
+game
+sale
+able
+bike
+nike
+like
+care
+cbre
+here
+fire
+save
+love
+live
+blue
+arte
+date
+site
+vote
+case
+luxe
+bofa
+moda
+ltda
+asda
+tiaa
+yoga
+sina
+vana
+shia
+asia
+java
+bbva
+teva
+viva
+data
+zara
+arpa
+ip6.arpa
+uri.arpa
+urn.arpa
+in-addr.arpa
+e164.arpa
+home.arpa
+iris.arpa
+casa
+visa
+sncf
+prof
+maif
+surf
+golf
+dvag
+song
+bing
+ping
+wang
+kpmg
+goog
+blog
+pohl
+fail
+cool
+dell
+call
+deal
+lidl
+sarl
+film
+team
+room
+farm
+imdb
+arab
+club
+hdfc
+icbc
+hsbc
+gmbh
+rich
+tech
+fish
+dish
+cash
+mini
+erni
+kddi
+audi
+wiki
+mobi
+taxi
+citi
+kiwi
+desi
+qpon
+skin
+loan
+akdn
+wien
+open
+porn
+cern
+town
+immo
+limo
+ollo
+info
+nico
+fido
+lego
+saxo
+zero
+aero
+magazine.aero
+media.aero
+union.aero
+cargo.aero
+pilot.aero
+group.aero
+caa.aero
+res.aero
+press.aero
+works.aero
+aerodrome.aero
+workinggroup.aero
+air-traffic-control.aero
+aircraft.aero
+accident-prevention.aero
+educator.aero
+marketplace.aero
+ambulance.aero
+insurance.aero
+catering.aero
+airport.aero
+repbody.aero
+engine.aero
+software.aero
+modelling.aero
+air-surveillance.aero
+consulting.aero
+charter.aero
+trainer.aero
+maintenance.aero
+services.aero
+design.aero
+flight.aero
+skydiving.aero
+freight.aero
+association.aero
+student.aero
+groundhandling.aero
+dgca.aero
+fuel.aero
+club.aero
+taxi.aero
+crew.aero
+show.aero
+ballooning.aero
+express.aero
+trader.aero
+broker.aero
+author.aero
+agents.aero
+airtraffic.aero
+journalist.aero
+safety.aero
+consultant.aero
+microlight.aero
+accident-investigation.aero
+parachuting.aero
+equipment.aero
+production.aero
+federation.aero
+recreation.aero
+scientist.aero
+navigation.aero
+engineer.aero
+trading.aero
+gliding.aero
+leasing.aero
+research.aero
+passenger-association.aero
+entertainment.aero
+paragliding.aero
+hanggliding.aero
+aerobatic.aero
+rotorcraft.aero
+emergency.aero
+certification.aero
+government.aero
+aeroclub.aero
+exchange.aero
+logistics.aero
+championship.aero
+homebuilt.aero
+council.aero
+conference.aero
+control.aero
+airline.aero
+civilaviation.aero
+journal.aero
+vivo
+auto
+voto
+moto
+fast
+best
+rest
+host
+post
+next
+lgbt
+chat
+seat
+gift
+meet
+diet
+reit
+mint
+rent
+gent
+spot
+scot
+guru
+itau
+sohu
+menu
+cyou
+bank
+link
+pink
+dclk
+talk
+silk
+book
+seek
+work
+rsvp
+aarp
+jeep
+shop
+coop
+help
+camp
+pccw
+show
+beer
+star
+ruhr
+flir
+weir
+hair
+cars
+pars
+jprs
+haus
+plus
+news
+tips
+toys
+jobs
+kids
+fans
+pics
+docs
+xbox
+amex
+sexy
+navy
+city
+sony
+army
+ally
+baby
+play
+delivery
+buzz
+gbiz
+lamborghini
+philips
+xn--fzc2c9e2c
+xn--2scrj9c
+fitness
+express
+lanxess
+pfizer
+center
+walter
+lawyer
+soccer
+career
+kosher
+broker
+locker
+dealer
+doctor
+author
+xn--mgbqly7c0a67fbc
+xn--vermgensberatung-pwb
+jaguar
+flickr
+repair
+rogers
+airbus
+events
+yachts
+xn--45brj9c
+viajes
+hermes
+hughes
+villas
+xn--3hcrj9c
+claims
+hotels
+xn--gecrj9c
+zappos
+photos
+juegos
+condos
+tatamotors
+gratis
+tennis
+tkmaxx
+tjmaxx
+schaeffler
+yandex
+realty
+safety
+beauty
+luxury
+supply
+family
+hockey
+sydney
+nissay
+alipay
+energy
+computer
+agency
+statefarm
+accountant
+aquarelle
+olayangroup
+xn--mgbt3dhd
+schwarz
+xn--mgbah1a3hjkrd
+abudhabi
+nowruz
+komatsu
+fujitsu
+hospital
+xn--mgbtf8fl
+prudential
+cruises
+courses
+recipes
+ferrari
+watches
+staples
+singles
+xn--mgbcpq6gpa1a
+properties
+creditunion
+stockholm
+hisamitsu
+stcgroup
+domains
+origins
+coupons
+bloomberg
+clubmed
+frogans
+limited
+xn--80aqecdr1a
+exposed
+international
+equipment
+barclaycard
+protection
+associates
+construction
+android
+foundation
+xn--4dbrk0ce
+xn--8dbq2a.xn--4dbrk0ce
+xn--hebda8b.xn--4dbrk0ce
+xn--5dbhl8d.xn--4dbrk0ce
+xn--4dbgdty6c.xn--4dbrk0ce
+clinique
+boutique
+engineer
+systems
+firmdale
+fashion
+auction
+infiniti
+rentals
+reliance
+trading
+wedding
+fishing
+hosting
+genting
+booking
+cooking
+grainger
+democrat
+samsung
+yokohama
+lundbeck
+melbourne
+vacations
+solutions
+frontier
+management
+xn--mgb2ddes
+lincoln
+hamburg
+sandvikcoromant
+blockbuster
+airforce
+barefoot
+investments
+feedback
+community
+diamonds
+amsterdam
+healthcare
+redumbrella
+agakhan
+xn--mgbpl2fh
+caravan
+richardli
+mortgage
+americanfamily
+scholarships
+saarland
+vlaanderen
+samsclub
+goodyear
+kitchen
+weatherchannel
+allfinanz
+xn--lgbbat1ad8j
+exchange
+jpmorgan
+fidelity
+security
+wanggou
+xn--mgbbh1a71e
+marshalls
+travelers
+panasonic
+latrobe
+youtube
+accountants
+analytics
+xn--ogbpf8fl
+organic
+fresenius
+deloitte
+science
+finance
+homesense
+hotmail
+baseball
+football
+leclerc
+boehringer
+politie
+netflix
+yamaxun
+college
+storage
+capetown
+cologne
+kerryproperties
+whoswho
+cipriani
+lasalle
+forsale
+banamex
+audible
+ericsson
+vanguard
+industries
+theatre
+marriott
+compare
+capital
+digital
+barcelona
+shangrila
+calvinklein
+!www.ck
+!city.sapporo.jp
+!city.kawasaki.jp
+!city.nagoya.jp
+!city.sendai.jp
+!city.kobe.jp
+!city.kitakyushu.jp
+!city.yokohama.jp
+`;
+
+export const PRIVATE_SUFFIX_RULES = `
+cc.cd
+e.id
+zone.id
+ir.md
+my.be
+myspreadshop.be
+ezproxy.kuleuven.be
+webhosting.be
+site.webhosting.be
+*.transurl.be
+123website.be
+cloudns.be
+cloud.interhostsolutions.be
+co.de
+my.de
+myspreadshop.de
+ipv64.de
+diskussionsbereich.de
+4lima.de
+com.de
+rub.de
+2ix.de
+firewall-gateway.de
+ddnss.de
+dyn.ddnss.de
+dyndns.ddnss.de
+spdns.de
+barsy.de
+keymachine.de
+square7.de
+myhome-server.de
+customer.speedpartner.de
+community-pro.de
+schuldock.de
+*.xenonconnect.de
+xn--gnstigliefern-wob.de
+*.bwcloud-os-instance.de
+dyndnssec.de
+my-router.de
+in-butter.de
+l-o-g-i-n.de
+isteingeek.de
+in-dsl.de
+in-berlin.de
+in-brb.de
+fuettertdasnetz.de
+leitungsen.de
+in-vpn.de
+lcube-server.de
+dyn-ip24.de
+logoip.de
+dyn-berlin.de
+ruhr-uni-bochum.de
+io.noc.ruhr-uni-bochum.de
+12hp.de
+goip.de
+srvdns.de
+*.frusky.de
+git-repos.de
+svn-repos.de
+internet-dns.de
+xn--gnstigbestellen-zvb.de
+home-webserver.de
+dyn.home-webserver.de
+bplaced.de
+heimdns.de
+dyn.cosidns.de
+webspaceconfig.de
+lima-city.de
+dyndns1.de
+istmein.de
+virtualuser.de
+schulplattform.de
+my-gateway.de
+ddnssec.de
+lebtimnetz.de
+test-iserv.de
+mein-iserv.de
+virtual-user.de
+home64.de
+iservschule.de
+taifun-dns.de
+traeumtgerade.de
+schulserver.de
+dynamisches-dns.de
+123webseite.de
+dnshome.de
+pages.it.hs-heilbronn.de
+pages-research.it.hs-heilbronn.de
+dnsupdater.de
+myspreadshop.ie
+of.je
+soundcast.me
+hopto.me
+craft.me
+vp4.me
+c66.me
+mcdir.me
+mybox.me
+barsy.me
+edgestack.me
+synology.me
+loginto.me
+opencloud.me
+nohost.me
+webhop.me
+diskstation.me
+i234.me
+tcp4.me
+seprox.hooc.me
+grok.me
+noip.me
+myds.me
+ddns.me
+dnsfor.me
+lohmus.me
+site.transip.me
+dscloud.me
+filegear-sg.me
+brasilia.me
+filegear.me
+can.re
+netlib.re
+myspreadshop.se
+com.se
+123minsida.se
+itcouldbewor.se
+iopsys.se
+rs.ba
+shop.brendly.ba
+co.ca
+myspreadshop.ca
+no-ip.ca
+*.awdev.ca
+box.ca
+barsy.ca
+onid.ca
+bnr.la
+v.ua
+cc.ua
+co.ua
+pp.ua
+cx.ua
+ltd.ua
+inf.ua
+biz.ua
+sch.wf
+biz.wf
+sch.tf
+barsy.bg
+obj.ag
+panel.gg
+daemon.panel.gg
+d6.ply.gg
+*.at.ply.gg
+botdash.gg
+stackit.gg
+kaas.gg
+ae.kg
+us.kg
+xx.kg
+ltd.ng
+col.ng
+plc.ng
+gen.ng
+ngo.ng
+biz.ng
+lg.biz.ng
+dl.biz.ng
+on.biz.ng
+co.biz.ng
+go.biz.ng
+firm.ng
+enscaled.sg
+mytabit.co.il
+tabitorder.co.il
+ravpage.co.il
+co.nl
+myspreadshop.nl
+demon.nl
+gov.nl
+*.transurl.nl
+123website.nl
+hosting-cluster.nl
+site.hosting-cluster.nl
+khplay.nl
+cistron.nl
+cloudns.cl
+co.pl
+myspreadshop.pl
+torun.pl
+sopot.pl
+plock.pl
+med.pl
+gda.pl
+art.pl
+homesklep.pl
+sdscloud.pl
+unicloud.pl
+zakopane.pl
+swidnik.pl
+krasnik.pl
+leczna.pl
+dfirma.pl
+gdynia.pl
+simplesite.pl
+lublin.pl
+poznan.pl
+dkonto.pl
+gdansk.pl
+krakow.pl
+you2.pl
+wroc.pl
+beep.pl
+iqhs.pl
+lodz.pl
+cfolks.pl
+ecommerce-shop.pl
+zgierz.pl
+pabianice.pl
+sieradz.pl
+skierniewice.pl
+gliwice.pl
+poniatowa.pl
+lubartow.pl
+shoparena.pl
+bielsko.pl
+radio.am
+radio.fm
+*.user.fm
+own.pm
+name.pm
+official.ec
+base.ec
+ec.cc
+eu.cc
+gu.cc
+uk.cc
+us.cc
+sryze.cc
+instances.spawn.cc
+csx.cc
+cloud-ip.cc
+myphotos.cc
+fantasyleague.cc
+twmail.cc
+cleverapps.cc
+scrapping.cc
+ccwu.cc
+cloudns.cc
+ftpaccess.cc
+game-server.cc
+sch.ac
+drr.ac
+forms.ac
+feedback.ac
+oy.lc
+*.0e.vc
+gv.vc
+d.gv.vc
+mydns.vc
+myspreadshop.ch
+4lima.ch
+2ix.ch
+square7.ch
+objects.rma.cloudscale.ch
+objects.lpg.cloudscale.ch
+cust.cloudscale.ch
+123website.ch
+*.firenet.ch
+*.svc.firenet.ch
+12hp.ch
+alp1.ae.flow.ch
+appengine.flow.ch
+gotdns.ch
+linkyard-cloud.ch
+cloudns.ch
+lima-city.ch
+dnsking.ch
+rma.objectstorage.ch
+lpg.objectstorage.ch
+online.th
+shop.th
+cloudns.ph
+surge.sh
+botda.sh
+now.sh
+teleport.sh
+hashbang.sh
+eu.platform.sh
+us.platform.sh
+ent.platform.sh
+lovable.sh
+dy.fi
+myspreadshop.fi
+kapsi.fi
+iki.fi
+xn--hkkinen-5wa.fi
+fi.cloudplatform.fi
+123kotisivu.fi
+uwu.ai
+kiloapps.ai
+framer.ai
+us.ci
+f5.si
+gitapp.si
+gitpage.si
+web.in
+barsy.in
+supabase.in
+indevs.in
+cloudns.in
+nyc.mn
+as.sh.cn
+s3.cn-northwest-1.amazonaws.com.cn
+s3-accesspoint.cn-northwest-1.amazonaws.com.cn
+*.rds.cn-northwest-1.amazonaws.com.cn
+s3.dualstack.cn-northwest-1.amazonaws.com.cn
+s3-accesspoint.dualstack.cn-northwest-1.amazonaws.com.cn
+emrappui-prod.cn-northwest-1.amazonaws.com.cn
+s3-website.cn-northwest-1.amazonaws.com.cn
+emrstudio-prod.cn-northwest-1.amazonaws.com.cn
+s3-object-lambda.cn-northwest-1.amazonaws.com.cn
+emrnotebooks-prod.cn-northwest-1.amazonaws.com.cn
+execute-api.cn-northwest-1.amazonaws.com.cn
+cn-northwest-1.eb.amazonaws.com.cn
+cn-north-1.eb.amazonaws.com.cn
+*.compute.amazonaws.com.cn
+*.elb.amazonaws.com.cn
+s3.cn-north-1.amazonaws.com.cn
+s3-accesspoint.cn-north-1.amazonaws.com.cn
+*.rds.cn-north-1.amazonaws.com.cn
+s3.dualstack.cn-north-1.amazonaws.com.cn
+s3-accesspoint.dualstack.cn-north-1.amazonaws.com.cn
+s3-website.dualstack.cn-north-1.amazonaws.com.cn
+s3-deprecated.cn-north-1.amazonaws.com.cn
+emrappui-prod.cn-north-1.amazonaws.com.cn
+s3-website.cn-north-1.amazonaws.com.cn
+emrstudio-prod.cn-north-1.amazonaws.com.cn
+s3-object-lambda.cn-north-1.amazonaws.com.cn
+emrnotebooks-prod.cn-north-1.amazonaws.com.cn
+execute-api.cn-north-1.amazonaws.com.cn
+*.cn-northwest-1.airflow.amazonaws.com.cn
+*.cn-north-1.airflow.amazonaws.com.cn
+notebook.cn-northwest-1.sagemaker.com.cn
+studio.cn-northwest-1.sagemaker.com.cn
+notebook.cn-north-1.sagemaker.com.cn
+studio.cn-north-1.sagemaker.com.cn
+*.airflow.cn-northwest-1.on.amazonwebservices.com.cn
+transfer-webapp.cn-northwest-1.on.amazonwebservices.com.cn
+*.airflow.cn-north-1.on.amazonwebservices.com.cn
+transfer-webapp.cn-north-1.on.amazonwebservices.com.cn
+canva-apps.cn
+direct.quickconnect.cn
+my.canvasite.cn
+khsj.cn
+canva-code.cn
+myqnapcloud.cn
+co.bn
+orangecloud.tn
+paas.beebyte.io
+utwente.io
+boxfuse.io
+brave.io
+*.s.brave.io
+pstmn.io
+mock.pstmn.io
+dedyn.io
+ngrok.io
+sa.ngrok.io
+in.ngrok.io
+au.ngrok.io
+eu.ngrok.io
+ap.ngrok.io
+jp.ngrok.io
+us.ngrok.io
+qcx.io
+*.sys.qcx.io
+qzz.io
+barsy.io
+cust.dev.thingdust.io
+reservd.dev.thingdust.io
+cust.disrec.thingdust.io
+reservd.disrec.thingdust.io
+cust.prod.thingdust.io
+cust.testing.thingdust.io
+reservd.testing.thingdust.io
+mo-siemens.io
+site.rb-hosting.io
+fh-muenster.io
+gitbook.io
+bluebite.io
+cloudbeesusercontent.io
+stage.nodeart.io
+kiloapps.io
+id.forgerock.io
+darklang.io
+devices.resinstaging.io
+apigee.io
+cdn.bubble.io
+b-data.io
+client.scrypted.io
+hypernode.io
+dyndns.dappnode.io
+pantheonsite.io
+gitlab.io
+github.io
+keenetic.io
+virtualserver.io
+cleverapps.io
+hostyhosting.io
+*.on-rio.io
+edugit.io
+tickets.io
+telebit.io
+wixstudio.io
+*.on-k3s.io
+icp0.io
+*.raw.icp0.io
+icp1.io
+*.raw.icp1.io
+0.0.7.246.io
+jele.io
+qoto.io
+apps.lair.io
+bubbleapps.io
+myaddr.io
+*.stolos.io
+myrdbx.io
+webflow.io
+drive-platform.io
+beagleboard.io
+hasura-app.io
+lolipop.io
+definima.io
+vaporcloud.io
+musician.io
+webflowtest.io
+*.azurecontainer.io
+resindevice.io
+readthedocs.io
+loginline.io
+editorx.io
+*.moonscale.io
+sandcats.io
+basicserver.io
+webthings.io
+browsersafetymark.io
+sekd1.beebyteapp.io
+bitbucket.io
+co.no
+myspreadshop.no
+123hjemmeside.no
+leadpages.co
+carrd.co
+crd.co
+hidns.co
+supabase.co
+realtime.supabase.co
+storage.supabase.co
+*.srvrless.rdpa.co
+*.clusters.rdpa.co
+repl.co
+id.repl.co
+mypi.co
+umso.co
+*.xmit.co
+*.otap.co
+lpages.co
+firewalledreplit.co
+id.firewalledreplit.co
+co.ro
+barsy.ro
+shop.ro
+surveys.so
+x0.to
+0.0.2.99.to
+oya.to
+direct.quickconnect.to
+vpnplus.to
+nett.to
+123paginaweb.pt
+*.cn.st
+kirara.st
+noho.st
+helioho.st
+org.yt
+0.0.0.4.at
+my.at
+myspreadshop.at
+4lima.at
+2ix.at
+*.ex.ortsinfo.at
+*.kunden.ortsinfo.at
+*.futurecms.at
+*.in.futurecms.at
+*.ex.futurecms.at
+futurehosting.at
+12hp.at
+priv.at
+futuremailing.at
+lima-city.at
+wien.funkfeuer.at
+123webseite.at
+dnshome.at
+myspreadshop.it
+ibxos.it
+syncloud.it
+32-b.it
+16-b.it
+64-b.it
+jc.neen.it
+iliadboxos.it
+123homepage.it
+dnshome.it
+rt.ht
+ac.ru
+pp.ru
+mordovia.ru
+mcpre.ru
+cbg.ru
+org.ru
+mil.ru
+com.ru
+spb.ru
+net.ru
+int.ru
+edu.ru
+msk.ru
+nov.ru
+gov.ru
+bir.ru
+ras.ru
+mcdir.ru
+vps.mcdir.ru
+mytis.ru
+mircloud.ru
+vladimir.ru
+nalchik.ru
+adygeya.ru
+marine.ru
+pyatigorsk.ru
+myjino.ru
+*.vps.myjino.ru
+*.spectrum.myjino.ru
+*.landing.myjino.ru
+*.hosting.myjino.ru
+bashkiria.ru
+eurodir.ru
+vladikavkaz.ru
+na4u.ru
+grozny.ru
+kustanai.ru
+kalmykia.ru
+hb.cldmail.ru
+dagestan.ru
+abkhazia.su
+vologda.su
+mordovia.su
+penza.su
+lenug.su
+sochi.su
+navoi.su
+exnet.su
+spb.su
+msk.su
+nov.su
+north-kazakhstan.su
+ashgabad.su
+karelia.su
+armenia.su
+georgia.su
+vladimir.su
+nalchik.su
+ivanovo.su
+bukhara.su
+adygeya.su
+khakassia.su
+kaluga.su
+krasnodar.su
+jambyl.su
+aktyubinsk.su
+troitsk.su
+bryansk.su
+obninsk.su
+kurgan.su
+azerbaijan.su
+pokrovsk.su
+bashkiria.su
+tselinograd.su
+vladikavkaz.su
+murmansk.su
+tula.su
+tuva.su
+mangyshlak.su
+tashkent.su
+chimkent.su
+grozny.su
+karaganda.su
+termez.su
+arkhangelsk.su
+kustanai.su
+kalmykia.su
+balashov.su
+east-kazakhstan.su
+karacol.su
+dagestan.su
+togliatti.su
+myspreadshop.com.au
+mel.cloudlets.com.au
+*.nxa.eu
+spdns.eu
+barsy.eu
+directwp.eu
+deuxfleurs.eu
+*.transurl.eu
+jelastic.dogado.eu
+prvw.eu
+cloudns.eu
+auth.cognito-idp.eusc-de-east-1.on.amazonwebservices.eu
+dnshome.eu
+123website.lu
+merseine.nu
+shacknet.nu
+enterprisecloud.nu
+mine.nu
+ltd.hk
+inc.hk
+co.dk
+myspreadshop.dk
+store.dk
+reg.dk
+biz.dk
+123hjemmeside.dk
+firm.dk
+myspreadshop.co.uk
+adimo.co.uk
+no-ip.co.uk
+barsy.co.uk
+barsyonline.co.uk
+j.layershift.co.uk
+nh-serv.co.uk
+cust.retrosnub.co.uk
+independent-inquest.uk
+nimsite.uk
+copro.uk
+pymnt.uk
+lug.org.uk
+affinitylottery.org.uk
+weeklylottery.org.uk
+raffleentry.org.uk
+glug.org.uk
+lugs.org.uk
+api.gov.uk
+campaign.gov.uk
+service.gov.uk
+barsy.uk
+independent-commission.uk
+independent-review.uk
+public-inquiry.uk
+independent-panel.uk
+conn.uk
+hosp.uk
+independent-inquiry.uk
+royal-commission.uk
+*.oraclegovcloudapps.uk
+ju.mp
+mints.ne.jp
+ivory.ne.jp
+topaz.ne.jp
+sakura.ne.jp
+gehirn.ne.jp
+sumomo.ne.jp
+user.aseinet.ne.jp
+opal.ne.jp
+mail-box.ne.jp
+mokuren.ne.jp
+hatenadiary.jp
+kawaiishop.jp
+hatenablog.jp
+cocotte.jp
+namaste.jp
+penne.jp
+verse.jp
+staba.jp
+gonna.jp
+perma.jp
+hacca.jp
+uh-oh.jp
+blush.jp
+kuron.jp
+capoo.jp
+itigo.jp
+punyu.jp
+thick.jp
+cheap.jp
+0t0.jp
+0g0.jp
+0j0.jp
+2-d.jp
+daa.jp
+pya.jp
+wjg.jp
+0am.jp
+fem.jp
+sub.jp
+xii.jp
+boo.jp
+moo.jp
+but.jp
+chu.jp
+eek.jp
+pgw.jp
+rgr.jp
+her.jp
+skr.jp
+boy.jp
+rdy.jp
+upper.jp
+under.jp
+flier.jp
+chips.jp
+mydns.jp
+heavy.jp
+angry.jp
+hippy.jp
+girly.jp
+rulez.jp
+bambina.jp
+parasite.jp
+lolipopmc.jp
+fakefur.jp
+coolblog.jp
+chillout.jp
+peewee.jp
+zombie.jp
+cutegirl.jp
+nikita.jp
+nyanta.jp
+mimoza.jp
+boyfriend.jp
+greater.jp
+chowder.jp
+egoism.jp
+fashionstore.jp
+pecori.jp
+saloon.jp
+watson.jp
+vivian.jp
+nobushi.jp
+pigboat.jp
+pinoko.jp
+sadist.jp
+velvet.jp
+secret.jp
+chicappa.jp
+digick.jp
+girlfriend.jp
+mongolian.jp
+parallel.jp
+o0o0.jp
+mond.jp
+bona.jp
+deca.jp
+fool.jp
+kill.jp
+deci.jp
+main.jp
+hiho.jp
+lomo.jp
+sblo.jp
+kilo.jp
+ciao.jp
+undo.jp
+pupu.jp
+tank.jp
+crap.jp
+flop.jp
+noor.jp
+oops.jp
+mods.jp
+holy.jp
+jeez.jp
+stripper.jp
+pepper.jp
+bitter.jp
+readymade.jp
+icurus.jp
+versus.jp
+matrix.jp
+hungry.jp
+floppy.jp
+gloomy.jp
+cranky.jp
+handcrafted.jp
+littlestar.jp
+whitesnow.jp
+sunnyday.jp
+lovepop.jp
+theshop.jp
+buyshop.jp
+rs.webaccel.jp
+user.webaccel.jp
+lovesick.jp
+catfood.jp
+tonkotsu.jp
+frenchkiss.jp
+pussycat.jp
+babyblue.jp
+netgamers.jp
+halfmoon.jp
+schoolbus.jp
+jellybean.jp
+usercontent.jp
+lolitapunk.jp
+s3.isk01.sakurastorage.jp
+s3.isk02.sakurastorage.jp
+candypop.jp
+babymilk.jp
+supersale.jp
+weblike.jp
+raindrop.jp
+backdrop.jp
+websozai.jp
+kikirara.jp
+hateblo.jp
+daynight.jp
+better-than.tv
+worse-than.tv
+sakura.tv
+from.tv
+dyndns.tv
+on-the-web.tv
+store.cv
+dev.cv
+x443.pw
+cloudns.pw
+url.tw
+mymailer.com.tw
+mydns.tw
+nx.gw
+barsy.gr
+simplesite.gr
+experts-comptables.fr
+myspreadshop.fr
+ynh.fr
+fbxos.fr
+notaires.fr
+aeroport.fr
+freeboxos.fr
+on-web.fr
+avocat.fr
+port.fr
+kdns.fr
+chirurgiens-dentistes-en-france.fr
+fbx-os.fr
+123siteweb.fr
+veterinaire.fr
+chirurgiens-dentistes.fr
+pharmacien.fr
+chambagri.fr
+medecin.fr
+freebox-os.fr
+dedibox.fr
+goupile.fr
+ce.leg.br
+pe.leg.br
+se.leg.br
+ba.leg.br
+ma.leg.br
+pa.leg.br
+df.leg.br
+mg.leg.br
+al.leg.br
+am.leg.br
+pb.leg.br
+ac.leg.br
+sc.leg.br
+pi.leg.br
+rn.leg.br
+go.leg.br
+ro.leg.br
+to.leg.br
+mt.leg.br
+rj.leg.br
+sp.leg.br
+ap.leg.br
+rr.leg.br
+pr.leg.br
+rs.leg.br
+es.leg.br
+ms.leg.br
+simplesite.com.br
+tche.br
+c01.kr
+vki.kr
+mmv.kr
+eliv-dns.kr
+eliv-cdn.kr
+eliv-api.kr
+vistablog.ir
+arvanedge.ir
+shop.brendly.hr
+cloud66.ws
+*.advisor.ws
+mypets.ws
+dyndns.ws
+sea.wa.us
+forks.wa.us
+olympia.wa.us
+bainbridge-isl.wa.us
+keyport.wa.us
+hoquiam.wa.us
+yarrow-point.wa.us
+centralia.wa.us
+port-townsend.wa.us
+sequim.wa.us
+port-ludlow.wa.us
+renton.wa.us
+silverdale.wa.us
+bremerton.wa.us
+redmond.wa.us
+shelton.wa.us
+bellevue.wa.us
+port-orchard.wa.us
+port-angeles.wa.us
+kingston.wa.us
+chehalis.wa.us
+aberdeen.wa.us
+gig-harbor.wa.us
+seattle.wa.us
+poulsbo.wa.us
+ngo.us
+srv.us
+gl.srv.us
+gh.srv.us
+is-by.us
+mircloud.us
+servername.us
+pointto.us
+phx.enscaled.us
+land-4-sale.us
+freeddns.us
+stuff-4-sale.us
+azure-api.us
+noip.us
+aws-gov.databricksapps.us
+cloudns.us
+golffan.us
+heliohost.us
+azurewebsites.us
+ox.rs
+barsy.rs
+shop.brendly.rs
+myspreadshop.es
+123miweb.es
+we.bs
+minisite.ms
+ath.cx
+tests.cx
+calculators.cx
+paynow.cx
+info.cx
+quizzes.cx
+researched.cx
+cloudns.cx
+funnels.cx
+assessments.cx
+gv.uy
+mediatech.by
+j.scaleforce.com.cy
+cloudns.nz
+jcloud.kz
+e4.cz
+co.cz
+realm.cz
+flt.cloud.muni.cz
+usr.cloud.muni.cz
+rsc.contentproxy9.cz
+*.cloud.metacentrum.cz
+custom.metacentrum.cz
+za.bz
+gsj.bz
+mydns.bz
+framer.website
+v0.build
+windsurf.build
+shiptoday.build
+s3.k2.cloud
+website.k2.cloud
+s3.ru-spb.k2.cloud
+lb.ru-spb.k2.cloud
+website.ru-spb.k2.cloud
+s3.ru-msk.k2.cloud
+lb.ru-msk.k2.cloud
+website.ru-msk.k2.cloud
+elastic.k2.cloud
+kuleuven.cloud
+laravel.cloud
+voorloper.cloud
+urown.cloud
+oxa.cloud
+tn.oxa.cloud
+uk.oxa.cloud
+zap.cloud
+k8s.scw.cloud
+scalebook.scw.cloud
+s3.pl-waw.scw.cloud
+ddl.pl-waw.scw.cloud
+rdb.pl-waw.scw.cloud
+k8s.pl-waw.scw.cloud
+nodes.k8s.pl-waw.scw.cloud
+ifr.pl-waw.scw.cloud
+s3-website.pl-waw.scw.cloud
+cockpit.pl-waw.scw.cloud
+scbl.pl-waw.scw.cloud
+mgdb.pl-waw.scw.cloud
+dtwh.pl-waw.scw.cloud
+kafk.pl-waw.scw.cloud
+s3.fr-par.scw.cloud
+ddl.fr-par.scw.cloud
+whm.fr-par.scw.cloud
+rdb.fr-par.scw.cloud
+fnc.fr-par.scw.cloud
+functions.fnc.fr-par.scw.cloud
+k8s.fr-par.scw.cloud
+nodes.k8s.fr-par.scw.cloud
+ifr.fr-par.scw.cloud
+s3-website.fr-par.scw.cloud
+cockpit.fr-par.scw.cloud
+scbl.fr-par.scw.cloud
+mgdb.fr-par.scw.cloud
+dtwh.fr-par.scw.cloud
+kafk.fr-par.scw.cloud
+s3.nl-ams.scw.cloud
+ddl.nl-ams.scw.cloud
+whm.nl-ams.scw.cloud
+rdb.nl-ams.scw.cloud
+k8s.nl-ams.scw.cloud
+nodes.k8s.nl-ams.scw.cloud
+ifr.nl-ams.scw.cloud
+s3-website.nl-ams.scw.cloud
+cockpit.nl-ams.scw.cloud
+scbl.nl-ams.scw.cloud
+mgdb.nl-ams.scw.cloud
+dtwh.nl-ams.scw.cloud
+kafk.nl-ams.scw.cloud
+nl-ams-1.baremetal.scw.cloud
+fr-par-1.baremetal.scw.cloud
+fr-par-2.baremetal.scw.cloud
+smartlabeling.scw.cloud
+pub.instances.scw.cloud
+priv.instances.scw.cloud
+hstgr.cloud
+vapor.cloud
+online-server.cloud
+observablehq.cloud
+elementor.cloud
+antagonist.cloud
+ca.reclaim.cloud
+uk.reclaim.cloud
+us.reclaim.cloud
+jotelulu.cloud
+eu.encoway.cloud
+diadem.cloud
+vip.jelastic.cloud
+matlab.cloud
+*.magentosite.cloud
+de.trendhosting.cloud
+ch.trendhosting.cloud
+es-1.axarnet.cloud
+perspecta.cloud
+it1.eur.aruba.jenv-aruba.cloud
+it1.jenv-aruba.cloud
+jele.cloud
+jote.cloud
+ravendb.cloud
+emergent.cloud
+trafficplex.cloud
+convex.cloud
+eu-west-1.convex.cloud
+us-east-1.convex.cloud
+keliweb.cloud
+cs.keliweb.cloud
+servebolt.cloud
+*.begetcdn.cloud
+*.statics.cloud
+*.on-rancher.cloud
+primetel.cloud
+uk.primetel.cloud
+runs.onstackit.cloud
+unison-services.cloud
+dnshome.cloud
+linkyard.cloud
+co.place
+hf.space
+static.hf.space
+heiyu.space
+xs4all.space
+project.space
+myfast.space
+uber.space
+vibehost.space
+app-ionos.space
+deployagent.space
+int.apple
+*.cloud.int.apple
+*.r.cloud.int.apple
+*.us-west-3.r.cloud.int.apple
+*.ap-south-2.r.cloud.int.apple
+*.us-central-2.r.cloud.int.apple
+*.us-central-1.r.cloud.int.apple
+*.eu-central-1.r.cloud.int.apple
+*.ap-south-1.r.cloud.int.apple
+*.us-west-2.r.cloud.int.apple
+*.us-east-2.r.cloud.int.apple
+*.eu-north-1.r.cloud.int.apple
+*.ap-north-1.r.cloud.int.apple
+*.us-west-1.r.cloud.int.apple
+*.us-east-1.r.cloud.int.apple
+barsy.store
+storebase.store
+shopware.store
+sellfy.store
+framer.media
+ngrok.pizza
+intouch.email
+p.tawkto.email
+p.tawk.email
+discourse.group
+xn--41a.xn--p1acf
+xn--90a1af.xn--p1acf
+xn--c1avg.xn--p1acf
+xn--j1aef.xn--p1acf
+xn--j1adp.xn--p1acf
+xn--90amc.xn--p1acf
+xn--h1ahn.xn--p1acf
+xn--80aaa0cvac.xn--p1acf
+xn--j1ael8b.xn--p1acf
+xn--h1aliz.xn--p1acf
+co.krd
+edu.krd
+website.one
+*.kin.one
+service.one
+ddns.wtf
+ae.org
+za.org
+eu.org
+cd.eu.org
+be.eu.org
+de.eu.org
+ee.eu.org
+ie.eu.org
+me.eu.org
+se.eu.org
+ca.eu.org
+bg.eu.org
+ng.eu.org
+il.eu.org
+nl.eu.org
+al.eu.org
+pl.eu.org
+ch.eu.org
+fi.eu.org
+si.eu.org
+in.eu.org
+cn.eu.org
+no.eu.org
+ro.eu.org
+pt.eu.org
+at.eu.org
+it.eu.org
+mt.eu.org
+lt.eu.org
+ru.eu.org
+au.eu.org
+hu.eu.org
+lu.eu.org
+mk.eu.org
+dk.eu.org
+uk.eu.org
+sk.eu.org
+jp.eu.org
+lv.eu.org
+tr.eu.org
+gr.eu.org
+fr.eu.org
+kr.eu.org
+hr.eu.org
+us.eu.org
+es.eu.org
+is.eu.org
+my.eu.org
+cy.eu.org
+nz.eu.org
+cz.eu.org
+net.eu.org
+int.eu.org
+edu.eu.org
+asso.eu.org
+hk.org
+us.org
+js.org
+hatenadiary.org
+c.cdn77.org
+rsc.cdn77.org
+hopto.org
+zapto.org
+is-a-knight.org
+myftp.org
+no-ip.org
+jpn.org
+ddnss.org
+dpdns.org
+spdns.org
+barsy.org
+sweetpepper.org
+is-a-bruinsfan.org
+is-very-sweet.org
+servegame.org
+is-a-soxfan.org
+homelinux.org
+ssl.origin.cdn77-secure.org
+servebbs.org
+misconfused.org
+webredirect.org
+blogsite.org
+freedesktop.org
+couchpotatofries.org
+toolforge.org
+accesscam.org
+is-lost.org
+readmyblog.org
+small-web.org
+fedorapeople.org
+serveftp.org
+is-a-celticsfan.org
+mywire.org
+potager.org
+twmail.org
+in-dsl.org
+sellsyourhome.org
+read-books.org
+freeddns.org
+cable-modem.org
+is-saved.org
+nflfan.org
+ufcfan.org
+mlbfan.org
+stuff-4-sale.org
+endoftheinternet.org
+in-vpn.org
+my-firewall.org
+homeftp.org
+is-local.org
+is-a-chef.org
+boldlygoingnowhere.org
+webhop.org
+selfip.org
+kicks-ass.org
+roxa.org
+tunk.org
+camdvr.org
+app.os.fedoraproject.org
+cloud.fedoraproject.org
+app.os.stg.fedoraproject.org
+gotdns.org
+dvrdns.org
+dyndns.org
+go.dyndns.org
+home.dyndns.org
+pubtls.org
+pimienta.org
+homeunix.org
+dontexist.org
+fedorainfracloud.org
+wmflabs.org
+fspages.org
+bmoattachments.org
+s3.teckids.org
+familyds.org
+dnsalias.org
+dynalias.org
+now-dns.org
+cloudns.org
+doomdns.org
+duckdns.org
+blogdns.org
+homedns.org
+routingthecloud.org
+endofinternet.org
+dsmynas.org
+ip-dynamic.org
+poivron.org
+httpbin.org
+myfirewall.org
+is-very-evil.org
+mysecuritycamera.org
+is-a-linux-user.org
+wmcloud.org
+beta.wmcloud.org
+is-a-geek.org
+tuxfamily.org
+is-a-candidate.org
+doesntexist.org
+is-very-bad.org
+hobby-site.org
+game-host.org
+altervista.org
+is-found.org
+is-a-patsfan.org
+dnsdojo.org
+hepforge.org
+podzone.org
+dynserv.org
+collegefan.org
+is-very-good.org
+from-me.org
+is-very-nice.org
+isa-geek.org
+omg.lol
+x0.com
+de.com
+sa.com
+za.com
+cn.com
+co.com
+it.com
+ru.com
+eu.com
+4u.com
+hk.com
+uk.com
+gr.com
+br.com
+us.com
+hatenadiary.com
+myspreadshop.com
+from-fl.com
+from-wv.com
+webspace-host.com
+theworkpc.com
+hatenablog.com
+*.cursorusercontent.com
+servesarcasm.com
+applinzi.com
+sakuratan.com
+wixsite.com
+appchizi.com
+giize.com
+is-into-cars.com
+dnsiskinky.com
+adobeaemcloud.com
+*.dev.adobeaemcloud.com
+is-a-therapist.com
+pgfog.com
+myvnc.com
+dojin.com
+is-an-actress.com
+1kapp.com
+fldrv.com
+kozow.com
+qa2.com
+jpn.com
+mex.com
+xen.prgmr.com
+firewall-gateway.com
+dynns.com
+cafjs.com
+apps.fbsbx.com
+ooguy.com
+from-ga.com
+woltlab-demo.com
+is-a-anarchist.com
+pages.wiardweb.com
+teaches-yoga.com
+dattoweb.com
+site.tb-hosting.com
+live-website.com
+servegame.com
+gotpantheon.com
+from-nh.com
+subsc-pay.com
+from-oh.com
+vipsinaapp.com
+from-ca.com
+dyndns-office.com
+homelinux.com
+from-ma.com
+hercules-app.com
+servebbs.com
+streakusercontent.com
+from-ok.com
+from-wy.com
+fastly-terrarium.com
+is-a-llama.com
+*.qualyhqportal.com
+serveexchange.com
+on-vapor.com
+vivenushop.com
+ciscofreak.com
+grayjayleagues.com
+*.metaaiusercontent.com
+from-ia.com
+is-a-libertarian.com
+saves-the-whales.com
+taveusercontent.com
+yolasite.com
+operaunite.com
+point2this.com
+is-a-caterer.com
+claudeusercontent.com
+frame.claudeusercontent.com
+ip.linodeusercontent.com
+from-va.com
+githubusercontent.com
+sells-for-less.com
+rag-cloud.hosteur.com
+rag-cloud-ch.hosteur.com
+canva-apps.com
+playstation-cloud.com
+ddnsfree.com
+from-pa.com
+from-pr.com
+from-wa.com
+ddnsking.com
+outsystemscloud.com
+hotelwithflight.com
+mydatto.com
+is-a-nascarfan.com
+mydbserver.com
+miniserver.com
+damnserver.com
+servehumour.com
+is-a-player.com
+from-nv.com
+from-nm.com
+preview.emergentagent.com
+gentapps.com
+amplifyapp.com
+from-ky.com
+is-an-accountant.com
+nfshost.com
+serveirc.com
+from-ak.com
+pythonanywhere.com
+eu.pythonanywhere.com
+stackhero-network.com
+postman-echo.com
+likescandy.com
+dyndns-mail.com
+static.observableusercontent.com
+serveftp.com
+freeboxos.com
+from-ut.com
+cdn77-storage.com
+s3.amazonaws.com
+s3.eu-west-3.amazonaws.com
+s3-accesspoint.eu-west-3.amazonaws.com
+s3.dualstack.eu-west-3.amazonaws.com
+s3-accesspoint.dualstack.eu-west-3.amazonaws.com
+s3-website.dualstack.eu-west-3.amazonaws.com
+emrappui-prod.eu-west-3.amazonaws.com
+s3-website.eu-west-3.amazonaws.com
+webview-assets.aws-cloud9.eu-west-3.amazonaws.com
+emrstudio-prod.eu-west-3.amazonaws.com
+s3-object-lambda.eu-west-3.amazonaws.com
+emrnotebooks-prod.eu-west-3.amazonaws.com
+execute-api.eu-west-3.amazonaws.com
+vfs.cloud9.eu-west-3.amazonaws.com
+webview-assets.cloud9.eu-west-3.amazonaws.com
+s3.ap-south-2.amazonaws.com
+s3-accesspoint.ap-south-2.amazonaws.com
+s3.dualstack.ap-south-2.amazonaws.com
+s3-accesspoint.dualstack.ap-south-2.amazonaws.com
+s3-website.dualstack.ap-south-2.amazonaws.com
+emrappui-prod.ap-south-2.amazonaws.com
+s3-website.ap-south-2.amazonaws.com
+emrstudio-prod.ap-south-2.amazonaws.com
+s3-object-lambda.ap-south-2.amazonaws.com
+emrnotebooks-prod.ap-south-2.amazonaws.com
+execute-api.ap-south-2.amazonaws.com
+s3.eu-south-2.amazonaws.com
+s3-accesspoint.eu-south-2.amazonaws.com
+s3.dualstack.eu-south-2.amazonaws.com
+s3-accesspoint.dualstack.eu-south-2.amazonaws.com
+s3-website.dualstack.eu-south-2.amazonaws.com
+emrappui-prod.eu-south-2.amazonaws.com
+s3-website.eu-south-2.amazonaws.com
+emrstudio-prod.eu-south-2.amazonaws.com
+s3-object-lambda.eu-south-2.amazonaws.com
+emrnotebooks-prod.eu-south-2.amazonaws.com
+execute-api.eu-south-2.amazonaws.com
+*.compute.amazonaws.com
+s3-ap-northeast-2.amazonaws.com
+*.elb.amazonaws.com
+*.eu-west-3.rds.amazonaws.com
+*.ap-south-2.rds.amazonaws.com
+*.eu-central-2.rds.amazonaws.com
+*.ap-southeast-3.rds.amazonaws.com
+*.ap-southeast-4.rds.amazonaws.com
+*.ap-northeast-3.rds.amazonaws.com
+*.eu-central-1.rds.amazonaws.com
+*.mx-central-1.rds.amazonaws.com
+*.me-central-1.rds.amazonaws.com
+*.ca-central-1.rds.amazonaws.com
+*.il-central-1.rds.amazonaws.com
+*.ap-northeast-1.rds.amazonaws.com
+*.us-northeast-1.rds.amazonaws.com
+*.ap-southeast-1.rds.amazonaws.com
+*.me-south-1.rds.amazonaws.com
+*.af-south-1.rds.amazonaws.com
+*.ap-south-1.rds.amazonaws.com
+*.ap-southeast-7.rds.amazonaws.com
+*.us-west-2.rds.amazonaws.com
+*.eu-west-2.rds.amazonaws.com
+*.ap-east-2.rds.amazonaws.com
+*.us-east-2.rds.amazonaws.com
+*.ap-southeast-2.rds.amazonaws.com
+*.ap-northeast-2.rds.amazonaws.com
+*.ap-southeast-5.rds.amazonaws.com
+*.us-gov-west-1.rds.amazonaws.com
+*.us-gov-east-1.rds.amazonaws.com
+*.ap-southeast-6.rds.amazonaws.com
+*.ca-west-1.rds.amazonaws.com
+*.us-west-1.rds.amazonaws.com
+*.eu-west-1.rds.amazonaws.com
+*.us-east-1.rds.amazonaws.com
+*.ap-east-1.rds.amazonaws.com
+*.sa-east-1.rds.amazonaws.com
+s3-ap-east-1.amazonaws.com
+s3-sa-east-1.amazonaws.com
+s3-us-gov-west-1.amazonaws.com
+s3-eu-central-1.amazonaws.com
+s3-ca-central-1.amazonaws.com
+s3.eu-central-2.amazonaws.com
+s3-accesspoint.eu-central-2.amazonaws.com
+s3.dualstack.eu-central-2.amazonaws.com
+s3-accesspoint.dualstack.eu-central-2.amazonaws.com
+s3-website.dualstack.eu-central-2.amazonaws.com
+emrappui-prod.eu-central-2.amazonaws.com
+s3-website.eu-central-2.amazonaws.com
+emrstudio-prod.eu-central-2.amazonaws.com
+s3-object-lambda.eu-central-2.amazonaws.com
+emrnotebooks-prod.eu-central-2.amazonaws.com
+execute-api.eu-central-2.amazonaws.com
+s3.ap-southeast-3.amazonaws.com
+s3-accesspoint.ap-southeast-3.amazonaws.com
+s3.dualstack.ap-southeast-3.amazonaws.com
+s3-accesspoint.dualstack.ap-southeast-3.amazonaws.com
+s3-website.dualstack.ap-southeast-3.amazonaws.com
+emrappui-prod.ap-southeast-3.amazonaws.com
+s3-website.ap-southeast-3.amazonaws.com
+emrstudio-prod.ap-southeast-3.amazonaws.com
+s3-object-lambda.ap-southeast-3.amazonaws.com
+emrnotebooks-prod.ap-southeast-3.amazonaws.com
+execute-api.ap-southeast-3.amazonaws.com
+s3.ap-southeast-4.amazonaws.com
+s3-accesspoint.ap-southeast-4.amazonaws.com
+s3.dualstack.ap-southeast-4.amazonaws.com
+s3-accesspoint.dualstack.ap-southeast-4.amazonaws.com
+s3-website.dualstack.ap-southeast-4.amazonaws.com
+emrappui-prod.ap-southeast-4.amazonaws.com
+s3-website.ap-southeast-4.amazonaws.com
+emrstudio-prod.ap-southeast-4.amazonaws.com
+s3-object-lambda.ap-southeast-4.amazonaws.com
+emrnotebooks-prod.ap-southeast-4.amazonaws.com
+execute-api.ap-southeast-4.amazonaws.com
+s3.ap-northeast-3.amazonaws.com
+s3-accesspoint.ap-northeast-3.amazonaws.com
+s3.dualstack.ap-northeast-3.amazonaws.com
+s3-accesspoint.dualstack.ap-northeast-3.amazonaws.com
+s3-website.dualstack.ap-northeast-3.amazonaws.com
+emrappui-prod.ap-northeast-3.amazonaws.com
+s3-website.ap-northeast-3.amazonaws.com
+webview-assets.aws-cloud9.ap-northeast-3.amazonaws.com
+emrstudio-prod.ap-northeast-3.amazonaws.com
+s3-object-lambda.ap-northeast-3.amazonaws.com
+emrnotebooks-prod.ap-northeast-3.amazonaws.com
+execute-api.ap-northeast-3.amazonaws.com
+vfs.cloud9.ap-northeast-3.amazonaws.com
+webview-assets.cloud9.ap-northeast-3.amazonaws.com
+s3-website-us-west-2.amazonaws.com
+s3-website-eu-west-1.amazonaws.com
+s3-external-1.amazonaws.com
+s3.eu-central-1.amazonaws.com
+s3-accesspoint.eu-central-1.amazonaws.com
+s3.dualstack.eu-central-1.amazonaws.com
+s3-accesspoint.dualstack.eu-central-1.amazonaws.com
+s3-website.dualstack.eu-central-1.amazonaws.com
+analytics-gateway.eu-central-1.amazonaws.com
+emrappui-prod.eu-central-1.amazonaws.com
+s3-website.eu-central-1.amazonaws.com
+webview-assets.aws-cloud9.eu-central-1.amazonaws.com
+emrstudio-prod.eu-central-1.amazonaws.com
+s3-object-lambda.eu-central-1.amazonaws.com
+emrnotebooks-prod.eu-central-1.amazonaws.com
+execute-api.eu-central-1.amazonaws.com
+vfs.cloud9.eu-central-1.amazonaws.com
+webview-assets.cloud9.eu-central-1.amazonaws.com
+s3.me-central-1.amazonaws.com
+s3-accesspoint.me-central-1.amazonaws.com
+s3.dualstack.me-central-1.amazonaws.com
+s3-accesspoint.dualstack.me-central-1.amazonaws.com
+s3-website.dualstack.me-central-1.amazonaws.com
+emrappui-prod.me-central-1.amazonaws.com
+s3-website.me-central-1.amazonaws.com
+emrstudio-prod.me-central-1.amazonaws.com
+s3-object-lambda.me-central-1.amazonaws.com
+emrnotebooks-prod.me-central-1.amazonaws.com
+execute-api.me-central-1.amazonaws.com
+s3.ca-central-1.amazonaws.com
+s3-accesspoint.ca-central-1.amazonaws.com
+s3.dualstack.ca-central-1.amazonaws.com
+s3-accesspoint.dualstack.ca-central-1.amazonaws.com
+s3-website.dualstack.ca-central-1.amazonaws.com
+s3-accesspoint-fips.dualstack.ca-central-1.amazonaws.com
+s3-fips.dualstack.ca-central-1.amazonaws.com
+emrappui-prod.ca-central-1.amazonaws.com
+s3-website.ca-central-1.amazonaws.com
+s3-accesspoint-fips.ca-central-1.amazonaws.com
+webview-assets.aws-cloud9.ca-central-1.amazonaws.com
+s3-fips.ca-central-1.amazonaws.com
+emrstudio-prod.ca-central-1.amazonaws.com
+s3-object-lambda.ca-central-1.amazonaws.com
+emrnotebooks-prod.ca-central-1.amazonaws.com
+execute-api.ca-central-1.amazonaws.com
+vfs.cloud9.ca-central-1.amazonaws.com
+webview-assets.cloud9.ca-central-1.amazonaws.com
+s3.il-central-1.amazonaws.com
+s3-accesspoint.il-central-1.amazonaws.com
+s3.dualstack.il-central-1.amazonaws.com
+s3-accesspoint.dualstack.il-central-1.amazonaws.com
+s3-website.dualstack.il-central-1.amazonaws.com
+emrappui-prod.il-central-1.amazonaws.com
+s3-website.il-central-1.amazonaws.com
+webview-assets.aws-cloud9.il-central-1.amazonaws.com
+emrstudio-prod.il-central-1.amazonaws.com
+s3-object-lambda.il-central-1.amazonaws.com
+emrnotebooks-prod.il-central-1.amazonaws.com
+execute-api.il-central-1.amazonaws.com
+vfs.cloud9.il-central-1.amazonaws.com
+s3-us-west-1.amazonaws.com
+s3-eu-west-1.amazonaws.com
+s3-website-sa-east-1.amazonaws.com
+s3-website-ap-southeast-2.amazonaws.com
+s3.ap-northeast-1.amazonaws.com
+s3-accesspoint.ap-northeast-1.amazonaws.com
+s3.dualstack.ap-northeast-1.amazonaws.com
+s3-accesspoint.dualstack.ap-northeast-1.amazonaws.com
+s3-website.dualstack.ap-northeast-1.amazonaws.com
+analytics-gateway.ap-northeast-1.amazonaws.com
+emrappui-prod.ap-northeast-1.amazonaws.com
+s3-website.ap-northeast-1.amazonaws.com
+webview-assets.aws-cloud9.ap-northeast-1.amazonaws.com
+emrstudio-prod.ap-northeast-1.amazonaws.com
+s3-object-lambda.ap-northeast-1.amazonaws.com
+emrnotebooks-prod.ap-northeast-1.amazonaws.com
+execute-api.ap-northeast-1.amazonaws.com
+vfs.cloud9.ap-northeast-1.amazonaws.com
+webview-assets.cloud9.ap-northeast-1.amazonaws.com
+s3.ap-southeast-1.amazonaws.com
+s3-accesspoint.ap-southeast-1.amazonaws.com
+s3.dualstack.ap-southeast-1.amazonaws.com
+s3-accesspoint.dualstack.ap-southeast-1.amazonaws.com
+s3-website.dualstack.ap-southeast-1.amazonaws.com
+analytics-gateway.ap-southeast-1.amazonaws.com
+emrappui-prod.ap-southeast-1.amazonaws.com
+s3-website.ap-southeast-1.amazonaws.com
+webview-assets.aws-cloud9.ap-southeast-1.amazonaws.com
+emrstudio-prod.ap-southeast-1.amazonaws.com
+s3-object-lambda.ap-southeast-1.amazonaws.com
+emrnotebooks-prod.ap-southeast-1.amazonaws.com
+execute-api.ap-southeast-1.amazonaws.com
+vfs.cloud9.ap-southeast-1.amazonaws.com
+webview-assets.cloud9.ap-southeast-1.amazonaws.com
+s3-us-west-2.amazonaws.com
+s3-eu-west-2.amazonaws.com
+s3.me-south-1.amazonaws.com
+s3-accesspoint.me-south-1.amazonaws.com
+s3.dualstack.me-south-1.amazonaws.com
+s3-accesspoint.dualstack.me-south-1.amazonaws.com
+emrappui-prod.me-south-1.amazonaws.com
+s3-website.me-south-1.amazonaws.com
+webview-assets.aws-cloud9.me-south-1.amazonaws.com
+emrstudio-prod.me-south-1.amazonaws.com
+s3-object-lambda.me-south-1.amazonaws.com
+emrnotebooks-prod.me-south-1.amazonaws.com
+execute-api.me-south-1.amazonaws.com
+vfs.cloud9.me-south-1.amazonaws.com
+webview-assets.cloud9.me-south-1.amazonaws.com
+s3.af-south-1.amazonaws.com
+s3-accesspoint.af-south-1.amazonaws.com
+s3.dualstack.af-south-1.amazonaws.com
+s3-accesspoint.dualstack.af-south-1.amazonaws.com
+s3-website.dualstack.af-south-1.amazonaws.com
+emrappui-prod.af-south-1.amazonaws.com
+s3-website.af-south-1.amazonaws.com
+webview-assets.aws-cloud9.af-south-1.amazonaws.com
+emrstudio-prod.af-south-1.amazonaws.com
+s3-object-lambda.af-south-1.amazonaws.com
+emrnotebooks-prod.af-south-1.amazonaws.com
+execute-api.af-south-1.amazonaws.com
+vfs.cloud9.af-south-1.amazonaws.com
+webview-assets.cloud9.af-south-1.amazonaws.com
+s3.eu-south-1.amazonaws.com
+s3-accesspoint.eu-south-1.amazonaws.com
+s3.dualstack.eu-south-1.amazonaws.com
+s3-accesspoint.dualstack.eu-south-1.amazonaws.com
+s3-website.dualstack.eu-south-1.amazonaws.com
+emrappui-prod.eu-south-1.amazonaws.com
+s3-website.eu-south-1.amazonaws.com
+webview-assets.aws-cloud9.eu-south-1.amazonaws.com
+emrstudio-prod.eu-south-1.amazonaws.com
+s3-object-lambda.eu-south-1.amazonaws.com
+emrnotebooks-prod.eu-south-1.amazonaws.com
+execute-api.eu-south-1.amazonaws.com
+vfs.cloud9.eu-south-1.amazonaws.com
+webview-assets.cloud9.eu-south-1.amazonaws.com
+s3.ap-south-1.amazonaws.com
+s3-accesspoint.ap-south-1.amazonaws.com
+s3.dualstack.ap-south-1.amazonaws.com
+s3-accesspoint.dualstack.ap-south-1.amazonaws.com
+s3-website.dualstack.ap-south-1.amazonaws.com
+analytics-gateway.ap-south-1.amazonaws.com
+emrappui-prod.ap-south-1.amazonaws.com
+s3-website.ap-south-1.amazonaws.com
+webview-assets.aws-cloud9.ap-south-1.amazonaws.com
+emrstudio-prod.ap-south-1.amazonaws.com
+s3-object-lambda.ap-south-1.amazonaws.com
+emrnotebooks-prod.ap-south-1.amazonaws.com
+execute-api.ap-south-1.amazonaws.com
+vfs.cloud9.ap-south-1.amazonaws.com
+webview-assets.cloud9.ap-south-1.amazonaws.com
+s3.us-west-2.amazonaws.com
+s3-accesspoint.us-west-2.amazonaws.com
+s3.dualstack.us-west-2.amazonaws.com
+s3-accesspoint.dualstack.us-west-2.amazonaws.com
+s3-website.dualstack.us-west-2.amazonaws.com
+s3-accesspoint-fips.dualstack.us-west-2.amazonaws.com
+s3-fips.dualstack.us-west-2.amazonaws.com
+s3-deprecated.us-west-2.amazonaws.com
+analytics-gateway.us-west-2.amazonaws.com
+emrappui-prod.us-west-2.amazonaws.com
+s3-website.us-west-2.amazonaws.com
+s3-accesspoint-fips.us-west-2.amazonaws.com
+webview-assets.aws-cloud9.us-west-2.amazonaws.com
+s3-fips.us-west-2.amazonaws.com
+emrstudio-prod.us-west-2.amazonaws.com
+s3-object-lambda.us-west-2.amazonaws.com
+emrnotebooks-prod.us-west-2.amazonaws.com
+execute-api.us-west-2.amazonaws.com
+vfs.cloud9.us-west-2.amazonaws.com
+webview-assets.cloud9.us-west-2.amazonaws.com
+s3.eu-west-2.amazonaws.com
+s3-accesspoint.eu-west-2.amazonaws.com
+s3.dualstack.eu-west-2.amazonaws.com
+s3-accesspoint.dualstack.eu-west-2.amazonaws.com
+emrappui-prod.eu-west-2.amazonaws.com
+s3-website.eu-west-2.amazonaws.com
+webview-assets.aws-cloud9.eu-west-2.amazonaws.com
+emrstudio-prod.eu-west-2.amazonaws.com
+s3-object-lambda.eu-west-2.amazonaws.com
+emrnotebooks-prod.eu-west-2.amazonaws.com
+execute-api.eu-west-2.amazonaws.com
+vfs.cloud9.eu-west-2.amazonaws.com
+webview-assets.cloud9.eu-west-2.amazonaws.com
+s3.us-east-2.amazonaws.com
+s3-accesspoint.us-east-2.amazonaws.com
+s3.dualstack.us-east-2.amazonaws.com
+s3-accesspoint.dualstack.us-east-2.amazonaws.com
+s3-website.dualstack.us-east-2.amazonaws.com
+s3-accesspoint-fips.dualstack.us-east-2.amazonaws.com
+s3-fips.dualstack.us-east-2.amazonaws.com
+s3-deprecated.us-east-2.amazonaws.com
+analytics-gateway.us-east-2.amazonaws.com
+emrappui-prod.us-east-2.amazonaws.com
+s3-website.us-east-2.amazonaws.com
+s3-accesspoint-fips.us-east-2.amazonaws.com
+webview-assets.aws-cloud9.us-east-2.amazonaws.com
+s3-fips.us-east-2.amazonaws.com
+emrstudio-prod.us-east-2.amazonaws.com
+s3-object-lambda.us-east-2.amazonaws.com
+emrnotebooks-prod.us-east-2.amazonaws.com
+execute-api.us-east-2.amazonaws.com
+vfs.cloud9.us-east-2.amazonaws.com
+webview-assets.cloud9.us-east-2.amazonaws.com
+s3-website-ap-southeast-1.amazonaws.com
+s3-1.amazonaws.com
+mrap.accesspoint.s3-global.amazonaws.com
+s3-ap-northeast-3.amazonaws.com
+s3.eu-north-1.amazonaws.com
+s3-accesspoint.eu-north-1.amazonaws.com
+s3.dualstack.eu-north-1.amazonaws.com
+s3-accesspoint.dualstack.eu-north-1.amazonaws.com
+emrappui-prod.eu-north-1.amazonaws.com
+s3-website.eu-north-1.amazonaws.com
+webview-assets.aws-cloud9.eu-north-1.amazonaws.com
+emrstudio-prod.eu-north-1.amazonaws.com
+s3-object-lambda.eu-north-1.amazonaws.com
+emrnotebooks-prod.eu-north-1.amazonaws.com
+execute-api.eu-north-1.amazonaws.com
+vfs.cloud9.eu-north-1.amazonaws.com
+webview-assets.cloud9.eu-north-1.amazonaws.com
+*.eu-west-3.airflow.amazonaws.com
+*.ap-south-2.airflow.amazonaws.com
+*.eu-south-2.airflow.amazonaws.com
+*.eu-central-2.airflow.amazonaws.com
+*.ap-southeast-3.airflow.amazonaws.com
+*.ap-southeast-4.airflow.amazonaws.com
+*.ap-northeast-3.airflow.amazonaws.com
+*.eu-central-1.airflow.amazonaws.com
+*.me-central-1.airflow.amazonaws.com
+*.ca-central-1.airflow.amazonaws.com
+*.il-central-1.airflow.amazonaws.com
+*.ap-northeast-1.airflow.amazonaws.com
+*.ap-southeast-1.airflow.amazonaws.com
+*.me-south-1.airflow.amazonaws.com
+*.af-south-1.airflow.amazonaws.com
+*.eu-south-1.airflow.amazonaws.com
+*.ap-south-1.airflow.amazonaws.com
+*.ap-southeast-7.airflow.amazonaws.com
+*.us-west-2.airflow.amazonaws.com
+*.eu-west-2.airflow.amazonaws.com
+*.us-east-2.airflow.amazonaws.com
+*.eu-north-1.airflow.amazonaws.com
+*.ap-southeast-2.airflow.amazonaws.com
+*.ap-northeast-2.airflow.amazonaws.com
+*.ap-southeast-5.airflow.amazonaws.com
+*.ca-west-1.airflow.amazonaws.com
+*.us-west-1.airflow.amazonaws.com
+*.eu-west-1.airflow.amazonaws.com
+*.us-east-1.airflow.amazonaws.com
+*.ap-east-1.airflow.amazonaws.com
+*.sa-east-1.airflow.amazonaws.com
+s3.ap-southeast-2.amazonaws.com
+s3-accesspoint.ap-southeast-2.amazonaws.com
+s3.dualstack.ap-southeast-2.amazonaws.com
+s3-accesspoint.dualstack.ap-southeast-2.amazonaws.com
+s3-website.dualstack.ap-southeast-2.amazonaws.com
+analytics-gateway.ap-southeast-2.amazonaws.com
+emrappui-prod.ap-southeast-2.amazonaws.com
+s3-website.ap-southeast-2.amazonaws.com
+webview-assets.aws-cloud9.ap-southeast-2.amazonaws.com
+emrstudio-prod.ap-southeast-2.amazonaws.com
+s3-object-lambda.ap-southeast-2.amazonaws.com
+emrnotebooks-prod.ap-southeast-2.amazonaws.com
+execute-api.ap-southeast-2.amazonaws.com
+vfs.cloud9.ap-southeast-2.amazonaws.com
+webview-assets.cloud9.ap-southeast-2.amazonaws.com
+s3-us-gov-east-1.amazonaws.com
+s3-fips-us-gov-east-1.amazonaws.com
+s3-me-south-1.amazonaws.com
+s3-ap-south-1.amazonaws.com
+s3.ap-northeast-2.amazonaws.com
+s3-accesspoint.ap-northeast-2.amazonaws.com
+s3.dualstack.ap-northeast-2.amazonaws.com
+s3-accesspoint.dualstack.ap-northeast-2.amazonaws.com
+s3-website.dualstack.ap-northeast-2.amazonaws.com
+analytics-gateway.ap-northeast-2.amazonaws.com
+emrappui-prod.ap-northeast-2.amazonaws.com
+s3-website.ap-northeast-2.amazonaws.com
+webview-assets.aws-cloud9.ap-northeast-2.amazonaws.com
+emrstudio-prod.ap-northeast-2.amazonaws.com
+s3-object-lambda.ap-northeast-2.amazonaws.com
+emrnotebooks-prod.ap-northeast-2.amazonaws.com
+execute-api.ap-northeast-2.amazonaws.com
+vfs.cloud9.ap-northeast-2.amazonaws.com
+webview-assets.cloud9.ap-northeast-2.amazonaws.com
+s3-website-us-west-1.amazonaws.com
+s3.ap-southeast-5.amazonaws.com
+s3-accesspoint.ap-southeast-5.amazonaws.com
+s3.dualstack.ap-southeast-5.amazonaws.com
+s3-accesspoint.dualstack.ap-southeast-5.amazonaws.com
+s3-website.dualstack.ap-southeast-5.amazonaws.com
+s3-deprecated.ap-southeast-5.amazonaws.com
+s3-website.ap-southeast-5.amazonaws.com
+s3-object-lambda.ap-southeast-5.amazonaws.com
+execute-api.ap-southeast-5.amazonaws.com
+s3-eu-north-1.amazonaws.com
+s3-ap-southeast-1.amazonaws.com
+s3-website-us-gov-west-1.amazonaws.com
+*.compute-1.amazonaws.com
+s3-eu-west-3.amazonaws.com
+s3.us-gov-west-1.amazonaws.com
+s3-accesspoint.us-gov-west-1.amazonaws.com
+s3.dualstack.us-gov-west-1.amazonaws.com
+s3-accesspoint.dualstack.us-gov-west-1.amazonaws.com
+s3-website.dualstack.us-gov-west-1.amazonaws.com
+s3-accesspoint-fips.dualstack.us-gov-west-1.amazonaws.com
+s3-fips.dualstack.us-gov-west-1.amazonaws.com
+emrappui-prod.us-gov-west-1.amazonaws.com
+s3-website.us-gov-west-1.amazonaws.com
+s3-accesspoint-fips.us-gov-west-1.amazonaws.com
+s3-fips.us-gov-west-1.amazonaws.com
+emrstudio-prod.us-gov-west-1.amazonaws.com
+s3-object-lambda.us-gov-west-1.amazonaws.com
+emrnotebooks-prod.us-gov-west-1.amazonaws.com
+execute-api.us-gov-west-1.amazonaws.com
+s3-website-ap-northeast-1.amazonaws.com
+s3.us-gov-east-1.amazonaws.com
+s3-accesspoint.us-gov-east-1.amazonaws.com
+s3.dualstack.us-gov-east-1.amazonaws.com
+s3-accesspoint.dualstack.us-gov-east-1.amazonaws.com
+s3-website.dualstack.us-gov-east-1.amazonaws.com
+s3-accesspoint-fips.dualstack.us-gov-east-1.amazonaws.com
+s3-fips.dualstack.us-gov-east-1.amazonaws.com
+emrappui-prod.us-gov-east-1.amazonaws.com
+s3-website.us-gov-east-1.amazonaws.com
+s3-accesspoint-fips.us-gov-east-1.amazonaws.com
+s3-fips.us-gov-east-1.amazonaws.com
+emrstudio-prod.us-gov-east-1.amazonaws.com
+s3-object-lambda.us-gov-east-1.amazonaws.com
+emrnotebooks-prod.us-gov-east-1.amazonaws.com
+execute-api.us-gov-east-1.amazonaws.com
+s3-fips-us-gov-west-1.amazonaws.com
+s3-website-us-east-1.amazonaws.com
+s3-ap-southeast-2.amazonaws.com
+s3.ca-west-1.amazonaws.com
+s3-accesspoint.ca-west-1.amazonaws.com
+s3.dualstack.ca-west-1.amazonaws.com
+s3-accesspoint.dualstack.ca-west-1.amazonaws.com
+s3-website.dualstack.ca-west-1.amazonaws.com
+s3-accesspoint-fips.dualstack.ca-west-1.amazonaws.com
+s3-fips.dualstack.ca-west-1.amazonaws.com
+emrappui-prod.ca-west-1.amazonaws.com
+s3-website.ca-west-1.amazonaws.com
+s3-accesspoint-fips.ca-west-1.amazonaws.com
+s3-fips.ca-west-1.amazonaws.com
+emrstudio-prod.ca-west-1.amazonaws.com
+s3-object-lambda.ca-west-1.amazonaws.com
+emrnotebooks-prod.ca-west-1.amazonaws.com
+execute-api.ca-west-1.amazonaws.com
+s3.us-west-1.amazonaws.com
+s3-accesspoint.us-west-1.amazonaws.com
+s3.dualstack.us-west-1.amazonaws.com
+s3-accesspoint.dualstack.us-west-1.amazonaws.com
+s3-website.dualstack.us-west-1.amazonaws.com
+s3-accesspoint-fips.dualstack.us-west-1.amazonaws.com
+s3-fips.dualstack.us-west-1.amazonaws.com
+emrappui-prod.us-west-1.amazonaws.com
+s3-website.us-west-1.amazonaws.com
+s3-accesspoint-fips.us-west-1.amazonaws.com
+webview-assets.aws-cloud9.us-west-1.amazonaws.com
+s3-fips.us-west-1.amazonaws.com
+emrstudio-prod.us-west-1.amazonaws.com
+s3-object-lambda.us-west-1.amazonaws.com
+emrnotebooks-prod.us-west-1.amazonaws.com
+execute-api.us-west-1.amazonaws.com
+vfs.cloud9.us-west-1.amazonaws.com
+webview-assets.cloud9.us-west-1.amazonaws.com
+s3.eu-west-1.amazonaws.com
+s3-accesspoint.eu-west-1.amazonaws.com
+s3.dualstack.eu-west-1.amazonaws.com
+s3-accesspoint.dualstack.eu-west-1.amazonaws.com
+s3-website.dualstack.eu-west-1.amazonaws.com
+s3-deprecated.eu-west-1.amazonaws.com
+analytics-gateway.eu-west-1.amazonaws.com
+emrappui-prod.eu-west-1.amazonaws.com
+s3-website.eu-west-1.amazonaws.com
+webview-assets.aws-cloud9.eu-west-1.amazonaws.com
+emrstudio-prod.eu-west-1.amazonaws.com
+s3-object-lambda.eu-west-1.amazonaws.com
+emrnotebooks-prod.eu-west-1.amazonaws.com
+execute-api.eu-west-1.amazonaws.com
+vfs.cloud9.eu-west-1.amazonaws.com
+webview-assets.cloud9.eu-west-1.amazonaws.com
+us-east-1.amazonaws.com
+s3.us-east-1.amazonaws.com
+s3-accesspoint.us-east-1.amazonaws.com
+s3.dualstack.us-east-1.amazonaws.com
+s3-accesspoint.dualstack.us-east-1.amazonaws.com
+s3-website.dualstack.us-east-1.amazonaws.com
+s3-accesspoint-fips.dualstack.us-east-1.amazonaws.com
+s3-fips.dualstack.us-east-1.amazonaws.com
+s3-deprecated.us-east-1.amazonaws.com
+analytics-gateway.us-east-1.amazonaws.com
+emrappui-prod.us-east-1.amazonaws.com
+s3-website.us-east-1.amazonaws.com
+s3-accesspoint-fips.us-east-1.amazonaws.com
+webview-assets.aws-cloud9.us-east-1.amazonaws.com
+s3-fips.us-east-1.amazonaws.com
+emrstudio-prod.us-east-1.amazonaws.com
+s3-object-lambda.us-east-1.amazonaws.com
+emrnotebooks-prod.us-east-1.amazonaws.com
+execute-api.us-east-1.amazonaws.com
+vfs.cloud9.us-east-1.amazonaws.com
+webview-assets.cloud9.us-east-1.amazonaws.com
+s3.ap-east-1.amazonaws.com
+s3-accesspoint.ap-east-1.amazonaws.com
+s3.dualstack.ap-east-1.amazonaws.com
+s3-accesspoint.dualstack.ap-east-1.amazonaws.com
+emrappui-prod.ap-east-1.amazonaws.com
+s3-website.ap-east-1.amazonaws.com
+webview-assets.aws-cloud9.ap-east-1.amazonaws.com
+emrstudio-prod.ap-east-1.amazonaws.com
+s3-object-lambda.ap-east-1.amazonaws.com
+emrnotebooks-prod.ap-east-1.amazonaws.com
+execute-api.ap-east-1.amazonaws.com
+vfs.cloud9.ap-east-1.amazonaws.com
+webview-assets.cloud9.ap-east-1.amazonaws.com
+s3.sa-east-1.amazonaws.com
+s3-accesspoint.sa-east-1.amazonaws.com
+s3.dualstack.sa-east-1.amazonaws.com
+s3-accesspoint.dualstack.sa-east-1.amazonaws.com
+s3-website.dualstack.sa-east-1.amazonaws.com
+emrappui-prod.sa-east-1.amazonaws.com
+s3-website.sa-east-1.amazonaws.com
+webview-assets.aws-cloud9.sa-east-1.amazonaws.com
+emrstudio-prod.sa-east-1.amazonaws.com
+s3-object-lambda.sa-east-1.amazonaws.com
+emrnotebooks-prod.sa-east-1.amazonaws.com
+execute-api.sa-east-1.amazonaws.com
+vfs.cloud9.sa-east-1.amazonaws.com
+webview-assets.cloud9.sa-east-1.amazonaws.com
+s3-us-east-2.amazonaws.com
+s3-ap-northeast-1.amazonaws.com
+neat-url.com
+dyndns-server.com
+*.nodebalancer.linode.com
+members.linode.com
+is-a-teacher.com
+from-vt.com
+gleeze.com
+x.mythic-beasts.com
+vs.mythic-beasts.com
+oncilla.mythic-beasts.com
+ocelot.mythic-beasts.com
+onza.mythic-beasts.com
+yali.mythic-beasts.com
+lynx.mythic-beasts.com
+sphinx.mythic-beasts.com
+fentiger.mythic-beasts.com
+customer.mythic-beasts.com
+caracal.mythic-beasts.com
+us1-plenit.com
+eu1-plenit.com
+la1-plenit.com
+*.paywhirl.com
+servecounterstrike.com
+jdevcloud.com
+health-carereform.com
+is-into-anime.com
+googleapis.com
+is-a-painter.com
+africa.com
+isa-hockeynut.com
+atmeta.com
+is-an-actor.com
+a2hosted.com
+is-a-democrat.com
+demo.datadetect.com
+instance.datadetect.com
+est-le-patron.com
+*.digitaloceanspaces.com
+is-a-designer.com
+is-a-hunter.com
+*.linodeobjects.com
+temp-dns.com
+issmarterthanyou.com
+from-ar.com
+simplesite.com
+eu-4.evennode.com
+us-4.evennode.com
+us-1.evennode.com
+eu-1.evennode.com
+us-2.evennode.com
+eu-2.evennode.com
+us-3.evennode.com
+eu-3.evennode.com
+townnews-staging.com
+is-a-liberal.com
+googlecode.com
+demo.jelastic.com
+servemp3.com
+*.qualyhqpartner.com
+dyndns-free.com
+1cooldns.com
+est-a-la-masion.com
+drayddns.com
+dynuddns.com
+from-or.com
+from-mi.com
+is-a-blogger.com
+from-hi.com
+mydobiss.com
+canvacode.com
+is-an-engineer.com
+est-a-la-maison.com
+upsunapp.com
+*.devinapps.com
+wafflecell.com
+myasustor.com
+wpenginepowered.com
+js.wpenginepowered.com
+from-ct.com
+servep2p.com
+same-app.com
+myshopblocks.com
+thingdustdata.com
+likes-pie.com
+discordsez.com
+is-with-theband.com
+lpusercontent.com
+is-leet.com
+shopitsite.com
+3utilities.com
+is-a-personaltrainer.com
+sinaapp.com
+ladesk.com
+is-a-chef.com
+logoip.com
+selfip.com
+base44-sandbox.com
+cloud.nospamproxy.com
+o365.cloud.nospamproxy.com
+alibabacloudcs.com
+messwithdns.com
+authgearapps.com
+iamallama.com
+withgoogle.com
+*.lutrausercontent.com
+mochausercontent.com
+framercanvas.com
+mytabit.com
+dyndns-home.com
+w-credentialless-staticblitz.com
+cpserver.com
+discordsays.com
+is-a-nurse.com
+appspot.com
+*.r.appspot.com
+*.atlassian-isolated-3p.com
+remotewd.com
+from-mt.com
+wixstudio.com
+*.builder.code.com
+*.stg-builder.code.com
+*.dev-builder.code.com
+*.0emm.com
+180r.com
+myactivedirectory.com
+awsapps.com
+mytuleap.com
+dnsabr.com
+polyspace.com
+qbuser.com
+app.render.com
+builtwithdark.com
+boutir.com
+gotdns.com
+abrdns.com
+dopaas.com
+canva-hosted-embed.com
+awsglobalaccelerator.com
+homesecuritypc.com
+myiphost.com
+ditchyourip.com
+*.services.clever-cloud.com
+dyndns-ip.com
+on-aptible.com
+is-a-musician.com
+hosted-by-files.com
+securitytactics.com
+appspaceusercontent.com
+homeunix.com
+strapiapp.com
+media.strapiapp.com
+same-preview.com
+cf-ipfs.com
+mycloudnas.com
+elasticbeanstalk.com
+eu-west-3.elasticbeanstalk.com
+eu-south-2.elasticbeanstalk.com
+ap-southeast-3.elasticbeanstalk.com
+ap-northeast-3.elasticbeanstalk.com
+eu-central-1.elasticbeanstalk.com
+me-central-1.elasticbeanstalk.com
+ca-central-1.elasticbeanstalk.com
+il-central-1.elasticbeanstalk.com
+ap-northeast-1.elasticbeanstalk.com
+ap-southeast-1.elasticbeanstalk.com
+me-south-1.elasticbeanstalk.com
+af-south-1.elasticbeanstalk.com
+eu-south-1.elasticbeanstalk.com
+ap-south-1.elasticbeanstalk.com
+ap-southeast-7.elasticbeanstalk.com
+us-west-2.elasticbeanstalk.com
+eu-west-2.elasticbeanstalk.com
+us-east-2.elasticbeanstalk.com
+eu-north-1.elasticbeanstalk.com
+ap-southeast-2.elasticbeanstalk.com
+ap-northeast-2.elasticbeanstalk.com
+ap-southeast-5.elasticbeanstalk.com
+us-gov-west-1.elasticbeanstalk.com
+us-gov-east-1.elasticbeanstalk.com
+us-west-1.elasticbeanstalk.com
+eu-west-1.elasticbeanstalk.com
+us-east-1.elasticbeanstalk.com
+ap-east-1.elasticbeanstalk.com
+sa-east-1.elasticbeanstalk.com
+is-certified.com
+dontexist.com
+kasserver.com
+jcloud.ik-server.com
+jcloud-ver-jpc.ik-server.com
+drive-platform.com
+*.atlassian-3p.com
+firebaseapp.com
+herokuapp.com
+*.compute.herokuapp.com
+*.awsapprunner.com
+barsycenter.com
+is-a-cubicle-slave.com
+servehttp.com
+myshopify.com
+is-a-guru.com
+quicksytes.com
+siiites.com
+orsites.com
+magicpatternsapp.com
+is-a-cpa.com
+meteorapp.com
+eu.meteorapp.com
+from-wi.com
+is-a-rockstar.com
+bumbleshrimp.com
+dattolocal.com
+*.azure.databricksapps.com
+gcp.databricksapps.com
+aws.databricksapps.com
+readthedocs-hosted.com
+from-ri.com
+familyds.com
+dyndns-pics.com
+pleskns.com
+bplaced.com
+dnsalias.com
+dynalias.com
+dyndns-remote.com
+doomdns.com
+ip-ddns.com
+blogdns.com
+is-a-doctor.com
+routingthecloud.com
+auth.eu-west-3.amazoncognito.com
+auth.ap-south-2.amazoncognito.com
+auth.eu-south-2.amazoncognito.com
+auth.eu-central-2.amazoncognito.com
+auth.ap-southeast-3.amazoncognito.com
+auth.ap-southeast-4.amazoncognito.com
+auth.ap-northeast-3.amazoncognito.com
+auth.eu-central-1.amazoncognito.com
+auth.mx-central-1.amazoncognito.com
+auth.me-central-1.amazoncognito.com
+auth.ca-central-1.amazoncognito.com
+auth.il-central-1.amazoncognito.com
+auth.ap-northeast-1.amazoncognito.com
+auth.ap-southeast-1.amazoncognito.com
+auth.me-south-1.amazoncognito.com
+auth.af-south-1.amazoncognito.com
+auth.eu-south-1.amazoncognito.com
+auth.ap-south-1.amazoncognito.com
+auth.ap-southeast-7.amazoncognito.com
+auth.us-west-2.amazoncognito.com
+auth-fips.us-west-2.amazoncognito.com
+auth.eu-west-2.amazoncognito.com
+auth.us-east-2.amazoncognito.com
+auth-fips.us-east-2.amazoncognito.com
+auth.eu-north-1.amazoncognito.com
+auth.ap-southeast-2.amazoncognito.com
+auth.ap-northeast-2.amazoncognito.com
+auth.ap-southeast-5.amazoncognito.com
+auth-fips.us-gov-west-1.amazoncognito.com
+auth-fips.us-gov-east-1.amazoncognito.com
+auth.ca-west-1.amazoncognito.com
+auth.us-west-1.amazoncognito.com
+auth-fips.us-west-1.amazoncognito.com
+auth.eu-west-1.amazoncognito.com
+auth.us-east-1.amazoncognito.com
+auth-fips.us-east-1.amazoncognito.com
+auth.ap-east-1.amazoncognito.com
+auth.sa-east-1.amazoncognito.com
+barsyonline.com
+dsmynas.com
+ddnsguru.com
+cloudflare-ipfs.com
+deus-canvas.com
+from-id.com
+smushcdn.com
+pagespeedmobilizer.com
+dyndns-at-home.com
+unusualperson.com
+paas.hosted-by-previder.com
+is-a-republican.com
+dyn-o-saur.com
+streamlitapp.com
+workisboring.com
+onthewifi.com
+cprapid.com
+qualifioapp.com
+is-uberleet.com
+is-slick.com
+getmyip.com
+wpdevcloud.com
+pro.typeform.com
+dyndns-at-work.com
+gentlentapis.com
+mynascloud.com
+w-corp-staticblitz.com
+from-in.com
+geekgalaxy.com
+servebeer.com
+from-md.com
+onrender.com
+space-to-rent.com
+*.aivencloud.com
+appspacehosted.com
+jed.wafaicloud.com
+ryd.wafaicloud.com
+codespot.com
+blogspot.com
+*.atlassian-3p-us-gov-mod.com
+from-nd.com
+from-ms.com
+is-a-techie.com
+is-a-student.com
+*.customer-oci.com
+*.oci.customer-oci.com
+*.ocp.customer-oci.com
+*.ocs.customer-oci.com
+is-a-photographer.com
+durumis.com
+from-ks.com
+paas.massivegrid.com
+dyndns-wiki.com
+is-an-entertainer.com
+is-a-hard-worker.com
+mysecuritycamera.com
+from-mn.com
+rackmaze.com
+dyndns-blog.com
+is-a-bulls-fan.com
+writesthisblog.com
+freemyip.com
+simple-url.com
+from-sd.com
+reservd.com
+authgear-staging.com
+est-mon-blogueur.com
+is-into-games.com
+rice-labs.com
+xtooldevice.com
+sakuraweb.com
+is-an-anarchist.com
+*.oraclecloudapps.com
+dyndns-work.com
+sells-for-u.com
+rhcloud.com
+from-dc.com
+fastvps-server.com
+wpmucdn.com
+is-a-geek.com
+scrysec.com
+from-tx.com
+is-into-cartoons.com
+modelscape.com
+trycloudflare.com
+localtonet.com
+streak-link.com
+balena-devices.com
+from-nj.com
+forgeblocks.com
+freebox-os.com
+webadorsite.com
+from-nc.com
+doesntexist.com
+hobby-site.com
+streaklinks.com
+homesecuritymac.com
+ownprovider.com
+tuleap-partners.com
+dattorelay.com
+wphostedmail.com
+servequake.com
+is-a-socialist.com
+servehalflife.com
+pivohosting.com
+dynuhosting.com
+*.quipelements.com
+w-staticblitz.com
+dyndns-web.com
+from-de.com
+dev.project-study.com
+aliases121.com
+is-not-certified.com
+hercules-dev.com
+is-a-financialadvisor.com
+servepics.com
+is-a-green.com
+loseyourip.com
+from-il.com
+withyoutube.com
+mwcloudnonprod.com
+wiredbladehosting.com
+dnsdojo.com
+from-tn.com
+pixolino.com
+myqnapcloud.com
+is-an-artist.com
+hostedpi.com
+is-a-landscaper.com
+*.auiusercontent.com
+*.oaiusercontent.com
+on-forge.com
+is-a-conservative.com
+dreamhosters.com
+net-freaks.com
+apps-1and1.com
+is-gone.com
+encoreapi.com
+fastly-edge.com
+from-ne.com
+*.0.0.0.1.test.code-builder-stg.platform.salesforce.com
+from-sc.com
+deployagent.com
+*.oraclegovcloudapps.com
+from-al.com
+is-a-lawyer.com
+cechire.com
+*.vultrobjects.com
+stufftoread.com
+isa-geek.com
+ddnsgeek.com
+lovableproject.com
+try-snowplow.com
+from-mo.com
+blogsyte.com
+is-a-bookkeeper.com
+*.id.pub
+*.kin.pub
+barsy.pub
+nerdpol.ovh
+mkm.fan
+cnpy.gdn
+*.build.run
+cloud.run
+canva.run
+liara.run
+iran.liara.run
+val.run
+web.val.run
+wix.run
+development.run
+*.appwrite.run
+*.migration.run
+needle.run
+vercel.run
+*.database.run
+stackit.run
+*.code.run
+repl.run
+ravendb.run
+onporter.run
+lovable.run
+ms.fun
+zicp.fun
+yicp.fun
+vicp.fun
+ngrok.pro
+barsy.pro
+keenetic.pro
+cloudns.pro
+se.net
+za.net
+gb.net
+in.net
+ru.net
+hu.net
+uk.net
+jp.net
+ts.net
+*.c.ts.net
+myspreadshop.net
+sn.mynetname.net
+akamaiorigin-staging.net
+from-co.net
+ipv64.net
+dynv6.net
+r.cdn77.net
+serveblog.net
+adobeaemcloud.net
+hicam.net
+spryt.net
+dnsup.net
+no-ip.net
+ownip.net
+de5.net
+*.webpaas.ovh.net
+*.hosting.ovh.net
+*.icp.net
+firewall-gateway.net
+sytes.net
+mypsx.net
+barsy.net
+servicebus.usgovcloudapi.net
+web.core.usgovcloudapi.net
+file.core.usgovcloudapi.net
+blob.core.usgovcloudapi.net
+myamaze.net
+myradweb.net
+akamaihd.net
+jelastic.saveincloud.net
+nordeste-idc.saveincloud.net
+fastlylb.net
+map.fastlylb.net
+from-la.net
+subsc-pay.net
+square7.net
+in-the-band.net
+blackbaudcdn.net
+homelinux.net
+oninferno.net
+ctfcloud.net
+servebbs.net
+dns-dynamic.net
+cloudfront.net
+akamai-staging.net
+ipifony.net
+ham-radio-op.net
+senseering.net
+clickrising.net
+community-pro.net
+from-ny.net
+localcert.net
+grafana-dev.net
+edgesuite-staging.net
+cdn.cloudflareanycast.net
+eating-organic.net
+cdn.prod.atlassian-dev.net
+mydatto.net
+feste-ip.net
+*.localto.net
+torproject.net
+pages.torproject.net
+knx-server.net
+edgekey.net
+cdn.cloudflareglobal.net
+cloudycluster.net
+casacam.net
+serveftp.net
+akamaized-staging.net
+akamaiorigin.net
+dns-cloud.net
+myeffect.net
+boomla.net
+botdash.net
+buyshouses.net
+twmail.net
+heteml.net
+azure-mobile.net
+in-dsl.net
+thruhere.net
+redirectme.net
+dynuddns.net
+bounceme.net
+supabase.net
+luyani.net
+cloudapp.net
+akamai.net
+cloudfunctions.net
+debian.net
+nhlfan.net
+pgafan.net
+static-access.net
+in-vpn.net
+mysynology.net
+mafelo.net
+appudo.net
+homeftp.net
+trafficmanager.net
+siteleaf.net
+seidat.net
+memset.net
+cloudflare.net
+cdn.cloudflare.net
+cloudaccess.net
+keyword-on.net
+azure-api.net
+is-a-chef.net
+does-it.net
+gets-it.net
+webhop.net
+selfip.net
+homeip.net
+kicks-ass.net
+edgesuite.net
+servicebus.windows.net
+web.core.windows.net
+file.core.windows.net
+blob.core.windows.net
+server-on.net
+tunnelmole.net
+mydissent.net
+scrapper-site.net
+cdn.cloudflarecn.net
+uni5.net
+soc.srcf.net
+user.srcf.net
+ggff.net
+iobb.net
+zabc.net
+vps.hrsn.net
+deno.net
+sandbox.deno.net
+dynu.net
+opik.net
+ddns.net
+vpndns.net
+akadns.net
+jls-sto1.elastx.net
+jls-sto3.elastx.net
+jls-sto2.elastx.net
+kinghost.net
+vps-host.net
+atl.jelastic.vps-host.net
+ric.jelastic.vps-host.net
+njs.jelastic.vps-host.net
+a.ssl.fastly.net
+b.ssl.fastly.net
+global.ssl.fastly.net
+map.fastly.net
+a.prod.fastly.net
+global.prod.fastly.net
+freetls.fastly.net
+homeunix.net
+azureedge.net
+shopselect.net
+dontexist.net
+myfritz.net
+cloudjiffy.net
+west1-us.cloudjiffy.net
+fra1-de.cloudjiffy.net
+alwaysdata.net
+sells-it.net
+squares.net
+broke-it.net
+azurefd.net
+dattolocal.net
+at-band-camp.net
+meinforum.net
+familyds.net
+azurestaticapps.net
+0.0.0.5.azurestaticapps.net
+0.0.0.4.azurestaticapps.net
+0.0.0.7.azurestaticapps.net
+0.0.0.6.azurestaticapps.net
+0.0.0.1.azurestaticapps.net
+0.0.0.3.azurestaticapps.net
+0.0.0.2.azurestaticapps.net
+eastasia.azurestaticapps.net
+centralus.azurestaticapps.net
+westeurope.azurestaticapps.net
+westus2.azurestaticapps.net
+eastus2.azurestaticapps.net
+definima.net
+bplaced.net
+dnsalias.net
+dynalias.net
+now-dns.net
+blogdns.net
+routingthecloud.net
+endofinternet.net
+dsmynas.net
+akamaiedge.net
+mymediapc.net
+adobeio-static.net
+akamaiedge-staging.net
+akamaihd-staging.net
+ddns-ip.net
+privatizehealthinsurance.net
+live-on.net
+krellian.net
+schokokeks.net
+lon-1.paas.massivegrid.net
+lon-2.paas.massivegrid.net
+ny-1.paas.massivegrid.net
+fr-1.paas.massivegrid.net
+sg-1.paas.massivegrid.net
+ny-2.paas.massivegrid.net
+mysecuritycamera.net
+rackmaze.net
+serveminecraft.net
+from-az.net
+is-a-geek.net
+akamaized.net
+moonscale.net
+office-on-the.net
+usgovtrafficmanager.net
+adobeioruntime.net
+edgekey-staging.net
+reserve-online.net
+channelsdvr.net
+u.channelsdvr.net
+dnsdojo.net
+usgovcloudapp.net
+cdn77-ssl.net
+apps-1and1.net
+podzone.net
+azurewebsites.net
+*.p.azurewebsites.net
+northeurope-01.azurewebsites.net
+newzealandnorth-01.azurewebsites.net
+southindia-01.azurewebsites.net
+southcentralus2-01.azurewebsites.net
+norwaywest-01.azurewebsites.net
+eastus2-01.azurewebsites.net
+westus2-01.azurewebsites.net
+australiaeast-01.azurewebsites.net
+italynorth-01.azurewebsites.net
+israelnorthwest-01.azurewebsites.net
+swedencentral-01.azurewebsites.net
+westeurope-01.azurewebsites.net
+centraluseuap-01.azurewebsites.net
+taiwannorthwest-01.azurewebsites.net
+uaecentral-01.azurewebsites.net
+northcentralusstage-01.azurewebsites.net
+israelcentral-01.azurewebsites.net
+mexicocentral-01.azurewebsites.net
+canadacentral-01.azurewebsites.net
+austriaeast-01.azurewebsites.net
+germanywestcentral-01.azurewebsites.net
+francecentral-01.azurewebsites.net
+ukwest-01.azurewebsites.net
+denmarkeast-01.azurewebsites.net
+polandcentral-01.azurewebsites.net
+eastus-01.azurewebsites.net
+westus-01.azurewebsites.net
+swedensouth-01.azurewebsites.net
+eastus3-01.azurewebsites.net
+westus3-01.azurewebsites.net
+brazilsouth-01.azurewebsites.net
+centralus-01.azurewebsites.net
+francesouth-01.azurewebsites.net
+australiacentral-01.azurewebsites.net
+westindia-01.azurewebsites.net
+uaenorth-01.azurewebsites.net
+jioindiacentral-01.azurewebsites.net
+canadaeast-01.azurewebsites.net
+belgiumcentral-01.azurewebsites.net
+spaincentral-01.azurewebsites.net
+koreacentral-01.azurewebsites.net
+chilecentral-01.azurewebsites.net
+qatarcentral-01.azurewebsites.net
+westcentralus-01.azurewebsites.net
+eastus2euap-01.azurewebsites.net
+norwayeast-01.azurewebsites.net
+southafricanorth-01.azurewebsites.net
+brazilsoutheast-01.azurewebsites.net
+germanynorth-01.azurewebsites.net
+switzerlandnorth-01.azurewebsites.net
+switzerlandwest-01.azurewebsites.net
+japanwest-01.azurewebsites.net
+southafricawest-01.azurewebsites.net
+japaneast-01.azurewebsites.net
+eastasia-01.azurewebsites.net
+indiasouthcentral-01.azurewebsites.net
+taiwannorth-01.azurewebsites.net
+centralindia-01.azurewebsites.net
+uksouth-01.azurewebsites.net
+southcentralus-01.azurewebsites.net
+northcentralus-01.azurewebsites.net
+eastasiastage-01.azurewebsites.net
+indonesiacentral-01.azurewebsites.net
+australiacentral2-01.azurewebsites.net
+australiasoutheast-01.azurewebsites.net
+malaysiawest-01.azurewebsites.net
+koreasouth-01.azurewebsites.net
+southeastasia-01.azurewebsites.net
+southeastus5-01.azurewebsites.net
+northeastus5-01.azurewebsites.net
+jioindiawest-01.azurewebsites.net
+dynathome.net
+j.scaleforce.net
+yandexcloud.net
+website.yandexcloud.net
+storage.yandexcloud.net
+vusercontent.net
+isa-geek.net
+cdn-edges.net
+git-pages.rit.edu
+typedream.app
+*.developer.app
+brave.app
+*.s.brave.app
+mocha.app
+windsurf.app
+aiven.app
+miren.app
+*.upsun.app
+wnext.app
+*.beget.app
+ngrok.app
+clerk.app
+wal.app
+e2b.app
+web.app
+csb.app
+preview.csb.app
+*.run.app
+*.mtls.run.app
+puter.app
+flutterflow.app
+spawnbase.app
+shiptoday.app
+magicpatterns.app
+netlify.app
+ondigitalocean.app
+up.railway.app
+*.hosted.app
+claude.app
+hasura.app
+botdash.app
+vercel.app
+github.app
+luyani.app
+gadget.app
+replit.app
+id.replit.app
+cloudflare.app
+telebit.app
+edgecompute.app
+relay.evervault.app
+expo.app
+on.expo.app
+staging.expo.app
+on.staging.expo.app
+nyat.app
+noop.app
+encr.app
+frontend.encr.app
+pplx.app
+zeabur.app
+wasmer.app
+framer.app
+*.zerops.app
+rocketpreview.app
+convex.app
+medusajs.app
+sprites.app
+onhercules.app
+easypanel.app
+streamlit.app
+glideos.app
+*.snowflake.app
+*.privatelink.snowflake.app
+messerli.app
+loginline.app
+hackclub.app
+codepen.app
+*.northflank.app
+base44.app
+corespeed.app
+leapcell.app
+ngrok-free.app
+clerkstage.app
+lovable.app
+on-fleek.app
+ntdll.top
+*.wadl.top
+hidns.vip
+clan.rip
+r2.dev
+lp.dev
+api.lp.dev
+objects.lp.dev
+brave.dev
+*.s.brave.dev
+panel.dev
+ngrok.dev
+iserv.dev
+*.stg.dev
+*.lcl.dev
+*.d.crm.dev
+*.w.crm.dev
+*.ad.crm.dev
+*.pd.crm.dev
+*.wd.crm.dev
+*.ae.crm.dev
+*.pe.crm.dev
+*.we.crm.dev
+*.aa.crm.dev
+*.wa.crm.dev
+*.pa.crm.dev
+*.af.crm.dev
+*.pf.crm.dev
+*.wf.crm.dev
+*.ab.crm.dev
+*.wb.crm.dev
+*.pb.crm.dev
+*.ac.crm.dev
+*.wc.crm.dev
+*.pc.crm.dev
+*.ci.crm.dev
+erp.dev
+web.erp.dev
+fly.dev
+pages.dev
+barsy.dev
+vivenushop.dev
+*.user.localcert.dev
+localplayer.dev
+bearblog.dev
+*.gateway.dev
+deno-staging.dev
+is-not-a.dev
+is-a-good.dev
+botdash.dev
+vercel.dev
+mocha-sandbox.dev
+platter-app.dev
+replit.dev
+id.replit.dev
+sisko.replit.dev
+spock.replit.dev
+kim.replit.dev
+odo.replit.dev
+riker.replit.dev
+bones.replit.dev
+teams.replit.dev
+paris.replit.dev
+janeway.replit.dev
+picard.replit.dev
+global.replit.dev
+tarpit.replit.dev
+reed.replit.dev
+pike.replit.dev
+kira.replit.dev
+worf.replit.dev
+sulu.replit.dev
+kirk.replit.dev
+archer.replit.dev
+tucker.replit.dev
+hacker.replit.dev
+canary.replit.dev
+wesley.replit.dev
+staging.replit.dev
+prerelease.replit.dev
+githubpreview.dev
+workers.dev
+*.inbrowser.dev
+relay.evervault.dev
+is-a.dev
+hrsn.dev
+deno.dev
+xmit.dev
+modx.dev
+myaddr.dev
+t3.storageapi.dev
+payload.dev
+grebedoc.dev
+runcontainers.dev
+*.stgstage.dev
+*.lclstage.dev
+loginline.dev
+is-a-fullstack.dev
+codepen.dev
+leapcell.dev
+ngrok-free.dev
+is-cool.dev
+t3.storage.dev
+*.webhare.dev
+mediatech.dev
+*.builtwithrocket.new
+dyn.now
+tmp.now
+here.now
+resolve.bar
+user.party.eus
+*.airflow.eu-west-3.on.aws
+lambda-url.eu-west-3.on.aws
+transfer-webapp.eu-west-3.on.aws
+*.airflow.ap-south-2.on.aws
+transfer-webapp.ap-south-2.on.aws
+*.airflow.eu-south-2.on.aws
+transfer-webapp.eu-south-2.on.aws
+*.airflow.eu-central-2.on.aws
+transfer-webapp.eu-central-2.on.aws
+*.airflow.ap-southeast-3.on.aws
+lambda-url.ap-southeast-3.on.aws
+transfer-webapp.ap-southeast-3.on.aws
+*.airflow.ap-southeast-4.on.aws
+transfer-webapp.ap-southeast-4.on.aws
+*.airflow.ap-northeast-3.on.aws
+lambda-url.ap-northeast-3.on.aws
+transfer-webapp.ap-northeast-3.on.aws
+*.airflow.eu-central-1.on.aws
+lambda-url.eu-central-1.on.aws
+transfer-webapp.eu-central-1.on.aws
+transfer-webapp.mx-central-1.on.aws
+*.airflow.me-central-1.on.aws
+transfer-webapp.me-central-1.on.aws
+*.airflow.ca-central-1.on.aws
+lambda-url.ca-central-1.on.aws
+transfer-webapp.ca-central-1.on.aws
+*.airflow.il-central-1.on.aws
+transfer-webapp.il-central-1.on.aws
+*.airflow.ap-northeast-1.on.aws
+lambda-url.ap-northeast-1.on.aws
+transfer-webapp.ap-northeast-1.on.aws
+*.airflow.ap-southeast-1.on.aws
+lambda-url.ap-southeast-1.on.aws
+transfer-webapp.ap-southeast-1.on.aws
+*.airflow.me-south-1.on.aws
+lambda-url.me-south-1.on.aws
+transfer-webapp.me-south-1.on.aws
+*.airflow.af-south-1.on.aws
+lambda-url.af-south-1.on.aws
+transfer-webapp.af-south-1.on.aws
+*.airflow.eu-south-1.on.aws
+lambda-url.eu-south-1.on.aws
+transfer-webapp.eu-south-1.on.aws
+*.airflow.ap-south-1.on.aws
+lambda-url.ap-south-1.on.aws
+transfer-webapp.ap-south-1.on.aws
+transfer-webapp.ap-southeast-7.on.aws
+*.airflow.us-west-2.on.aws
+lambda-url.us-west-2.on.aws
+transfer-webapp.us-west-2.on.aws
+*.airflow.eu-west-2.on.aws
+lambda-url.eu-west-2.on.aws
+transfer-webapp.eu-west-2.on.aws
+*.airflow.us-east-2.on.aws
+lambda-url.us-east-2.on.aws
+transfer-webapp.us-east-2.on.aws
+*.airflow.eu-north-1.on.aws
+lambda-url.eu-north-1.on.aws
+transfer-webapp.eu-north-1.on.aws
+*.airflow.ap-southeast-2.on.aws
+lambda-url.ap-southeast-2.on.aws
+transfer-webapp.ap-southeast-2.on.aws
+*.airflow.ap-northeast-2.on.aws
+lambda-url.ap-northeast-2.on.aws
+transfer-webapp.ap-northeast-2.on.aws
+*.airflow.ap-southeast-5.on.aws
+transfer-webapp.ap-southeast-5.on.aws
+transfer-webapp-fips.us-gov-west-1.on.aws
+transfer-webapp.us-gov-west-1.on.aws
+transfer-webapp-fips.us-gov-east-1.on.aws
+transfer-webapp.us-gov-east-1.on.aws
+*.airflow.ca-west-1.on.aws
+transfer-webapp.ca-west-1.on.aws
+*.airflow.us-west-1.on.aws
+lambda-url.us-west-1.on.aws
+transfer-webapp.us-west-1.on.aws
+*.airflow.eu-west-1.on.aws
+lambda-url.eu-west-1.on.aws
+transfer-webapp.eu-west-1.on.aws
+*.airflow.us-east-1.on.aws
+lambda-url.us-east-1.on.aws
+transfer-webapp.us-east-1.on.aws
+*.airflow.ap-east-1.on.aws
+lambda-url.ap-east-1.on.aws
+transfer-webapp.ap-east-1.on.aws
+*.airflow.sa-east-1.on.aws
+lambda-url.sa-east-1.on.aws
+transfer-webapp.sa-east-1.on.aws
+*.private.repost.aws
+notebook.eu-west-3.sagemaker.aws
+studio.eu-west-3.sagemaker.aws
+notebook.ap-south-2.sagemaker.aws
+notebook.eu-south-2.sagemaker.aws
+studio.eu-south-2.sagemaker.aws
+notebook.eu-central-2.sagemaker.aws
+studio.eu-central-2.sagemaker.aws
+notebook.ap-southeast-3.sagemaker.aws
+studio.ap-southeast-3.sagemaker.aws
+notebook.ap-southeast-4.sagemaker.aws
+notebook.ap-northeast-3.sagemaker.aws
+studio.ap-northeast-3.sagemaker.aws
+labeling.eu-central-1.sagemaker.aws
+notebook.eu-central-1.sagemaker.aws
+studio.eu-central-1.sagemaker.aws
+notebook.me-central-1.sagemaker.aws
+studio.me-central-1.sagemaker.aws
+notebook-fips.ca-central-1.sagemaker.aws
+labeling.ca-central-1.sagemaker.aws
+notebook.ca-central-1.sagemaker.aws
+studio.ca-central-1.sagemaker.aws
+notebook.il-central-1.sagemaker.aws
+studio.il-central-1.sagemaker.aws
+labeling.ap-northeast-1.sagemaker.aws
+notebook.ap-northeast-1.sagemaker.aws
+studio.ap-northeast-1.sagemaker.aws
+labeling.ap-southeast-1.sagemaker.aws
+notebook.ap-southeast-1.sagemaker.aws
+studio.ap-southeast-1.sagemaker.aws
+notebook.me-south-1.sagemaker.aws
+studio.me-south-1.sagemaker.aws
+notebook.af-south-1.sagemaker.aws
+studio.af-south-1.sagemaker.aws
+notebook.eu-south-1.sagemaker.aws
+studio.eu-south-1.sagemaker.aws
+labeling.ap-south-1.sagemaker.aws
+notebook.ap-south-1.sagemaker.aws
+studio.ap-south-1.sagemaker.aws
+notebook-fips.us-west-2.sagemaker.aws
+labeling.us-west-2.sagemaker.aws
+notebook.us-west-2.sagemaker.aws
+studio.us-west-2.sagemaker.aws
+labeling.eu-west-2.sagemaker.aws
+notebook.eu-west-2.sagemaker.aws
+studio.eu-west-2.sagemaker.aws
+notebook-fips.us-east-2.sagemaker.aws
+labeling.us-east-2.sagemaker.aws
+notebook.us-east-2.sagemaker.aws
+studio.us-east-2.sagemaker.aws
+notebook.eu-north-1.sagemaker.aws
+studio.eu-north-1.sagemaker.aws
+labeling.ap-southeast-2.sagemaker.aws
+notebook.ap-southeast-2.sagemaker.aws
+studio.ap-southeast-2.sagemaker.aws
+labeling.ap-northeast-2.sagemaker.aws
+notebook.ap-northeast-2.sagemaker.aws
+studio.ap-northeast-2.sagemaker.aws
+*.experiments.sagemaker.aws
+studio-fips.us-gov-west-1.sagemaker.aws
+notebook-fips.us-gov-west-1.sagemaker.aws
+notebook.us-gov-west-1.sagemaker.aws
+studio.us-gov-west-1.sagemaker.aws
+studio-fips.us-gov-east-1.sagemaker.aws
+notebook-fips.us-gov-east-1.sagemaker.aws
+notebook.us-gov-east-1.sagemaker.aws
+studio.us-gov-east-1.sagemaker.aws
+notebook-fips.ca-west-1.sagemaker.aws
+notebook.ca-west-1.sagemaker.aws
+notebook-fips.us-west-1.sagemaker.aws
+notebook.us-west-1.sagemaker.aws
+studio.us-west-1.sagemaker.aws
+labeling.eu-west-1.sagemaker.aws
+notebook.eu-west-1.sagemaker.aws
+studio.eu-west-1.sagemaker.aws
+notebook-fips.us-east-1.sagemaker.aws
+labeling.us-east-1.sagemaker.aws
+notebook.us-east-1.sagemaker.aws
+studio.us-east-1.sagemaker.aws
+notebook.ap-east-1.sagemaker.aws
+studio.ap-east-1.sagemaker.aws
+notebook.sa-east-1.sagemaker.aws
+studio.sa-east-1.sagemaker.aws
+discourse.diy
+imagine.diy
+pages.gay
+caffeine.xyz
+exe.xyz
+opentunnel.xyz
+botdash.xyz
+*.telebit.xyz
+myftp.biz
+no-ip.biz
+orx.biz
+cloud-ip.biz
+for-some.biz
+mmafan.biz
+for-more.biz
+webhop.biz
+selfip.biz
+jozi.biz
+dyndns.biz
+cloudns.biz
+dscloud.biz
+for-the.biz
+for-better.biz
+activetrail.biz
+*.owo.codes
+pley.games
+sheezy.games
+dyn.addr.tools
+myaddr.tools
+stackit.rocks
+myddns.rocks
+webspace.rocks
+lima-city.rocks
+prequalifyme.today
+nz.basketball
+aus.basketball
+mybox.company
+official.academy
+co.education
+0.0.5.57.pictures
+barsy.support
+co.business
+cloudsite.builders
+tech.orange
+barsy.online
+websitebuilder.online
+eero.online
+book.online
+heimdns.online
+leapcell.online
+eero-stage.online
+*.compute.estate
+co.network
+aem.network
+*.alces.network
+appwrite.network
+azimuth.network
+tlon.network
+arvo.network
+appwrite.global
+loginline.services
+hra.health
+ddns.berlin
+bss.design
+graphic.design
+co.technology
+ai.studio
+libp2p.direct
+aem.reviews
+co.financial
+plesk.page
+aem.page
+hlx.page
+mybox.page
+rocky.page
+prvcy.page
+deuxfleurs.page
+pdns.page
+codeberg.page
+heyflow.page
+statichost.page
+prg1-zerops.zone
+*.triton.zone
+stackit.zone
+lima.zone
+*.zerops.zone
+forgot.her.name
+forgot.his.name
+keenetic.name
+ispmanager.name
+aem.live
+*.ewp.live
+hlx.live
+co.site
+figma-gov.site
+caffeine.site
+figma.site
+my.canva.site
+sol.site
+*.tst.site
+scw.site
+waw.scw.site
+ams.scw.site
+puter.site
+barsy.site
+support.site
+chatgpt.site
+square.site
+omniwe.site
+opensocial.site
+cpanel.site
+playcode.site
+notion.site
+novecore.site
+wpsquared.site
+preview.site
+jele.site
+cyon.site
+byen.site
+srht.site
+fastvps.site
+piebox.site
+convex.site
+eu-west-1.convex.site
+us-east-1.convex.site
+jouwweb.site
+heyflow.site
+*.platformsh.site
+loginline.site
+madethis.site
+sourcecraft.site
+*.cloudera.site
+sav.case
+dix.asia
+daemon.asia
+cloudns.asia
+ui.nabu.casa
+cloud.goog
+translate.goog
+*.usercontent.goog
+de.cool
+elementor.cool
+jelastic.team
+discourse.team
+barsy.club
+jele.club
+cloudns.club
+cleverapps.tech
+framer.wiki
+barsy.mobi
+dscloud.mobi
+*.eth.limo
+no-ip.info
+barsy.info
+barrell-of-knowledge.info
+barrel-of-knowledge.info
+nsupdate.info
+groks-this.info
+dnsupdate.info
+for-our.info
+knowsitall.info
+dvrcam.info
+mittwald.info
+dynamic-dns.info
+v-info.info
+webhop.info
+selfip.info
+dyndns.info
+here-for-more.info
+ilovecollege.info
+mayfirst.info
+forumz.info
+cloudns.info
+mittwaldserver.info
+typo3server.info
+groks-the.info
+iserv.host
+wp2.host
+tempurl.host
+mircloud.host
+freesite.host
+wpmudev.host
+myfast.host
+gadget.host
+cloudaccess.host
+jele.host
+half.host
+bolt.host
+fastvps.host
+emergent.host
+easypanel.host
+me.scot
+co.scot
+mygov.scot
+org.scot
+gov.scot
+service.gov.scot
+barsy.menu
+barsyonline.menu
+canva.link
+mypep.link
+*.eth.link
+ipfs.w3s.link
+ipfs.storacha.link
+keenetic.link
+joinmc.link
+*.inbrowser.link
+*.dweb.link
+cyon.link
+ipfs.nftstorage.link
+myfritz.link
+puter.work
+imagine-proxy.work
+barsy.shop
+shopware.shop
+base.shop
+hoplix.shop
+barsyonline.shop
+at.emf.camp
+ms.show
+playit.plus
+*.at.playit.plus
+with.playit.plus
+noticeable.news
+co.events
+koobin.events
+framer.photos
+miren.systems
+knightpoint.systems
+opencraft.hosting
+nog.community
+myforum.community
+ravendb.community
+`;
@@ -0,0 +1,156 @@
+/**
+ * Tab Groups Manager - Rule Usage Statistics
+ *
+ * Counts how often each manual pattern and auto-pattern matches and groups tabs, and when it last
+ * matched, so rules that are no longer used can be found and removed. Usage is kept per device in
+ * chrome.storage.local, and isn't synced or exported with the rules. Rules are identified by their
+ * type and pattern source or template, so editing a rule starts its usage over.
+ */
+
+import { RuleUsage, RuleUsageReport } from './types';
+
+export interface RuleStatsOptions {
+  log: (message: string, level?: 'log' | 'error' | 'warn') => void;
+  delayMs?: number;   // How long to wait for more matches before writing the counters
+}
+
+const STATS_KEY = 'ruleStats';
+const UNUSED_DAYS_KEY = 'unusedRuleDays';
+const DEFAULT_UNUSED_DAYS = 30;
+const DEFAULT_DELAY_MS = 2000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * RuleStatsTracker class records rule usage and works out which rules are unused.
+ */
+export class RuleStatsTracker {
+  private options: Required<RuleStatsOptions>;
+  private stats: Record<string, RuleUsage> = {};   // Keyed by rule ID
+  private unusedDays: number = DEFAULT_UNUSED_DAYS;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private ready: Promise<void>;
+  
+  constructor(options: RuleStatsOptions) {
+    this.options = { delayMs: DEFAULT_DELAY_MS, ...options };
+    
+    this.ready = chrome.storage.local.get([STATS_KEY, UNUSED_DAYS_KEY])
+      .then((result) => {
+        this.stats = result[STATS_KEY] || {};
+        if (Number.isInteger(result[UNUSED_DAYS_KEY]) && result[UNUSED_DAYS_KEY] > 0) {
+          this.unusedDays = result[UNUSED_DAYS_KEY];
+        }
+      })
+      .catch((error: any) => {
+        this.options.log(`RuleStats: Error loading rule usage: ${error.message}`, "error");
+      });
+  }
+  
+  /**
+   * Starts tracking new rules and forgets the usage of rules that no longer exist
+   * @param ruleIds The IDs of every current rule
+   */
+  public setRules(ruleIds: string[]): void {
+    this.ready.then(() => {
+      const now = new Date().toISOString();
+      let changed = false;
+      
+      ruleIds.forEach((ruleId) => {
+        if (!this.stats[ruleId]) {
+          this.stats[ruleId] = { matches: 0, tabsGrouped: 0, trackedSince: now };
+          changed = true;
+        }
+      });
+      
+      Object.keys(this.stats).forEach((ruleId) => {
+        if (!ruleIds.includes(ruleId)) {
+          delete this.stats[ruleId];
+          changed = true;
+        }
+      });
+      
+      if (changed) {
+        this.requestSave();
+      }
+    });
+  }
+  
+  /**
+   * Records that a rule picked the group for a tab
+   * @param ruleId The rule's ID
+   * @param grouped Whether the tab was moved into the group, false if it was already in it
+   */
+  public recordMatch(ruleId: string, grouped: boolean): void {
+    this.ready.then(() => {
+      const now = new Date().toISOString();
+      const usage = this.stats[ruleId] || { matches: 0, tabsGrouped: 0, trackedSince: now };
+      
+      this.stats[ruleId] = {
+        ...usage,
+        matches: usage.matches + 1,
+        tabsGrouped: usage.tabsGrouped + (grouped ? 1 : 0),
+        lastMatchedAt: now
+      };
+      this.requestSave();
+    });
+  }
+  
+  /**
+   * Gets the usage of rules
+   * @param ruleIds The IDs of the rules
+   * @returns The usage of each rule, in the same order
+   */
+  public async getUsage(ruleIds: string[]): Promise<RuleUsageReport[]> {
+    await this.ready;
+    const now = Date.now();
+    
+    return ruleIds.map((ruleId) => {
+      const usage = this.stats[ruleId] || { matches: 0, tabsGrouped: 0, trackedSince: new Date(now).toISOString() };
+      return { ...usage, unused: this.isUnused(usage, now) };
+    });
+  }
+  
+  /**
+   * Gets how many days a rule may go without matching before it counts as unused
+   */
+  public async getUnusedDays(): Promise<number> {
+    await this.ready;
+    return this.unusedDays;
+  }
+  
+  /**
+   * Sets how many days a rule may go without matching before it counts as unused
+   * @param days A whole number of days, at least 1
+   */
+  public async setUnusedDays(days: number): Promise<void> {
+    await this.ready;
+    this.unusedDays = days;
+    await chrome.storage.local.set({ [UNUSED_DAYS_KEY]: days });
+    this.options.log(`RuleStats: Rules unused for ${days} day(s) are flagged`);
+  }
+  
+  /**
+   * Works out whether a rule hasn't matched for the unused threshold
+   * A rule that never matched counts from when it was first tracked, so new rules aren't flagged straight away.
+   * @param usage The rule's usage
+   * @param now The current time in milliseconds
+   */
+  private isUnused(usage: RuleUsage, now: number): boolean {
+    const lastUsed = Date.parse(usage.lastMatchedAt || usage.trackedSince);
+    return now - lastUsed >= this.unusedDays * DAY_MS;
+  }
+  
+  /**
+   * Writes the counters shortly, together with any recorded in the meantime
+   */
+  private requestSave(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      chrome.storage.local.set({ [STATS_KEY]: this.stats }).catch((error: any) => {
+        this.options.log(`RuleStats: Error saving rule usage: ${error.message}`, "error");
+      });
+    }, this.options.delayMs);
+  }
+}
@@ -0,0 +1,442 @@
+/**
+ * Tab Groups Manager - Rule Sync
+ *
+ * Keeps a copy of the rule set in chrome.storage.sync so it follows the user across devices.
+ * The rule set is serialized to JSON and split into chunks that fit the per-item quota,
+ * then a meta item describing the new revision is written last.
+ */
+
+import { SyncStatus } from './types';
+
+interface SyncMeta {
+  revision: number;   // Bumped on every write, used to notice edits from other devices
+  deviceId: string;   // The device that wrote this revision
+  chunks: number;     // How many chunk items hold the serialized rule set
+  checksum: string;   // Checksum of the joined chunks, to notice a read that raced a write
+  updatedAt: string;
+}
+
+/**
+ * Identifies a synced revision. Two devices writing at once can both write the same revision number,
+ * so the writer and checksum are compared too.
+ */
+interface SyncedRevision {
+  revision: number;
+  deviceId: string;
+  checksum: string;
+}
+
+interface SyncedData<T> {
+  meta: SyncMeta;
+  data: T | null;     // Null when the chunks don't match the meta checksum
+}
+
+export interface RuleSyncOptions<T> {
+  getLocalData: () => T;                // Gets the rules on this device, to be written
+  merge: (local: T, remote: T) => T;    // Combines unsynced local edits with edits from another device
+  onRemoteChange: (data: T) => void;    // Applies rules written by another device
+  log: (message: string, level?: 'log' | 'error' | 'warn') => void;
+}
+
+const META_KEY = 'ruleSyncMeta';
+const CHUNK_KEY_PREFIX = 'ruleSyncChunk';
+
+// Writes are delayed so bursts of edits become one write, keeping under the write-rate quotas
+const PUSH_DELAY_MS = 2000;
+
+// A read that races another device's write is tried again a few times before giving up
+const READ_ATTEMPTS = 3;
+const READ_RETRY_DELAY_MS = 1000;
+
+/**
+ * RuleSync class mirrors the rule set to chrome.storage.sync.
+ *
+ * Each device remembers the last revision it wrote or applied and whether it has local edits that
+ * are not synced yet. When the synced revision has moved on and there are local edits, both are
+ * merged before writing; otherwise the newer side simply wins. A revision another device wrote
+ * over this device's own, with the same or an older number, is merged too, so neither edit is lost.
+ */
+export class RuleSync<T> {
+  private options: RuleSyncOptions<T>;
+  private enabled: boolean = false;
+  private status: SyncStatus = { state: 'off' };
+  private deviceId: string = '';
+  private lastSynced: SyncedRevision | null = null;   // The synced revision this device last wrote or applied
+  private dirty: boolean = false;    // Whether this device has edits that are not synced yet
+  private pushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushChain: Promise<void> = Promise.resolve();
+  
+  constructor(options: RuleSyncOptions<T>) {
+    this.options = options;
+    
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      const meta: SyncMeta | undefined = changes[META_KEY]?.newValue;
+      if (!this.enabled || areaName !== 'sync' || !meta) {
+        return;
+      }
+      
+      // Ignore our own writes and revisions we already have
+      if (meta.deviceId !== this.deviceId && !this.isSynced(meta)) {
+        this.pull();
+      }
+    });
+  }
+  
+  /**
+   * Starts syncing, bringing this device and the synced rules up to date with each other
+   * @param hasLocalChanges Whether the rules on this device should be merged into the synced ones,
+   * as when sync is first turned on
+   * @returns The sync status afterwards
+   */
+  public async enable(hasLocalChanges: boolean = false): Promise<SyncStatus> {
+    this.enabled = true;
+    this.options.log(`RuleSync: Enabling sync${hasLocalChanges ? ' with local changes' : ''}`);
+    
+    try {
+      await this.loadDeviceState();
+      if (hasLocalChanges) {
+        await this.setDirty(true);
+      }
+      
+      const remote = await this.read();
+      if (!remote || this.dirty) {
+        await this.queueFlush();
+      } else if (!remote.data) {
+        // Read while another device was writing. Its meta item goes last, so the change listener pulls once it is done.
+        this.fallBack(new Error(`revision ${remote.meta.revision} is incomplete, another device may still be writing it`));
+      } else if (this.isSynced(remote.meta)) {
+        this.status = { state: 'synced', lastSyncedAt: remote.meta.updatedAt };
+      } else if (this.wasOverwritten(remote.meta)) {
+        // Another device wrote over this device's last revision, so both have to be merged
+        this.options.log(`RuleSync: Revision ${remote.meta.revision} was written over this device's, merging`, "warn");
+        await this.queueFlush();
+      } else {
+        // Another device synced while this one was away and there is nothing local to keep
+        this.options.log(`RuleSync: Applying revision ${remote.meta.revision} from another device`);
+        this.options.onRemoteChange(remote.data);
+        await this.markSynced(remote.meta);
+      }
+    } catch (error) {
+      this.fallBack(error);
+    }
+    
+    return this.getStatus();
+  }
+  
+  /**
+   * Stops syncing. The synced rules are kept, so other devices are unaffected.
+   */
+  public disable(): void {
+    this.options.log("RuleSync: Disabling sync");
+    this.enabled = false;
+    this.status = { state: 'off' };
+    
+    if (this.pushTimer) {
+      clearTimeout(this.pushTimer);
+      this.pushTimer = null;
+    }
+  }
+  
+  /**
+   * Gets the current sync status
+   */
+  public getStatus(): SyncStatus {
+    return { ...this.status };
+  }
+  
+  /**
+   * Gets the synced revision this device last wrote or applied
+   */
+  public getRevision(): number {
+    return this.lastSynced?.revision ?? 0;
+  }
+  
+  /**
+   * Records a local edit and schedules a write of the local rules
+   */
+  public schedulePush(): void {
+    if (!this.enabled) {
+      return;
+    }
+    
+    this.setDirty(true).catch((error: any) => {
+      this.options.log(`RuleSync: Error recording unsynced edits: ${error.message}`, "error");
+    });
+    if (this.status.state !== 'fallback') {
+      this.status = { ...this.status, state: 'syncing' };
+    }
+    
+    if (this.pushTimer) {
+      clearTimeout(this.pushTimer);
+    }
+    this.pushTimer = setTimeout(() => {
+      this.pushTimer = null;
+      this.queueFlush();
+    }, PUSH_DELAY_MS);
+  }
+  
+  /**
+   * Queues a write behind any write already running, so two writes never interleave
+   */
+  private queueFlush(): Promise<void> {
+    this.flushChain = this.flushChain.then(() => this.flush());
+    return this.flushChain;
+  }
+  
+  /**
+   * Writes the local rules, merging in edits from other devices first
+   */
+  private async flush(): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+    
+    try {
+      let data = this.options.getLocalData();
+      const remote = await this.read();
+      
+      // Another device's revision can't be merged until it can be read whole, and writing over it would lose its edits.
+      // A torn revision this device wrote holds nothing this device doesn't have, the other writer still has its edits.
+      if (remote && !remote.data && remote.meta.deviceId !== this.deviceId) {
+        throw new Error(`revision ${remote.meta.revision} is incomplete, another device may still be writing it`);
+      }
+      
+      if (remote?.data && !this.isSynced(remote.meta)) {
+        this.options.log(`RuleSync: Revision ${remote.meta.revision} was written by another device, merging`, "warn");
+        data = this.options.merge(data, remote.data);
+        this.options.onRemoteChange(data);
+      }
+      
+      const meta = await this.write(data, (remote?.meta.revision ?? 0) + 1, remote?.meta.chunks ?? 0);
+      await this.markSynced(meta);
+      this.options.log(`RuleSync: Wrote revision ${meta.revision} in ${meta.chunks} chunk(s)`);
+    } catch (error) {
+      this.fallBack(error);
+    }
+  }
+  
+  /**
+   * Applies rules written by another device, unless local edits need merging first
+   */
+  private async pull(): Promise<void> {
+    try {
+      const remote = await this.read();
+      if (!remote || this.isSynced(remote.meta)) {
+        return;
+      }
+      
+      if (!remote.data) {
+        // The writer's meta item goes last, so the change listener pulls again once it is done
+        this.fallBack(new Error(`revision ${remote.meta.revision} is incomplete, another device may still be writing it`));
+        return;
+      }
+      
+      if (this.dirty || this.wasOverwritten(remote.meta)) {
+        // Either local edits have to be merged in, or another device wrote over this device's last revision.
+        // Writing again merges both.
+        this.schedulePush();
+        return;
+      }
+      
+      this.options.log(`RuleSync: Applying revision ${remote.meta.revision} from another device`);
+      this.options.onRemoteChange(remote.data);
+      await this.markSynced(remote.meta);
+    } catch (error) {
+      this.fallBack(error);
+    }
+  }
+  
+  /**
+   * Reads the synced rules, trying again for a while if another device is still writing them
+   * @returns The meta item and rules, or null if nothing has been synced yet
+   */
+  private async read(): Promise<SyncedData<T> | null> {
+    for (let attempt = 1; ; attempt++) {
+      const { [META_KEY]: meta } = await chrome.storage.sync.get(META_KEY);
+      if (!meta) {
+        return null;
+      }
+      
+      const keys = this.getChunkKeys(0, meta.chunks);
+      const items = await chrome.storage.sync.get(keys);
+      const json = keys.map(key => items[key] ?? '').join('');
+      
+      if (this.checksum(json) === meta.checksum) {
+        return { meta, data: JSON.parse(json) };
+      }
+      
+      this.options.log(`RuleSync: Revision ${meta.revision} is incomplete, another device may still be writing it`, "warn");
+      if (attempt === READ_ATTEMPTS) {
+        return { meta, data: null };
+      }
+      await new Promise(resolve => setTimeout(resolve, READ_RETRY_DELAY_MS));
+    }
+  }
+  
+  /**
+   * Writes the rules as chunks followed by the meta item, after checking them against the quotas
+   * @param data The rules to write
+   * @param revision The new revision number
+   * @param previousChunks How many chunks the previous revision used, so leftovers can be removed
+   * @returns The meta item that was written
+   */
+  private async write(data: T, revision: number, previousChunks: number): Promise<SyncMeta> {
+    const json = JSON.stringify(data);
+    const chunks = this.split(json);
+    const meta: SyncMeta = {
+      revision,
+      deviceId: this.deviceId,
+      chunks: chunks.length,
+      checksum: this.checksum(json),
+      updatedAt: new Date().toISOString()
+    };
+    
+    const items: Record<string, string> = {};
+    this.getChunkKeys(0, chunks.length).forEach((key, i) => items[key] = chunks[i]);
+    
+    const totalBytes = Object.entries({ ...items, [META_KEY]: meta })
+      .reduce((sum, [key, value]) => sum + this.getItemSize(key, value), 0);
+    if (totalBytes > chrome.storage.sync.QUOTA_BYTES || chunks.length + 1 > chrome.storage.sync.MAX_ITEMS) {
+      throw new Error(`QUOTA_BYTES: the rules need ${totalBytes} bytes but sync storage holds ${chrome.storage.sync.QUOTA_BYTES}`);
+    }
+    
+    // Chunks go first, so the meta item never describes chunks that aren't there yet
+    await chrome.storage.sync.set(items);
+    await chrome.storage.sync.set({ [META_KEY]: meta });
+    
+    if (previousChunks > chunks.length) {
+      await chrome.storage.sync.remove(this.getChunkKeys(chunks.length, previousChunks));
+    }
+    
+    return meta;
+  }
+  
+  /**
+   * Splits serialized rules into chunks that each fit the per-item quota once stored
+   * @param json The serialized rules
+   */
+  private split(json: string): string[] {
+    const maxSize = chrome.storage.sync.QUOTA_BYTES_PER_ITEM;
+    const chunks: string[] = [];
+    let start = 0;
+    
+    while (start < json.length) {
+      const key = `${CHUNK_KEY_PREFIX}${chunks.length}`;
+      let end = Math.min(json.length, start + maxSize);
+      
+      // Escaping and multi-byte characters make a stored chunk larger than its length, so shrink until it fits
+      while (this.getItemSize(key, json.slice(start, end)) > maxSize) {
+        end = start + Math.floor((end - start) * 0.9);
+      }
+      
+      // Never split a surrogate pair across chunks
+      const lastCode = json.charCodeAt(end - 1);
+      if (end < json.length && lastCode >= 0xd800 && lastCode <= 0xdbff) {
+        end--;
+      }
+      
+      chunks.push(json.slice(start, end));
+      start = end;
+    }
+    
+    return chunks;
+  }
+  
+  /**
+   * Gets the size of an item the way the sync quotas count it: the key plus the JSON value, in UTF-8 bytes
+   */
+  private getItemSize(key: string, value: unknown): number {
+    return new TextEncoder().encode(key + JSON.stringify(value)).length;
+  }
+  
+  /**
+   * Gets the chunk keys in a range
+   */
+  private getChunkKeys(from: number, to: number): string[] {
+    return Array.from({ length: to - from }, (_, i) => `${CHUNK_KEY_PREFIX}${from + i}`);
+  }
+  
+  /**
+   * Computes a 32-bit FNV-1a checksum of a string
+   */
+  private checksum(value: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16);
+  }
+  
+  /**
+   * Checks whether a revision is the one this device last wrote or applied
+   * @param meta The revision's meta item
+   */
+  private isSynced(meta: SyncMeta): boolean {
+    return !!this.lastSynced
+      && meta.revision === this.lastSynced.revision
+      && meta.deviceId === this.lastSynced.deviceId
+      && meta.checksum === this.lastSynced.checksum;
+  }
+  
+  /**
+   * Checks whether another device wrote a revision over the one this device last wrote or applied,
+   * which happens when both write at once, from the same starting revision
+   * @param meta The revision's meta item
+   */
+  private wasOverwritten(meta: SyncMeta): boolean {
+    return !!this.lastSynced && meta.revision <= this.lastSynced.revision && !this.isSynced(meta);
+  }
+  
+  /**
+   * Records a revision as the one this device has
+   */
+  private async markSynced(meta: SyncMeta): Promise<void> {
+    this.lastSynced = { revision: meta.revision, deviceId: meta.deviceId, checksum: meta.checksum };
+    this.status = { state: 'synced', lastSyncedAt: meta.updatedAt };
+    await this.setDirty(false);
+  }
+  
+  /**
+   * Falls back to local storage after a failed sync, keeping the edits marked as unsynced
+   * so they are written on the next successful sync
+   */
+  private fallBack(error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    const isQuota = /QUOTA|MAX_ITEMS|MAX_WRITE_OPERATIONS/.test(message);
+    
+    this.status = {
+      state: 'fallback',
+      lastSyncedAt: this.status.lastSyncedAt,
+      warning: isQuota
+        ? `Your rules are too large to sync or were changed too often (${message}). They are only saved on this device until they fit again.`
+        : `Sync failed (${message}). Your rules are only saved on this device until the next successful sync.`
+    };
+    
+    this.options.log(`RuleSync: ${this.status.warning}`, "warn");
+  }
+  
+  /**
+   * Loads this device's ID, last synced revision and unsynced-edits flag, creating the ID on first use
+   */
+  private async loadDeviceState(): Promise<void> {
+    const state = await chrome.storage.local.get(['ruleSyncDeviceId', 'ruleSyncRevision', 'ruleSyncDirty']);
+    
+    this.deviceId = state.ruleSyncDeviceId || crypto.randomUUID();
+    // Older versions stored only the revision number, which is taken as unknown so the synced rules are read again
+    this.lastSynced = state.ruleSyncRevision && typeof state.ruleSyncRevision === 'object' ? state.ruleSyncRevision : null;
+    this.dirty = state.ruleSyncDirty ?? false;
+    
+    if (!state.ruleSyncDeviceId) {
+      await chrome.storage.local.set({ ruleSyncDeviceId: this.deviceId });
+    }
+  }
+  
+  /**
+   * Sets and stores whether this device has edits that are not synced yet
+   */
+  private async setDirty(dirty: boolean): Promise<void> {
+    this.dirty = dirty;
+    await chrome.storage.local.set({ ruleSyncDirty: dirty, ruleSyncRevision: this.lastSynced });
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * Tab Groups Manager - Tab Ordering
+ *
+ * Puts the groups and tabs of a window in the order the ordering policies ask for, using
+ * chrome.tabGroups.move and chrome.tabs.move. The window is walked from left to right and
+ * each group or ungrouped tab is moved into place only if it isn't there already, so a
+ * window that is already in order costs no moves at all.
+ */
+
+import { OrderingPolicy, TabSortOrder } from './types';
+
+/**
+ * Where one group goes, worked out from the rule that creates it
+ */
+export interface GroupPlacement {
+  pinned: boolean;        // Kept at the left of the window
+  pinRank: number;        // Order among the pinned groups
+  rank: number;           // Position in rule priority order, Infinity for groups no rule creates
+  tabOrder: TabSortOrder;
+}
+
+export interface TabOrdererOptions {
+  getPolicy: () => OrderingPolicy;  // The global ordering policy
+  getPlacement: (group: chrome.tabGroups.TabGroup, tabs: chrome.tabs.Tab[]) => GroupPlacement;
+  log: (message: string, level?: 'log' | 'error' | 'warn') => void;
+  delayMs?: number;   // How long to wait for more grouping before ordering a window
+}
+
+/**
+ * A run of tabs that moves as one: a whole group, or a single ungrouped tab
+ */
+interface Block {
+  tabs: chrome.tabs.Tab[];
+  group?: chrome.tabGroups.TabGroup;
+  placement?: GroupPlacement;
+}
+
+const DEFAULT_DELAY_MS = 500;
+
+/**
+ * TabOrderer class orders the groups and tabs of windows.
+ *
+ * Windows are ordered one at a time, so two orderings never move tabs at the same time.
+ * Windows requested while grouping is still going on are ordered once it settles down.
+ */
+export class TabOrderer {
+  private options: Required<TabOrdererOptions>;
+  private pendingWindows: Set<number> = new Set();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private orderChain: Promise<void> = Promise.resolve();
+  
+  constructor(options: TabOrdererOptions) {
+    this.options = { delayMs: DEFAULT_DELAY_MS, ...options };
+  }
+  
+  /**
+   * Orders a window shortly, merging it with other windows requested in the meantime
+   * @param windowId The ID of the window
+   */
+  public requestWindow(windowId: number): void {
+    this.pendingWindows.add(windowId);
+    
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const windowIds = [...this.pendingWindows];
+      this.pendingWindows.clear();
+      this.orderWindows(windowIds);
+    }, this.options.delayMs);
+  }
+  
+  /**
+   * Orders windows now, after any ordering already running
+   * @param windowIds The IDs of the windows
+   * @returns Resolves once the windows are in order
+   */
+  public orderWindows(windowIds: number[]): Promise<void> {
+    this.orderChain = this.orderChain.then(async () => {
+      for (const windowId of windowIds) {
+        try {
+          await this.orderWindow(windowId);
+        } catch (error: any) {
+          // Tabs closed or dragged while the window was being ordered, the next ordering catches up
+          this.options.log(`TabOrderer: Error ordering window ${windowId}: ${error.message}`, "error");
+        }
+      }
+    });
+    return this.orderChain;
+  }
+  
+  /**
+   * Orders the groups and tabs of one window
+   * @param windowId The ID of the window
+   */
+  private async orderWindow(windowId: number): Promise<void> {
+    const policy = this.options.getPolicy();
+    const tabs = (await chrome.tabs.query({ windowId })).sort((a, b) => a.index - b.index);
+    const groups = new Map((await chrome.tabGroups.query({ windowId })).map(group => [group.id, group]));
+    
+    // Pinned tabs always come first and are left alone
+    const firstIndex = tabs.filter(tab => tab.pinned).length;
+    const blocks = this.getBlocks(tabs.filter(tab => !tab.pinned), groups);
+    const desired = this.sortBlocks(blocks, policy);
+    
+    let current = blocks.flatMap(block => block.tabs.map(tab => tab.id!));
+    let position = 0;
+    let moves = 0;
+    
+    for (const block of desired) {
+      const tabIds = block.tabs.map(tab => tab.id!);
+      const inPlace = current.slice(position, position + tabIds.length);
+      
+      if (!tabIds.every(tabId => inPlace.includes(tabId))) {
+        // Everything left of the position is already in order, so blocks only ever move left
+        if (block.group) {
+          await chrome.tabGroups.move(block.group.id, { index: firstIndex + position });
+        } else {
+          await chrome.tabs.move(tabIds[0], { index: firstIndex + position });
+        }
+        const moving = current.filter(tabId => tabIds.includes(tabId));
+        current = current.filter(tabId => !tabIds.includes(tabId));
+        current.splice(position, 0, ...moving);
+        moves++;
+      }
+      
+      // Sort the tabs within a group, which stay in the group as they only move within it
+      if (block.placement && block.placement.tabOrder !== 'none') {
+        for (const [offset, tabId] of this.sortTabs(block.tabs, block.placement.tabOrder).entries()) {
+          if (current[position + offset] !== tabId) {
+            await chrome.tabs.move(tabId, { index: firstIndex + position + offset });
+            current = current.filter(id => id !== tabId);
+            current.splice(position + offset, 0, tabId);
+            moves++;
+          }
+        }
+      }
+      
+      position += tabIds.length;
+    }
+    
+    if (moves > 0) {
+      this.options.log(`TabOrderer: Made ${moves} move(s) to order window ${windowId}`);
+    }
+  }
+  
+  /**
+   * Splits the tabs of a window into groups and ungrouped tabs
+   * @param tabs The unpinned tabs, in tab strip order
+   * @param groups The window's groups by ID
+   */
+  private getBlocks(tabs: chrome.tabs.Tab[], groups: Map<number, chrome.tabGroups.TabGroup>): Block[] {
+    const blocks: Block[] = [];
+    
+    for (const tab of tabs) {
+      const group = groups.get(tab.groupId);
+      const last = blocks[blocks.length - 1];
+      if (group && last?.group?.id === group.id) {
+        last.tabs.push(tab);
+      } else {
+        blocks.push({ tabs: [tab], group });
+      }
+    }
+    
+    blocks.forEach(block => {
+      if (block.group) {
+        block.placement = this.options.getPlacement(block.group, block.tabs);
+      }
+    });
+    return blocks;
+  }
+  
+  /**
+   * Works out the order the blocks should end up in
+   * Pinned groups come first. Other groups are sorted into the places groups hold now,
+   * so ungrouped tabs stay put unless they are kept at the end.
+   * @param blocks The blocks in tab strip order
+   * @param policy The global ordering policy
+   */
+  private sortBlocks(blocks: Block[], policy: OrderingPolicy): Block[] {
+    const byTitle = (a: Block, b: Block) =>
+      (a.group!.title || '').localeCompare(b.group!.title || '', undefined, { sensitivity: 'base' });
+    
+    const pinned = blocks
+      .filter(block => block.placement?.pinned)
+      .sort((a, b) => a.placement!.pinRank - b.placement!.pinRank);
+    const others = blocks.filter(block => block.group && !block.placement!.pinned);
+    const ungrouped = blocks.filter(block => !block.group);
+    
+    // Array.prototype.sort is stable, so equal groups keep their current order
+    if (policy.groupOrder === 'alphabetical') {
+      others.sort(byTitle);
+    } else if (policy.groupOrder === 'priority') {
+      others.sort((a, b) => {
+        const rankA = a.placement!.rank;
+        const rankB = b.placement!.rank;
+        return rankA === rankB ? byTitle(a, b) : (rankA < rankB ? -1 : 1);
+      });
+    }
+    
+    if (policy.ungroupedAtEnd) {
+      return [...pinned, ...others, ...ungrouped];
+    }
+    
+    const rest = blocks
+      .filter(block => !block.placement?.pinned)
+      .map(block => block.group ? others.shift()! : block);
+    return [...pinned, ...rest];
+  }
+  
+  /**
+   * Sorts the tabs of a group
+   * Tab IDs grow as tabs are opened, so they give the order tabs were opened in.
+   * @param tabs The tabs of the group
+   * @param tabOrder How to sort them
+   * @returns The tab IDs in order
+   */
+  private sortTabs(tabs: chrome.tabs.Tab[], tabOrder: TabSortOrder): number[] {
+    const sorted = [...tabs];
+    if (tabOrder === 'url') {
+      sorted.sort((a, b) => (a.url || '').localeCompare(b.url || ''));
+    } else if (tabOrder === 'opened') {
+      sorted.sort((a, b) => a.id! - b.id!);
+    }
+    return sorted.map(tab => tab.id!);
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Tab Groups Manager - Tab Update Queue
+ *
+ * Collects tab events and hands them to the grouping code in batches once they settle down.
+ * A tab that fires several events in a row (a redirect chain, a drag between windows) is
+ * queued once, so it is only grouped once.
+ */
+
+export interface TabQueueOptions {
+  process: (tabIds: number[]) => Promise<void>;  // Groups one batch of tabs
+  log: (message: string, level?: 'log' | 'error' | 'warn') => void;
+  delayMs?: number;     // How long the queue must be quiet before it is processed
+  maxWaitMs?: number;   // The longest a queued tab waits, even while events keep arriving
+  batchSize?: number;   // The most tabs handed to process at once
+}
+
+const DEFAULT_DELAY_MS = 300;
+const DEFAULT_MAX_WAIT_MS = 2000;
+const DEFAULT_BATCH_SIZE = 20;
+
+/**
+ * TabUpdateQueue class debounces tab events and processes the queued tabs in batches.
+ *
+ * Every event restarts the delay, but the first queued tab never waits longer than the max wait,
+ * so a steady stream of events can't hold grouping back. Batches run one after another, and tabs
+ * queued while a batch runs are picked up by the next flush.
+ */
+export class TabUpdateQueue {
+  private options: Required<TabQueueOptions>;
+  private pending: Set<number> = new Set();  // Insertion ordered, so tabs are processed in event order
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private firstQueuedAt: number | null = null;
+  private flushChain: Promise<void> = Promise.resolve();
+  
+  constructor(options: TabQueueOptions) {
+    this.options = {
+      delayMs: DEFAULT_DELAY_MS,
+      maxWaitMs: DEFAULT_MAX_WAIT_MS,
+      batchSize: DEFAULT_BATCH_SIZE,
+      ...options
+    };
+  }
+  
+  /**
+   * Queues a tab for grouping, merging it with any update already queued for it
+   * @param tabId The ID of the tab that changed
+   */
+  public enqueue(tabId: number): void {
+    this.pending.add(tabId);
+    
+    const now = Date.now();
+    if (this.firstQueuedAt === null) {
+      this.firstQueuedAt = now;
+    }
+    
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    const delay = Math.min(this.options.delayMs, Math.max(0, this.firstQueuedAt + this.options.maxWaitMs - now));
+    this.timer = setTimeout(() => this.flush(), delay);
+  }
+  
+  /**
+   * Drops a tab from the queue, e.g. because it was closed
+   * @param tabId The ID of the tab
+   */
+  public remove(tabId: number): void {
+    this.pending.delete(tabId);
+  }
+  
+  /**
+   * Gets how many tabs are waiting to be processed
+   */
+  public get size(): number {
+    return this.pending.size;
+  }
+  
+  /**
+   * Processes every queued tab now, in batches
+   * @returns Resolves once the queued tabs have been processed
+   */
+  public flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.firstQueuedAt = null;
+    
+    const tabIds = [...this.pending];
+    this.pending.clear();
+    if (tabIds.length === 0) {
+      return this.flushChain;
+    }
+    
+    this.flushChain = this.flushChain.then(() => this.processBatches(tabIds));
+    return this.flushChain;
+  }
+  
+  /**
+   * Hands the tabs to the processor one batch at a time
+   * A failed batch is logged and the remaining batches still run.
+   * @param tabIds The tabs to process
+   */
+  private async processBatches(tabIds: number[]): Promise<void> {
+    const { batchSize } = this.options;
+    this.options.log(`TabUpdateQueue: Processing ${tabIds.length} queued tab(s)`);
+    
+    for (let start = 0; start < tabIds.length; start += batchSize) {
+      const batch = tabIds.slice(start, start + batchSize);
+      try {
+        await this.options.process(batch);
+      } catch (error: any) {
+        this.options.log(`TabUpdateQueue: Error processing tabs ${batch.join(', ')}: ${error.message}`, "error");
+      }
+    }
+  }
+}
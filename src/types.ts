@@ -0,0 +1,383 @@
+/**
+ * Tab Groups Manager - Shared Types
+ * 
+ * Data shapes shared by the background service and the popup,
+ * as stored in chrome.storage and sent between them.
+ */
+
+/**
+ * The part of a tab's URL that a manual pattern is tested against
+ * - hostname: only the hostname (e.g. "github.com")
+ * - hostPath: hostname followed by the path (e.g. "github.com/our-org/repo")
+ * - url: the full URL including protocol and query string
+ * - queryParam: the value of a single named query parameter
+ */
+export type MatchTarget = 'hostname' | 'hostPath' | 'url' | 'queryParam';
+
+export const MATCH_TARGETS: MatchTarget[] = ['hostname', 'hostPath', 'url', 'queryParam'];
+
+export const GROUP_COLORS: chrome.tabGroups.ColorEnum[] = ['grey', 'blue', 'red', 'yellow', 'green', 'pink', 'purple', 'cyan', 'orange'];
+
+/**
+ * The color of groups created by an auto-pattern
+ * - a group color: every group the pattern creates gets that color
+ * - hash: each group gets a stable color picked from a hash of its name
+ */
+export type AutoPatternColor = chrome.tabGroups.ColorEnum | 'hash';
+
+export const AUTO_PATTERN_COLORS: AutoPatternColor[] = [...GROUP_COLORS, 'hash'];
+
+export interface StoredPattern {
+  patternStr: string;
+  groupName: string;
+  color?: chrome.tabGroups.ColorEnum;
+  matchTarget?: MatchTarget;  // Missing on patterns saved before match targets existed (hostname)
+  queryParam?: string;
+  priority?: number;          // Missing on patterns saved before priorities existed (storage order)
+  housekeeping?: HousekeepingPolicy;  // Overrides the global housekeeping policy for its groups
+  navigationMode?: NavigationMode;    // Overrides the global navigation mode for its tabs
+  ordering?: OrderingPolicy;          // Overrides how its groups are placed and their tabs sorted
+}
+
+export interface StoredAutoPattern {
+  template: string;
+  groupNameTemplate?: string;  // Missing on patterns saved before group name templates existed ({name|capitalize})
+  color?: AutoPatternColor;    // Missing on patterns saved before auto-pattern colors existed (grey)
+  priority?: number;
+  housekeeping?: HousekeepingPolicy;  // Overrides the global housekeeping policy for its groups
+  navigationMode?: NavigationMode;    // Overrides the global navigation mode for its tabs
+  ordering?: OrderingPolicy;          // Overrides how its groups are placed and their tabs sorted
+}
+
+/**
+ * How grouped tabs are placed across browser windows
+ * - sameWindow: group each tab within its own window
+ * - consolidate: keep each group in a single window, moving tabs from other windows into it
+ * - dedicatedWindow: give each group a window of its own
+ */
+export type WindowStrategy = 'sameWindow' | 'consolidate' | 'dedicatedWindow';
+
+export const WINDOW_STRATEGIES: WindowStrategy[] = ['sameWindow', 'consolidate', 'dedicatedWindow'];
+
+/**
+ * Built-in grouping by registrable domain (eTLD+1), used when no manual or auto-pattern matches
+ * - off: don't group by registrable domain
+ * - icann: only ICANN suffixes are public, so "foo.github.io" groups as "github.io"
+ * - private: private suffixes are public too, so "foo.github.io" groups as "foo.github.io"
+ */
+export type RegistrableDomainMode = 'off' | 'icann' | 'private';
+
+export const REGISTRABLE_DOMAIN_MODES: RegistrableDomainMode[] = ['off', 'icann', 'private'];
+
+/**
+ * What happens to a tab the extension grouped when it navigates to a URL its group's rule no longer matches
+ * - sticky: the tab stays in its group
+ * - follow: the tab moves to the group its new URL belongs in, or out of its group if no rule matches
+ * Tabs grouped by hand are never moved.
+ */
+export type NavigationMode = 'sticky' | 'follow';
+
+export const NAVIGATION_MODES: NavigationMode[] = ['sticky', 'follow'];
+
+/**
+ * What an exclusion rule matches
+ * - domain: the hostname is the domain or one of its subdomains
+ * - urlPattern: a regex tested against the full URL
+ */
+export type ExclusionType = 'domain' | 'urlPattern';
+
+export const EXCLUSION_TYPES: ExclusionType[] = ['domain', 'urlPattern'];
+
+export interface ExclusionRule {
+  type: ExclusionType;
+  value: string;   // The domain, or the regex source
+}
+
+/**
+ * Tabs that are never grouped automatically, whichever rule matches them
+ */
+export interface ExclusionSettings {
+  rules: ExclusionRule[];
+  excludePinned?: boolean;
+  excludeIncognito?: boolean;
+}
+
+/**
+ * The kind of rule that put a tab in a group: a manual pattern, an auto-pattern or registrable domain grouping
+ */
+export type RuleType = 'manual' | 'auto' | 'domain';
+
+/**
+ * What happens to a group that has been idle longer than its close threshold
+ * - close: its tabs are closed
+ * - saveAndClose: the group is saved so it can be restored from the popup, then its tabs are closed
+ */
+export type IdleGroupAction = 'close' | 'saveAndClose';
+
+export const IDLE_GROUP_ACTIONS: IdleGroupAction[] = ['close', 'saveAndClose'];
+
+/**
+ * Housekeeping applied to groups on a schedule. A group is idle when none of its tabs has been
+ * activated, loaded or added, and the group hasn't been expanded, for the given time.
+ * The global policy leaves unset fields off; a rule's policy leaves them to the global policy.
+ * A threshold of 0 turns that step off.
+ */
+export interface HousekeepingPolicy {
+  collapseAfterMinutes?: number;  // Collapse groups idle this long
+  ungroupSingletons?: boolean;    // Ungroup groups that have dropped to a single tab
+  closeAfterMinutes?: number;     // Close groups idle this long
+  closeAction?: IdleGroupAction;  // How idle groups are closed, 'close' when unset
+}
+
+/**
+ * How groups are ordered in each window
+ * - none: groups stay where they were created
+ * - alphabetical: by title
+ * - priority: by the priority of the rule that creates them, manual patterns first, then other groups by title
+ */
+export type GroupSortOrder = 'none' | 'alphabetical' | 'priority';
+
+export const GROUP_SORT_ORDERS: GroupSortOrder[] = ['none', 'alphabetical', 'priority'];
+
+/**
+ * How tabs are ordered within a group
+ * - none: tabs stay where they were added
+ * - url: by URL
+ * - opened: by when they were opened, oldest first
+ */
+export type TabSortOrder = 'none' | 'url' | 'opened';
+
+export const TAB_SORT_ORDERS: TabSortOrder[] = ['none', 'url', 'opened'];
+
+/**
+ * Where groups and tabs are placed in the tab strip. Pinned tabs always stay first.
+ * A rule's policy can only set tabOrder and pinLeft, and leaves unset fields to the global policy.
+ */
+export interface OrderingPolicy {
+  groupOrder?: GroupSortOrder;  // Global only, 'none' when unset
+  ungroupedAtEnd?: boolean;     // Global only: keep ungrouped tabs after the groups
+  tabOrder?: TabSortOrder;      // 'none' when unset
+  pinLeft?: boolean;            // Rule only: keep the rule's groups at the left of the window
+  pinnedGroups?: string[];      // Global only: titles of groups kept at the left, in this order
+}
+
+/**
+ * A group closed by housekeeping, kept so it can be restored
+ */
+export interface SavedGroup {
+  title: string;
+  color: chrome.tabGroups.ColorEnum;
+  urls: string[];
+  savedAt: string;
+}
+
+/**
+ * A group kept in a workspace
+ */
+export interface WorkspaceGroup {
+  title: string;
+  color: chrome.tabGroups.ColorEnum;
+  collapsed: boolean;
+  urls: string[];   // In tab strip order
+}
+
+/**
+ * A named snapshot of the groups in a window, so the layout can be reopened later
+ */
+export interface Workspace {
+  name: string;
+  groups: WorkspaceGroup[];   // In tab strip order
+  savedAt: string;            // When the window was last captured
+}
+
+/**
+ * A single planned move from a grouping preview
+ */
+export interface GroupingPlanEntry {
+  tabId: number;
+  windowId: number;
+  title: string;
+  url: string;
+  groupName: string;
+  color?: chrome.tabGroups.ColorEnum;
+  ruleType: RuleType;           // Whether a manual pattern, auto-pattern or registrable domain matched
+  rule: string;                 // The pattern source, auto-pattern template or registrable domain that matched
+}
+
+/**
+ * The result of testing a single rule against a tab, used by the explainer
+ */
+export interface RuleEvaluation {
+  ruleType: RuleType;
+  rule: string;             // The pattern source, auto-pattern template or registrable domain
+  priority: number | null;  // null for registrable domain grouping, which comes after all rules
+  subject: string | null;   // The part of the URL the rule was tested against
+  evaluated: boolean;       // False when the rule was skipped (e.g. auto-patterns disabled)
+  matched: boolean;
+  groupName?: string;       // The group the rule would put the tab in, if it matched
+  reason: string;
+}
+
+/**
+ * Which rule the rule tester found for a URL
+ */
+export interface RuleTestResult {
+  url: string;
+  error?: string;       // Why the URL couldn't be tested
+  excluded?: string;    // Why the URL is never grouped, if an exclusion applies
+  ruleType?: RuleType;  // The winning rule, unset when no rule matches
+  rule?: string;
+  draft?: boolean;      // Whether the winner is the draft rule being tested
+  groupName?: string;
+  color?: chrome.tabGroups.ColorEnum;
+  subject?: string;     // The part of the URL the winning rule was tested against
+  matchStart?: number;  // Where the match starts in the subject
+  matchEnd?: number;    // Where the match ends in the subject
+}
+
+/**
+ * How many open tabs a draft rule would capture
+ */
+export interface DraftRuleCount {
+  matched: number;    // Open tabs the draft rule matches
+  captured: number;   // Ungrouped, not excluded tabs it would group, which no higher priority rule takes
+}
+
+/**
+ * Explains how the rules apply to a tab and which rule wins
+ */
+export interface TabExplanation {
+  tabId: number;
+  url: string;
+  evaluations: RuleEvaluation[];
+  winner: RuleEvaluation | null;
+  summary: string;
+}
+
+/**
+ * How imported rules are combined with the existing ones
+ * - replace: the imported rules and settings replace the current ones
+ * - append: the imported rules are added after the current ones
+ * - skipDuplicates: like append, but rules that already exist are left out
+ */
+export type ImportStrategy = 'replace' | 'append' | 'skipDuplicates';
+
+export const IMPORT_STRATEGIES: ImportStrategy[] = ['replace', 'append', 'skipDuplicates'];
+
+/**
+ * A rule deleted while rules were synced, kept so merging with another device's rules doesn't bring it back
+ */
+export interface RuleTombstone {
+  key: string;        // "manual:<match target, query parameter and pattern>" or "auto:<template>"
+  revision: number;   // The synced revision the rule was deleted after, the oldest tombstones are dropped first
+}
+
+/**
+ * A rule set file, as written by export and read by import
+ */
+export interface RuleSet {
+  version: number;
+  exportedAt: string;
+  domainPatterns: StoredPattern[];
+  autoPatterns: StoredAutoPattern[];
+  deletedRules?: RuleTombstone[];   // Only in synced rule sets
+  settings: {
+    enableAutoPatterns?: boolean;
+    windowStrategy?: WindowStrategy;
+    registrableDomainMode?: RegistrableDomainMode;
+    processBackgroundTabs?: boolean;
+    navigationMode?: NavigationMode;
+    housekeeping?: HousekeepingPolicy;
+    exclusions?: ExclusionSettings;
+    ordering?: OrderingPolicy;
+    groupColorOverrides?: Record<string, chrome.tabGroups.ColorEnum>;
+  };
+}
+
+export interface ImportResult {
+  success: boolean;
+  errors: string[];         // One entry per invalid field or rule, empty when the import succeeded
+  importedPatterns: number;
+  importedAutoPatterns: number;
+  skipped: number;          // Rules left out because they already exist
+}
+
+/**
+ * How syncing rules across devices is going, shown in the popup
+ * - off: sync is not enabled, rules are only stored on this device
+ * - syncing: a change is waiting to be written
+ * - synced: the rules on this device match the synced ones
+ * - fallback: the last sync failed, rules are only stored on this device until the next successful sync
+ */
+export type SyncState = 'off' | 'syncing' | 'synced' | 'fallback';
+
+export interface SyncStatus {
+  state: SyncState;
+  warning?: string;       // Why sync fell back to local storage
+  lastSyncedAt?: string;
+}
+
+/**
+ * How serious a log entry is
+ */
+export type LogLevel = 'log' | 'warn' | 'error';
+
+export interface LogEntry {
+  timestamp: string;    // ISO 8601
+  level: LogLevel;
+  category: string;     // The part of the extension that logged it, e.g. "TabGroupManager" or "Housekeeping"
+  tabId?: number;       // The tab the entry is about, if any
+  ruleId?: string;      // The rule the entry is about, as "<rule type>:<pattern source, template or domain>"
+  message: string;
+}
+
+/**
+ * How much a manual pattern or auto-pattern has been used on this device
+ */
+export interface RuleUsage {
+  matches: number;          // Times it picked the group for a tab
+  tabsGrouped: number;      // Times it moved a tab into a group, i.e. matches the tab wasn't already grouped for
+  lastMatchedAt?: string;   // Missing until it first matches
+  trackedSince: string;     // When usage tracking started for the rule, i.e. when it was added or this feature installed
+}
+
+export interface RuleUsageReport extends RuleUsage {
+  unused: boolean;          // It hasn't matched in the unused rule threshold, counting from when it was tracked
+}
+
+/**
+ * Where a tab was before a grouping operation moved it
+ */
+export interface GroupingMove {
+  tabId: number;
+  windowId: number;
+  index: number;
+  groupId: number;    // chrome.tabGroups.TAB_GROUP_ID_NONE if it was ungrouped
+  group?: {           // The group it was in, so it can be rebuilt if it has closed since
+    title: string;
+    color: chrome.tabGroups.ColorEnum;
+    collapsed: boolean;
+  };
+}
+
+/**
+ * One grouping operation, e.g. "Group Existing Tabs" or a single tab grouped by a rule, that can be undone
+ */
+export interface GroupingOperation {
+  label: string;
+  startedAt: string;
+  moves: GroupingMove[];      // At most one per tab, where it was before the operation
+  createdGroups: number[];    // The IDs of the groups the operation created
+}
+
+/**
+ * How far a batch grouping run has got, shown in the popup while it runs
+ */
+export interface GroupingProgress {
+  label: string;              // What is being grouped, e.g. "Group existing tabs"
+  phase: 'planning' | 'grouping' | 'done';
+  groupsDone: number;
+  groupsTotal: number;
+  tabsDone: number;
+  tabsTotal: number;
+}
@@ -0,0 +1,217 @@
+/**
+ * Tab Groups Manager - Undo Journal
+ *
+ * Records where tabs were before each grouping operation moved them, so the last operation can
+ * be undone: its tabs go back to their previous groups, windows and positions, and the groups it
+ * created are removed. Groups that have closed since are rebuilt from their recorded title and
+ * color. Tabs that other things have moved since, such as the tab order policies, may not land
+ * exactly where they were. The journal is kept in chrome.storage.session, so it survives the service worker being
+ * stopped but not a browser restart, after which tab and group IDs no longer match.
+ */
+
+import { GroupingMove, GroupingOperation } from './types';
+
+export interface UndoJournalOptions {
+  releaseTab: (tabId: number) => void;   // Keeps a tab that was put back out of its group from being grouped again right away
+  log: (message: string, level?: 'log' | 'error' | 'warn') => void;
+  maxOperations?: number;                // The most operations kept, the oldest are dropped first
+}
+
+const STORAGE_KEY = 'undoJournal';
+const DEFAULT_MAX_OPERATIONS = 20;
+
+/**
+ * UndoJournal class records grouping operations and undoes them, the most recent first.
+ *
+ * An operation is journaled as soon as it begins, so one that is interrupted part way can still
+ * be undone. Operations that end up moving no tabs are dropped when they end.
+ */
+export class UndoJournal {
+  private options: Required<UndoJournalOptions>;
+  private operations: GroupingOperation[] = [];   // Oldest first
+  private ready: Promise<void>;
+  
+  constructor(options: UndoJournalOptions) {
+    this.options = { maxOperations: DEFAULT_MAX_OPERATIONS, ...options };
+    
+    this.ready = chrome.storage.session.get(STORAGE_KEY)
+      .then((result) => {
+        this.operations = [...(result[STORAGE_KEY] || []), ...this.operations];
+      })
+      .catch((error: any) => {
+        this.options.log(`UndoJournal: Error loading the undo journal: ${error.message}`, "error");
+      });
+  }
+  
+  /**
+   * Starts journaling an operation
+   * @param label What the operation did, shown in the popup
+   * @returns The operation, to record its moves in
+   */
+  public begin(label: string): GroupingOperation {
+    const operation: GroupingOperation = { label, startedAt: new Date().toISOString(), moves: [], createdGroups: [] };
+    this.operations.push(operation);
+    this.operations.splice(0, Math.max(0, this.operations.length - this.options.maxOperations));
+    return operation;
+  }
+  
+  /**
+   * Captures where a tab is, before an operation moves it
+   * @param tab The tab
+   * @returns Where the tab is, for recordMove
+   */
+  public async capture(tab: chrome.tabs.Tab): Promise<GroupingMove> {
+    const move: GroupingMove = { tabId: tab.id!, windowId: tab.windowId, index: tab.index, groupId: tab.groupId };
+    if (tab.groupId !== chrome.tabGroups.TAB_GROUP_ID_NONE) {
+      const group = await chrome.tabGroups.get(tab.groupId);
+      move.group = { title: group.title || '', color: group.color, collapsed: group.collapsed };
+    }
+    return move;
+  }
+  
+  /**
+   * Records where a tab was before the operation moved it
+   * Only the first move of a tab is kept, since that is where undoing puts it back.
+   * @param operation The operation that moved the tab
+   * @param move Where the tab was, from capture
+   */
+  public recordMove(operation: GroupingOperation, move: GroupingMove): void {
+    if (operation.moves.some(other => other.tabId === move.tabId)) {
+      return;
+    }
+    operation.moves.push(move);
+    this.save();
+  }
+  
+  /**
+   * Records a group the operation created
+   * @param operation The operation
+   * @param groupId The ID of the new group
+   */
+  public recordCreatedGroup(operation: GroupingOperation, groupId: number): void {
+    operation.createdGroups.push(groupId);
+    this.save();
+  }
+  
+  /**
+   * Finishes journaling an operation, dropping it if it moved no tabs
+   * @param operation The operation
+   */
+  public end(operation: GroupingOperation): void {
+    if (operation.moves.length === 0) {
+      this.operations = this.operations.filter(other => other !== operation);
+    }
+    this.save();
+  }
+  
+  /**
+   * Gets the operation that undoing would undo
+   * @returns The most recent operation, or null if there is nothing to undo
+   */
+  public async getLastOperation(): Promise<GroupingOperation | null> {
+    await this.ready;
+    return this.operations[this.findLastIndex()] || null;
+  }
+  
+  /**
+   * Undoes the most recent operation
+   * Tabs that have closed since are skipped.
+   * @returns The operation that was undone, or null if there was nothing to undo
+   */
+  public async undoLast(): Promise<GroupingOperation | null> {
+    await this.ready;
+    const index = this.findLastIndex();
+    if (index === -1) {
+      return null;
+    }
+    const [operation] = this.operations.splice(index, 1);
+    this.save();
+    
+    const openTabIds = new Set((await chrome.tabs.query({})).map(tab => tab.id));
+    const moves = operation.moves.filter(move => openTabIds.has(move.tabId));
+    
+    // Each move was recorded just before it was made, so undoing them in reverse order
+    // steps back through the same states to where the tabs were before the operation
+    const rebuiltGroups: Map<number, number> = new Map();   // Recorded group ID -> rebuilt group ID
+    for (const move of [...moves].reverse()) {
+      try {
+        // Grouping a tab moves it next to its group, so it is put back in place afterwards
+        await this.restoreGroup(move, rebuiltGroups);
+        await chrome.tabs.move(move.tabId, { windowId: move.windowId, index: move.index });
+        
+        // Moving a tab next to another group can pull it in, so check its group once more
+        const tab = await chrome.tabs.get(move.tabId);
+        if (tab.groupId !== (rebuiltGroups.get(move.groupId) ?? move.groupId)) {
+          await this.restoreGroup(move, rebuiltGroups);
+        }
+      } catch (error: any) {
+        this.options.log(`UndoJournal: Error putting tab ${move.tabId} back: ${error.message}`, "error");
+      }
+    }
+    
+    // Groups the operation created are gone once their tabs have moved back, unless other tabs have joined them
+    for (const groupId of operation.createdGroups) {
+      const tabs = await chrome.tabs.query({ groupId });
+      const tabIds = tabs.map(tab => tab.id!);
+      if (tabIds.length > 0) {
+        await chrome.tabs.ungroup(tabIds);
+        tabIds.forEach(tabId => this.options.releaseTab(tabId));
+      }
+    }
+    
+    this.options.log(`UndoJournal: Undid "${operation.label}", putting back ${moves.length} tab(s)`);
+    return operation;
+  }
+  
+  /**
+   * Puts a tab back in the group it was in, or takes it out of its group if it was ungrouped
+   * @param move Where the tab was
+   * @param rebuiltGroups Groups rebuilt so far, updated when the tab's group has to be rebuilt
+   */
+  private async restoreGroup(move: GroupingMove, rebuiltGroups: Map<number, number>): Promise<void> {
+    if (move.groupId === chrome.tabGroups.TAB_GROUP_ID_NONE) {
+      await chrome.tabs.ungroup(move.tabId);
+      this.options.releaseTab(move.tabId);
+      return;
+    }
+    
+    const groupId = rebuiltGroups.get(move.groupId) ?? move.groupId;
+    const exists = await chrome.tabGroups.get(groupId).then(() => true, () => false);
+    if (exists) {
+      await chrome.tabs.group({ groupId, tabIds: move.tabId });
+      return;
+    }
+    
+    // The group closed when its last tab left, so rebuild it
+    const newGroupId = await chrome.tabs.group({ tabIds: move.tabId, createProperties: { windowId: move.windowId } });
+    if (move.group) {
+      await chrome.tabGroups.update(newGroupId, move.group);
+    }
+    rebuiltGroups.set(move.groupId, newGroupId);
+  }
+  
+  /**
+   * Finds the most recent operation that moved any tabs
+   * Operations still running are included, so far as they have got.
+   * @returns Its position in the journal, or -1 if there is none
+   */
+  private findLastIndex(): number {
+    for (let i = this.operations.length - 1; i >= 0; i--) {
+      if (this.operations[i].moves.length > 0) {
+        return i;
+      }
+    }
+    return -1;
+  }
+  
+  /**
+   * Stores the journal
+   */
+  private save(): void {
+    this.ready
+      .then(() => chrome.storage.session.set({ [STORAGE_KEY]: this.operations }))
+      .catch((error: any) => {
+        this.options.log(`UndoJournal: Error saving the undo journal: ${error.message}`, "error");
+      });
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Tab Groups Manager - Workspaces
+ *
+ * Saves the groups of a window as a named workspace (each group's title, color, collapsed state
+ * and tab URLs) and reopens them later, in a new window or an existing one. Ungrouped tabs aren't
+ * part of a workspace. Workspaces are kept in chrome.storage.local, so they outlive the browser
+ * session, but aren't synced with the rules.
+ */
+
+import { GroupingOperation, Workspace, WorkspaceGroup } from './types';
+
+export interface WorkspaceManagerOptions {
+  groupTabs: (tabIds: number[], group: WorkspaceGroup, windowId: number, operation: GroupingOperation) => Promise<number>;  // Puts reopened tabs in their group, returning its ID
+  setRestoring: (tabId: number, restoring: boolean) => void;  // Keeps rule-based grouping away from a tab while it is restored
+  log: (message: string, level?: 'log' | 'error' | 'warn') => void;
+}
+
+const STORAGE_KEY = 'workspaces';
+
+/**
+ * Finds a workspace by name, ignoring case
+ * @param workspaces The workspaces to search
+ * @param name The name to look for
+ * @returns The workspace's position in the list, or -1 if there is none by that name
+ */
+export function findWorkspace(workspaces: Workspace[], name: string): number {
+  const wanted = name.trim().toLowerCase();
+  return workspaces.findIndex(workspace => workspace.name.toLowerCase() === wanted);
+}
+
+/**
+ * WorkspaceManager class saves, lists and restores workspaces.
+ */
+export class WorkspaceManager {
+  private options: WorkspaceManagerOptions;
+  
+  constructor(options: WorkspaceManagerOptions) {
+    this.options = options;
+  }
+  
+  /**
+   * Gets the stored workspaces, in the order they were created
+   */
+  public async getWorkspaces(): Promise<Workspace[]> {
+    const result = await chrome.storage.local.get(STORAGE_KEY);
+    return Array.isArray(result[STORAGE_KEY]) ? result[STORAGE_KEY] : [];
+  }
+  
+  /**
+   * Saves the groups of a window as a new workspace
+   * @param name The workspace's name, which must not be taken
+   * @param windowId The ID of the window to capture
+   * @returns Whether the workspace was saved, false if the window has no groups
+   */
+  public async save(name: string, windowId: number): Promise<boolean> {
+    const groups = await this.captureWindow(windowId);
+    if (groups.length === 0) {
+      return false;
+    }
+    
+    const workspaces = await this.getWorkspaces();
+    workspaces.push({ name: name.trim(), groups, savedAt: new Date().toISOString() });
+    await this.store(workspaces);
+    
+    this.options.log(`Workspaces: Saved "${name.trim()}" with ${groups.length} group(s) from window ${windowId}`);
+    return true;
+  }
+  
+  /**
+   * Replaces the groups of a workspace with the groups of a window
+   * @param index The workspace's position in the list, which must exist
+   * @param windowId The ID of the window to capture
+   * @returns Whether the workspace was updated, false if the window has no groups
+   */
+  public async update(index: number, windowId: number): Promise<boolean> {
+    const groups = await this.captureWindow(windowId);
+    if (groups.length === 0) {
+      return false;
+    }
+    
+    const workspaces = await this.getWorkspaces();
+    workspaces[index] = { ...workspaces[index], groups, savedAt: new Date().toISOString() };
+    await this.store(workspaces);
+    
+    this.options.log(`Workspaces: Updated "${workspaces[index].name}" with ${groups.length} group(s) from window ${windowId}`);
+    return true;
+  }
+  
+  /**
+   * Renames a workspace
+   * @param index The workspace's position in the list, which must exist
+   * @param name The new name, which must not be taken
+   */
+  public async rename(index: number, name: string): Promise<void> {
+    const workspaces = await this.getWorkspaces();
+    const oldName = workspaces[index].name;
+    workspaces[index] = { ...workspaces[index], name: name.trim() };
+    await this.store(workspaces);
+    
+    this.options.log(`Workspaces: Renamed "${oldName}" to "${name.trim()}"`);
+  }
+  
+  /**
+   * Deletes a workspace. Its tabs are left open.
+   * @param index The workspace's position in the list
+   * @returns Whether the workspace existed
+   */
+  public async remove(index: number): Promise<boolean> {
+    const workspaces = await this.getWorkspaces();
+    if (!Number.isInteger(index) || !workspaces[index]) {
+      return false;
+    }
+    
+    const [removed] = workspaces.splice(index, 1);
+    await this.store(workspaces);
+    
+    this.options.log(`Workspaces: Deleted "${removed.name}"`);
+    return true;
+  }
+  
+  /**
+   * Reopens the tabs of a workspace and rebuilds its groups
+   * @param index The workspace's position in the list
+   * @param operation The operation to journal the groups in, so the restore can be undone at once
+   * @param windowId The window to restore into, or undefined to open a new window
+   * @returns Whether the workspace exists
+   */
+  public async restore(index: number, operation: GroupingOperation, windowId?: number): Promise<boolean> {
+    const workspaces = await this.getWorkspaces();
+    const workspace = Number.isInteger(index) ? workspaces[index] : undefined;
+    if (!workspace) {
+      return false;
+    }
+    
+    await this.restoreGroups(workspace.name, workspace.groups, operation, windowId);
+    return true;
+  }
+  
+  /**
+   * Reopens the tabs of some groups and rebuilds the groups
+   * Groups are added to the window as they are, so a group with the same title as one the window
+   * already has is merged into it. Every tab is opened first, then each group is built in one go.
+   * A tab that can't be opened or a group that can't be built is logged and skipped.
+   * @param name What is being restored, for the log
+   * @param groups The groups to rebuild, in tab strip order
+   * @param operation The operation to journal the groups in, so the restore can be undone at once
+   * @param windowId The window to restore into, or undefined to open a new window
+   * @returns The number of tabs reopened into their group
+   */
+  public async restoreGroups(name: string, groups: WorkspaceGroup[], operation: GroupingOperation, windowId?: number): Promise<number> {
+    // A new window comes with a blank tab, which is closed once the tabs are open
+    let blankTabId: number | undefined;
+    if (windowId === undefined) {
+      const window = await chrome.windows.create({ focused: true });
+      windowId = window.id!;
+      blankTabId = window.tabs?.[0]?.id;
+    }
+    
+    const opened: { group: WorkspaceGroup; tabIds: number[] }[] = [];
+    let tabCount = 0;
+    
+    try {
+      for (const group of groups) {
+        const tabIds: number[] = [];
+        for (const url of group.urls) {
+          try {
+            const tab = await chrome.tabs.create({ url, windowId, active: false });
+            this.options.setRestoring(tab.id!, true);
+            tabIds.push(tab.id!);
+          } catch (error: any) {
+            // Some URLs, such as other extensions' pages, can't be opened
+            this.options.log(`Workspaces: Error reopening ${url}: ${error.message}`, "error");
+          }
+        }
+        opened.push({ group, tabIds });
+      }
+      
+      for (const { group, tabIds } of opened) {
+        if (tabIds.length === 0) {
+          continue;
+        }
+        
+        try {
+          const groupId = await this.options.groupTabs(tabIds, group, windowId, operation);
+          await chrome.tabGroups.update(groupId, { collapsed: group.collapsed });
+          tabCount += tabIds.length;
+        } catch (error: any) {
+          this.options.log(`Workspaces: Error rebuilding group "${group.title}": ${error.message}`, "error");
+        }
+      }
+    } finally {
+      opened.forEach(({ tabIds }) => tabIds.forEach(tabId => this.options.setRestoring(tabId, false)));
+    }
+    
+    if (blankTabId !== undefined && tabCount > 0) {
+      await chrome.tabs.remove(blankTabId);
+    }
+    
+    this.options.log(`Workspaces: Restored "${name}" with ${tabCount} tab(s) into window ${windowId}`);
+    return tabCount;
+  }
+  
+  /**
+   * Captures the groups of a window
+   * @param windowId The ID of the window
+   * @returns The groups, in tab strip order
+   */
+  private async captureWindow(windowId: number): Promise<WorkspaceGroup[]> {
+    const tabs = (await chrome.tabs.query({ windowId })).sort((a, b) => a.index - b.index);
+    const groups = new Map((await chrome.tabGroups.query({ windowId })).map(group => [group.id, group]));
+    const captured: Map<number, WorkspaceGroup> = new Map();
+    
+    for (const tab of tabs) {
+      const group = groups.get(tab.groupId);
+      const url = tab.url || tab.pendingUrl;
+      if (!group || !url) {
+        continue;
+      }
+      
+      if (!captured.has(group.id)) {
+        captured.set(group.id, { title: group.title || '', color: group.color, collapsed: group.collapsed, urls: [] });
+      }
+      captured.get(group.id)!.urls.push(url);
+    }
+    
+    return [...captured.values()];
+  }
+  
+  /**
+   * Stores the workspaces
+   * @param workspaces Every workspace
+   */
+  private async store(workspaces: Workspace[]): Promise<void> {
+    await chrome.storage.local.set({ [STORAGE_KEY]: workspaces });
+  }
+}